@@ -0,0 +1,48 @@
+/**
+ * Validator Performance Tests
+ * Verifies era points statistics include active validators that earned no points
+ */
+
+import { createTestDatabase, type TestDatabase } from '../utils/testDatabase';
+
+describe('Validator performance', () => {
+  let testDb: TestDatabase;
+
+  // Era 11 is snapshotted; its active set was elected during era 10
+  beforeEach(() => {
+    testDb = createTestDatabase();
+    const db = testDb.indexerDb;
+
+    db.prepare('INSERT INTO era_rewards (era_id, validator_payout, total_points, updated_at) VALUES (11, NULL, 600, 0)').run();
+    const points = db.prepare('INSERT INTO era_validator_rewards (era_id, validator, points) VALUES (11, ?, ?)');
+    points.run('alice', 200);
+    points.run('bob', 200);
+    points.run('charlie', 200);
+
+    const elected = db.prepare('INSERT INTO era_elected_validators (era_id, validator) VALUES (?, ?)');
+    for (const validator of ['alice', 'bob', 'charlie', 'dave']) {
+      elected.run(10, validator);
+    }
+    // Elected for the next era, not active in era 11
+    elected.run(11, 'eve');
+  });
+
+  afterEach(() => {
+    testDb.cleanup();
+  });
+
+  it('should flag an active validator without reward points as underperforming', () => {
+    const era = testDb.client.getEraValidatorPoints(11, 0.5)!;
+
+    expect(era).toMatchObject({ validatorCount: 4, eraAverage: 150, eraMedian: 200 });
+    expect(era.validators[0]).toEqual({ validator: 'dave', points: 0, ratioToMedian: 0, underperforming: true });
+    expect(era.validators.map(v => v.validator)).not.toContain('eve');
+  });
+
+  it('should include eras without points in a validator history', () => {
+    const performance = testDb.client.getValidatorPerformance('dave', 10, 0.5)!;
+
+    expect(performance).toMatchObject({ erasActive: 1, totalPoints: 0, underperformingEras: 1 });
+    expect(testDb.client.getValidatorPerformance('eve', 10, 0.5)).toBeNull();
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * Notification Service Tests
+ * Verifies the warning cursor and delivery / retries against a local HTTP stand-in target
+ */
+
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { NotificationService, type NotificationConfig, type NotificationTarget } from '../../services/NotificationService';
+import { createTestDatabase, type TestDatabase } from '../utils/testDatabase';
+
+interface ReceivedRequest {
+  method: string;
+  url: string;
+  authorization: string | undefined;
+  body: any;
+}
+
+/**
+ * Local stand-in for webhook / Slack / Matrix targets; answers 500 to the first `failFirst` requests
+ */
+class StandIn {
+  requests: ReceivedRequest[] = [];
+  failFirst = 0;
+  private server: Server;
+
+  constructor() {
+    this.server = createServer((req: IncomingMessage, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        this.requests.push({ method: req.method!, url: req.url!, authorization: req.headers.authorization, body: JSON.parse(body) });
+
+        if (this.failFirst > 0) {
+          this.failFirst--;
+          res.writeHead(500, { 'Content-Type': 'text/plain' });
+          res.end('Simulated failure');
+          return;
+        }
+
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ ok: true }));
+      });
+    });
+  }
+
+  listen(): Promise<string> {
+    return new Promise(resolve => {
+      this.server.listen(0, '127.0.0.1', () => {
+        resolve(`http://127.0.0.1:${(this.server.address() as AddressInfo).port}`);
+      });
+    });
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+}
+
+describe('NotificationService', () => {
+  let testDb: TestDatabase;
+  let standIn: StandIn;
+  let baseUrl: string;
+  let mockLogger: any;
+
+  const createService = (targets: NotificationTarget[], overrides: Partial<NotificationConfig> = {}) =>
+    new NotificationService(testDb.client, 'kusama', {
+      targets,
+      minSeverity: 'error',
+      maxPerHour: 12,
+      maxAttempts: 3,
+      retryBaseMs: 30000,
+      ...overrides,
+    }, mockLogger);
+
+  beforeEach(async () => {
+    testDb = createTestDatabase();
+    standIn = new StandIn();
+    baseUrl = await standIn.listen();
+
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+      child: jest.fn(function(this: any) { return this; }),
+    };
+  });
+
+  afterEach(async () => {
+    testDb.cleanup();
+    await standIn.close();
+  });
+
+  describe('Warning cursor', () => {
+    let service: NotificationService;
+
+    beforeEach(() => {
+      service = createService([{ name: 'webhook', type: 'webhook', url: `${baseUrl}/webhook` }]);
+      // Delivery is covered below; only queueing is checked here
+      jest.spyOn(service, 'dispatch').mockResolvedValue();
+    });
+
+    it('should queue warnings at or above the minimum severity and move the cursor past the rest', () => {
+      testDb.insertWarning('error');
+      testDb.insertWarning('warning');
+      const lastId = testDb.insertWarning('info');
+
+      service.checkNewWarnings();
+
+      const [notification] = testDb.client.getNotifications();
+      expect(notification).toMatchObject({ target: 'webhook', warningCount: 1, status: 'pending' });
+      expect(testDb.client.getState('notificationLastWarningId')).toBe(String(lastId));
+    });
+
+    it('should page through more warnings than one read returns', () => {
+      for (let i = 0; i < 1203; i++) {
+        testDb.insertWarning(i % 3 === 0 ? 'error' : 'warning');
+      }
+
+      service.checkNewWarnings();
+
+      expect(testDb.client.getNotifications()[0].warningCount).toBe(401);
+      expect(testDb.client.getState('notificationLastWarningId')).toBe('1203');
+    });
+
+    it('should notify a warning inserted while the previous check was reading', () => {
+      testDb.insertWarning('error');
+
+      // The indexer inserts a warning right after the service has read the table
+      const read = testDb.client.getWarningsAfterId.bind(testDb.client);
+      jest.spyOn(testDb.client, 'getWarningsAfterId').mockImplementationOnce((afterId, limit) => {
+        const warnings = read(afterId, limit);
+        testDb.insertWarning('error', 'Inserted during the check');
+        return warnings;
+      });
+
+      service.checkNewWarnings();
+      expect(testDb.client.getState('notificationLastWarningId')).toBe('1');
+
+      service.checkNewWarnings();
+      expect(testDb.client.getNotifications()[0].warningCount).toBe(2);
+      expect(testDb.client.getState('notificationLastWarningId')).toBe('2');
+    });
+
+    it('should start from the latest warning on first start', () => {
+      testDb.insertWarning('error');
+      service.start();
+      service.stop();
+
+      service.checkNewWarnings();
+
+      expect(testDb.client.getNotifications()).toEqual([]);
+    });
+  });
+
+  describe('Delivery', () => {
+    const queue = (target: string) => {
+      testDb.insertWarning('error', 'Session report is late');
+      const [warning] = testDb.client.getWarningsAfterId(0, 1);
+      return testDb.client.enqueueNotification(target, [warning]);
+    };
+
+    it('should post webhook and Slack payloads and mark them sent', async () => {
+      const service = createService([
+        { name: 'webhook', type: 'webhook', url: `${baseUrl}/webhook` },
+        { name: 'slack', type: 'slack', url: `${baseUrl}/slack` },
+      ]);
+      queue('webhook');
+      queue('slack');
+
+      await service.dispatch();
+
+      expect(standIn.requests.map(r => [r.method, r.url])).toEqual([['POST', '/webhook'], ['POST', '/slack']]);
+      expect(standIn.requests[0].body).toMatchObject({ source: 'staking-command-center', chain: 'kusama', warnings: [expect.objectContaining({ message: 'Session report is late' })] });
+      expect(standIn.requests[1].body.text).toContain('Session report is late');
+      expect(testDb.client.getNotifications().map(n => n.status)).toEqual(['sent', 'sent']);
+    });
+
+    it('should PUT Matrix messages with the access token and an idempotent transaction id', async () => {
+      const service = createService([{ name: 'matrix', type: 'matrix', url: `${baseUrl}/_matrix/client/v3/rooms/room/send/m.room.message`, accessToken: 'secret' }]);
+      const id = queue('matrix');
+
+      await service.dispatch();
+
+      expect(standIn.requests).toEqual([expect.objectContaining({
+        method: 'PUT',
+        url: `/_matrix/client/v3/rooms/room/send/m.room.message/scc-kusama-${id}`,
+        authorization: 'Bearer secret',
+      })]);
+    });
+
+    it('should retry a failed delivery with backoff and give up after maxAttempts', async () => {
+      jest.useFakeTimers({ doNotFake: ['setImmediate', 'nextTick', 'queueMicrotask'] });
+      const service = createService([{ name: 'webhook', type: 'webhook', url: `${baseUrl}/webhook` }]);
+      standIn.failFirst = 3;
+      queue('webhook');
+
+      await service.dispatch();
+      let [notification] = testDb.client.getNotifications();
+      expect(notification).toMatchObject({ status: 'pending', attempts: 1, lastError: 'HTTP 500: Simulated failure' });
+      expect(notification.nextAttemptAt).toBe(Date.now() + 30000);
+
+      // Not due yet
+      await service.dispatch();
+      expect(standIn.requests).toHaveLength(1);
+
+      jest.advanceTimersByTime(30000);
+      await service.dispatch();
+      [notification] = testDb.client.getNotifications();
+      expect(notification).toMatchObject({ status: 'pending', attempts: 2 });
+      expect(notification.nextAttemptAt).toBe(Date.now() + 60000);
+
+      jest.advanceTimersByTime(60000);
+      await service.dispatch();
+      jest.useRealTimers();
+
+      expect(standIn.requests).toHaveLength(3);
+      expect(testDb.client.getNotifications()[0]).toMatchObject({ status: 'failed', attempts: 3 });
+    });
+
+    it('should deliver on retry once the target recovers', async () => {
+      jest.useFakeTimers({ doNotFake: ['setImmediate', 'nextTick', 'queueMicrotask'] });
+      const service = createService([{ name: 'webhook', type: 'webhook', url: `${baseUrl}/webhook` }]);
+      standIn.failFirst = 1;
+      queue('webhook');
+
+      await service.dispatch();
+      jest.advanceTimersByTime(30000);
+      await service.dispatch();
+      jest.useRealTimers();
+
+      expect(standIn.requests).toHaveLength(2);
+      expect(testDb.client.getNotifications()[0]).toMatchObject({ status: 'sent', attempts: 2, lastError: null });
+    });
+
+    it('should deliver warnings queued while a notification is being sent in a new notification', async () => {
+      const service = createService([{ name: 'webhook', type: 'webhook', url: `${baseUrl}/webhook` }]);
+      testDb.insertWarning('error', 'First');
+      testDb.client.enqueueNotification('webhook', testDb.client.getWarningsAfterId(0));
+
+      // A warning is raised and queued while the first notification is on the wire
+      const send = (service as any).send.bind(service);
+      jest.spyOn(service as any, 'send').mockImplementationOnce(async (...args: any[]) => {
+        testDb.insertWarning('error', 'Raised during delivery');
+        testDb.client.enqueueNotification('webhook', testDb.client.getWarningsAfterId(1));
+        return send(...args);
+      });
+
+      await service.dispatch();
+      await service.dispatch();
+
+      expect(standIn.requests.map(r => r.body.warnings.map((w: any) => w.message))).toEqual([['First'], ['Raised during delivery']]);
+      expect(testDb.client.getNotifications().map(n => [n.status, n.warningCount])).toEqual([['sent', 1], ['sent', 1]]);
+    });
+
+    it('should hold notifications over the hourly limit until the window frees up', async () => {
+      const service = createService([{ name: 'webhook', type: 'webhook', url: `${baseUrl}/webhook` }], { maxPerHour: 1 });
+      queue('webhook');
+      await service.dispatch();
+
+      queue('webhook');
+      await service.dispatch();
+
+      expect(standIn.requests).toHaveLength(1);
+      expect(testDb.client.getNotifications().map(n => n.status)).toEqual(['pending', 'sent']);
+    });
+  });
+});
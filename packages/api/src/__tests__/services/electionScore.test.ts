@@ -0,0 +1,157 @@
+/**
+ * Election Score Tests
+ * Verifies score ordering, the improvement threshold (with Perbill rounding), parsing and simulation
+ */
+
+import type { ElectionScore, ElectionSubmission, ElectionSubmissionStatus } from '@staking-cc/shared';
+import {
+  PERBILL,
+  compareScores,
+  parseElectionScore,
+  simulateScore,
+  strictBetter,
+  strictThresholdBetter,
+} from '../../services/electionScore';
+
+const score = (minimalStake: number | string, sumStake: number | string, sumStakeSquared: number | string): ElectionScore => ({
+  minimalStake: String(minimalStake),
+  sumStake: String(sumStake),
+  sumStakeSquared: String(sumStakeSquared),
+});
+
+const submission = (submitter: string, status: ElectionSubmissionStatus, value: ElectionScore): ElectionSubmission => ({
+  ...value,
+  submitter,
+  status,
+  blockNumber: 1000,
+});
+
+const sign = (value: number): number => Math.sign(value);
+
+describe('electionScore', () => {
+  describe('compareScores', () => {
+    const U128_MAX = '340282366920938463463374607431768211455';
+
+    it.each([
+      ['equal scores', score(1000, 5000, 9000), score(1000, 5000, 9000), 0],
+      ['higher minimal stake wins over everything else', score(1001, 1, 99999), score(1000, 5000, 9000), 1],
+      ['lower minimal stake loses over everything else', score(999, 99999, 1), score(1000, 5000, 9000), -1],
+      ['equal minimal stake: higher sum stake wins', score(1000, 5001, 99999), score(1000, 5000, 9000), 1],
+      ['equal minimal stake: lower sum stake loses', score(1000, 4999, 1), score(1000, 5000, 9000), -1],
+      ['equal minimal and sum stake: lower sum of squares wins', score(1000, 5000, 8999), score(1000, 5000, 9000), 1],
+      ['equal minimal and sum stake: higher sum of squares loses', score(1000, 5000, 9001), score(1000, 5000, 9000), -1],
+      ['u128 values beyond the safe integer range', score(U128_MAX, 1, 1), score('340282366920938463463374607431768211454', 1, 1), 1],
+    ])('%s', (_name, a, b, expected) => {
+      expect(sign(compareScores(a, b))).toBe(expected);
+      expect(sign(compareScores(b, a))).toBe(0 - expected);
+    });
+  });
+
+  describe('strictThresholdBetter', () => {
+    // 0.5%: 5 on the minimal stake, 50 on the sum stake, 5000 on the sum of squares
+    const HALF_PERCENT = 5_000_000;
+    const best = score(1000, 10000, 1000000);
+
+    it.each([
+      ['equal scores never win', score(1000, 10000, 1000000), false],
+      ['minimal stake beyond the threshold', score(1006, 1, 99999999), true],
+      ['minimal stake within the threshold falls through to a better sum stake', score(1004, 99999, 1), true],
+      ['equal minimal stake falls through to a better sum stake', score(1000, 10051, 99999999), true],
+      ['minimal stake exactly at the threshold falls through to the sum stake', score(1005, 10000, 1000000), false],
+      ['sum stake beyond the threshold', score(1005, 10051, 99999999), true],
+      ['sum stake exactly at the threshold falls through to the sum of squares', score(1005, 10050, 1000000), false],
+      ['sum of squares beyond the threshold', score(1005, 10050, 994999), true],
+      ['sum of squares exactly at the threshold', score(1005, 10050, 995000), false],
+      ['worse minimal stake within the threshold does not fall through', score(999, 99999, 1), false],
+      ['worse sum stake within the threshold does not fall through', score(1000, 9999, 1), false],
+      ['worse minimal stake beyond the threshold', score(994, 99999, 1), false],
+    ])('%s', (_name, candidate, expected) => {
+      expect(strictThresholdBetter(candidate, best, HALF_PERCENT)).toBe(expected);
+    });
+
+    // Only the minimal stake differs: it has to exceed 3 + mul_ceil(threshold, 3)
+    it.each([
+      ['50% of 3 rounds up to 2', 500_000_000, 5, false],
+      ['50% of 3 rounds up to 2, exceeded', 500_000_000, 6, true],
+      ['40% of 3 rounds up to 2', 400_000_000, 5, false],
+      ['1 perbill of 3 rounds up to 1', 1, 4, false],
+      ['1 perbill of 3 rounds up to 1, exceeded', 1, 5, true],
+      ['a zero threshold compares exactly', 0, 4, true],
+    ])('Perbill rounding: %s', (_name, threshold, minimalStake, expected) => {
+      expect(strictThresholdBetter(score(minimalStake, 10, 1), score(3, 10, 1), threshold)).toBe(expected);
+    });
+
+    it('should saturate the threshold bounds at zero and u128 max', () => {
+      // A 100% threshold puts 0 within the band of any sum of squares
+      expect(strictThresholdBetter(score(2, 20, 0), score(1, 10, 5), PERBILL)).toBe(false);
+
+      const U128_MAX = '340282366920938463463374607431768211455';
+      expect(strictThresholdBetter(score(U128_MAX, 10, 1), score('340282366920938463463374607431768211454', 10, 1), 1)).toBe(false);
+    });
+
+    it('should require a strictly better score without a threshold', () => {
+      expect(strictBetter(score(1000, 10000, 1000000), best)).toBe(false);
+      expect(strictBetter(score(1000, 10000, 999999), best)).toBe(true);
+      expect(strictBetter(score(1000, 10001, 1000001), best)).toBe(true);
+    });
+  });
+
+  describe('parseElectionScore', () => {
+    it.each([
+      ['decimal strings', { minimalStake: '1000', sumStake: '5000', sumStakeSquared: '9000' }, score(1000, 5000, 9000)],
+      ['a JSON string', '{"minimalStake":"1000","sumStake":"5000","sumStakeSquared":"9000"}', score(1000, 5000, 9000)],
+      ['human formatted numbers', { minimalStake: '1,000', sumStake: '5,000', sumStakeSquared: '9,000' }, score(1000, 5000, 9000)],
+      ['hex strings', { minimalStake: '0x3e8', sumStake: '0x1388', sumStakeSquared: '0x2328' }, score(1000, 5000, 9000)],
+      ['safe integers', { minimalStake: 1000, sumStake: 5000, sumStakeSquared: 9000 }, score(1000, 5000, 9000)],
+      ['a u128 beyond the safe integer range', { minimalStake: '340282366920938463463374607431768211455', sumStake: '0', sumStakeSquared: '0' },
+        score('340282366920938463463374607431768211455', 0, 0)],
+    ])('should parse %s', (_name, value, expected) => {
+      expect(parseElectionScore(value)).toEqual(expected);
+    });
+
+    it.each([
+      ['null', null],
+      ['invalid JSON', '{"minimalStake":'],
+      ['a missing field', { minimalStake: '1000', sumStake: '5000' }],
+      ['a negative number', { minimalStake: -1, sumStake: 5000, sumStakeSquared: 9000 }],
+      ['a fraction', { minimalStake: 1.5, sumStake: 5000, sumStakeSquared: 9000 }],
+      ['an unsafe integer', { minimalStake: Number.MAX_SAFE_INTEGER + 2, sumStake: 5000, sumStakeSquared: 9000 }],
+      ['a non-numeric string', { minimalStake: 'abc', sumStake: '5000', sumStakeSquared: '9000' }],
+    ])('should reject %s', (_name, value) => {
+      expect(parseElectionScore(value)).toBeNull();
+    });
+  });
+
+  describe('simulateScore', () => {
+    // Threshold 0.5%; the slashed submission scored best but never competed
+    const THRESHOLD = 5_000_000;
+    const submissions = [
+      submission('worse', 'ejected', score(900, 10000, 1000000)),
+      submission('best', 'registered', score(1000, 10000, 1000000)),
+      submission('slashed', 'slashed', score(2000, 10000, 1000000)),
+      submission('bailed', 'bailed', score(1500, 10000, 1000000)),
+    ];
+    const minimum = score(950, 0, 0);
+
+    it.each([
+      ['better than every submission by the threshold', score(2001, 10000, 1000000), minimum, 1, 4, true, true, true],
+      ['beats the best competing submission but ranks below withdrawn ones', score(1006, 10000, 1000000), minimum, 3, 2, true, true, true],
+      ['within the threshold of the best competing submission', score(1004, 10000, 1000000), minimum, 3, 2, false, true, false],
+      ['equal to the best competing submission, sharing its rank', score(1000, 10000, 1000000), minimum, 3, 1, false, true, false],
+      ['beats the best but not the minimum score', score(1006, 10000, 1000000), score(2000, 0, 0), 3, 2, true, false, false],
+      ['without a known minimum score', score(1006, 10000, 1000000), null, 3, 2, true, null, true],
+    ])('%s', (_name, candidate, minimumScore, rank, beats, beatsBest, clearsMinimum, wouldWin) => {
+      const simulation = simulateScore(7, candidate, submissions, THRESHOLD, minimumScore, minimumScore ? 'round' : null);
+
+      expect(simulation).toMatchObject({ round: 7, rank, beats, beatsBest, clearsMinimum, wouldWin, submissionCount: 4 });
+      expect(simulation.best?.submitter).toBe('best');
+    });
+
+    it('should win any round without competing submissions', () => {
+      const simulation = simulateScore(7, score(1, 1, 1), [submissions[2]], THRESHOLD, null, null);
+
+      expect(simulation.best).toBeNull();
+      expect(simulation).toMatchObject({ rank: 2, beats: 0, beatsBest: true, clearsMinimum: null, wouldWin: true });
+    });
+  });
+});
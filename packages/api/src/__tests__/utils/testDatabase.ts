@@ -0,0 +1,108 @@
+/**
+ * Test database utilities
+ * The API opens the indexer's database file, so tests create a temporary file
+ * with the tables (as migrated by the indexer) that the code under test reads and writes
+ */
+
+import Database from 'better-sqlite3';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DatabaseClient } from '../../database/DatabaseClient';
+import type { WarningSeverity } from '@staking-cc/shared';
+
+const SCHEMA = `
+  CREATE TABLE warnings (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    era_id INTEGER,
+    session_id INTEGER,
+    block_number INTEGER NOT NULL,
+    type TEXT NOT NULL,
+    message TEXT NOT NULL,
+    severity TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    dedup_key TEXT,
+    status TEXT NOT NULL DEFAULT 'open',
+    note TEXT,
+    acknowledged_at INTEGER,
+    resolved_at INTEGER,
+    auto_resolved INTEGER NOT NULL DEFAULT 0
+  );
+
+  CREATE TABLE indexer_state (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE notification_queue (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    target TEXT NOT NULL,
+    warnings TEXT NOT NULL,
+    status TEXT NOT NULL CHECK(status IN ('pending', 'sent', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at INTEGER NOT NULL,
+    last_error TEXT,
+    created_at INTEGER NOT NULL,
+    sent_at INTEGER
+  );
+
+  CREATE TABLE era_elected_validators (
+    era_id INTEGER NOT NULL,
+    validator TEXT NOT NULL,
+    PRIMARY KEY (era_id, validator)
+  );
+
+  CREATE TABLE era_rewards (
+    era_id INTEGER PRIMARY KEY,
+    validator_payout TEXT,
+    total_points INTEGER NOT NULL,
+    snapshot_block_number INTEGER,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE era_validator_rewards (
+    era_id INTEGER NOT NULL,
+    validator TEXT NOT NULL,
+    points INTEGER NOT NULL DEFAULT 0,
+    page_count INTEGER,
+    claimed_pages INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (era_id, validator)
+  );
+`;
+
+export interface TestDatabase {
+  client: DatabaseClient;
+  // Writes as the indexer would, on its own connection
+  indexerDb: Database.Database;
+  insertWarning: (severity: WarningSeverity, message?: string) => number;
+  cleanup: () => void;
+}
+
+export function createTestDatabase(): TestDatabase {
+  const dir = mkdtempSync(join(tmpdir(), 'staking-api-test-'));
+  const path = join(dir, 'test.db');
+
+  const indexerDb = new Database(path);
+  indexerDb.pragma('journal_mode = WAL');
+  indexerDb.exec(SCHEMA);
+
+  const insert = indexerDb.prepare(`
+    INSERT INTO warnings (block_number, type, message, severity, timestamp)
+    VALUES (?, 'timing', ?, ?, ?)
+  `);
+
+  const client = new DatabaseClient(path);
+
+  return {
+    client,
+    indexerDb,
+    insertWarning: (severity, message = 'Session report is late') =>
+      insert.run(1000, message, severity, Date.now()).lastInsertRowid as number,
+    cleanup: () => {
+      client.close();
+      indexerDb.close();
+      rmSync(dir, { recursive: true, force: true });
+    },
+  };
+}
@@ -2,24 +2,103 @@ import Database from 'better-sqlite3';
 import type {
   Era,
   Session,
+  RcSession,
+  ConsistencyIssue,
+  ConsistencyIssueKind,
+  ConsistencyReport,
+  SessionReportLatency,
+  EraRewards,
+  ValidatorEraReward,
+  RewardsClaimPoint,
+  UnclaimedEraRewards,
+  EraValidatorPoints,
+  ValidatorEraPoints,
+  ValidatorPerformance,
+  ValidatorSetDiff,
+  ElectionPhaseTiming,
+  ElectionRoundTimeline,
+  ElectionRoundSummary,
+  ElectionRoundDetails,
+  ElectionSubmission,
+  ElectionSubmissionStatus,
+  SubmitterRound,
+  SubmitterStats,
+  SubmitterDetails,
+  UnclaimedRewardsReport,
+  Slash,
+  SlashStatus,
+  ElectionIncident,
+  ElectionIncidentStatus,
+  StakingClientSample,
+  StakingClientStatus,
+  StakingPopulationSample,
+  StorageSnapshot,
+  WatchedStorageItem,
   Block,
   Warning,
+  WarningStatus,
   BlockchainEvent,
   ApiStatus,
+  EraForecast,
   EraDetails,
+  EraStatistics,
+  EraStatsRow,
+  NotificationRecord,
   ChainSyncInfo,
   SyncStatus,
 } from '@staking-cc/shared';
+import { compareScoresDesc } from '../services/electionScore';
+import { forecastEra } from '../services/eraForecast';
+import { summarizeEras } from '../services/eraStatistics';
+
+// Reward points per validator of snapshotted eras. erasRewardPoints has no entry for a validator
+// that earned nothing, so the era's active set (elected during the previous era) is added with 0 points.
+const ERA_POINTS_CTE = `
+  era_points AS (
+    SELECT v.era_id, v.validator, v.points FROM era_validator_rewards v
+    JOIN era_rewards r ON r.era_id = v.era_id
+    UNION ALL
+    SELECT r.era_id, e.validator, 0 FROM era_rewards r
+    JOIN era_elected_validators e ON e.era_id = r.era_id - 1
+    WHERE NOT EXISTS (SELECT 1 FROM era_validator_rewards v WHERE v.era_id = r.era_id AND v.validator = e.validator)
+  )`;
+
+// Completed sessions the era forecast is based on
+const FORECAST_SESSIONS = 24;
+
+export interface ForecastSettings {
+  sessionsPerEra: number;
+  expectedEraDurationMs: number;
+}
+
+const DEFAULT_FORECAST_SETTINGS: ForecastSettings = { sessionsPerEra: 6, expectedEraDurationMs: 24 * 60 * 60 * 1000 };
+
+/**
+ * Minimal stake of a stored minimum score (JSON of the verifier's MinimumScore; u128s may be hex)
+ */
+function parseMinimalStake(minimumScore: string | null): bigint | null {
+  if (!minimumScore) return null;
+  try {
+    const value = JSON.parse(minimumScore).minimalStake;
+    return value === undefined || value === null ? null : BigInt(value);
+  } catch (e) {
+    return null;
+  }
+}
 
 export class DatabaseClient {
   private db: Database.Database;
   private dbPath: string;
+  private maxSyncLagMs: number;
+  private forecastSettings: ForecastSettings;
 
-  constructor(dbPath: string) {
+  constructor(dbPath: string, maxSyncLagMs: number = 60000, forecastSettings: ForecastSettings = DEFAULT_FORECAST_SETTINGS) {
     this.dbPath = dbPath;
+    this.maxSyncLagMs = maxSyncLagMs;
+    this.forecastSettings = forecastSettings;
 
-    // Open in read-write mode to properly read from WAL
-    // We never write anyway, but this allows us to see latest data
+    // Open in read-write mode: warning lifecycle changes and the notification queue are written here,
+    // and a read-write connection also sees the latest WAL data
     this.db = new Database(dbPath, { fileMustExist: true });
 
     // Ensure WAL mode is enabled (should already be set by indexer)
@@ -65,9 +144,57 @@ export class DatabaseClient {
       rpcEndpointAH: 'N/A',
       relayChain,
       assetHub,
+      stakingClient: this.getStakingClientStatus(),
+      forecast: this.getEraForecast(),
     };
   }
 
+  /**
+   * Forecast the next session and era boundaries from recent session reports and the election phase
+   * Null until a session report has been indexed
+   */
+  private getEraForecast(): EraForecast | null {
+    // Session n starts when the report ending session n - 1 arrives on Asset Hub
+    const reports = this.db
+      .prepare(`
+        SELECT s.session_id, b.timestamp FROM sessions s
+        JOIN blocks_ah b ON b.block_number = s.block_number
+        ORDER BY s.session_id DESC LIMIT ?
+      `)
+      .all(FORECAST_SESSIONS + 1) as { session_id: number; timestamp: number }[];
+
+    if (reports.length === 0) return null;
+
+    // Only consecutive reports measure a whole session
+    const durations: number[] = [];
+    for (let i = 0; i + 1 < reports.length; i++) {
+      if (reports[i].session_id === reports[i + 1].session_id + 1) {
+        durations.push(reports[i].timestamp - reports[i + 1].timestamp);
+      }
+    }
+
+    const currentSession = reports[0].session_id + 1;
+    const era = this.db
+      .prepare('SELECT era_id, session_start FROM eras WHERE session_start <= ? ORDER BY era_id DESC LIMIT 1')
+      .get(currentSession) as { era_id: number; session_start: number } | undefined;
+    const phase = this.db
+      .prepare('SELECT phase FROM election_phases ORDER BY block_number DESC, id DESC LIMIT 1')
+      .get() as { phase: string } | undefined;
+
+    const { sessionsPerEra, expectedEraDurationMs } = this.forecastSettings;
+    return forecastEra({
+      now: Date.now(),
+      sessionsPerEra,
+      expectedSessionDurationMs: expectedEraDurationMs / sessionsPerEra,
+      currentSession,
+      sessionStartedAt: reports[0].timestamp,
+      currentEra: era?.era_id ?? null,
+      eraSessionStart: era?.session_start ?? null,
+      sessionDurationsMs: durations,
+      electionPhase: phase?.phase ?? null,
+    });
+  }
+
   private getChainSyncInfo(chain: 'RC' | 'AH'): ChainSyncInfo {
     const suffix = chain;
 
@@ -80,6 +207,8 @@ export class DatabaseClient {
       .get(`totalMissingBlocks${suffix}`) as { value: string } | undefined;
     const syncedBlocks = this.db.prepare('SELECT value FROM indexer_state WHERE key = ?')
       .get(`syncedBlocks${suffix}`) as { value: string } | undefined;
+    const stopBlock = this.db.prepare('SELECT value FROM indexer_state WHERE key = ?')
+      .get(`syncStopBlock${suffix}`) as { value: string } | undefined;
 
     // Get latest synced block
     const latestBlock = this.db.prepare(`SELECT * FROM blocks_${chain.toLowerCase()} ORDER BY block_number DESC LIMIT 1`)
@@ -94,10 +223,13 @@ export class DatabaseClient {
     let status: SyncStatus;
     if (isSyncingValue) {
       status = 'syncing';
+    } else if (stopBlock?.value) {
+      // The indexer synced a closed era range and does not follow the chain head
+      status = 'stopped';
     } else if (lastBlockTime > 0) {
       const timeSinceLastBlock = Date.now() - lastBlockTime;
-      // If last block was less than 1 minute ago, consider in-sync
-      status = timeSinceLastBlock < 60000 ? 'in-sync' : 'out-of-sync';
+      // In-sync if the last block is within the configured lag (config/warning-rules.json)
+      status = timeSinceLastBlock < this.maxSyncLagMs ? 'in-sync' : 'out-of-sync';
     } else {
       status = 'out-of-sync';
     }
@@ -136,28 +268,37 @@ export class DatabaseClient {
     const rows = this.db
       .prepare('SELECT * FROM blocks_rc ORDER BY block_number DESC LIMIT ?')
       .all(limit) as any[];
-    return rows.map(row => ({ blockNumber: row.block_number, timestamp: row.timestamp }));
+    return rows.map(row => this.toBlock(row));
   }
 
   getBlocksAH(limit: number = 100): Block[] {
     const rows = this.db
       .prepare('SELECT * FROM blocks_ah ORDER BY block_number DESC LIMIT ?')
       .all(limit) as any[];
-    return rows.map(row => ({ blockNumber: row.block_number, timestamp: row.timestamp }));
+    return rows.map(row => this.toBlock(row));
   }
 
   getBlockRC(blockNumber: number): Block | null {
     const row = this.db
       .prepare('SELECT * FROM blocks_rc WHERE block_number = ?')
       .get(blockNumber) as any | undefined;
-    return row ? { blockNumber: row.block_number, timestamp: row.timestamp } : null;
+    return row ? this.toBlock(row) : null;
   }
 
   getBlockAH(blockNumber: number): Block | null {
     const row = this.db
       .prepare('SELECT * FROM blocks_ah WHERE block_number = ?')
       .get(blockNumber) as any | undefined;
-    return row ? { blockNumber: row.block_number, timestamp: row.timestamp } : null;
+    return row ? this.toBlock(row) : null;
+  }
+
+  private toBlock(row: any): Block {
+    return {
+      blockNumber: row.block_number,
+      timestamp: row.timestamp,
+      blockHash: row.block_hash ?? null,
+      parentHash: row.parent_hash ?? null,
+    };
   }
 
   // ===== ERAS =====
@@ -220,22 +361,14 @@ export class DatabaseClient {
       activeEraId: s.active_era_id,
       plannedEraId: s.planned_era_id,
       validatorPointsTotal: s.validator_points_total,
+      rcBlockNumber: s.rc_block_number,
     }));
 
     const warningRows = this.db
       .prepare('SELECT * FROM warnings WHERE era_id = ? ORDER BY timestamp DESC')
       .all(eraId) as any[];
 
-    const warnings: Warning[] = warningRows.map(w => ({
-      id: w.id,
-      eraId: w.era_id,
-      sessionId: w.session_id,
-      blockNumber: w.block_number,
-      type: w.type,
-      message: w.message,
-      severity: w.severity,
-      timestamp: w.timestamp,
-    }));
+    const warnings: Warning[] = warningRows.map(w => this.toWarning(w));
 
     return {
       ...era,
@@ -244,6 +377,50 @@ export class DatabaseClient {
     };
   }
 
+  // ===== ERA STATISTICS =====
+
+  /**
+   * Per-era duration, sessions, elected validators, inflation and election submissions for the latest eras,
+   * with averages, a rolling average over `window` eras and outliers
+   */
+  getEraStatistics(limit: number = 100, window: number = 7): EraStatistics {
+    // Submissions are only known for eras whose election was indexed (it has phases or scores)
+    const rows = this.db
+      .prepare(`
+        SELECT * FROM (
+          SELECT
+            e.*,
+            s.activation_timestamp AS end_time,
+            (SELECT COUNT(*) FROM election_scores es WHERE es.era_id = e.era_id) AS submissions,
+            EXISTS (SELECT 1 FROM election_phases ep WHERE ep.era_id = e.era_id) AS has_election
+          FROM eras e
+          LEFT JOIN sessions s ON s.session_id = e.session_end
+          ORDER BY e.era_id DESC
+          LIMIT ?
+        )
+        ORDER BY era_id ASC
+      `)
+      .all(limit) as any[];
+
+    const toNumber = (value: string | null): number | null => (value === null ? null : Number(value));
+
+    const eras: EraStatsRow[] = rows.map(row => ({
+      eraId: row.era_id,
+      startTime: row.start_time,
+      values: {
+        durationMs: row.end_time ? row.end_time - row.start_time : null,
+        sessions: row.session_end !== null ? row.session_end - row.session_start + 1 : null,
+        validatorsElected: row.validators_elected,
+        inflationTotal: toNumber(row.inflation_total),
+        inflationValidators: toNumber(row.inflation_validators),
+        inflationTreasury: toNumber(row.inflation_treasury),
+        submissions: row.submissions > 0 || row.has_election === 1 ? row.submissions : null,
+      },
+    }));
+
+    return summarizeEras(eras, window);
+  }
+
   // ===== SESSIONS =====
 
   getSessions(limit: number = 100): Session[] {
@@ -257,6 +434,7 @@ export class DatabaseClient {
       activeEraId: row.active_era_id,
       plannedEraId: row.planned_era_id,
       validatorPointsTotal: row.validator_points_total,
+      rcBlockNumber: row.rc_block_number,
     }));
   }
 
@@ -274,6 +452,7 @@ export class DatabaseClient {
       activeEraId: row.active_era_id,
       plannedEraId: row.planned_era_id,
       validatorPointsTotal: row.validator_points_total,
+      rcBlockNumber: row.rc_block_number,
     };
   }
 
@@ -288,48 +467,712 @@ export class DatabaseClient {
       activeEraId: row.active_era_id,
       plannedEraId: row.planned_era_id,
       validatorPointsTotal: row.validator_points_total,
+      rcBlockNumber: row.rc_block_number,
     }));
   }
 
-  // ===== WARNINGS =====
+  // ===== RC SESSIONS =====
 
-  getWarnings(limit: number = 100): Warning[] {
+  getRcSessions(limit: number = 100): RcSession[] {
     const rows = this.db
-      .prepare('SELECT * FROM warnings ORDER BY timestamp DESC LIMIT ?')
+      .prepare('SELECT * FROM sessions_rc ORDER BY session_id DESC LIMIT ?')
       .all(limit) as any[];
     return rows.map(row => ({
-      id: row.id,
-      eraId: row.era_id,
       sessionId: row.session_id,
       blockNumber: row.block_number,
-      type: row.type,
-      message: row.message,
-      severity: row.severity,
       timestamp: row.timestamp,
+      newSetQueued: row.new_set_queued === 1,
+      validatorSetId: row.validator_set_id,
+      validatorSetCount: row.validator_set_count,
+      validatorSetBlockNumber: row.validator_set_block_number,
     }));
   }
 
-  getWarningsByEra(eraId: number): Warning[] {
-    const rows = this.db
-      .prepare('SELECT * FROM warnings WHERE era_id = ? ORDER BY timestamp DESC')
-      .all(eraId) as any[];
+  /**
+   * Per-session latency between the session ending on RC (next NewSession) and its report arriving on AH
+   */
+  getSessionReportLatencyByEra(eraId: number): SessionReportLatency[] {
+    const rows = this.db.prepare(`
+      SELECT
+        s.session_id,
+        rc_start.block_number AS rc_start_block,
+        rc_end.block_number AS rc_end_block,
+        rc_end.timestamp AS rc_end_timestamp,
+        s.block_number AS ah_report_block,
+        b.timestamp AS ah_report_timestamp
+      FROM sessions s
+      LEFT JOIN sessions_rc rc_start ON rc_start.session_id = s.session_id
+      LEFT JOIN sessions_rc rc_end ON rc_end.session_id = s.session_id + 1
+      LEFT JOIN blocks_ah b ON b.block_number = s.block_number
+      WHERE s.active_era_id = ?
+      ORDER BY s.session_id
+    `).all(eraId) as any[];
+
     return rows.map(row => ({
+      sessionId: row.session_id,
+      rcStartBlock: row.rc_start_block,
+      rcEndBlock: row.rc_end_block,
+      rcEndTimestamp: row.rc_end_timestamp,
+      ahReportBlock: row.ah_report_block,
+      ahReportTimestamp: row.ah_report_timestamp,
+      latencyMs: row.rc_end_timestamp !== null && row.ah_report_timestamp !== null
+        ? row.ah_report_timestamp - row.rc_end_timestamp
+        : null,
+    }));
+  }
+
+  // ===== REWARDS =====
+
+  /**
+   * Claimed vs unclaimed payouts of an era (null if nothing is known about its rewards)
+   * Unclaimed amounts are estimated: each validator's points share of the era payout, per unclaimed page
+   */
+  getEraRewards(eraId: number): EraRewards | null {
+    const summary = this.db.prepare('SELECT * FROM era_rewards WHERE era_id = ?').get(eraId) as any | undefined;
+    const era = this.db.prepare('SELECT inflation_validators FROM eras WHERE era_id = ?').get(eraId) as any | undefined;
+    const validatorRows = this.db
+      .prepare('SELECT * FROM era_validator_rewards WHERE era_id = ? ORDER BY points DESC, validator ASC')
+      .all(eraId) as any[];
+    const payoutRows = this.db
+      .prepare('SELECT validator, timestamp, amount FROM payouts WHERE era_id = ? ORDER BY timestamp ASC, id ASC')
+      .all(eraId) as any[];
+
+    if (!summary && validatorRows.length === 0) {
+      return null;
+    }
+
+    const validatorPayout: string | null = summary?.validator_payout ?? null;
+    const totalPoints: number = summary?.total_points ?? 0;
+
+    // Observed payouts per validator (amounts are Planck strings, summed as BigInt)
+    const observed = new Map<string, { count: number; amount: bigint }>();
+    for (const payout of payoutRows) {
+      const entry = observed.get(payout.validator) ?? { count: 0, amount: BigInt(0) };
+      entry.count++;
+      entry.amount += BigInt(payout.amount);
+      observed.set(payout.validator, entry);
+    }
+
+    let totalPages = 0;
+    let claimedPages = 0;
+    let claimedAmount = BigInt(0);
+    let unclaimedAmount = BigInt(0);
+
+    const validators: ValidatorEraReward[] = validatorRows.map(row => {
+      const seen = observed.get(row.validator);
+      const expectedReward = validatorPayout !== null && totalPoints > 0
+        ? (BigInt(validatorPayout) * BigInt(row.points)) / BigInt(totalPoints)
+        : BigInt(0);
+      const pageCount: number | null = row.page_count;
+      const claimed = Math.max(row.claimed_pages, seen?.count ?? 0);
+
+      totalPages += pageCount ?? 0;
+      claimedPages += pageCount !== null ? Math.min(claimed, pageCount) : 0;
+      claimedAmount += seen?.amount ?? BigInt(0);
+      if (pageCount !== null && pageCount > claimed) {
+        unclaimedAmount += (expectedReward * BigInt(pageCount - claimed)) / BigInt(pageCount);
+      }
+
+      return {
+        validator: row.validator,
+        points: row.points,
+        expectedReward: expectedReward.toString(),
+        pageCount,
+        claimedPages: claimed,
+        claimedAmount: (seen?.amount ?? BigInt(0)).toString(),
+      };
+    });
+
+    // Cumulative claimed pages per hour; pages claimed before any observed payout form the baseline
+    const claimHistory: RewardsClaimPoint[] = [];
+    let cumulative = Math.max(0, claimedPages - payoutRows.length);
+    const hourMs = 60 * 60 * 1000;
+    for (const payout of payoutRows) {
+      cumulative = totalPages > 0 ? Math.min(cumulative + 1, totalPages) : cumulative + 1;
+      const hourEnd = Math.ceil(payout.timestamp / hourMs) * hourMs;
+      const point = {
+        timestamp: hourEnd,
+        claimedPages: cumulative,
+        percentClaimed: totalPages > 0 ? (cumulative / totalPages) * 100 : 0,
+      };
+
+      const last = claimHistory[claimHistory.length - 1];
+      if (last && last.timestamp === hourEnd) {
+        claimHistory[claimHistory.length - 1] = point;
+      } else {
+        claimHistory.push(point);
+      }
+    }
+
+    return {
+      eraId,
+      validatorPayout,
+      inflationValidators: era?.inflation_validators ?? null,
+      totalPoints,
+      validatorCount: validatorRows.length,
+      totalPages,
+      claimedPages,
+      percentClaimed: totalPages > 0 ? (claimedPages / totalPages) * 100 : 0,
+      claimedAmount: claimedAmount.toString(),
+      unclaimedAmount: unclaimedAmount.toString(),
+      snapshotBlockNumber: summary?.snapshot_block_number ?? null,
+      claimHistory,
+      validators,
+    };
+  }
+
+  /**
+   * Eras with unclaimed payout pages and how many eras remain before they leave staking.historyDepth
+   */
+  getUnclaimedRewards(): UnclaimedRewardsReport {
+    const storedDepth = this.db.prepare('SELECT value FROM indexer_state WHERE key = ?').get('historyDepth') as { value: string } | undefined;
+    const parsedDepth = parseInt(storedDepth?.value ?? '', 10);
+    // Same fallback as the indexer until it stored the runtime value
+    const historyDepth = Number.isNaN(parsedDepth) ? 84 : parsedDepth;
+
+    // Payouts are checked against the planned era once its election started
+    const latestEra = this.db.prepare('SELECT era_id FROM eras ORDER BY era_id DESC LIMIT 1').get() as any | undefined;
+    const latestSession = this.db.prepare('SELECT planned_era_id FROM sessions ORDER BY session_id DESC LIMIT 1').get() as any | undefined;
+    const candidates = [latestEra?.era_id, latestSession?.planned_era_id].filter((era): era is number => typeof era === 'number');
+    const currentEra = candidates.length > 0 ? Math.max(...candidates) : null;
+
+    const rows = this.db
+      .prepare(`
+        SELECT * FROM (
+          SELECT v.era_id, v.validator, v.points, v.page_count,
+            MAX(v.claimed_pages, (SELECT COUNT(*) FROM payouts p WHERE p.era_id = v.era_id AND p.validator = v.validator)) AS claimed_pages,
+            r.validator_payout, r.total_points
+          FROM era_validator_rewards v
+          LEFT JOIN era_rewards r ON r.era_id = v.era_id
+          WHERE v.page_count IS NOT NULL
+        )
+        WHERE claimed_pages < page_count
+        ORDER BY era_id ASC, points DESC, validator ASC
+      `)
+      .all() as any[];
+
+    const eras = new Map<number, UnclaimedEraRewards>();
+    for (const row of rows) {
+      const expectedReward = row.validator_payout !== null && row.total_points > 0
+        ? (BigInt(row.validator_payout) * BigInt(row.points)) / BigInt(row.total_points)
+        : BigInt(0);
+      const unclaimedPages = row.page_count - row.claimed_pages;
+      const unclaimedAmount = (expectedReward * BigInt(unclaimedPages)) / BigInt(row.page_count);
+
+      let era = eras.get(row.era_id);
+      if (!era) {
+        const lastClaimableEra = row.era_id + historyDepth;
+        era = {
+          eraId: row.era_id,
+          lastClaimableEra,
+          erasRemaining: currentEra !== null ? lastClaimableEra - currentEra : historyDepth,
+          unclaimedPages: 0,
+          unclaimedAmount: '0',
+          validators: [],
+        };
+        eras.set(row.era_id, era);
+      }
+
+      era.unclaimedPages += unclaimedPages;
+      era.unclaimedAmount = (BigInt(era.unclaimedAmount) + unclaimedAmount).toString();
+      era.validators.push({
+        validator: row.validator,
+        pageCount: row.page_count,
+        claimedPages: row.claimed_pages,
+        unclaimedAmount: unclaimedAmount.toString(),
+      });
+    }
+
+    return { currentEra, historyDepth, eras: Array.from(eras.values()) };
+  }
+
+  /**
+   * Validators elected during an era vs the closest earlier era with a stored set
+   */
+  getValidatorSetDiff(eraId: number): ValidatorSetDiff | null {
+    const getValidators = (era: number): string[] => (this.db
+      .prepare('SELECT validator FROM era_elected_validators WHERE era_id = ? ORDER BY validator ASC')
+      .all(era) as { validator: string }[]).map(row => row.validator);
+
+    const current = getValidators(eraId);
+    if (current.length === 0) return null;
+
+    const previousRow = this.db
+      .prepare('SELECT MAX(era_id) AS era_id FROM era_elected_validators WHERE era_id < ?')
+      .get(eraId) as { era_id: number | null };
+    const previousEraId = previousRow.era_id;
+    const previous = previousEraId !== null ? getValidators(previousEraId) : [];
+
+    const currentSet = new Set(current);
+    const previousSet = new Set(previous);
+    const added = current.filter(validator => !previousSet.has(validator));
+    const removed = previous.filter(validator => !currentSet.has(validator));
+
+    return {
+      eraId,
+      previousEraId,
+      validatorCount: current.length,
+      previousValidatorCount: previous.length,
+      added,
+      removed,
+      retained: current.filter(validator => previousSet.has(validator)),
+      churnPercent: previousEraId !== null
+        ? ((added.length + removed.length) / (current.length + previous.length)) * 100
+        : null,
+    };
+  }
+
+  // ===== VALIDATOR PERFORMANCE =====
+
+  /**
+   * Validator count, average and median reward points of snapshotted eras
+   */
+  private getEraPointsStats(eraIds: number[]): Map<number, { validatorCount: number; average: number; median: number }> {
+    const stats = new Map<number, { validatorCount: number; average: number; median: number }>();
+    if (eraIds.length === 0) return stats;
+
+    const rows = this.db
+      .prepare(`
+        WITH ${ERA_POINTS_CTE},
+        ranked AS (
+          SELECT era_id, points,
+            ROW_NUMBER() OVER (PARTITION BY era_id ORDER BY points) AS rn,
+            COUNT(*) OVER (PARTITION BY era_id) AS cnt
+          FROM era_points
+          WHERE era_id IN (${eraIds.map(() => '?').join(', ')})
+        )
+        SELECT era_id, MAX(cnt) AS validator_count, AVG(points) AS average,
+          AVG(CASE WHEN rn IN ((cnt + 1) / 2, (cnt + 2) / 2) THEN points END) AS median
+        FROM ranked
+        GROUP BY era_id
+      `)
+      .all(...eraIds) as any[];
+
+    for (const row of rows) {
+      stats.set(row.era_id, { validatorCount: row.validator_count, average: row.average, median: row.median });
+    }
+    return stats;
+  }
+
+  /**
+   * Reward points of every validator in an era (latest snapshotted era by default), lowest first.
+   * Validators of the era's active set without points are included with 0.
+   */
+  getEraValidatorPoints(eraId: number | null, underperformanceRatio: number): EraValidatorPoints | null {
+    const era = eraId !== null
+      ? this.db.prepare('SELECT era_id FROM era_rewards WHERE era_id = ?').get(eraId) as any | undefined
+      : this.db.prepare('SELECT era_id FROM era_rewards ORDER BY era_id DESC LIMIT 1').get() as any | undefined;
+    if (!era) return null;
+
+    const stats = this.getEraPointsStats([era.era_id]).get(era.era_id);
+    if (!stats) return null;
+
+    const rows = this.db
+      .prepare(`WITH ${ERA_POINTS_CTE} SELECT validator, points FROM era_points WHERE era_id = ? ORDER BY points ASC, validator ASC`)
+      .all(era.era_id) as any[];
+
+    return {
+      eraId: era.era_id,
+      validatorCount: stats.validatorCount,
+      eraAverage: stats.average,
+      eraMedian: stats.median,
+      underperformanceRatio,
+      validators: rows.map(row => {
+        const ratioToMedian = stats.median > 0 ? row.points / stats.median : null;
+        return {
+          validator: row.validator,
+          points: row.points,
+          ratioToMedian,
+          underperforming: ratioToMedian !== null && ratioToMedian < underperformanceRatio,
+        };
+      }),
+    };
+  }
+
+  /**
+   * A validator's reward points over its most recent snapshotted eras, compared to each era's average and median
+   */
+  getValidatorPerformance(validator: string, limit: number, underperformanceRatio: number): ValidatorPerformance | null {
+    const rows = this.db
+      .prepare(`
+        WITH ${ERA_POINTS_CTE}
+        SELECT era_id, points FROM era_points
+        WHERE validator = ?
+        ORDER BY era_id DESC
+        LIMIT ?
+      `)
+      .all(validator, limit) as any[];
+    if (rows.length === 0) return null;
+
+    const stats = this.getEraPointsStats(rows.map(row => row.era_id));
+
+    const eras: ValidatorEraPoints[] = rows.map(row => {
+      const era = stats.get(row.era_id)!;
+      const ratioToMedian = era.median > 0 ? row.points / era.median : null;
+      return {
+        eraId: row.era_id,
+        points: row.points,
+        eraAverage: era.average,
+        eraMedian: era.median,
+        ratioToMedian,
+        underperforming: ratioToMedian !== null && ratioToMedian < underperformanceRatio,
+      };
+    });
+
+    const totalPoints = eras.reduce((sum, era) => sum + era.points, 0);
+    const ratios = eras.map(era => era.ratioToMedian).filter((ratio): ratio is number => ratio !== null);
+
+    return {
+      validator,
+      erasActive: eras.length,
+      totalPoints,
+      averagePoints: totalPoints / eras.length,
+      averageRatioToMedian: ratios.length > 0 ? ratios.reduce((sum, ratio) => sum + ratio, 0) / ratios.length : null,
+      underperformingEras: eras.filter(era => era.underperforming).length,
+      underperformanceRatio,
+      eras,
+    };
+  }
+
+  // ===== SLASHES =====
+
+  private toSlash(row: any, currentEra: number | null): Slash {
+    // Amounts are u128 strings, so they are summed here rather than in SQL
+    const amounts = this.db.prepare('SELECT amount FROM slashed_stakers WHERE slash_id = ?').all(row.id) as { amount: string }[];
+    const amount = amounts.reduce((sum, a) => sum + BigInt(a.amount), BigInt(0));
+
+    return {
+      id: row.id,
+      chain: row.chain,
+      offender: row.offender,
+      offenceEra: row.offence_era,
+      slashEra: row.slash_era,
+      fraction: row.fraction_perbill === null ? null : row.fraction_perbill / 1_000_000_000,
+      status: row.status,
+      overdue: row.status === 'deferred' && row.slash_era !== null && currentEra !== null && row.slash_era < currentEra,
+      amount: amount.toString(),
+      stakersSlashed: amounts.length,
+      reportedBlock: row.reported_block,
+      reportedAt: row.reported_at,
+      appliedBlock: row.applied_block,
+      appliedAt: row.applied_at,
+      updatedBlock: row.updated_block,
+    };
+  }
+
+  private getActiveEraId(): number | null {
+    const row = this.db.prepare('SELECT MAX(era_id) AS era_id FROM eras').get() as { era_id: number | null };
+    return row.era_id;
+  }
+
+  /**
+   * Offences and slashes, most recently updated first, optionally filtered by status
+   */
+  getSlashes(status: SlashStatus | null, limit: number = 100): Slash[] {
+    const rows = status
+      ? this.db.prepare('SELECT * FROM slashes WHERE status = ? ORDER BY updated_block DESC, id DESC LIMIT ?').all(status, limit)
+      : this.db.prepare('SELECT * FROM slashes ORDER BY updated_block DESC, id DESC LIMIT ?').all(limit);
+    const currentEra = this.getActiveEraId();
+    return (rows as any[]).map(row => this.toSlash(row, currentEra));
+  }
+
+  /**
+   * A single slash with every staker slashed for it
+   */
+  getSlash(id: number): Slash | null {
+    const row = this.db.prepare('SELECT * FROM slashes WHERE id = ?').get(id) as any;
+    if (!row) return null;
+
+    const stakers = this.db
+      .prepare('SELECT * FROM slashed_stakers WHERE slash_id = ? ORDER BY block_number ASC, event_id ASC')
+      .all(id) as any[];
+
+    return {
+      ...this.toSlash(row, this.getActiveEraId()),
+      stakers: stakers.map(s => ({
+        staker: s.staker,
+        amount: s.amount,
+        blockNumber: s.block_number,
+        timestamp: s.timestamp,
+        eventId: s.event_id,
+      })),
+    };
+  }
+
+  // ===== ELECTION INCIDENTS =====
+
+  private toElectionIncident(row: any): ElectionIncident {
+    const { count } = this.db.prepare('SELECT COUNT(*) as count FROM election_incident_events WHERE incident_id = ?')
+      .get(row.id) as { count: number };
+
+    return {
       id: row.id,
+      chain: row.chain,
+      cause: row.cause,
+      status: row.status,
+      round: row.round,
       eraId: row.era_id,
+      openedBlock: row.opened_block,
+      openedAt: row.opened_at,
+      openedEventId: row.opened_event_id,
+      queuedBlock: row.queued_block,
+      queuedAt: row.queued_at,
+      recoveredBlock: row.recovered_block,
+      recoveredAt: row.recovered_at,
+      recoveryMs: row.recovered_at !== null ? row.recovered_at - row.opened_at : null,
+      eventCount: count,
+    };
+  }
+
+  /**
+   * Election failure / Emergency incidents, most recently opened first, optionally filtered by status
+   */
+  getElectionIncidents(status: ElectionIncidentStatus | null, limit: number = 50): ElectionIncident[] {
+    const rows = status
+      ? this.db.prepare('SELECT * FROM election_incidents WHERE status = ? ORDER BY opened_block DESC, id DESC LIMIT ?').all(status, limit)
+      : this.db.prepare('SELECT * FROM election_incidents ORDER BY opened_block DESC, id DESC LIMIT ?').all(limit);
+    return (rows as any[]).map(row => this.toElectionIncident(row));
+  }
+
+  /**
+   * A single incident with its event timeline
+   */
+  getElectionIncident(id: number): ElectionIncident | null {
+    const row = this.db.prepare('SELECT * FROM election_incidents WHERE id = ?').get(id) as any;
+    if (!row) return null;
+
+    const events = this.db
+      .prepare(`
+        SELECT * FROM election_incident_events WHERE incident_id = ?
+        ORDER BY block_number ASC, CAST(SUBSTR(event_id, INSTR(event_id, '-') + 1) AS INTEGER) ASC
+      `)
+      .all(id) as any[];
+
+    return {
+      ...this.toElectionIncident(row),
+      events: events.map(e => ({
+        chain: e.chain,
+        eventId: e.event_id,
+        eventType: e.event_type,
+        kind: e.kind,
+        detail: e.detail,
+        blockNumber: e.block_number,
+        timestamp: e.timestamp,
+      })),
+    };
+  }
+
+  // ===== STAKING POPULATION =====
+
+  /**
+   * Staking population samples (one per session) for the latest sessions, oldest first
+   */
+  getStakingPopulation(limit: number = 100): StakingPopulationSample[] {
+    const rows = this.db
+      .prepare(`
+        SELECT * FROM (SELECT * FROM staking_population ORDER BY session_id DESC LIMIT ?)
+        ORDER BY session_id ASC
+      `)
+      .all(limit) as any[];
+
+    return rows.map(row => ({
       sessionId: row.session_id,
       blockNumber: row.block_number,
-      type: row.type,
-      message: row.message,
-      severity: row.severity,
       timestamp: row.timestamp,
+      eraId: row.era_id,
+      validatorCount: row.validator_count,
+      nominatorCount: row.nominator_count,
+      bagsListNodes: row.bags_list_nodes,
+      bagsListLocked: row.bags_list_locked === null ? null : row.bags_list_locked === 1,
+      minNominatorBond: row.min_nominator_bond,
+      minValidatorBond: row.min_validator_bond,
+      minActiveStake: row.min_active_stake,
+    }));
+  }
+
+  // ===== STAKING CLIENT =====
+
+  /**
+   * RC stakingAhClient / AH stakingRcClient samples for the latest sessions, oldest first
+   */
+  getStakingClientSamples(limit: number = 100): StakingClientSample[] {
+    const rows = this.db
+      .prepare(`
+        SELECT * FROM (SELECT * FROM staking_client ORDER BY session_id DESC LIMIT ?)
+        ORDER BY session_id ASC
+      `)
+      .all(limit) as any[];
+    return rows.map(row => this.toStakingClientSample(row));
+  }
+
+  /**
+   * Latest staking client state on both chains, with how long the current mode and queued set have lasted
+   * Null before the first sample
+   */
+  getStakingClientStatus(): StakingClientStatus | null {
+    const rcRows = this.db
+      .prepare('SELECT * FROM staking_client WHERE rc_block_number IS NOT NULL ORDER BY session_id DESC LIMIT 100')
+      .all() as any[];
+    const ahRow = this.db
+      .prepare('SELECT * FROM staking_client WHERE ah_block_number IS NOT NULL ORDER BY session_id DESC LIMIT 1')
+      .get() as any | undefined;
+
+    if (rcRows.length === 0 && !ahRow) return null;
+
+    // First session of the run of samples (newest first) sharing the latest sample's value
+    const runStart = (column: string): number => {
+      let since = rcRows[0].session_id;
+      for (const row of rcRows) {
+        if (row[column] !== rcRows[0][column]) break;
+        since = row.session_id;
+      }
+      return since;
+    };
+
+    const latestRc = rcRows.length > 0 ? this.toStakingClientSample(rcRows[0]) : null;
+    const latestAh = ahRow ? this.toStakingClientSample(ahRow) : null;
+
+    return {
+      relayChain: latestRc?.relayChain
+        ? {
+            ...latestRc.relayChain,
+            sessionId: latestRc.sessionId,
+            modeSince: runStart('mode'),
+            queuedSince: latestRc.relayChain.queuedValidatorSetId !== null ? runStart('queued_set_id') : null,
+          }
+        : null,
+      assetHub: latestAh?.assetHub ? { ...latestAh.assetHub, sessionId: latestAh.sessionId } : null,
+    };
+  }
+
+  private toStakingClientSample(row: any): StakingClientSample {
+    return {
+      sessionId: row.session_id,
+      relayChain: row.rc_block_number === null ? null : {
+        blockNumber: row.rc_block_number,
+        timestamp: row.rc_timestamp,
+        mode: row.mode,
+        queuedValidatorSetId: row.queued_set_id,
+        queuedValidatorsCount: row.queued_validators,
+        validatorPointsCount: row.validator_points_count,
+        validatorPointsTotal: row.validator_points_total,
+      },
+      assetHub: row.ah_block_number === null ? null : {
+        blockNumber: row.ah_block_number,
+        timestamp: row.ah_timestamp,
+        lastSessionReportEndIndex: row.last_report_end_index,
+        outgoingValidatorSetId: row.outgoing_set_id,
+      },
+    };
+  }
+
+  // ===== STORAGE SNAPSHOTS =====
+
+  /**
+   * Every storage item with snapshots, with its latest value
+   */
+  getWatchedStorageItems(): WatchedStorageItem[] {
+    const rows = this.db
+      .prepare(`
+        SELECT s.watch_id, s.chain, s.pallet, s.item, s.block_number, s.timestamp, s.value, c.snapshot_count
+        FROM storage_snapshots s
+        JOIN (
+          SELECT watch_id, COUNT(*) AS snapshot_count, MAX(block_number) AS last_block
+          FROM storage_snapshots GROUP BY watch_id
+        ) c ON c.watch_id = s.watch_id AND c.last_block = s.block_number
+        ORDER BY s.chain, s.watch_id
+      `)
+      .all() as any[];
+
+    return rows.map(row => ({
+      watchId: row.watch_id,
+      chain: row.chain,
+      pallet: row.pallet,
+      item: row.item,
+      snapshotCount: row.snapshot_count,
+      lastBlockNumber: row.block_number,
+      lastTimestamp: row.timestamp,
+      lastValue: row.value === null ? null : JSON.parse(row.value),
     }));
   }
 
-  getWarningsBySeverity(severity: string, limit: number = 100): Warning[] {
+  /**
+   * History of a watched storage item, newest first
+   */
+  getStorageSnapshots(watchId: string, limit: number = 100): StorageSnapshot[] {
     const rows = this.db
-      .prepare('SELECT * FROM warnings WHERE severity = ? ORDER BY timestamp DESC LIMIT ?')
-      .all(severity, limit) as any[];
+      .prepare('SELECT * FROM storage_snapshots WHERE watch_id = ? ORDER BY block_number DESC LIMIT ?')
+      .all(watchId, limit) as any[];
+
     return rows.map(row => ({
+      watchId: row.watch_id,
+      chain: row.chain,
+      pallet: row.pallet,
+      item: row.item,
+      keys: JSON.parse(row.storage_keys),
+      blockNumber: row.block_number,
+      timestamp: row.timestamp,
+      triggeredBy: row.triggered_by,
+      value: row.value === null ? null : JSON.parse(row.value),
+    }));
+  }
+
+  // ===== CONSISTENCY =====
+
+  /**
+   * Latest RC/AH consistency check results (written by the indexer's consistency checker)
+   */
+  getConsistencyReport(includeResolved: boolean = false, limit: number = 100): ConsistencyReport {
+    const rows = this.db
+      .prepare(`
+        SELECT * FROM consistency_issues
+        ${includeResolved ? '' : 'WHERE resolved_at IS NULL'}
+        ORDER BY id DESC
+        LIMIT ?
+      `)
+      .all(limit) as any[];
+
+    const issues: ConsistencyIssue[] = rows.map(row => ({
+      id: row.id,
+      key: row.issue_key,
+      kind: row.kind,
+      sessionId: row.session_id,
+      eraId: row.era_id,
+      message: row.message,
+      detectedAt: row.detected_at,
+      resolvedAt: row.resolved_at,
+    }));
+
+    const openCounts: Record<ConsistencyIssueKind, number> = {
+      missing_report: 0,
+      duplicate_report: 0,
+      out_of_order_report: 0,
+      unacknowledged_validator_set: 0,
+    };
+    const countRows = this.db
+      .prepare('SELECT kind, COUNT(*) as count FROM consistency_issues WHERE resolved_at IS NULL GROUP BY kind')
+      .all() as { kind: ConsistencyIssueKind; count: number }[];
+    for (const row of countRows) {
+      openCounts[row.kind] = row.count;
+    }
+
+    const checkedAt = this.getState('consistencyCheckedAt');
+    const fromSession = this.getState('consistencyFromSession');
+    const toSession = this.getState('consistencyToSession');
+
+    return {
+      checkedAt: checkedAt ? parseInt(checkedAt, 10) : null,
+      fromSession: fromSession ? parseInt(fromSession, 10) : null,
+      toSession: toSession ? parseInt(toSession, 10) : null,
+      openCounts,
+      issues,
+    };
+  }
+
+  // ===== WARNINGS =====
+
+  private toWarning(row: any): Warning {
+    return {
       id: row.id,
       eraId: row.era_id,
       sessionId: row.session_id,
@@ -338,9 +1181,87 @@ export class DatabaseClient {
       message: row.message,
       severity: row.severity,
       timestamp: row.timestamp,
-    }));
+      status: row.status,
+      note: row.note,
+      acknowledgedAt: row.acknowledged_at,
+      resolvedAt: row.resolved_at,
+      autoResolved: row.auto_resolved === 1,
+    };
+  }
+
+  getWarnings(limit: number = 100, filters: { severity?: string; status?: string[] } = {}): Warning[] {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.severity) {
+      conditions.push('severity = ?');
+      params.push(filters.severity);
+    }
+
+    if (filters.status && filters.status.length > 0) {
+      conditions.push(`status IN (${filters.status.map(() => '?').join(', ')})`);
+      params.push(...filters.status);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT * FROM warnings ${where} ORDER BY timestamp DESC LIMIT ?`)
+      .all(...params, limit) as any[];
+    return rows.map(row => this.toWarning(row));
+  }
+
+  getWarning(id: number): Warning | null {
+    const row = this.db
+      .prepare('SELECT * FROM warnings WHERE id = ?')
+      .get(id) as any | undefined;
+
+    return row ? this.toWarning(row) : null;
+  }
+
+  getWarningsByEra(eraId: number): Warning[] {
+    const rows = this.db
+      .prepare('SELECT * FROM warnings WHERE era_id = ? ORDER BY timestamp DESC')
+      .all(eraId) as any[];
+    return rows.map(row => this.toWarning(row));
   }
 
+  getWarningCounts(): Record<WarningStatus, number> {
+    const rows = this.db
+      .prepare('SELECT status, COUNT(*) as count FROM warnings GROUP BY status')
+      .all() as Array<{ status: WarningStatus; count: number }>;
+
+    const counts: Record<WarningStatus, number> = { open: 0, acknowledged: 0, resolved: 0 };
+    for (const row of rows) {
+      counts[row.status] = row.count;
+    }
+    return counts;
+  }
+
+  acknowledgeWarning(id: number, note: string | null): Warning | null {
+    this.db
+      .prepare(`
+        UPDATE warnings
+        SET status = 'acknowledged', acknowledged_at = ?, note = COALESCE(?, note)
+        WHERE id = ? AND status = 'open'
+      `)
+      .run(Date.now(), note, id);
+
+    return this.getWarning(id);
+  }
+
+  resolveWarning(id: number, note: string | null): Warning | null {
+    this.db
+      .prepare(`
+        UPDATE warnings
+        SET status = 'resolved', resolved_at = ?, auto_resolved = 0, note = COALESCE(?, note)
+        WHERE id = ? AND status != 'resolved'
+      `)
+      .run(Date.now(), note, id);
+
+    return this.getWarning(id);
+  }
+
+
   // ===== EVENTS =====
 
   getEventsRC(limit: number = 1000): BlockchainEvent[] {
@@ -516,6 +1437,8 @@ export class DatabaseClient {
       validatorsElected: row.validators_elected,
       expectedDurationBlocks: row.expected_duration_blocks,
       status: row.status,
+      endBlockNumber: row.end_block_number,
+      endTimestamp: row.end_timestamp,
     }));
   }
 
@@ -540,9 +1463,63 @@ export class DatabaseClient {
       validatorsElected: row.validators_elected,
       expectedDurationBlocks: row.expected_duration_blocks,
       status: row.status,
+      endBlockNumber: row.end_block_number,
+      endTimestamp: row.end_timestamp,
     }));
   }
 
+  private toElectionPhaseTiming(row: any): ElectionPhaseTiming {
+    const actualDurationBlocks = row.end_block_number !== null ? row.end_block_number - row.block_number : null;
+    return {
+      id: row.id,
+      eraId: row.era_id,
+      round: row.round,
+      phase: row.phase,
+      status: row.status,
+      startBlock: row.block_number,
+      startTime: row.timestamp,
+      endBlock: row.end_block_number,
+      endTime: row.end_timestamp,
+      expectedDurationBlocks: row.expected_duration_blocks,
+      actualDurationBlocks,
+      overrunBlocks: actualDurationBlocks !== null && row.expected_duration_blocks !== null
+        ? actualDurationBlocks - row.expected_duration_blocks
+        : null,
+    };
+  }
+
+  /**
+   * Phase timelines of the election rounds with a phase in an era (or the most recent rounds), newest first
+   */
+  getElectionTimelines(eraId: number | null, limit: number = 10): ElectionRoundTimeline[] {
+    const rounds = (eraId !== null
+      ? this.db.prepare('SELECT DISTINCT round FROM election_phases WHERE era_id = ? ORDER BY round DESC').all(eraId)
+      : this.db.prepare('SELECT DISTINCT round FROM election_phases ORDER BY round DESC LIMIT ?').all(limit)
+    ) as { round: number }[];
+
+    return rounds
+      .map(({ round }) => this.getElectionRoundTimeline(round))
+      .filter((timeline): timeline is ElectionRoundTimeline => timeline !== null);
+  }
+
+  getElectionRoundTimeline(round: number): ElectionRoundTimeline | null {
+    const rows = this.db
+      .prepare('SELECT * FROM election_phases WHERE round = ? ORDER BY block_number ASC, id ASC')
+      .all(round) as any[];
+    if (rows.length === 0) return null;
+
+    const phases = rows.map(row => this.toElectionPhaseTiming(row));
+    const last = phases[phases.length - 1];
+    return {
+      round,
+      eraId: phases[0].eraId,
+      startBlock: phases[0].startBlock,
+      // Off closes the round; otherwise the round lasts until its last phase ends
+      endBlock: last.phase === 'Off' ? last.startBlock : last.endBlock,
+      phases,
+    };
+  }
+
   // ===== ELECTION SCORES =====
 
   getAllElectionWinners(limit: number = 50): any[] {
@@ -631,6 +1608,168 @@ export class DatabaseClient {
     }));
   }
 
+  // ===== ELECTION ROUNDS =====
+
+  /**
+   * Summaries of the most recent election rounds (seen in phases or submissions), newest first
+   */
+  getElectionRounds(limit: number = 50, beforeRound: number | null = null): ElectionRoundSummary[] {
+    const rows = this.db
+      .prepare(`
+        SELECT round FROM (SELECT round FROM election_phases UNION SELECT round FROM election_scores)
+        WHERE ? IS NULL OR round < ?
+        ORDER BY round DESC
+        LIMIT ?
+      `)
+      .all(beforeRound, beforeRound, limit) as { round: number }[];
+
+    return rows
+      .map(({ round }) => this.getElectionRound(round))
+      .filter((details): details is ElectionRoundDetails => details !== null)
+      .map(({ timeline, submissions, ...summary }) => summary);
+  }
+
+  /**
+   * A single election round with its phase timeline and every submission
+   */
+  getElectionRound(round: number): ElectionRoundDetails | null {
+    const phaseRows = this.db
+      .prepare('SELECT * FROM election_phases WHERE round = ? ORDER BY block_number ASC, id ASC')
+      .all(round) as any[];
+    const scoreRows = this.db
+      .prepare('SELECT * FROM election_scores WHERE round = ? ORDER BY created_at ASC, id ASC')
+      .all(round) as any[];
+    if (phaseRows.length === 0 && scoreRows.length === 0) return null;
+
+    const timeline = phaseRows.map(row => this.toElectionPhaseTiming(row));
+    const submissions: ElectionSubmission[] = scoreRows
+      .map(row => ({
+        submitter: row.submitter,
+        status: row.status as ElectionSubmissionStatus,
+        minimalStake: row.minimal_stake,
+        sumStake: row.sum_stake,
+        sumStakeSquared: row.sum_stake_squared,
+        blockNumber: row.block_number,
+      }))
+      .sort(compareScoresDesc);
+
+    const outcomes: Partial<Record<ElectionSubmissionStatus, number>> = {};
+    for (const submission of submissions) {
+      outcomes[submission.status] = (outcomes[submission.status] ?? 0) + 1;
+    }
+
+    const winner = submissions.find(s => s.status === 'rewarded') ?? null;
+    const signed = phaseRows.find(row => row.phase === 'Signed');
+    const last = timeline[timeline.length - 1];
+
+    return {
+      round,
+      eraId: timeline[0]?.eraId ?? scoreRows.find(row => row.era_id !== null)?.era_id ?? null,
+      startBlock: timeline[0]?.startBlock ?? null,
+      // Off closes the round; otherwise the round lasts until its last phase ends
+      endBlock: last ? (last.phase === 'Off' ? last.startBlock : last.endBlock) : null,
+      phases: timeline.map(phase => phase.phase),
+      submissionCount: submissions.length,
+      outcomes,
+      winner: winner
+        ? { submitter: winner.submitter, minimalStake: winner.minimalStake, sumStake: winner.sumStake, sumStakeSquared: winner.sumStakeSquared }
+        : null,
+      minimumScore: signed?.minimum_score ?? null,
+      emergency: timeline.some(phase => phase.phase === 'Emergency'),
+      timeline,
+      submissions,
+    };
+  }
+
+  // ===== ELECTION SUBMITTERS =====
+
+  private getSubmitterRounds(submitter: string | null): SubmitterRound[] {
+    const rows = this.db
+      .prepare(`
+        SELECT s.*,
+          (SELECT p.minimum_score FROM election_phases p
+           WHERE p.round = s.round AND p.phase = 'Signed' ORDER BY p.id DESC LIMIT 1) AS minimum_score
+        FROM election_scores s
+        WHERE ? IS NULL OR s.submitter = ?
+        ORDER BY s.round DESC, s.id DESC
+      `)
+      .all(submitter, submitter) as any[];
+
+    return rows.map(row => {
+      const minimum = parseMinimalStake(row.minimum_score);
+      // Basis points keep two decimals without leaving bigint
+      const marginPercent = minimum !== null && minimum > BigInt(0)
+        ? Number(((BigInt(row.minimal_stake) - minimum) * BigInt(10000)) / minimum) / 100
+        : null;
+
+      return {
+        round: row.round,
+        eraId: row.era_id,
+        submitter: row.submitter,
+        status: row.status as ElectionSubmissionStatus,
+        minimalStake: row.minimal_stake,
+        sumStake: row.sum_stake,
+        sumStakeSquared: row.sum_stake_squared,
+        blockNumber: row.block_number,
+        minimumMinimalStake: minimum !== null ? minimum.toString() : null,
+        marginPercent,
+      };
+    });
+  }
+
+  private summarizeSubmitter(submitter: string, rounds: SubmitterRound[]): SubmitterStats {
+    const outcomes: Partial<Record<ElectionSubmissionStatus, number>> = {};
+    for (const round of rounds) {
+      outcomes[round.status] = (outcomes[round.status] ?? 0) + 1;
+    }
+
+    const margins = rounds.map(round => round.marginPercent).filter((margin): margin is number => margin !== null);
+    const wins = outcomes.rewarded ?? 0;
+
+    return {
+      submitter,
+      roundsParticipated: rounds.length,
+      wins,
+      winRate: rounds.length > 0 ? wins / rounds.length : 0,
+      slashCount: outcomes.slashed ?? 0,
+      outcomes,
+      averageMarginPercent: margins.length > 0 ? margins.reduce((sum, margin) => sum + margin, 0) / margins.length : null,
+      firstRound: Math.min(...rounds.map(round => round.round)),
+      lastRound: Math.max(...rounds.map(round => round.round)),
+      lastActiveBlock: Math.max(...rounds.map(round => round.blockNumber)),
+    };
+  }
+
+  /**
+   * Signed submitters ranked by wins, then rounds participated
+   */
+  getElectionSubmitters(limit: number = 100): SubmitterStats[] {
+    const bySubmitter = new Map<string, SubmitterRound[]>();
+    for (const round of this.getSubmitterRounds(null)) {
+      const rounds = bySubmitter.get(round.submitter) ?? [];
+      rounds.push(round);
+      bySubmitter.set(round.submitter, rounds);
+    }
+
+    return [...bySubmitter.entries()]
+      .map(([submitter, rounds]) => this.summarizeSubmitter(submitter, rounds))
+      .sort((a, b) => b.wins - a.wins || b.roundsParticipated - a.roundsParticipated || b.lastRound - a.lastRound)
+      .slice(0, limit);
+  }
+
+  /**
+   * A submitter's stats with its most recent rounds
+   */
+  getElectionSubmitter(submitter: string, limit: number = 50): SubmitterDetails | null {
+    const rounds = this.getSubmitterRounds(submitter);
+    if (rounds.length === 0) return null;
+
+    return {
+      ...this.summarizeSubmitter(submitter, rounds),
+      rounds: rounds.slice(0, limit),
+    };
+  }
+
   // ===== STATS =====
 
   getStats() {
@@ -691,6 +1830,141 @@ export class DatabaseClient {
     return rows;
   }
 
+  // ===== NOTIFICATIONS =====
+
+  getState(key: string): string | null {
+    const row = this.db
+      .prepare('SELECT value FROM indexer_state WHERE key = ?')
+      .get(key) as { value: string } | undefined;
+    return row ? row.value : null;
+  }
+
+  setState(key: string, value: string): void {
+    this.db
+      .prepare(`
+        INSERT INTO indexer_state (key, value, updated_at) VALUES (?, ?, ?)
+        ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+      `)
+      .run(key, value, Date.now());
+  }
+
+  getMaxWarningId(): number {
+    const row = this.db.prepare('SELECT MAX(id) as maxId FROM warnings').get() as { maxId: number | null };
+    return row.maxId ?? 0;
+  }
+
+  // Warnings created after the given id, oldest first
+  getWarningsAfterId(afterId: number, limit: number = 100): Warning[] {
+    const rows = this.db
+      .prepare('SELECT * FROM warnings WHERE id > ? ORDER BY id ASC LIMIT ?')
+      .all(afterId, limit) as any[];
+    return rows.map(row => this.toWarning(row));
+  }
+
+  /**
+   * Queue warnings for a target. Warnings are merged into a pending notification
+   * that has not been attempted or claimed yet, so a burst (or a rate-limited target) results in one message.
+   */
+  enqueueNotification(target: string, warnings: Warning[]): number {
+    const now = Date.now();
+    const pending = this.db
+      .prepare(`
+        SELECT id, warnings FROM notification_queue
+        WHERE target = ? AND status = 'pending' AND attempts = 0 AND next_attempt_at <= ?
+        ORDER BY id DESC LIMIT 1
+      `)
+      .get(target, now) as { id: number; warnings: string } | undefined;
+
+    if (pending) {
+      const merged = [...JSON.parse(pending.warnings), ...warnings];
+      this.db
+        .prepare('UPDATE notification_queue SET warnings = ? WHERE id = ?')
+        .run(JSON.stringify(merged), pending.id);
+      return pending.id;
+    }
+
+    const result = this.db
+      .prepare(`
+        INSERT INTO notification_queue (target, warnings, status, attempts, next_attempt_at, created_at)
+        VALUES (?, ?, 'pending', 0, ?, ?)
+      `)
+      .run(target, JSON.stringify(warnings), now, now);
+    return result.lastInsertRowid as number;
+  }
+
+  getDueNotifications(now: number, limit: number = 20): Array<{ id: number; target: string; attempts: number }> {
+    const rows = this.db
+      .prepare(`
+        SELECT * FROM notification_queue
+        WHERE status = 'pending' AND next_attempt_at <= ?
+        ORDER BY id ASC
+        LIMIT ?
+      `)
+      .all(now, limit) as any[];
+    return rows.map(row => ({
+      id: row.id,
+      target: row.target,
+      attempts: row.attempts,
+    }));
+  }
+
+  /**
+   * Claim a due notification for delivery and return the warnings to send, or null if it is no longer due.
+   * A claimed notification is not due (and absorbs no new warnings) until `until`, when an
+   * interrupted delivery is retried.
+   */
+  claimNotification(id: number, now: number, until: number): Warning[] | null {
+    const row = this.db
+      .prepare(`
+        UPDATE notification_queue SET next_attempt_at = ?
+        WHERE id = ? AND status = 'pending' AND next_attempt_at <= ?
+        RETURNING warnings
+      `)
+      .get(until, id, now) as { warnings: string } | undefined;
+    return row ? JSON.parse(row.warnings) : null;
+  }
+
+  countNotificationsSentSince(target: string, since: number): number {
+    const row = this.db
+      .prepare(`SELECT COUNT(*) as count FROM notification_queue WHERE target = ? AND status = 'sent' AND sent_at >= ?`)
+      .get(target, since) as { count: number };
+    return row.count;
+  }
+
+  markNotificationSent(id: number): void {
+    this.db
+      .prepare(`UPDATE notification_queue SET status = 'sent', attempts = attempts + 1, sent_at = ?, last_error = NULL WHERE id = ?`)
+      .run(Date.now(), id);
+  }
+
+  // nextAttemptAt = null gives up on the notification
+  markNotificationAttemptFailed(id: number, error: string, nextAttemptAt: number | null): void {
+    this.db
+      .prepare(`
+        UPDATE notification_queue
+        SET attempts = attempts + 1, last_error = ?, status = ?, next_attempt_at = COALESCE(?, next_attempt_at)
+        WHERE id = ?
+      `)
+      .run(error, nextAttemptAt === null ? 'failed' : 'pending', nextAttemptAt, id);
+  }
+
+  getNotifications(limit: number = 100): NotificationRecord[] {
+    const rows = this.db
+      .prepare('SELECT * FROM notification_queue ORDER BY id DESC LIMIT ?')
+      .all(limit) as any[];
+    return rows.map(row => ({
+      id: row.id,
+      target: row.target,
+      warningCount: JSON.parse(row.warnings).length,
+      status: row.status,
+      attempts: row.attempts,
+      nextAttemptAt: row.next_attempt_at,
+      lastError: row.last_error,
+      createdAt: row.created_at,
+      sentAt: row.sent_at,
+    }));
+  }
+
   close(): void {
     this.db.close();
   }
@@ -3,10 +3,11 @@ import cors from 'cors';
 import { createServer } from 'http';
 import dotenv from 'dotenv';
 import pinoHttp from 'pino-http';
-import { DatabaseClient } from './database/DatabaseClient';
+import { DatabaseClient, type ForecastSettings } from './database/DatabaseClient';
 import { createRouter } from './routes';
 import { WebSocketManager } from './websocket/WebSocketManager';
 import { ChainQueryService } from './services/ChainQueryService';
+import { NotificationService, loadNotificationConfig } from './services/NotificationService';
 import logger from './utils/logger';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -47,6 +48,40 @@ const DB_PATH = path.isAbsolute(dbPathEnv)
   ? dbPathEnv
   : path.join(projectRoot, dbPathEnv);
 
+// Thresholds shared with the indexer's warning rules config
+function loadThresholds(): Record<string, unknown> {
+  const configPath = path.join(projectRoot, 'config', 'warning-rules.json');
+  try {
+    const config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+    return config?.[CHAIN]?.thresholds ?? {};
+  } catch (e) {
+    logger.warn({ configPath, error: e }, 'Failed to read warning rules config, using defaults');
+    return {};
+  }
+}
+
+function positiveThreshold(thresholds: Record<string, unknown>, name: string, fallback: number): number {
+  const value = thresholds[name];
+  if (typeof value === 'number' && value > 0) {
+    return value;
+  }
+  logger.warn({ chain: CHAIN, threshold: name, fallback }, 'Threshold not set in warning rules config, using default');
+  return fallback;
+}
+
+// Max sync lag for the in-sync status
+function loadMaxSyncLagMs(thresholds: Record<string, unknown>): number {
+  return positiveThreshold(thresholds, 'maxSyncLagMs', 60000);
+}
+
+// Era length and sessions per era the era forecast starts from
+function loadForecastSettings(thresholds: Record<string, unknown>): ForecastSettings {
+  return {
+    sessionsPerEra: positiveThreshold(thresholds, 'expectedSessionsPerEra', 6),
+    expectedEraDurationMs: positiveThreshold(thresholds, 'expectedEraDurationMs', 24 * 60 * 60 * 1000),
+  };
+}
+
 async function waitForDatabase(maxWaitMs: number = 60000): Promise<void> {
   const startTime = Date.now();
   const checkInterval = 2000; // Check every 2 seconds
@@ -79,7 +114,8 @@ async function main() {
     }
 
     // Initialize database client
-    const db = new DatabaseClient(DB_PATH);
+    const thresholds = loadThresholds();
+    const db = new DatabaseClient(DB_PATH, loadMaxSyncLagMs(thresholds), loadForecastSettings(thresholds));
     logger.info({ dbPath: DB_PATH }, 'Database client initialized');
 
     // Initialize chain query service
@@ -137,8 +173,19 @@ async function main() {
     // Create HTTP server
     const httpServer = createServer(app);
 
+    // Initialize outbound notifications (only when at least one target is configured)
+    const notificationConfig = loadNotificationConfig();
+    const notificationService = notificationConfig.targets.length > 0
+      ? new NotificationService(db, CHAIN, notificationConfig, logger)
+      : null;
+    if (notificationService) {
+      notificationService.start();
+    } else {
+      logger.info('No notification targets configured, outbound notifications disabled');
+    }
+
     // Initialize WebSocket manager
-    const wsManager = new WebSocketManager(httpServer, db, DB_PATH, logger);
+    const wsManager = new WebSocketManager(httpServer, db, DB_PATH, logger, notificationService);
     logger.info('WebSocket manager initialized');
 
     // Start server
@@ -152,6 +199,7 @@ async function main() {
 
       try {
         wsManager.stop();
+        notificationService?.stop();
         await chainQueryService.disconnect();
         db.close();
         httpServer.close(() => {
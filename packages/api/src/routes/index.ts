@@ -1,6 +1,28 @@
 import { Router } from 'express';
 import type { DatabaseClient } from '../database/DatabaseClient';
 import type { ChainQueryService } from '../services/ChainQueryService';
+import type { ElectionIncidentStatus, ElectionScore, ScoreSimulation, SlashStatus } from '@staking-cc/shared';
+import { PERBILL, parseElectionScore, simulateScore } from '../services/electionScore';
+
+const WARNING_STATUSES = ['open', 'acknowledged', 'resolved'];
+const SLASH_STATUSES = ['reported', 'deferred', 'applied', 'cancelled'];
+const INCIDENT_STATUSES = ['open', 'queued', 'recovered'];
+
+// Validators earning less than this fraction of the era median are flagged as underperforming
+const DEFAULT_UNDERPERFORMANCE_RATIO = 0.5;
+
+function parseUnderperformanceRatio(value: unknown): number {
+  const ratio = parseFloat(value as string);
+  return Number.isFinite(ratio) && ratio > 0 ? ratio : DEFAULT_UNDERPERFORMANCE_RATIO;
+}
+
+// Era statistics cover at most the eras the indexer retains
+const MAX_ERAS = parseInt(process.env.MAX_ERAS || '100', 10);
+
+// Operator notes are optional free text
+function parseNote(note: unknown): string | null {
+  return typeof note === 'string' && note.trim() !== '' ? note.trim().slice(0, 1000) : null;
+}
 
 export function createRouter(db: DatabaseClient, chainQueryService: ChainQueryService): Router {
   const router = Router();
@@ -99,6 +121,18 @@ export function createRouter(db: DatabaseClient, chainQueryService: ChainQuerySe
     }
   });
 
+  // Get per-era statistics with rolling averages and outliers
+  router.get('/eras/stats', (req, res) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || MAX_ERAS;
+      const window = parseInt(req.query.window as string) || 7;
+      const statistics = db.getEraStatistics(Math.min(limit, MAX_ERAS), Math.min(Math.max(window, 1), 50));
+      res.json(statistics);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get era statistics' });
+    }
+  });
+
   // Get era details
   router.get('/eras/:eraId', (req, res) => {
     try {
@@ -128,6 +162,17 @@ export function createRouter(db: DatabaseClient, chainQueryService: ChainQuerySe
     }
   });
 
+  // Get Relay Chain sessions (from session.NewSession)
+  router.get('/sessions/rc', (req, res) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 100;
+      const sessions = db.getRcSessions(Math.min(limit, 200));
+      res.json(sessions);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get RC sessions' });
+    }
+  });
+
   // Get session details
   router.get('/sessions/:sessionId', (req, res) => {
     try {
@@ -166,24 +211,267 @@ export function createRouter(db: DatabaseClient, chainQueryService: ChainQuerySe
     }
   });
 
+  // Get RC -> AH session report latency by era
+  router.get('/eras/:eraId/report-latency', (req, res) => {
+    try {
+      const eraId = parseInt(req.params.eraId);
+      const latency = db.getSessionReportLatencyByEra(eraId);
+      res.json(latency);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get session report latency' });
+    }
+  });
+
+  // Get claimed vs unclaimed payouts for an era
+  router.get('/eras/:eraId/rewards', (req, res) => {
+    try {
+      const eraId = parseInt(req.params.eraId);
+      const rewards = db.getEraRewards(eraId);
+
+      if (!rewards) {
+        return res.status(404).json({ error: 'Rewards not found' });
+      }
+
+      res.json(rewards);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get era rewards' });
+    }
+  });
+
+  // Get validators added, removed and retained by the election that ran during an era
+  router.get('/eras/:eraId/validator-diff', (req, res) => {
+    try {
+      const eraId = parseInt(req.params.eraId);
+      const diff = db.getValidatorSetDiff(eraId);
+
+      if (!diff) {
+        return res.status(404).json({ error: 'Validator set not found' });
+      }
+
+      res.json(diff);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get validator set diff' });
+    }
+  });
+
+  // Get eras with unclaimed payouts and their expiry countdown
+  router.get('/rewards/unclaimed', (req, res) => {
+    try {
+      const report = db.getUnclaimedRewards();
+      const includeExpired = req.query.includeExpired === 'true';
+
+      res.json(includeExpired ? report : { ...report, eras: report.eras.filter(era => era.erasRemaining >= 0) });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get unclaimed rewards' });
+    }
+  });
+
+  // ===== VALIDATOR ENDPOINTS =====
+
+  // Get reward points of all validators in an era (latest snapshotted era if none given)
+  router.get('/validators/points', (req, res) => {
+    try {
+      const eraId = req.query.eraId !== undefined ? parseInt(req.query.eraId as string) : null;
+      const points = db.getEraValidatorPoints(eraId, parseUnderperformanceRatio(req.query.ratio));
+
+      if (!points) {
+        return res.status(404).json({ error: 'Era points not found' });
+      }
+
+      res.json(points);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get validator points' });
+    }
+  });
+
+  // Get a validator's reward points history compared to the era average and median
+  router.get('/validators/:address/points', (req, res) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 100;
+      const performance = db.getValidatorPerformance(
+        req.params.address,
+        Math.min(limit, 500),
+        parseUnderperformanceRatio(req.query.ratio)
+      );
+
+      if (!performance) {
+        return res.status(404).json({ error: 'Validator not found' });
+      }
+
+      res.json(performance);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get validator points' });
+    }
+  });
+
+  // ===== SLASH ENDPOINTS =====
+
+  // Get offences and slashes (?status=deferred for slashes still waiting to apply)
+  router.get('/slashes', (req, res) => {
+    try {
+      const status = req.query.status as string | undefined;
+      const limit = parseInt(req.query.limit as string) || 100;
+
+      if (status && !SLASH_STATUSES.includes(status)) {
+        return res.status(400).json({ error: `status must be one of ${SLASH_STATUSES.join(', ')}` });
+      }
+
+      const slashes = db.getSlashes((status as SlashStatus | undefined) ?? null, Math.min(limit, 500));
+      res.json(slashes);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get slashes' });
+    }
+  });
+
+  // Get a slash with every staker slashed for it
+  router.get('/slashes/:id', (req, res) => {
+    try {
+      const slash = db.getSlash(parseInt(req.params.id));
+
+      if (!slash) {
+        return res.status(404).json({ error: 'Slash not found' });
+      }
+
+      res.json(slash);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get slash' });
+    }
+  });
+
+  // ===== STAKING POPULATION ENDPOINTS =====
+
+  // Get nominator/validator counts, bags list state and minimum bonds per session, oldest first
+  router.get('/population', (req, res) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 168;
+      res.json(db.getStakingPopulation(Math.min(limit, 2000)));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get staking population' });
+    }
+  });
+
+  // ===== STAKING CLIENT ENDPOINTS =====
+
+  // Get RC stakingAhClient / AH stakingRcClient state per session, oldest first
+  router.get('/staking-client', (req, res) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 100;
+      res.json(db.getStakingClientSamples(Math.min(limit, 1000)));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get staking client samples' });
+    }
+  });
+
+  // ===== STORAGE SNAPSHOT ENDPOINTS =====
+
+  // Get every watched storage item (config/storage-watch.json) with its latest value
+  router.get('/storage', (req, res) => {
+    try {
+      res.json(db.getWatchedStorageItems());
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get watched storage items' });
+    }
+  });
+
+  // Get the snapshot history of a watched storage item, newest first
+  router.get('/storage/:watchId', (req, res) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 100;
+      const snapshots = db.getStorageSnapshots(req.params.watchId, Math.min(limit, 1000));
+
+      if (snapshots.length === 0) {
+        return res.status(404).json({ error: 'Storage item not found' });
+      }
+
+      res.json(snapshots);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get storage snapshots' });
+    }
+  });
+
+  // ===== CONSISTENCY ENDPOINTS =====
+
+  // Get the cross-chain consistency report (RC session/validator-set events vs AH session records)
+  router.get('/consistency', (req, res) => {
+    try {
+      const includeResolved = req.query.includeResolved === 'true';
+      const limit = parseInt(req.query.limit as string) || 100;
+      const report = db.getConsistencyReport(includeResolved, Math.min(limit, 500));
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get consistency report' });
+    }
+  });
+
   // ===== WARNING ENDPOINTS =====
 
-  // Get recent warnings
+  // Get recent warnings, optionally filtered by severity and status (comma-separated, e.g. status=open,acknowledged)
   router.get('/warnings', (req, res) => {
     try {
       const limit = parseInt(req.query.limit as string) || 100;
-      const severity = req.query.severity as string;
+      const severity = req.query.severity as string | undefined;
+      const status = req.query.status ? (req.query.status as string).split(',') : undefined;
 
-      const warnings = severity
-        ? db.getWarningsBySeverity(severity, Math.min(limit, 500))
-        : db.getWarnings(Math.min(limit, 500));
+      if (status && status.some(s => !WARNING_STATUSES.includes(s))) {
+        return res.status(400).json({ error: `status must be one of ${WARNING_STATUSES.join(', ')}` });
+      }
 
+      const warnings = db.getWarnings(Math.min(limit, 500), { severity, status });
       res.json(warnings);
     } catch (error) {
       res.status(500).json({ error: 'Failed to get warnings' });
     }
   });
 
+  // Get warning counts per status
+  router.get('/warnings/counts', (req, res) => {
+    try {
+      res.json(db.getWarningCounts());
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get warning counts' });
+    }
+  });
+
+  // Acknowledge an open warning
+  router.post('/warnings/:id/acknowledge', (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const note = parseNote(req.body?.note);
+
+      const existing = db.getWarning(id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Warning not found' });
+      }
+      if (existing.status !== 'open') {
+        return res.status(409).json({ error: `Warning is already ${existing.status}` });
+      }
+
+      res.json(db.acknowledgeWarning(id, note));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to acknowledge warning' });
+    }
+  });
+
+  // Resolve an open or acknowledged warning
+  router.post('/warnings/:id/resolve', (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const note = parseNote(req.body?.note);
+
+      const existing = db.getWarning(id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Warning not found' });
+      }
+      if (existing.status === 'resolved') {
+        return res.status(409).json({ error: 'Warning is already resolved' });
+      }
+
+      res.json(db.resolveWarning(id, note));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to resolve warning' });
+    }
+  });
+
   // Get warnings by era
   router.get('/eras/:eraIndex/warnings', (req, res) => {
     try {
@@ -219,6 +507,161 @@ export function createRouter(db: DatabaseClient, chainQueryService: ChainQuerySe
     }
   });
 
+  // Get phase timelines (actual vs expected duration) per election round, for an era or the latest rounds
+  router.get('/elections/timeline', (req, res) => {
+    try {
+      const eraId = req.query.eraId !== undefined ? parseInt(req.query.eraId as string) : null;
+      const limit = parseInt(req.query.limit as string) || 10;
+      res.json(db.getElectionTimelines(eraId, Math.min(limit, 100)));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get election timeline' });
+    }
+  });
+
+  // Get the phase timeline of a single election round
+  router.get('/elections/rounds/:round/timeline', (req, res) => {
+    try {
+      const timeline = db.getElectionRoundTimeline(parseInt(req.params.round));
+
+      if (!timeline) {
+        return res.status(404).json({ error: 'Election round not found' });
+      }
+
+      res.json(timeline);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get election timeline' });
+    }
+  });
+
+  // ===== ELECTION ROUND ENDPOINTS =====
+
+  // List election rounds with their era, phases, submissions and outcome (?before=round pages back)
+  router.get('/elections/rounds', (req, res) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 50;
+      const before = req.query.before !== undefined ? parseInt(req.query.before as string) : null;
+      res.json(db.getElectionRounds(Math.min(limit, 200), before));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get election rounds' });
+    }
+  });
+
+  // Get a single election round with its phase timeline and all submissions
+  router.get('/elections/rounds/:round', (req, res) => {
+    try {
+      const details = db.getElectionRound(parseInt(req.params.round));
+
+      if (!details) {
+        return res.status(404).json({ error: 'Election round not found' });
+      }
+
+      res.json(details);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get election round' });
+    }
+  });
+
+  // Rank a candidate score against a round's submissions and its minimum score
+  // Body: { minimalStake, sumStake, sumStakeSquared, thresholdPerbill? } (u128s as decimal or hex strings)
+  router.post('/elections/rounds/:round/simulate', async (req, res) => {
+    try {
+      const round = parseInt(req.params.round);
+      const score = parseElectionScore(req.body);
+      const thresholdPerbill = req.body?.thresholdPerbill ?? 0;
+
+      if (!score) {
+        return res.status(400).json({ error: 'minimalStake, sumStake and sumStakeSquared must be non-negative integers' });
+      }
+
+      if (!Number.isInteger(thresholdPerbill) || thresholdPerbill < 0 || thresholdPerbill > PERBILL) {
+        return res.status(400).json({ error: `thresholdPerbill must be an integer between 0 and ${PERBILL}` });
+      }
+
+      const details = db.getElectionRound(round);
+
+      if (!details) {
+        return res.status(404).json({ error: 'Election round not found' });
+      }
+
+      // Prefer the minimum recorded for the round; fall back to the live one from chain
+      let minimumScore: ElectionScore | null = parseElectionScore(details.minimumScore);
+      let minimumSource: ScoreSimulation['minimumSource'] = minimumScore ? 'round' : null;
+      if (!minimumScore) {
+        try {
+          minimumScore = parseElectionScore(await chainQueryService.queryMinimumScore());
+          minimumSource = minimumScore ? 'chain' : null;
+        } catch (error) {
+          minimumScore = null;
+        }
+      }
+
+      res.json(simulateScore(round, score, details.submissions, thresholdPerbill, minimumScore, minimumSource));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to simulate election score' });
+    }
+  });
+
+  // ===== ELECTION INCIDENT ENDPOINTS =====
+
+  // Get election failure / Emergency incidents (?status=open for incidents not yet recovered from)
+  router.get('/elections/incidents', (req, res) => {
+    try {
+      const status = req.query.status as string | undefined;
+      const limit = parseInt(req.query.limit as string) || 50;
+
+      if (status && !INCIDENT_STATUSES.includes(status)) {
+        return res.status(400).json({ error: `status must be one of ${INCIDENT_STATUSES.join(', ')}` });
+      }
+
+      res.json(db.getElectionIncidents((status as ElectionIncidentStatus | undefined) ?? null, Math.min(limit, 200)));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get election incidents' });
+    }
+  });
+
+  // Get an incident with every election event from its opening to recovery
+  router.get('/elections/incidents/:id', (req, res) => {
+    try {
+      const incident = db.getElectionIncident(parseInt(req.params.id));
+
+      if (!incident) {
+        return res.status(404).json({ error: 'Election incident not found' });
+      }
+
+      res.json(incident);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get election incident' });
+    }
+  });
+
+  // ===== ELECTION SUBMITTER ENDPOINTS =====
+
+  // Leaderboard of signed submitters: rounds, wins, slashes and margin over the minimum score
+  router.get('/elections/submitters', (req, res) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 100;
+      res.json(db.getElectionSubmitters(Math.min(limit, 500)));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get election submitters' });
+    }
+  });
+
+  // Get a submitter's stats and recent rounds
+  router.get('/elections/submitters/:address', (req, res) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 50;
+      const submitter = db.getElectionSubmitter(req.params.address, Math.min(limit, 500));
+
+      if (!submitter) {
+        return res.status(404).json({ error: 'Submitter not found' });
+      }
+
+      res.json(submitter);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get election submitter' });
+    }
+  });
+
   // ===== ELECTION SCORE ENDPOINTS =====
 
   // Get all winners (rewarded submissions)
@@ -426,5 +869,18 @@ export function createRouter(db: DatabaseClient, chainQueryService: ChainQuerySe
     }
   });
 
+  // ===== NOTIFICATION ENDPOINTS =====
+
+  // Get outbound notification queue (pending, sent and failed deliveries)
+  router.get('/notifications', (req, res) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 100;
+      const notifications = db.getNotifications(Math.min(limit, 1000));
+      res.json(notifications);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to get notifications' });
+    }
+  });
+
   return router;
 }
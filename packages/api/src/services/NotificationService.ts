@@ -0,0 +1,232 @@
+import type { Logger } from 'pino';
+import type { Warning, WarningSeverity } from '@staking-cc/shared';
+import type { DatabaseClient } from '../database/DatabaseClient';
+import {
+  formatMatrixPayload,
+  formatSlackPayload,
+  formatWebhookPayload,
+  type NotificationTargetType,
+} from './notificationFormatters';
+
+export interface NotificationTarget {
+  name: string;
+  type: NotificationTargetType;
+  url: string;
+  accessToken?: string; // Matrix only
+}
+
+export interface NotificationConfig {
+  targets: NotificationTarget[];
+  minSeverity: WarningSeverity;
+  maxPerHour: number; // Per target; further warnings are grouped into the next message
+  maxAttempts: number;
+  retryBaseMs: number; // Retry backoff doubles per attempt, capped at one hour
+}
+
+const SEVERITY_ORDER: WarningSeverity[] = ['info', 'warning', 'error'];
+const CURSOR_KEY = 'notificationLastWarningId';
+const WARNING_PAGE_SIZE = 500;
+const HOUR_MS = 60 * 60 * 1000;
+const SEND_TIMEOUT_MS = 10000;
+// A claimed notification whose delivery never reported back (e.g. the API restarted) is due again after this
+const CLAIM_MS = 6 * SEND_TIMEOUT_MS;
+
+/**
+ * Build notification config from NOTIFY_* environment variables
+ */
+export function loadNotificationConfig(env: NodeJS.ProcessEnv = process.env): NotificationConfig {
+  const targets: NotificationTarget[] = [];
+
+  if (env.NOTIFY_WEBHOOK_URL) {
+    targets.push({ name: 'webhook', type: 'webhook', url: env.NOTIFY_WEBHOOK_URL });
+  }
+
+  if (env.NOTIFY_SLACK_WEBHOOK_URL) {
+    targets.push({ name: 'slack', type: 'slack', url: env.NOTIFY_SLACK_WEBHOOK_URL });
+  }
+
+  if (env.NOTIFY_MATRIX_HOMESERVER && env.NOTIFY_MATRIX_ROOM_ID && env.NOTIFY_MATRIX_ACCESS_TOKEN) {
+    const homeserver = env.NOTIFY_MATRIX_HOMESERVER.replace(/\/+$/, '');
+    targets.push({
+      name: 'matrix',
+      type: 'matrix',
+      url: `${homeserver}/_matrix/client/v3/rooms/${encodeURIComponent(env.NOTIFY_MATRIX_ROOM_ID)}/send/m.room.message`,
+      accessToken: env.NOTIFY_MATRIX_ACCESS_TOKEN,
+    });
+  }
+
+  const minSeverity = (env.NOTIFY_MIN_SEVERITY || 'error') as WarningSeverity;
+  if (!SEVERITY_ORDER.includes(minSeverity)) {
+    throw new Error('NOTIFY_MIN_SEVERITY must be "info", "warning", or "error"');
+  }
+
+  return {
+    targets,
+    minSeverity,
+    maxPerHour: parseInt(env.NOTIFY_MAX_PER_HOUR || '12', 10),
+    maxAttempts: parseInt(env.NOTIFY_MAX_ATTEMPTS || '8', 10),
+    retryBaseMs: 30000,
+  };
+}
+
+/**
+ * Pushes new warnings to webhook / Slack / Matrix targets.
+ * Warnings are queued in SQLite per target and delivered with rate limiting and retries,
+ * so nothing is lost across API restarts.
+ */
+export class NotificationService {
+  private db: DatabaseClient;
+  private chain: string;
+  private config: NotificationConfig;
+  private logger: Logger;
+  private retryInterval: NodeJS.Timeout | null = null;
+  private isDispatching: boolean = false;
+
+  constructor(db: DatabaseClient, chain: string, config: NotificationConfig, logger: Logger) {
+    this.db = db;
+    this.chain = chain;
+    this.config = config;
+    this.logger = logger.child({ component: 'NotificationService' });
+  }
+
+  start(): void {
+    // Only notify about warnings raised from now on
+    if (this.db.getState(CURSOR_KEY) === null) {
+      this.db.setState(CURSOR_KEY, String(this.db.getMaxWarningId()));
+    }
+
+    // Retries and rate-limited messages are due even when the database does not change
+    this.retryInterval = setInterval(() => {
+      this.dispatch();
+    }, this.config.retryBaseMs);
+
+    this.logger.info({
+      targets: this.config.targets.map(t => t.name),
+      minSeverity: this.config.minSeverity,
+      maxPerHour: this.config.maxPerHour,
+    }, 'Notification service started');
+  }
+
+  stop(): void {
+    if (this.retryInterval) {
+      clearInterval(this.retryInterval);
+      this.retryInterval = null;
+    }
+  }
+
+  /**
+   * Queue warnings created since the last check and start delivery
+   */
+  checkNewWarnings(): void {
+    try {
+      const severities = SEVERITY_ORDER.slice(SEVERITY_ORDER.indexOf(this.config.minSeverity));
+      let lastId = parseInt(this.db.getState(CURSOR_KEY) || '0', 10);
+
+      // Page through everything created since the cursor. The cursor only moves to the last
+      // warning read, including warnings below the severity threshold.
+      for (;;) {
+        const page = this.db.getWarningsAfterId(lastId, WARNING_PAGE_SIZE);
+        if (page.length === 0) break;
+
+        const warnings = page.filter(warning => severities.includes(warning.severity));
+        if (warnings.length > 0) {
+          for (const target of this.config.targets) {
+            this.db.enqueueNotification(target.name, warnings);
+          }
+          this.logger.info({ count: warnings.length }, 'Queued warnings for notification');
+        }
+
+        lastId = page[page.length - 1].id!;
+        this.db.setState(CURSOR_KEY, String(lastId));
+
+        if (page.length < WARNING_PAGE_SIZE) break;
+      }
+    } catch (error) {
+      this.logger.error({ error }, 'Error queueing notifications');
+    }
+
+    this.dispatch();
+  }
+
+  /**
+   * Deliver due notifications, respecting the per-target hourly limit
+   */
+  async dispatch(): Promise<void> {
+    if (this.isDispatching) return;
+    this.isDispatching = true;
+
+    try {
+      const now = Date.now();
+
+      for (const notification of this.db.getDueNotifications(now)) {
+        const target = this.config.targets.find(t => t.name === notification.target);
+        if (!target) {
+          this.db.markNotificationAttemptFailed(notification.id, 'Target no longer configured', null);
+          continue;
+        }
+
+        if (this.db.countNotificationsSentSince(target.name, now - HOUR_MS) >= this.config.maxPerHour) {
+          // Stays pending (and keeps absorbing new warnings) until the window frees up
+          this.logger.debug({ target: target.name }, 'Notification rate limit reached');
+          continue;
+        }
+
+        // Claiming fixes the warnings to send: ones queued during delivery go into a new notification
+        const warnings = this.db.claimNotification(notification.id, now, Date.now() + CLAIM_MS);
+        if (!warnings) continue;
+
+        try {
+          await this.send(target, notification.id, warnings);
+          this.db.markNotificationSent(notification.id);
+          this.logger.info({ target: target.name, id: notification.id, warnings: warnings.length }, 'Notification sent');
+        } catch (error) {
+          const attempts = notification.attempts + 1;
+          const message = error instanceof Error ? error.message : String(error);
+          const nextAttemptAt = attempts >= this.config.maxAttempts
+            ? null
+            : Date.now() + Math.min(HOUR_MS, this.config.retryBaseMs * 2 ** (attempts - 1));
+
+          this.db.markNotificationAttemptFailed(notification.id, message, nextAttemptAt);
+          this.logger.warn({ target: target.name, id: notification.id, attempts, error: message, nextAttemptAt }, 'Notification delivery failed');
+        }
+      }
+    } catch (error) {
+      this.logger.error({ error }, 'Error dispatching notifications');
+    } finally {
+      this.isDispatching = false;
+    }
+  }
+
+  private async send(target: NotificationTarget, id: number, warnings: Warning[]): Promise<void> {
+    let url = target.url;
+    let method = 'POST';
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    let body: object;
+
+    switch (target.type) {
+      case 'slack':
+        body = formatSlackPayload(this.chain, warnings);
+        break;
+      case 'matrix':
+        // The transaction id makes retries of the same notification idempotent
+        url = `${target.url}/scc-${this.chain}-${id}`;
+        method = 'PUT';
+        headers.Authorization = `Bearer ${target.accessToken}`;
+        body = formatMatrixPayload(this.chain, warnings);
+        break;
+      default:
+        body = formatWebhookPayload(this.chain, warnings);
+    }
+
+    const response = await fetch(url, {
+      method,
+      headers,
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${(await response.text()).slice(0, 200)}`);
+    }
+  }
+}
@@ -0,0 +1,174 @@
+import type { ElectionScore, ElectionSubmission, ScoreSimulation } from '@staking-cc/shared';
+
+// Perbill denominator (parts per billion), as used for SolutionImprovementThreshold on chain
+export const PERBILL = 1_000_000_000;
+
+const U128_MAX = (BigInt(1) << BigInt(128)) - BigInt(1);
+
+// Submissions that never competed for the win: invalid ones and ones withdrawn by their submitter
+const NON_COMPETING = new Set(['slashed', 'bailed']);
+
+interface ParsedScore {
+  minimalStake: bigint;
+  sumStake: bigint;
+  sumStakeSquared: bigint;
+}
+
+const cmp = (x: bigint, y: bigint): number => (x === y ? 0 : x < y ? -1 : 1);
+
+/**
+ * Parse a u128 given as a decimal or hex string (or a safe integer); null if it isn't one
+ */
+function parseU128(value: unknown): bigint | null {
+  if (typeof value === 'number') {
+    return Number.isSafeInteger(value) && value >= 0 ? BigInt(value) : null;
+  }
+  if (typeof value !== 'string') return null;
+
+  const trimmed = value.trim().replace(/,/g, '');
+  if (!/^(0x[0-9a-fA-F]+|\d+)$/.test(trimmed)) return null;
+  return BigInt(trimmed);
+}
+
+/**
+ * Parse an election score object, or the JSON of one (as stored for minimum scores)
+ */
+export function parseElectionScore(value: unknown): ElectionScore | null {
+  let score: any = value;
+  if (typeof value === 'string') {
+    try {
+      score = JSON.parse(value);
+    } catch (e) {
+      return null;
+    }
+  }
+  if (!score || typeof score !== 'object') return null;
+
+  const minimalStake = parseU128(score.minimalStake);
+  const sumStake = parseU128(score.sumStake);
+  const sumStakeSquared = parseU128(score.sumStakeSquared);
+  if (minimalStake === null || sumStake === null || sumStakeSquared === null) return null;
+
+  return {
+    minimalStake: minimalStake.toString(),
+    sumStake: sumStake.toString(),
+    sumStakeSquared: sumStakeSquared.toString(),
+  };
+}
+
+function toBigInts(score: ElectionScore): ParsedScore {
+  return {
+    minimalStake: BigInt(score.minimalStake),
+    sumStake: BigInt(score.sumStake),
+    sumStakeSquared: BigInt(score.sumStakeSquared),
+  };
+}
+
+/**
+ * Perbill::mul_ceil: Perbill * value, rounding up
+ */
+function perbillMulCeil(thresholdPerbill: number, value: bigint): bigint {
+  const denominator = BigInt(PERBILL);
+  const product = value * BigInt(thresholdPerbill);
+  return (product + denominator - BigInt(1)) / denominator;
+}
+
+/**
+ * ThresholdOrd::tcmp: equal when x is within threshold of y (inclusive), with u128 saturating bounds
+ */
+function tcmp(x: bigint, y: bigint, threshold: bigint): number {
+  if (threshold === BigInt(0)) return cmp(x, y);
+
+  const upper = y + threshold > U128_MAX ? U128_MAX : y + threshold;
+  const lower = y > threshold ? y - threshold : BigInt(0);
+  if (x > upper) return 1;
+  if (x < lower) return -1;
+  return 0;
+}
+
+/**
+ * Lexicographic score ordering (ElectionScore's Ord): higher minimal stake, then higher
+ * sum stake, then lower sum of squares. Positive when a is the better score.
+ */
+export function compareScores(a: ElectionScore, b: ElectionScore): number {
+  const x = toBigInts(a);
+  const y = toBigInts(b);
+  return cmp(x.minimalStake, y.minimalStake) || cmp(x.sumStake, y.sumStake) || cmp(y.sumStakeSquared, x.sumStakeSquared);
+}
+
+/**
+ * Order election scores best first
+ */
+export function compareScoresDesc(a: ElectionScore, b: ElectionScore): number {
+  return compareScores(b, a);
+}
+
+/**
+ * ElectionScore::strict_threshold_better: a beats b if it is better by more than the threshold
+ * (mul_ceil of b's component) in a component, and at least as good, within the threshold, in every
+ * more significant one. Equal scores never win.
+ */
+export function strictThresholdBetter(a: ElectionScore, b: ElectionScore, thresholdPerbill: number): boolean {
+  const x = toBigInts(a);
+  const y = toBigInts(b);
+
+  // (this.ge(that), this.tcmp(that, threshold.mul_ceil(that))) per component, by significance
+  const [minimal, sum, squared] = (['minimalStake', 'sumStake', 'sumStakeSquared'] as const).map(key => ({
+    ge: x[key] >= y[key],
+    ord: tcmp(x[key], y[key], perbillMulCeil(thresholdPerbill, y[key])),
+  }));
+
+  if (minimal.ord > 0) return true;
+  if (!minimal.ge || minimal.ord !== 0) return false;
+
+  if (sum.ord > 0) return true;
+  if (!sum.ge || sum.ord !== 0) return false;
+
+  // Lower sum of squares is better
+  return squared.ord < 0;
+}
+
+/**
+ * ElectionScore::strict_better, used by the verifier against its minimum score
+ */
+export function strictBetter(a: ElectionScore, b: ElectionScore): boolean {
+  return strictThresholdBetter(a, b, 0);
+}
+
+/**
+ * Where a candidate score would rank among a round's submissions, whether it would beat
+ * the best competing submission by the improvement threshold, and whether it clears the minimum
+ */
+export function simulateScore(
+  round: number,
+  score: ElectionScore,
+  submissions: ElectionSubmission[],
+  thresholdPerbill: number,
+  minimumScore: ElectionScore | null,
+  minimumSource: ScoreSimulation['minimumSource']
+): ScoreSimulation {
+  const ranked = [...submissions].sort(compareScoresDesc);
+  const better = ranked.filter(submission => compareScores(submission, score) > 0).length;
+  const competing = ranked.filter(submission => !NON_COMPETING.has(submission.status));
+  const best = competing[0] ?? null;
+
+  const clearsMinimum = minimumScore ? strictBetter(score, minimumScore) : null;
+  const beatsBest = best ? strictThresholdBetter(score, best, thresholdPerbill) : true;
+
+  return {
+    round,
+    score,
+    thresholdPerbill,
+    rank: better + 1,
+    submissionCount: submissions.length,
+    beats: ranked.filter(submission => compareScores(score, submission) > 0).length,
+    best: best
+      ? { submitter: best.submitter, minimalStake: best.minimalStake, sumStake: best.sumStake, sumStakeSquared: best.sumStakeSquared }
+      : null,
+    beatsBest,
+    minimumScore,
+    minimumSource,
+    clearsMinimum,
+    wouldWin: beatsBest && clearsMinimum !== false,
+  };
+}
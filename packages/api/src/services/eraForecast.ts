@@ -0,0 +1,119 @@
+import type { EraForecast, ForecastConfidence, ForecastRange } from '@staking-cc/shared';
+
+// Completed sessions needed before observed lengths replace the configured one
+const MIN_OBSERVED_SESSIONS = 3;
+
+// Phases of an election that has not exported its result yet; the era cannot end before it does
+const UNFINISHED_PHASES = new Set(['Snapshot', 'Signed', 'SignedValidation', 'Unsigned', 'Done', 'Export']);
+
+const CONFIDENCE_ORDER: ForecastConfidence[] = ['low', 'medium', 'high'];
+
+export interface ForecastInput {
+  now: number;
+  sessionsPerEra: number;
+  expectedSessionDurationMs: number; // Configured, used until enough sessions are observed
+  currentSession: number;
+  sessionStartedAt: number;
+  currentEra: number | null;
+  eraSessionStart: number | null; // First session of the current era
+  sessionDurationsMs: number[]; // Recently completed sessions
+  electionPhase: string | null;
+}
+
+/**
+ * Linear interpolation percentile of an ascending list
+ */
+function percentile(sorted: number[], p: number): number {
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+const lowerTo = (confidence: ForecastConfidence, cap: ForecastConfidence): ForecastConfidence =>
+  CONFIDENCE_ORDER[Math.min(CONFIDENCE_ORDER.indexOf(confidence), CONFIDENCE_ORDER.indexOf(cap))];
+
+/**
+ * Predict the next session and era boundaries. The expected time uses the median observed session
+ * length and the range its 10th-90th percentiles; an election that has not finished by the era's
+ * last session, or one in Emergency, removes the upper bound of the era range.
+ */
+export function forecastEra(input: ForecastInput): EraForecast {
+  const { now, sessionsPerEra, sessionStartedAt } = input;
+  const notes: string[] = [];
+  let confidence: ForecastConfidence = 'high';
+
+  const observed = input.sessionDurationsMs.filter(duration => duration > 0).sort((a, b) => a - b);
+  const useObserved = observed.length >= MIN_OBSERVED_SESSIONS;
+  const typical = useObserved ? percentile(observed, 0.5) : input.expectedSessionDurationMs;
+  const short = useObserved ? percentile(observed, 0.1) : input.expectedSessionDurationMs;
+  const long = useObserved ? percentile(observed, 0.9) : input.expectedSessionDurationMs;
+
+  if (!useObserved) {
+    confidence = 'low';
+    notes.push(`Only ${observed.length} completed sessions observed; using the configured session length`);
+  }
+
+  // An overdue session can end any moment, so the range never lies in the past
+  const elapsed = now - sessionStartedAt;
+  const nextSession: ForecastRange = {
+    earliest: Math.max(now, sessionStartedAt + short),
+    expected: Math.max(now, sessionStartedAt + typical),
+    latest: Math.max(now, sessionStartedAt + long),
+  };
+  const sessionProgress = Math.min(1, Math.max(0, elapsed / typical));
+
+  if (elapsed > long) {
+    confidence = lowerTo(confidence, 'medium');
+    notes.push('The current session is already longer than recent sessions');
+  }
+
+  let sessionInEra: number | null = null;
+  let eraProgress: number | null = null;
+  let nextEra: ForecastRange | null = null;
+
+  if (input.currentEra !== null && input.eraSessionStart !== null) {
+    sessionInEra = input.currentSession - input.eraSessionStart + 1;
+    const remaining = Math.max(0, sessionsPerEra - sessionInEra);
+
+    nextEra = {
+      earliest: nextSession.earliest + remaining * short,
+      expected: nextSession.expected + remaining * typical,
+      latest: nextSession.latest === null ? null : nextSession.latest + remaining * long,
+    };
+    eraProgress = Math.min(1, (sessionInEra - 1 + sessionProgress) / sessionsPerEra);
+
+    if (sessionInEra > sessionsPerEra) {
+      confidence = lowerTo(confidence, 'medium');
+      notes.push(`Era ${input.currentEra} is in session ${sessionInEra}, past the expected ${sessionsPerEra}`);
+    }
+
+    if (input.electionPhase === 'Emergency') {
+      nextEra.latest = null;
+      confidence = 'low';
+      notes.push('The election is in Emergency; the era will not end until a solution is provided by governance');
+    } else if (remaining === 0 && input.electionPhase !== null && UNFINISHED_PHASES.has(input.electionPhase)) {
+      nextEra.latest = null;
+      confidence = lowerTo(confidence, 'medium');
+      notes.push(`The era ends once the election exports its result (currently ${input.electionPhase})`);
+    }
+  }
+
+  return {
+    generatedAt: now,
+    sessionDurationMs: typical,
+    observedSessions: observed.length,
+    currentSession: input.currentSession,
+    sessionStartedAt,
+    sessionProgress,
+    nextSession,
+    currentEra: input.currentEra,
+    sessionInEra,
+    sessionsPerEra,
+    eraProgress,
+    nextEra,
+    electionPhase: input.electionPhase,
+    confidence,
+    notes,
+  };
+}
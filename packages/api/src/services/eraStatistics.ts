@@ -0,0 +1,69 @@
+import type { EraMetric, EraMetricStats, EraStatistics, EraStatsRow } from '@staking-cc/shared';
+
+const ERA_METRICS: EraMetric[] = [
+  'durationMs',
+  'sessions',
+  'validatorsElected',
+  'inflationTotal',
+  'inflationValidators',
+  'inflationTreasury',
+  'submissions',
+];
+
+// Values further than this many standard deviations from the average are outliers
+const OUTLIER_STD_DEVS = 2;
+
+// Fewer values than this make the standard deviation meaningless
+const MIN_VALUES_FOR_OUTLIERS = 3;
+
+function summarizeMetric(eras: EraStatsRow[], metric: EraMetric, window: number): EraMetricStats {
+  const series = eras.map(era => era.values[metric]);
+  const values = series.filter((value): value is number => value !== null);
+
+  // Trailing average over the last `window` eras, skipping eras without a value
+  const rollingAverage = series.map((_, index) => {
+    const slice = series
+      .slice(Math.max(0, index - window + 1), index + 1)
+      .filter((value): value is number => value !== null);
+    return slice.length === 0 ? null : slice.reduce((sum, value) => sum + value, 0) / slice.length;
+  });
+
+  if (values.length === 0) {
+    return { average: null, stdDev: null, min: null, max: null, rollingAverage, outliers: [] };
+  }
+
+  const average = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const stdDev = Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / values.length);
+
+  const outliers = values.length >= MIN_VALUES_FOR_OUTLIERS && stdDev > 0
+    ? eras
+      .filter(era => era.values[metric] !== null && Math.abs(era.values[metric]! - average) > OUTLIER_STD_DEVS * stdDev)
+      .map(era => era.eraId)
+    : [];
+
+  return {
+    average,
+    stdDev,
+    min: Math.min(...values),
+    max: Math.max(...values),
+    rollingAverage,
+    outliers,
+  };
+}
+
+/**
+ * Aggregate per-era values (oldest first) into averages, a rolling average and outliers for each metric
+ */
+export function summarizeEras(eras: EraStatsRow[], window: number): EraStatistics {
+  const metrics = {} as Record<EraMetric, EraMetricStats>;
+  for (const metric of ERA_METRICS) {
+    metrics[metric] = summarizeMetric(eras, metric, window);
+  }
+
+  return {
+    eras,
+    window,
+    outlierStdDevs: OUTLIER_STD_DEVS,
+    metrics,
+  };
+}
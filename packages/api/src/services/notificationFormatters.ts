@@ -0,0 +1,95 @@
+import type { Warning } from '@staking-cc/shared';
+
+export type NotificationTargetType = 'webhook' | 'slack' | 'matrix';
+
+export interface WarningGroup {
+  type: string;
+  severity: string;
+  message: string;
+  count: number;
+  eraIds: number[];
+  firstTimestamp: number;
+  lastTimestamp: number;
+}
+
+/**
+ * Collapse repeated warnings (same type, severity and message) into one entry
+ */
+export function groupWarnings(warnings: Warning[]): WarningGroup[] {
+  const groups = new Map<string, WarningGroup>();
+
+  for (const warning of warnings) {
+    const key = `${warning.severity}|${warning.type}|${warning.message}`;
+    const group = groups.get(key);
+
+    if (group) {
+      group.count++;
+      group.firstTimestamp = Math.min(group.firstTimestamp, warning.timestamp);
+      group.lastTimestamp = Math.max(group.lastTimestamp, warning.timestamp);
+      if (warning.eraId !== null && !group.eraIds.includes(warning.eraId)) {
+        group.eraIds.push(warning.eraId);
+      }
+    } else {
+      groups.set(key, {
+        type: warning.type,
+        severity: warning.severity,
+        message: warning.message,
+        count: 1,
+        eraIds: warning.eraId !== null ? [warning.eraId] : [],
+        firstTimestamp: warning.timestamp,
+        lastTimestamp: warning.timestamp,
+      });
+    }
+  }
+
+  return Array.from(groups.values());
+}
+
+const formatGroupLine = (group: WarningGroup): string => {
+  const repeat = group.count > 1 ? ` (x${group.count})` : '';
+  const eras = group.eraIds.length > 0 ? ` [era ${group.eraIds.join(', ')}]` : '';
+  return `${group.severity.toUpperCase()} ${group.type}${eras}: ${group.message}${repeat}`;
+};
+
+const summary = (chain: string, warnings: Warning[]): string =>
+  `Staking Command Center (${chain}): ${warnings.length} new warning${warnings.length === 1 ? '' : 's'}`;
+
+/**
+ * Generic JSON webhook body
+ */
+export function formatWebhookPayload(chain: string, warnings: Warning[]): object {
+  return {
+    source: 'staking-command-center',
+    chain,
+    summary: summary(chain, warnings),
+    groups: groupWarnings(warnings),
+    warnings,
+    timestamp: Date.now(),
+  };
+}
+
+/**
+ * Slack incoming webhook body
+ */
+export function formatSlackPayload(chain: string, warnings: Warning[]): object {
+  const lines = groupWarnings(warnings).map(group => `• ${formatGroupLine(group)}`);
+  return {
+    text: `*${summary(chain, warnings)}*\n${lines.join('\n')}`,
+  };
+}
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Matrix m.room.message content
+ */
+export function formatMatrixPayload(chain: string, warnings: Warning[]): object {
+  const groups = groupWarnings(warnings);
+  return {
+    msgtype: 'm.text',
+    body: `${summary(chain, warnings)}\n${groups.map(group => `- ${formatGroupLine(group)}`).join('\n')}`,
+    format: 'org.matrix.custom.html',
+    formatted_body: `<strong>${escapeHtml(summary(chain, warnings))}</strong><ul>${groups.map(group => `<li>${escapeHtml(formatGroupLine(group))}</li>`).join('')}</ul>`,
+  };
+}
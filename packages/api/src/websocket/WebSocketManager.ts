@@ -2,6 +2,7 @@ import { Server as SocketIOServer } from 'socket.io';
 import type { Server as HTTPServer } from 'http';
 import type { Logger } from 'pino';
 import type { DatabaseClient } from '../database/DatabaseClient';
+import type { NotificationService } from '../services/NotificationService';
 import * as fs from 'fs';
 
 export class WebSocketManager {
@@ -11,10 +12,12 @@ export class WebSocketManager {
   private dbPath: string;
   private watchInterval: NodeJS.Timeout | null = null;
   private lastMtime: number = 0;
+  private notificationService: NotificationService | null;
 
-  constructor(httpServer: HTTPServer, db: DatabaseClient, dbPath: string, logger: Logger) {
+  constructor(httpServer: HTTPServer, db: DatabaseClient, dbPath: string, logger: Logger, notificationService: NotificationService | null = null) {
     this.db = db;
     this.dbPath = dbPath;
+    this.notificationService = notificationService;
     this.logger = logger.child({ component: 'WebSocket' });
 
     this.io = new SocketIOServer(httpServer, {
@@ -139,6 +142,9 @@ export class WebSocketManager {
         });
       }
 
+      // Push newly raised warnings to configured notification targets
+      this.notificationService?.checkNewWarnings();
+
       // Broadcast recent eras
       const eras = this.db.getEras(10);
       this.io.to('eras').emit('eras_update', {
@@ -7,13 +7,19 @@ import { EventsTab } from './components/EventsTab';
 import { SessionsTab } from './components/SessionsTab';
 import { ElectionsTab } from './components/ElectionsTab';
 import { AdvancedTab } from './components/AdvancedTab';
-import { useStatus, useWarnings } from './hooks/useApi';
+import { UnclaimedRewardsTab } from './components/UnclaimedRewardsTab';
+import { ValidatorsTab } from './components/ValidatorsTab';
+import { SlashesTab } from './components/SlashesTab';
+import { IncidentsTab } from './components/IncidentsTab';
+import { PopulationTab } from './components/PopulationTab';
+import { EraStatsTab } from './components/EraStatsTab';
+import { useStatus, useWarningCounts } from './hooks/useApi';
 
-type TabType = 'eras' | 'warnings' | 'sessions' | 'elections' | 'blocks' | 'events' | 'advanced';
+type TabType = 'eras' | 'warnings' | 'sessions' | 'statistics' | 'elections' | 'incidents' | 'validators' | 'population' | 'rewards' | 'slashes' | 'blocks' | 'events' | 'advanced';
 
 function App() {
   const { status, error: statusError, isConnected } = useStatus();
-  const { warnings, loading: warningsLoading, error: warningsError } = useWarnings(50);
+  const { counts: warningCounts } = useWarningCounts();
   const [activeTab, setActiveTab] = useState<TabType>('eras');
   const [isExpanded, setIsExpanded] = useState(false);
 
@@ -63,7 +69,8 @@ function App() {
               }}
             >
               {tab.charAt(0).toUpperCase() + tab.slice(1)}
-              {tab === 'warnings' && warnings.length > 0 && (
+              {/* Only unhandled warnings count towards the badge */}
+              {tab === 'warnings' && warningCounts.open > 0 && (
                 <span style={{
                   position: 'absolute',
                   top: '8px',
@@ -75,7 +82,7 @@ function App() {
                   fontSize: '10px',
                   fontWeight: '700',
                 }}>
-                  {warnings.length}
+                  {warningCounts.open}
                 </span>
               )}
             </button>
@@ -103,7 +110,7 @@ function App() {
           </button>
 
           {/* Secondary tabs - only visible when expanded */}
-          {isExpanded && (['sessions', 'elections', 'blocks', 'events', 'advanced'] as TabType[]).map((tab) => (
+          {isExpanded && (['sessions', 'statistics', 'elections', 'incidents', 'validators', 'population', 'rewards', 'slashes', 'blocks', 'events', 'advanced'] as TabType[]).map((tab) => (
             <button
               key={tab}
               onClick={() => setActiveTab(tab)}
@@ -152,25 +159,62 @@ function App() {
           </div>
         )}
 
+        {activeTab === 'statistics' && (
+          <div className="section">
+            <h2 className="section-title">Era Statistics</h2>
+            <EraStatsTab />
+          </div>
+        )}
+
         {activeTab === 'warnings' && (
           <div className="section">
             <h2 className="section-title">System Warnings</h2>
-            {warningsError && (
-              <div className="error">
-                <strong>Error:</strong> {warningsError}
-              </div>
-            )}
-            <WarningsPanel warnings={warnings} loading={warningsLoading} />
+            <WarningsPanel />
           </div>
         )}
 
         {activeTab === 'elections' && (
           <div className="section">
-            <h2 className="section-title">Election Scores</h2>
+            <h2 className="section-title">Election Rounds</h2>
             <ElectionsTab />
           </div>
         )}
 
+        {activeTab === 'validators' && (
+          <div className="section">
+            <h2 className="section-title">Validator Performance</h2>
+            <ValidatorsTab />
+          </div>
+        )}
+
+        {activeTab === 'population' && (
+          <div className="section">
+            <h2 className="section-title">Staking Population</h2>
+            <PopulationTab />
+          </div>
+        )}
+
+        {activeTab === 'rewards' && (
+          <div className="section">
+            <h2 className="section-title">Unclaimed Rewards</h2>
+            <UnclaimedRewardsTab />
+          </div>
+        )}
+
+        {activeTab === 'incidents' && (
+          <div className="section">
+            <h2 className="section-title">Election Incidents</h2>
+            <IncidentsTab />
+          </div>
+        )}
+
+        {activeTab === 'slashes' && (
+          <div className="section">
+            <h2 className="section-title">Offences & Slashes</h2>
+            <SlashesTab />
+          </div>
+        )}
+
         {activeTab === 'advanced' && (
           <div className="section">
             <h2 className="section-title">Advanced: Database Viewer</h2>
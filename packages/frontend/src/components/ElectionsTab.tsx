@@ -1,18 +1,79 @@
-import { useState, useCallback } from 'react';
-import { useElectionWinners } from '../hooks/useApi';
+import { useState, useCallback, useEffect } from 'react';
+import type { ElectionRoundDetails, ElectionRoundSummary, ElectionSubmissionStatus, ScoreSimulation, SubmitterDetails } from '@staking-cc/shared';
+import { fetchElectionRound, fetchElectionSubmitter, simulateElectionScore, useElectionRounds, useElectionSubmitters } from '../hooks/useApi';
 import { formatElectionScore, formatElectionScoreSquared } from '../utils/eventFormatters';
 
+const shortenAddress = (address: string): string => {
+  if (address.length < 16) return address;
+  return `${address.slice(0, 8)}...${address.slice(-8)}`;
+};
+
+// Minimum scores are stored as the JSON of the verifier's MinimumScore
+const formatMinimumScore = (minimumScore: string | null): string => {
+  if (!minimumScore) return '—';
+  try {
+    return formatElectionScore(String(JSON.parse(minimumScore).minimalStake));
+  } catch (e) {
+    return '—';
+  }
+};
+
+const OUTCOME_COLORS: Record<ElectionSubmissionStatus, string> = {
+  registered: '#aaa',
+  rewarded: '#10b981',
+  slashed: '#ef4444',
+  ejected: '#f59e0b',
+  discarded: '#888',
+  bailed: '#06b6d4',
+};
+
+const OutcomeCounts: React.FC<{ outcomes: ElectionRoundSummary['outcomes'] }> = ({ outcomes }) => (
+  <span style={{ fontSize: '12px' }}>
+    {(Object.entries(outcomes) as [ElectionSubmissionStatus, number][]).map(([status, count], idx) => (
+      <span key={status} style={{ color: OUTCOME_COLORS[status] }}>
+        {idx > 0 && ' · '}{count} {status}
+      </span>
+    ))}
+  </span>
+);
+
+const formatMargin = (margin: number | null): string => {
+  if (margin === null) return '—';
+  return `${margin >= 0 ? '+' : ''}${margin.toFixed(2)}%`;
+};
+
+type ElectionsView = 'rounds' | 'submitters';
+
+const ViewToggle: React.FC<{ view: ElectionsView; onChange: (view: ElectionsView) => void }> = ({ view, onChange }) => (
+  <div style={{ display: 'flex', gap: '6px', margin: '15px 0' }}>
+    {(['rounds', 'submitters'] as ElectionsView[]).map((option) => (
+      <button
+        key={option}
+        onClick={() => onChange(option)}
+        style={{
+          padding: '6px 14px',
+          background: view === option ? '#667eea' : 'transparent',
+          color: view === option ? 'white' : '#aaa',
+          border: '1px solid #444',
+          borderRadius: '6px',
+          cursor: 'pointer',
+        }}
+      >
+        {option === 'rounds' ? 'Rounds' : 'Submitters'}
+      </button>
+    ))}
+  </div>
+);
+
 export const ElectionsTab: React.FC = () => {
-  const { winners, loading, error } = useElectionWinners(20);
+  const { rounds, loading, error } = useElectionRounds(50);
+  const [view, setView] = useState<ElectionsView>('rounds');
+  const [selectedRound, setSelectedRound] = useState<number | null>(null);
+  const [selectedSubmitter, setSelectedSubmitter] = useState<string | null>(null);
   const [minimumScore, setMinimumScore] = useState<string | null>(null);
   const [loadingMinScore, setLoadingMinScore] = useState(false);
   const [minScoreFetched, setMinScoreFetched] = useState(false);
 
-  const shortenAddress = (address: string): string => {
-    if (address.length < 16) return address;
-    return `${address.slice(0, 8)}...${address.slice(-8)}`;
-  };
-
   // Fetch minimum score from chain (cached, manual refresh)
   const fetchMinimumScore = useCallback(async () => {
     try {
@@ -49,11 +110,28 @@ export const ElectionsTab: React.FC = () => {
     }
   }, []);
 
+  if (selectedRound !== null) {
+    return <ElectionRoundDetail round={selectedRound} onBack={() => setSelectedRound(null)} />;
+  }
+
+  if (selectedSubmitter !== null) {
+    return (
+      <SubmitterDetail
+        address={selectedSubmitter}
+        onBack={() => setSelectedSubmitter(null)}
+        onSelectRound={(round) => {
+          setSelectedSubmitter(null);
+          setSelectedRound(round);
+        }}
+      />
+    );
+  }
+
   if (loading) {
     return (
       <div className="loading">
         <div className="loading-spinner" />
-        <div>Loading election winners...</div>
+        <div>Loading election rounds...</div>
       </div>
     );
   }
@@ -62,7 +140,7 @@ export const ElectionsTab: React.FC = () => {
     return (
       <div className="empty-state">
         <div className="empty-state-icon">❌</div>
-        <div>Error loading election winners</div>
+        <div>Error loading election rounds</div>
         <div style={{ marginTop: '10px', fontSize: '0.9rem', color: '#666' }}>
           {error}
         </div>
@@ -111,12 +189,16 @@ export const ElectionsTab: React.FC = () => {
         </div>
       </div>
 
-      {winners.length === 0 ? (
+      <ViewToggle view={view} onChange={setView} />
+
+      {view === 'submitters' ? (
+        <SubmittersLeaderboard onSelect={setSelectedSubmitter} />
+      ) : rounds.length === 0 ? (
         <div className="empty-state">
           <div className="empty-state-icon">🗳️</div>
-          <div>No election winners yet</div>
+          <div>No election rounds yet</div>
           <div style={{ marginTop: '10px', fontSize: '0.9rem', color: '#666' }}>
-            Winners will appear here once elections complete
+            Rounds will appear here once election phases or submissions are indexed
           </div>
         </div>
       ) : (
@@ -125,34 +207,35 @@ export const ElectionsTab: React.FC = () => {
             <tr>
               <th>Round</th>
               <th>Era</th>
-              <th>Submitter</th>
-              <th>Minimal Stake</th>
-              <th>Sum Stake</th>
-              <th>Sum² Stake</th>
-              <th>Block</th>
+              <th>Phases</th>
+              <th>Submissions</th>
+              <th>Winner</th>
+              <th>Winning Minimal Stake</th>
+              <th>Minimum Score</th>
             </tr>
           </thead>
           <tbody>
-            {winners.map((winner) => (
-              <tr key={winner.id}>
+            {rounds.map((round) => (
+              <tr key={round.round} onClick={() => setSelectedRound(round.round)} style={{ cursor: 'pointer' }}>
                 <td>
-                  <strong>#{winner.round}</strong>
+                  <strong>#{round.round}</strong>
+                  {round.emergency && (
+                    <span style={{ marginLeft: '8px', color: '#ef4444', fontWeight: 600, fontSize: '12px' }}>EMERGENCY</span>
+                  )}
                 </td>
-                <td>{winner.eraId || '—'}</td>
+                <td>{round.eraId ?? '—'}</td>
+                <td style={{ fontSize: '12px', color: '#aaa' }}>{round.phases.length > 0 ? round.phases.join(' → ') : '—'}</td>
                 <td>
-                  <span
-                    style={{ fontFamily: 'monospace' }}
-                    title={winner.submitter}
-                  >
-                    {shortenAddress(winner.submitter)}
-                  </span>
+                  <div>{round.submissionCount}</div>
+                  <OutcomeCounts outcomes={round.outcomes} />
                 </td>
-                <td>{formatElectionScore(winner.minimalStake)}</td>
-                <td>{formatElectionScore(winner.sumStake)}</td>
                 <td>
-                  {formatElectionScoreSquared(winner.sumStakeSquared)}
+                  {round.winner
+                    ? <span style={{ fontFamily: 'monospace' }} title={round.winner.submitter}>{shortenAddress(round.winner.submitter)}</span>
+                    : '—'}
                 </td>
-                <td>#{winner.blockNumber.toLocaleString()}</td>
+                <td>{round.winner ? formatElectionScore(round.winner.minimalStake) : '—'}</td>
+                <td>{formatMinimumScore(round.minimumScore)}</td>
               </tr>
             ))}
           </tbody>
@@ -161,3 +244,492 @@ export const ElectionsTab: React.FC = () => {
     </div>
   );
 };
+
+// A single round: phase timeline and every submission with its outcome
+const ElectionRoundDetail: React.FC<{ round: number; onBack: () => void }> = ({ round, onBack }) => {
+  const [details, setDetails] = useState<ElectionRoundDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchElectionRound(round)
+      .then((data) => {
+        setDetails(data);
+        setError(null);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Unknown error'))
+      .finally(() => setLoading(false));
+  }, [round]);
+
+  const backButton = (
+    <button
+      onClick={onBack}
+      style={{
+        padding: '6px 14px',
+        background: 'transparent',
+        color: '#aaa',
+        border: '1px solid #444',
+        borderRadius: '6px',
+        cursor: 'pointer',
+        margin: '15px 0',
+      }}
+    >
+      ← All rounds
+    </button>
+  );
+
+  if (loading) {
+    return (
+      <div>
+        {backButton}
+        <div className="loading">
+          <div className="loading-spinner" />
+          <div>Loading round #{round}...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !details) {
+    return (
+      <div>
+        {backButton}
+        <div className="error">{error ? `Failed to load round: ${error}` : `Round #${round} not found`}</div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {backButton}
+      <h3 style={{ margin: 0 }}>
+        Round #{details.round}
+        {details.emergency && <span style={{ marginLeft: '10px', color: '#ef4444', fontSize: '14px' }}>⚠ Fell back to Emergency</span>}
+      </h3>
+
+      <div className="info-cards" style={{ marginTop: '20px' }}>
+        <div className="info-card">
+          <div className="info-card-label">Era</div>
+          <div className="info-card-value" style={{ fontSize: '18px' }}>{details.eraId ?? '—'}</div>
+          <div className="info-card-subvalue">
+            {details.startBlock !== null ? `#${details.startBlock.toLocaleString()}` : '—'}
+            {' → '}
+            {details.endBlock !== null ? `#${details.endBlock.toLocaleString()}` : 'ongoing'}
+          </div>
+        </div>
+        <div className="info-card">
+          <div className="info-card-label">Submissions</div>
+          <div className="info-card-value" style={{ fontSize: '18px' }}>{details.submissionCount}</div>
+          <div className="info-card-subvalue"><OutcomeCounts outcomes={details.outcomes} /></div>
+        </div>
+        <div className="info-card">
+          <div className="info-card-label">Winning Score</div>
+          <div className="info-card-value" style={{ fontSize: '18px', color: '#10b981' }}>
+            {details.winner ? formatElectionScore(details.winner.minimalStake) : '—'}
+          </div>
+          <div className="info-card-subvalue">
+            {details.winner ? `Sum ${formatElectionScore(details.winner.sumStake)}` : 'No rewarded submission'}
+          </div>
+        </div>
+        <div className="info-card">
+          <div className="info-card-label">Minimum Score</div>
+          <div className="info-card-value" style={{ fontSize: '18px', color: '#667eea' }}>{formatMinimumScore(details.minimumScore)}</div>
+          <div className="info-card-subvalue">Minimal stake when Signed started</div>
+        </div>
+      </div>
+
+      <div className="modal-section">
+        <div className="modal-section-title">Phases</div>
+        {details.timeline.length === 0 ? (
+          <div style={{ fontSize: '0.9rem', color: '#666' }}>No phases recorded for this round</div>
+        ) : (
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Phase</th>
+                <th>Era</th>
+                <th>Start</th>
+                <th>End</th>
+                <th>Duration</th>
+                <th>Expected</th>
+              </tr>
+            </thead>
+            <tbody>
+              {details.timeline.map((phase) => (
+                <tr key={phase.id}>
+                  <td><strong>{phase.phase}</strong></td>
+                  <td>{phase.eraId}</td>
+                  <td>#{phase.startBlock.toLocaleString()}</td>
+                  <td>{phase.endBlock !== null ? `#${phase.endBlock.toLocaleString()}` : phase.status === 'ongoing' ? 'ongoing' : '—'}</td>
+                  <td>{phase.actualDurationBlocks !== null ? `${phase.actualDurationBlocks} blocks` : '—'}</td>
+                  <td style={{ color: phase.overrunBlocks !== null && phase.overrunBlocks > 0 ? '#ef4444' : undefined }}>
+                    {phase.expectedDurationBlocks !== null ? `${phase.expectedDurationBlocks} blocks` : '—'}
+                    {phase.overrunBlocks !== null && phase.overrunBlocks > 0 && ` (+${phase.overrunBlocks})`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="modal-section">
+        <div className="modal-section-title">Submissions</div>
+        {details.submissions.length === 0 ? (
+          <div style={{ fontSize: '0.9rem', color: '#666' }}>No signed submissions in this round</div>
+        ) : (
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Submitter</th>
+                <th>Outcome</th>
+                <th>Minimal Stake</th>
+                <th>Sum Stake</th>
+                <th>Sum² Stake</th>
+                <th>Block</th>
+              </tr>
+            </thead>
+            <tbody>
+              {details.submissions.map((submission) => (
+                <tr key={submission.submitter}>
+                  <td>
+                    <span style={{ fontFamily: 'monospace' }} title={submission.submitter}>
+                      {shortenAddress(submission.submitter)}
+                    </span>
+                  </td>
+                  <td style={{ color: OUTCOME_COLORS[submission.status], fontWeight: 600 }}>{submission.status}</td>
+                  <td>{formatElectionScore(submission.minimalStake)}</td>
+                  <td>{formatElectionScore(submission.sumStake)}</td>
+                  <td>{formatElectionScoreSquared(submission.sumStakeSquared)}</td>
+                  <td>#{submission.blockNumber.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <ScoreSimulator round={details.round} />
+    </div>
+  );
+};
+
+const inputStyle: React.CSSProperties = {
+  padding: '6px 10px',
+  background: '#252525',
+  color: '#eee',
+  border: '1px solid #444',
+  borderRadius: '6px',
+  fontFamily: 'monospace',
+  width: '100%',
+  boxSizing: 'border-box',
+};
+
+// Paste a candidate score (raw u128s, or the score's JSON into Minimal Stake) and see where it would rank
+const ScoreSimulator: React.FC<{ round: number }> = ({ round }) => {
+  const [minimalStake, setMinimalStake] = useState('');
+  const [sumStake, setSumStake] = useState('');
+  const [sumStakeSquared, setSumStakeSquared] = useState('');
+  const [thresholdPercent, setThresholdPercent] = useState('0');
+  const [result, setResult] = useState<ScoreSimulation | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+
+  // Pasting a whole score JSON fills all three fields
+  const handleMinimalStake = (value: string) => {
+    try {
+      const score = JSON.parse(value);
+      if (score && typeof score === 'object' && 'minimalStake' in score) {
+        setMinimalStake(String(score.minimalStake));
+        setSumStake(String(score.sumStake ?? ''));
+        setSumStakeSquared(String(score.sumStakeSquared ?? ''));
+        return;
+      }
+    } catch (e) {
+      // Not JSON - a plain value
+    }
+    setMinimalStake(value);
+  };
+
+  const simulate = async () => {
+    const threshold = parseFloat(thresholdPercent || '0');
+    if (!Number.isFinite(threshold) || threshold < 0 || threshold > 100) {
+      setError('Threshold must be a percentage between 0 and 100');
+      return;
+    }
+
+    try {
+      setRunning(true);
+      setError(null);
+      setResult(await simulateElectionScore(round, { minimalStake, sumStake, sumStakeSquared }, Math.round(threshold * 10_000_000)));
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="modal-section">
+      <div className="modal-section-title">Would This Win?</div>
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr 120px auto', gap: '10px', alignItems: 'end' }}>
+        <label style={{ fontSize: '12px', color: '#888' }}>
+          Minimal Stake
+          <input style={inputStyle} value={minimalStake} onChange={(e) => handleMinimalStake(e.target.value)} placeholder="planck or score JSON" />
+        </label>
+        <label style={{ fontSize: '12px', color: '#888' }}>
+          Sum Stake
+          <input style={inputStyle} value={sumStake} onChange={(e) => setSumStake(e.target.value)} />
+        </label>
+        <label style={{ fontSize: '12px', color: '#888' }}>
+          Sum² Stake
+          <input style={inputStyle} value={sumStakeSquared} onChange={(e) => setSumStakeSquared(e.target.value)} />
+        </label>
+        <label style={{ fontSize: '12px', color: '#888' }}>
+          Threshold %
+          <input style={inputStyle} value={thresholdPercent} onChange={(e) => setThresholdPercent(e.target.value)} />
+        </label>
+        <button
+          onClick={simulate}
+          disabled={running || !minimalStake || !sumStake || !sumStakeSquared}
+          style={{
+            padding: '7px 14px',
+            background: '#667eea',
+            color: 'white',
+            border: 'none',
+            borderRadius: '6px',
+            cursor: running ? 'not-allowed' : 'pointer',
+            opacity: running || !minimalStake || !sumStake || !sumStakeSquared ? 0.5 : 1,
+          }}
+        >
+          {running ? 'Checking...' : 'Check'}
+        </button>
+      </div>
+
+      {error && <div className="error" style={{ marginTop: '10px' }}>{error}</div>}
+
+      {result && (
+        <div className="info-cards" style={{ marginTop: '15px' }}>
+          <div className="info-card">
+            <div className="info-card-label">Verdict</div>
+            <div className="info-card-value" style={{ fontSize: '18px', color: result.wouldWin ? '#10b981' : '#ef4444' }}>
+              {result.wouldWin ? 'Would win' : 'Would not win'}
+            </div>
+            <div className="info-card-subvalue">
+              {result.best
+                ? `${result.beatsBest ? 'Beats' : 'Does not beat'} ${shortenAddress(result.best.submitter)}${result.thresholdPerbill > 0 ? ` by ${result.thresholdPerbill / 10_000_000}%` : ''}`
+                : 'No competing submission'}
+            </div>
+          </div>
+          <div className="info-card">
+            <div className="info-card-label">Rank</div>
+            <div className="info-card-value" style={{ fontSize: '18px' }}>#{result.rank} of {result.submissionCount + 1}</div>
+            <div className="info-card-subvalue">Better than {result.beats} submissions</div>
+          </div>
+          <div className="info-card">
+            <div className="info-card-label">Minimum Score</div>
+            <div
+              className="info-card-value"
+              style={{ fontSize: '18px', color: result.clearsMinimum === null ? undefined : result.clearsMinimum ? '#10b981' : '#ef4444' }}
+            >
+              {result.clearsMinimum === null ? 'Unknown' : result.clearsMinimum ? 'Cleared' : 'Not cleared'}
+            </div>
+            <div className="info-card-subvalue">
+              {result.minimumScore
+                ? `Min ${formatElectionScore(result.minimumScore.minimalStake)} (${result.minimumSource === 'round' ? 'this round' : 'live on chain'})`
+                : 'No minimum score recorded'}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Submitters ranked by rewarded submissions, then participation
+const SubmittersLeaderboard: React.FC<{ onSelect: (address: string) => void }> = ({ onSelect }) => {
+  const { submitters, loading, error } = useElectionSubmitters(100);
+
+  if (loading) {
+    return (
+      <div className="loading">
+        <div className="loading-spinner" />
+        <div>Loading submitters...</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <div className="error">Failed to load submitters: {error}</div>;
+  }
+
+  if (submitters.length === 0) {
+    return (
+      <div className="empty-state">
+        <div className="empty-state-icon">🏆</div>
+        <div>No signed submitters yet</div>
+        <div style={{ marginTop: '10px', fontSize: '0.9rem', color: '#666' }}>
+          Submitters appear once multiBlockElectionSigned.Registered events are indexed
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <table className="table">
+      <thead>
+        <tr>
+          <th>#</th>
+          <th>Submitter</th>
+          <th>Rounds</th>
+          <th>Wins</th>
+          <th>Win Rate</th>
+          <th>Slashed</th>
+          <th>Avg Margin</th>
+          <th>Last Round</th>
+        </tr>
+      </thead>
+      <tbody>
+        {submitters.map((submitter, idx) => (
+          <tr key={submitter.submitter} onClick={() => onSelect(submitter.submitter)} style={{ cursor: 'pointer' }}>
+            <td>{idx + 1}</td>
+            <td>
+              <span style={{ fontFamily: 'monospace' }} title={submitter.submitter}>{shortenAddress(submitter.submitter)}</span>
+            </td>
+            <td>{submitter.roundsParticipated}</td>
+            <td style={{ color: submitter.wins > 0 ? '#10b981' : undefined }}>{submitter.wins}</td>
+            <td>{(submitter.winRate * 100).toFixed(0)}%</td>
+            <td style={{ color: submitter.slashCount > 0 ? '#ef4444' : undefined, fontWeight: submitter.slashCount > 0 ? 600 : undefined }}>
+              {submitter.slashCount}
+            </td>
+            <td>{formatMargin(submitter.averageMarginPercent)}</td>
+            <td>
+              #{submitter.lastRound}
+              <div style={{ fontSize: '12px', color: '#888' }}>block #{submitter.lastActiveBlock.toLocaleString()}</div>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+// A single submitter: reputation summary and their recent rounds
+const SubmitterDetail: React.FC<{ address: string; onBack: () => void; onSelectRound: (round: number) => void }> = ({ address, onBack, onSelectRound }) => {
+  const [details, setDetails] = useState<SubmitterDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchElectionSubmitter(address)
+      .then((data) => {
+        setDetails(data);
+        setError(null);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Unknown error'))
+      .finally(() => setLoading(false));
+  }, [address]);
+
+  const backButton = (
+    <button
+      onClick={onBack}
+      style={{
+        padding: '6px 14px',
+        background: 'transparent',
+        color: '#aaa',
+        border: '1px solid #444',
+        borderRadius: '6px',
+        cursor: 'pointer',
+        margin: '15px 0',
+      }}
+    >
+      ← All submitters
+    </button>
+  );
+
+  if (loading) {
+    return (
+      <div>
+        {backButton}
+        <div className="loading">
+          <div className="loading-spinner" />
+          <div>Loading submitter...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !details) {
+    return (
+      <div>
+        {backButton}
+        <div className="error">{error ? `Failed to load submitter: ${error}` : 'Submitter not found'}</div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {backButton}
+      <h3 style={{ margin: 0, fontFamily: 'monospace', fontSize: '14px', wordBreak: 'break-all' }}>{details.submitter}</h3>
+
+      <div className="info-cards" style={{ marginTop: '20px' }}>
+        <div className="info-card">
+          <div className="info-card-label">Rounds</div>
+          <div className="info-card-value" style={{ fontSize: '18px' }}>{details.roundsParticipated}</div>
+          <div className="info-card-subvalue">#{details.firstRound} → #{details.lastRound}</div>
+        </div>
+        <div className="info-card">
+          <div className="info-card-label">Win Rate</div>
+          <div className="info-card-value" style={{ fontSize: '18px', color: '#10b981' }}>{(details.winRate * 100).toFixed(0)}%</div>
+          <div className="info-card-subvalue"><OutcomeCounts outcomes={details.outcomes} /></div>
+        </div>
+        <div className="info-card">
+          <div className="info-card-label">Slashed</div>
+          <div className="info-card-value" style={{ fontSize: '18px', color: details.slashCount > 0 ? '#ef4444' : undefined }}>{details.slashCount}</div>
+          <div className="info-card-subvalue">Submissions slashed</div>
+        </div>
+        <div className="info-card">
+          <div className="info-card-label">Avg Margin</div>
+          <div className="info-card-value" style={{ fontSize: '18px', color: '#667eea' }}>{formatMargin(details.averageMarginPercent)}</div>
+          <div className="info-card-subvalue">Minimal stake over the minimum score</div>
+        </div>
+      </div>
+
+      <div className="modal-section">
+        <div className="modal-section-title">Recent Rounds</div>
+        <table className="table">
+          <thead>
+            <tr>
+              <th>Round</th>
+              <th>Era</th>
+              <th>Outcome</th>
+              <th>Minimal Stake</th>
+              <th>Minimum</th>
+              <th>Margin</th>
+              <th>Block</th>
+            </tr>
+          </thead>
+          <tbody>
+            {details.rounds.map((round) => (
+              <tr key={round.round} onClick={() => onSelectRound(round.round)} style={{ cursor: 'pointer' }}>
+                <td><strong>#{round.round}</strong></td>
+                <td>{round.eraId ?? '—'}</td>
+                <td style={{ color: OUTCOME_COLORS[round.status], fontWeight: 600 }}>{round.status}</td>
+                <td>{formatElectionScore(round.minimalStake)}</td>
+                <td>{round.minimumMinimalStake !== null ? formatElectionScore(round.minimumMinimalStake) : '—'}</td>
+                <td style={{ color: round.marginPercent !== null && round.marginPercent < 0 ? '#ef4444' : undefined }}>
+                  {formatMargin(round.marginPercent)}
+                </td>
+                <td>#{round.blockNumber.toLocaleString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -2,7 +2,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { useStatus, fetchElectionPhasesByEra, fetchElectionRoundStats } from '../hooks/useApi';
 import { generateMockEraData, type EraDetails } from '../utils/mockEraData';
 import { formatEventData, formatElectionScore, formatElectionScoreSquared } from '../utils/eventFormatters';
-import type { Era, Session, Warning, BlockchainEvent } from '@staking-cc/shared';
+import type { Era, EraRewards, ElectionRoundTimeline, Session, SessionReportLatency, ValidatorSetDiff, Warning, BlockchainEvent } from '@staking-cc/shared';
 
 interface EraDetailsModalProps {
   eraId: number | null;
@@ -31,19 +31,27 @@ export const EraDetailsModal: React.FC<EraDetailsModalProps> = ({ eraId, onClose
         if (!eraRes.ok) throw new Error('Failed to fetch era');
         const era: Era = await eraRes.json();
 
-        // Fetch sessions, warnings, events, election phases, and previous session in parallel
-        const [sessionsRes, warningsRes, eventsRes, electionPhases, prevSessionRes] = await Promise.all([
+        // Fetch sessions, warnings, events, election phases, previous session, report latency, rewards and validator set diff in parallel
+        const [sessionsRes, warningsRes, eventsRes, electionPhases, prevSessionRes, latencyRes, rewardsRes, validatorDiffRes, timelineRes] = await Promise.all([
           fetch(`${API_BASE_URL}/api/eras/${eraId}/sessions`),
           fetch(`${API_BASE_URL}/api/eras/${eraId}/warnings`),
           fetch(`${API_BASE_URL}/api/eras/${eraId}/events/ah`),
           fetchElectionPhasesByEra(eraId),
           fetch(`${API_BASE_URL}/api/sessions/${era.sessionStart - 1}`),
+          fetch(`${API_BASE_URL}/api/eras/${eraId}/report-latency`),
+          fetch(`${API_BASE_URL}/api/eras/${eraId}/rewards`),
+          fetch(`${API_BASE_URL}/api/eras/${eraId}/validator-diff`),
+          fetch(`${API_BASE_URL}/api/elections/timeline?eraId=${eraId}`),
         ]);
 
         const sessions: Session[] = sessionsRes.ok ? await sessionsRes.json() : [];
         const warnings: Warning[] = warningsRes.ok ? await warningsRes.json() : [];
         const allEvents: BlockchainEvent[] = eventsRes.ok ? await eventsRes.json() : [];
         const prevSession: Session | null = prevSessionRes.ok ? await prevSessionRes.json() : null;
+        const reportLatency: SessionReportLatency[] = latencyRes.ok ? await latencyRes.json() : [];
+        const rewards: EraRewards | null = rewardsRes.ok ? await rewardsRes.json() : null;
+        const validatorDiff: ValidatorSetDiff | null = validatorDiffRes.ok ? await validatorDiffRes.json() : null;
+        const electionTimelines: ElectionRoundTimeline[] = timelineRes.ok ? await timelineRes.json() : [];
 
         // Filter events to show only important event types (from CLAUDE.md Events Tracking section)
         const importantEventPrefixes = [
@@ -134,6 +142,10 @@ export const EraDetailsModal: React.FC<EraDetailsModalProps> = ({ eraId, onClose
           endTime: endTime,
           sessions: sessions,
           prevSession: prevSession,
+          reportLatency: reportLatency,
+          rewards: rewards,
+          validatorDiff: validatorDiff,
+          electionTimelines: electionTimelines,
           warnings: warnings,
           events: eraEvents,
           isActive: isActive,
@@ -185,7 +197,7 @@ export const EraDetailsModal: React.FC<EraDetailsModalProps> = ({ eraId, onClose
     { id: 'sessions', label: 'Sessions', icon: '📋', badge: undefined, comingSoon: false },
     { id: 'events', label: 'Events', icon: '⚡', badge: undefined, comingSoon: false },
     { id: 'warnings', label: 'Warnings', icon: '⚠️', badge: eraData?.warnings.length || 0, comingSoon: false },
-    { id: 'rewards', label: 'Rewards', icon: '💰', badge: undefined, comingSoon: true },
+    { id: 'rewards', label: 'Rewards', icon: '💰', badge: undefined, comingSoon: false },
   ] as const;
 
   return (
@@ -243,7 +255,7 @@ export const EraDetailsModal: React.FC<EraDetailsModalProps> = ({ eraId, onClose
               {activeTab === 'events' && <EventsTab eraData={eraData} chain={status?.chain || 'unknown'} />}
               {activeTab === 'warnings' && <WarningsTab eraData={eraData} />}
               {activeTab === 'elections' && <ElectionsTab eraData={eraData} chain={status?.chain || 'unknown'} onRefresh={handleRefreshData} />}
-              {activeTab === 'rewards' && <ComingSoonTab icon="💰" title="Rewards & Payouts" description="View inflation amounts, claimed/unclaimed rewards, and reward distribution" />}
+              {activeTab === 'rewards' && <RewardsTab eraData={eraData} chain={status?.chain || 'unknown'} />}
             </>
           ) : (
             <div className="error">Failed to load era data</div>
@@ -573,6 +585,11 @@ const SessionsTab: React.FC<{ eraData: EraDetails }> = ({ eraData }) => {
     return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
   };
 
+  const formatLatency = (latencyMs: number | null | undefined) => {
+    if (latencyMs === null || latencyMs === undefined) return '-';
+    return latencyMs < 60000 ? `${(latencyMs / 1000).toFixed(1)}s` : `${(latencyMs / 60000).toFixed(1)} min`;
+  };
+
   return (
     <div style={{ width: '100%', maxWidth: '100%', overflowX: 'hidden' }}>
       <div style={{ marginBottom: '30px' }}>
@@ -598,6 +615,7 @@ const SessionsTab: React.FC<{ eraData: EraDetails }> = ({ eraData }) => {
           const isFirst = index === 0;
           const isLast = index === eraData.sessions.length - 1;
           const isElectionActive = session.plannedEraId !== session.activeEraId;
+          const latency = eraData.reportLatency?.find(l => l.sessionId === session.sessionId);
 
           // Determine what time to show
           let timeLabel = 'Session Activation';
@@ -686,6 +704,27 @@ const SessionsTab: React.FC<{ eraData: EraDetails }> = ({ eraData }) => {
                     </div>
                   </div>
 
+                  <div>
+                    <div style={{ fontSize: '11px', color: '#888', marginBottom: '4px', textTransform: 'uppercase', letterSpacing: '0.5px' }}>
+                      RC Start Block
+                    </div>
+                    <div style={{ fontSize: '14px', fontWeight: '600', color: '#aaa', fontFamily: 'monospace' }}>
+                      {session.rcBlockNumber ? `#${session.rcBlockNumber.toLocaleString()}` : '-'}
+                    </div>
+                  </div>
+
+                  <div>
+                    <div style={{ fontSize: '11px', color: '#888', marginBottom: '4px', textTransform: 'uppercase', letterSpacing: '0.5px' }}>
+                      RC → AH Latency
+                    </div>
+                    <div
+                      style={{ fontSize: '14px', fontWeight: '600', color: '#aaa' }}
+                      title={latency?.rcEndBlock ? `Session ended at RC #${latency.rcEndBlock.toLocaleString()}, reported at AH #${latency.ahReportBlock?.toLocaleString() ?? '-'}` : undefined}
+                    >
+                      {formatLatency(latency?.latencyMs)}
+                    </div>
+                  </div>
+
                   <div>
                     <div style={{ fontSize: '11px', color: '#888', marginBottom: '4px', textTransform: 'uppercase', letterSpacing: '0.5px' }}>
                       Active Era
@@ -1320,17 +1359,323 @@ const ElectionsTab: React.FC<{ eraData: EraDetails; chain: string; onRefresh: ()
           </div>
         ))}
       </div>
+
+      <ElectionTimelineSection timelines={eraData.electionTimelines ?? []} />
+
+      <ValidatorSetDiffSection eraData={eraData} />
     </div>
   );
 };
 
-// Coming Soon Tab Component
-const ComingSoonTab: React.FC<{ icon: string; title: string; description: string }> = ({ icon, title, description }) => {
+const PHASE_COLORS: Record<string, string> = {
+  Snapshot: '#06b6d4',
+  Signed: '#667eea',
+  SignedValidation: '#8b5cf6',
+  Unsigned: '#f59e0b',
+  Done: '#10b981',
+  Export: '#10b981',
+  Emergency: '#ef4444',
+};
+
+// Gantt chart of each election round: actual phase durations, with the expected end marked
+const ElectionTimelineSection: React.FC<{ timelines: ElectionRoundTimeline[] }> = ({ timelines }) => {
   return (
-    <div className="coming-soon-content">
-      <div className="coming-soon-icon">{icon}</div>
-      <div className="coming-soon-title">{title} Coming Soon</div>
-      <div className="coming-soon-description">{description}</div>
+    <div className="modal-section" style={{ marginTop: '30px' }}>
+      <div className="modal-section-title">Phase Timeline</div>
+      {timelines.length === 0 ? (
+        <div style={{ fontSize: '0.9rem', color: '#666' }}>No election phases recorded for this era</div>
+      ) : timelines.map((timeline) => {
+        // Off only marks the end of the round
+        const phases = timeline.phases.filter(p => p.phase !== 'Off');
+        if (phases.length === 0) return null;
+
+        const start = timeline.startBlock;
+        const lastBlock = Math.max(
+          ...phases.map(p => Math.max(
+            p.endBlock ?? p.startBlock,
+            p.expectedDurationBlocks !== null ? p.startBlock + p.expectedDurationBlocks : p.startBlock,
+          )),
+          timeline.endBlock ?? start,
+        );
+        const span = Math.max(lastBlock - start, 1);
+        const toPercent = (block: number) => ((block - start) / span) * 100;
+
+        return (
+          <div key={timeline.round} style={{ marginBottom: '20px' }}>
+            <div style={{ fontSize: '13px', color: '#aaa', marginBottom: '8px' }}>
+              Round {timeline.round} · blocks #{start.toLocaleString()}–{timeline.endBlock !== null ? `#${timeline.endBlock.toLocaleString()}` : 'ongoing'}
+            </div>
+            {phases.map((phase) => {
+              const end = phase.endBlock ?? lastBlock;
+              const overrun = phase.overrunBlocks !== null && phase.overrunBlocks > 0;
+              const title = [
+                `${phase.phase}: #${phase.startBlock} → ${phase.endBlock !== null ? `#${phase.endBlock}` : 'ongoing'}`,
+                phase.actualDurationBlocks !== null ? `${phase.actualDurationBlocks} blocks` : null,
+                phase.expectedDurationBlocks !== null ? `expected ${phase.expectedDurationBlocks}` : null,
+              ].filter(Boolean).join(' · ');
+
+              return (
+                <div key={phase.id} style={{ display: 'flex', alignItems: 'center', gap: '10px', marginBottom: '4px' }}>
+                  <div style={{ width: '130px', fontSize: '12px', color: '#888', flexShrink: 0 }}>{phase.phase}</div>
+                  <div style={{ flex: 1, position: 'relative', height: '18px', background: '#252525', borderRadius: '4px' }}>
+                    <div
+                      title={title}
+                      style={{
+                        position: 'absolute',
+                        left: `${toPercent(phase.startBlock)}%`,
+                        width: `${Math.max(toPercent(end) - toPercent(phase.startBlock), 0.5)}%`,
+                        height: '100%',
+                        background: PHASE_COLORS[phase.phase] ?? '#666',
+                        opacity: phase.endBlock === null ? 0.6 : 1,
+                        borderRadius: '4px',
+                      }}
+                    />
+                    {phase.expectedDurationBlocks !== null && (
+                      <div
+                        title={`Expected end: #${phase.startBlock + phase.expectedDurationBlocks}`}
+                        style={{
+                          position: 'absolute',
+                          left: `${toPercent(phase.startBlock + phase.expectedDurationBlocks)}%`,
+                          top: '-2px',
+                          bottom: '-2px',
+                          borderLeft: '2px dashed #fff',
+                        }}
+                      />
+                    )}
+                  </div>
+                  <div style={{ width: '110px', fontSize: '12px', textAlign: 'right', flexShrink: 0, color: overrun ? '#ef4444' : '#888' }}>
+                    {phase.actualDurationBlocks !== null ? `${phase.actualDurationBlocks} blk` : 'ongoing'}
+                    {phase.overrunBlocks !== null && phase.overrunBlocks !== 0 && ` (${overrun ? '+' : ''}${phase.overrunBlocks})`}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        );
+      })}
+      {timelines.length > 0 && (
+        <div style={{ fontSize: '0.8rem', color: '#666' }}>
+          Bars: actual phase duration · Dashed line: expected end (Signed, SignedValidation and Unsigned only)
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Validators added and removed by the era's election, vs the previous stored election
+const ValidatorSetDiffSection: React.FC<{ eraData: EraDetails }> = ({ eraData }) => {
+  const [showRetained, setShowRetained] = useState(false);
+  const diff = eraData.validatorDiff;
+
+  const addressList = (addresses: string[], color: string) => (
+    <div style={{ maxHeight: '200px', overflowY: 'auto', fontFamily: 'monospace', fontSize: '12px', color }}>
+      {addresses.length === 0
+        ? <div style={{ color: '#666', fontFamily: 'inherit' }}>None</div>
+        : addresses.map((address) => <div key={address}>{address}</div>)}
+    </div>
+  );
+
+  return (
+    <div className="modal-section" style={{ marginTop: '30px' }}>
+      <div className="modal-section-title">Validator Set Changes</div>
+      {!diff ? (
+        <div style={{ fontSize: '0.9rem', color: '#666' }}>
+          {eraData.isActive
+            ? 'The elected set is stored when the election exports (Export → Off)'
+            : 'No elected validator set was recorded for this era'}
+        </div>
+      ) : (
+        <>
+          <div className="info-cards">
+            <div className="info-card">
+              <div className="info-card-label">Elected for Era {diff.eraId + 1}</div>
+              <div className="info-card-value" style={{ fontSize: '18px' }}>{diff.validatorCount}</div>
+              <div className="info-card-subvalue">
+                {diff.previousEraId !== null ? `${diff.previousValidatorCount} for era ${diff.previousEraId + 1}` : 'No previous set stored'}
+              </div>
+            </div>
+            <div className="info-card">
+              <div className="info-card-label">Added</div>
+              <div className="info-card-value" style={{ fontSize: '18px', color: '#10b981' }}>+{diff.added.length}</div>
+            </div>
+            <div className="info-card">
+              <div className="info-card-label">Removed</div>
+              <div className="info-card-value" style={{ fontSize: '18px', color: '#ef4444' }}>−{diff.removed.length}</div>
+            </div>
+            <div className="info-card">
+              <div className="info-card-label">Churn</div>
+              <div className="info-card-value" style={{ fontSize: '18px', color: '#667eea' }}>
+                {diff.churnPercent !== null ? `${diff.churnPercent.toFixed(1)}%` : '—'}
+              </div>
+              <div className="info-card-subvalue">{diff.retained.length} retained</div>
+            </div>
+          </div>
+
+          {diff.previousEraId !== null && (
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '20px', marginTop: '15px' }}>
+              <div>
+                <div style={{ fontSize: '12px', color: '#888', marginBottom: '6px', textTransform: 'uppercase' }}>Added</div>
+                {addressList(diff.added, '#10b981')}
+              </div>
+              <div>
+                <div style={{ fontSize: '12px', color: '#888', marginBottom: '6px', textTransform: 'uppercase' }}>Removed</div>
+                {addressList(diff.removed, '#ef4444')}
+              </div>
+            </div>
+          )}
+
+          <button
+            onClick={() => setShowRetained(!showRetained)}
+            style={{
+              marginTop: '15px',
+              background: 'transparent',
+              border: '1px solid #444',
+              borderRadius: '6px',
+              color: '#aaa',
+              padding: '6px 12px',
+              cursor: 'pointer',
+            }}
+          >
+            {showRetained ? '▲' : '▼'} {diff.retained.length} retained validators
+          </button>
+          {showRetained && <div style={{ marginTop: '10px' }}>{addressList(diff.retained, '#aaa')}</div>}
+        </>
+      )}
+    </div>
+  );
+};
+
+// Rewards Tab Component
+const RewardsTab: React.FC<{ eraData: EraDetails; chain: string }> = ({ eraData, chain }) => {
+  const rewards = eraData.rewards;
+  const token = getTokenName(chain);
+
+  if (!rewards) {
+    return (
+      <div className="empty-state">
+        <div className="empty-state-icon">💰</div>
+        <div>No reward data for this era</div>
+        <div style={{ marginTop: '10px', fontSize: '0.9rem', color: '#666' }}>
+          {eraData.isActive
+            ? 'Rewards are snapshotted when the era ends (staking.EraPaid)'
+            : 'The indexer did not see this era end or any payouts for it'}
+        </div>
+      </div>
+    );
+  }
+
+  // Reconcile the storage snapshot with the EraPaid event
+  const payoutMatchesInflation = rewards.validatorPayout === null || rewards.inflationValidators === null
+    ? null
+    : rewards.validatorPayout === rewards.inflationValidators;
+
+  const unpaidValidators = rewards.validators.filter(v => v.pageCount !== null && v.claimedPages < v.pageCount);
+
+  return (
+    <div>
+      <div className="info-cards">
+        <div className="info-card">
+          <div className="info-card-label">Validator Payout</div>
+          <div className="info-card-value" style={{ fontSize: '18px', color: '#10b981' }}>
+            {rewards.validatorPayout ? `${formatTokenAmount(rewards.validatorPayout)} ${token}` : '—'}
+          </div>
+          <div className="info-card-subvalue">
+            {payoutMatchesInflation === null
+              ? 'erasValidatorReward'
+              : payoutMatchesInflation
+                ? '✓ Matches EraPaid'
+                : `⚠ EraPaid: ${formatTokenAmount(rewards.inflationValidators!)} ${token}`}
+          </div>
+        </div>
+
+        <div className="info-card">
+          <div className="info-card-label">Claimed</div>
+          <div className="info-card-value" style={{ fontSize: '18px', color: '#667eea' }}>
+            {formatTokenAmount(rewards.claimedAmount)} {token}
+          </div>
+          <div className="info-card-subvalue">Observed payouts</div>
+        </div>
+
+        <div className="info-card">
+          <div className="info-card-label">Unclaimed</div>
+          <div className="info-card-value" style={{ fontSize: '18px', color: '#f59e0b' }}>
+            ~{formatTokenAmount(rewards.unclaimedAmount)} {token}
+          </div>
+          <div className="info-card-subvalue">Estimated from reward points</div>
+        </div>
+
+        <div className="info-card">
+          <div className="info-card-label">Pages Claimed</div>
+          <div className="info-card-value" style={{ fontSize: '18px' }}>
+            {rewards.claimedPages} / {rewards.totalPages}
+          </div>
+          <div className="info-card-subvalue">{rewards.percentClaimed.toFixed(1)}% claimed</div>
+        </div>
+      </div>
+
+      {/* Percentage claimed over time */}
+      <div className="modal-section">
+        <div className="modal-section-title">Claimed Over Time</div>
+        {rewards.claimHistory.length === 0 ? (
+          <div style={{ fontSize: '0.9rem', color: '#666' }}>No payouts observed yet</div>
+        ) : (
+          <div style={{
+            display: 'flex',
+            alignItems: 'flex-end',
+            gap: '2px',
+            height: '120px',
+            padding: '10px',
+            background: '#252525',
+            borderRadius: '8px',
+            overflowX: 'auto',
+          }}>
+            {rewards.claimHistory.map((point) => (
+              <div
+                key={point.timestamp}
+                title={`${new Date(point.timestamp).toLocaleString()}: ${point.percentClaimed.toFixed(1)}% (${point.claimedPages} pages)`}
+                style={{
+                  flex: '1 0 6px',
+                  maxWidth: '24px',
+                  height: `${Math.max(point.percentClaimed, 1)}%`,
+                  background: point.percentClaimed >= 100 ? '#10b981' : '#667eea',
+                  borderRadius: '2px 2px 0 0',
+                }}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Validators not (fully) paid out */}
+      <div className="modal-section">
+        <div className="modal-section-title">
+          Not Paid Out ({unpaidValidators.length} of {rewards.validatorCount} validators)
+        </div>
+        {unpaidValidators.length === 0 ? (
+          <div style={{ fontSize: '0.9rem', color: '#666' }}>Every validator has been paid out</div>
+        ) : (
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Validator</th>
+                <th>Points</th>
+                <th>Pages Claimed</th>
+                <th>Expected Reward</th>
+              </tr>
+            </thead>
+            <tbody>
+              {unpaidValidators.map((v) => (
+                <tr key={v.validator}>
+                  <td style={{ fontFamily: 'monospace', fontSize: '12px' }}>{v.validator}</td>
+                  <td>{v.points.toLocaleString()}</td>
+                  <td>{v.claimedPages} / {v.pageCount}</td>
+                  <td>{formatTokenAmount(v.expectedReward)} {token}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
     </div>
   );
 };
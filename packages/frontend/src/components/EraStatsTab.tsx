@@ -0,0 +1,197 @@
+import { useEffect, useState } from 'react';
+import type { EraMetric, EraMetricStats, EraStatsRow } from '@staking-cc/shared';
+import { useEraStatistics, useStatus } from '../hooks/useApi';
+
+const getTokenName = (chain: string): string => {
+  switch (chain.toLowerCase()) {
+    case 'polkadot': return 'DOT';
+    case 'kusama': return 'KSM';
+    case 'westend': return 'WND';
+    default: return 'TOKENS';
+  }
+};
+
+const WINDOWS = [3, 7, 14];
+
+// Scale bars between the series' min and max so small changes stay visible
+const barHeight = (value: number, min: number, max: number): number => {
+  if (max === min) return 100;
+  return 10 + ((value - min) / (max - min)) * 90;
+};
+
+const formatHours = (ms: number): string => `${(ms / (1000 * 60 * 60)).toFixed(1)} hrs`;
+
+const MetricChart: React.FC<{
+  title: string;
+  metric: EraMetric;
+  eras: EraStatsRow[];
+  stats: EraMetricStats;
+  format: (value: number) => string;
+}> = ({ title, metric, eras, stats, format }) => {
+  const outliers = new Set(stats.outliers);
+  const points = eras
+    .map((era, index) => ({ era, value: era.values[metric], rolling: stats.rollingAverage[index] }))
+    .filter(point => point.value !== null);
+  const min = stats.min ?? 0;
+  const max = stats.max ?? 0;
+
+  return (
+    <div className="modal-section">
+      <div className="modal-section-title">
+        {title}
+        {stats.average !== null && (
+          <span style={{ fontWeight: 'normal', fontSize: '0.85rem', color: '#888', marginLeft: '10px' }}>
+            avg {format(stats.average)} · min {format(min)} · max {format(max)}
+            {stats.outliers.length > 0 && (
+              <span style={{ color: '#f59e0b' }}> · {stats.outliers.length} outlier{stats.outliers.length === 1 ? '' : 's'}</span>
+            )}
+          </span>
+        )}
+      </div>
+      {points.length === 0 ? (
+        <div style={{ fontSize: '0.9rem', color: '#666' }}>No data for these eras</div>
+      ) : (
+        <div style={{
+          display: 'flex',
+          alignItems: 'flex-end',
+          gap: '2px',
+          height: '120px',
+          padding: '10px',
+          background: '#252525',
+          borderRadius: '8px',
+          overflowX: 'auto',
+        }}>
+          {points.map(({ era, value, rolling }) => (
+            <div
+              key={era.eraId}
+              title={`Era ${era.eraId}: ${format(value!)}${rolling !== null ? ` (rolling avg ${format(rolling)})` : ''}${outliers.has(era.eraId) ? ' - outlier' : ''}`}
+              style={{ position: 'relative', flex: '1 0 6px', maxWidth: '24px', height: '100%', display: 'flex', alignItems: 'flex-end' }}
+            >
+              <div style={{
+                width: '100%',
+                height: `${barHeight(value!, min, max)}%`,
+                background: outliers.has(era.eraId) ? '#f59e0b' : '#667eea',
+                borderRadius: '2px 2px 0 0',
+              }} />
+              {rolling !== null && (
+                <div style={{
+                  position: 'absolute',
+                  left: 0,
+                  right: 0,
+                  bottom: `${barHeight(rolling, min, max)}%`,
+                  height: '2px',
+                  background: '#10b981',
+                }} />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const EraStatsTab: React.FC = () => {
+  const [rollingWindow, setRollingWindow] = useState(7);
+  const { statistics, loading, error, refetch } = useEraStatistics(rollingWindow);
+  const { status: apiStatus } = useStatus();
+
+  // Eras change a few times a day - refresh every minute
+  useEffect(() => {
+    const interval = setInterval(() => {
+      refetch();
+    }, 60000);
+
+    return () => clearInterval(interval);
+  }, [refetch]);
+
+  const chain = apiStatus?.chain || 'unknown';
+  const token = getTokenName(chain);
+  const decimals = chain === 'polkadot' ? 10 : 12;
+
+  if (loading) {
+    return (
+      <div className="loading">
+        <div className="loading-spinner" />
+        <div>Loading era statistics...</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <div className="error">Failed to load era statistics: {error}</div>;
+  }
+
+  if (!statistics || statistics.eras.length === 0) {
+    return (
+      <div className="empty-state">
+        <div className="empty-state-icon">📊</div>
+        <div>No era data available yet</div>
+      </div>
+    );
+  }
+
+  const { eras, metrics } = statistics;
+  const formatTokens = (planck: number) =>
+    `${(planck / Math.pow(10, decimals)).toLocaleString(undefined, { maximumFractionDigits: 0 })} ${token}`;
+  const formatCount = (value: number) => (Number.isInteger(value) ? value.toLocaleString() : value.toFixed(1));
+  const treasuryShare = metrics.inflationTotal.average && metrics.inflationTreasury.average !== null
+    ? (metrics.inflationTreasury.average / metrics.inflationTotal.average) * 100
+    : null;
+
+  return (
+    <div>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '10px', marginBottom: '20px', fontSize: '0.9rem', color: '#666' }}>
+        <span>{eras.length} eras, {eras[0].eraId} – {eras[eras.length - 1].eraId} · rolling average over</span>
+        <select
+          value={rollingWindow}
+          onChange={(e) => setRollingWindow(parseInt(e.target.value))}
+          style={{ padding: '4px 8px', background: '#252525', color: '#e0e0e0', border: '1px solid #333', borderRadius: '6px' }}
+        >
+          {WINDOWS.map(size => <option key={size} value={size}>{size} eras</option>)}
+        </select>
+      </div>
+
+      <div className="info-cards">
+        <div className="info-card">
+          <div className="info-card-label">Avg Era Duration</div>
+          <div className="info-card-value">{metrics.durationMs.average !== null ? formatHours(metrics.durationMs.average) : '—'}</div>
+        </div>
+        <div className="info-card">
+          <div className="info-card-label">Avg Sessions / Era</div>
+          <div className="info-card-value">{metrics.sessions.average !== null ? formatCount(metrics.sessions.average) : '—'}</div>
+        </div>
+        <div className="info-card">
+          <div className="info-card-label">Avg Validators Elected</div>
+          <div className="info-card-value">{metrics.validatorsElected.average !== null ? formatCount(metrics.validatorsElected.average) : '—'}</div>
+        </div>
+        <div className="info-card">
+          <div className="info-card-label">Avg Inflation / Era</div>
+          <div className="info-card-value" style={{ fontSize: '18px' }}>
+            {metrics.inflationTotal.average !== null ? formatTokens(metrics.inflationTotal.average) : '—'}
+          </div>
+          <div className="info-card-subvalue">
+            {treasuryShare !== null ? `${treasuryShare.toFixed(1)}% to treasury` : '—'}
+          </div>
+        </div>
+        <div className="info-card">
+          <div className="info-card-label">Avg Submissions</div>
+          <div className="info-card-value">{metrics.submissions.average !== null ? formatCount(metrics.submissions.average) : '—'}</div>
+        </div>
+      </div>
+
+      <MetricChart title="Era Duration" metric="durationMs" eras={eras} stats={metrics.durationMs} format={formatHours} />
+      <MetricChart title="Sessions per Era" metric="sessions" eras={eras} stats={metrics.sessions} format={formatCount} />
+      <MetricChart title="Validators Elected" metric="validatorsElected" eras={eras} stats={metrics.validatorsElected} format={formatCount} />
+      <MetricChart title="Inflation (Total)" metric="inflationTotal" eras={eras} stats={metrics.inflationTotal} format={formatTokens} />
+      <MetricChart title="Inflation to Validators" metric="inflationValidators" eras={eras} stats={metrics.inflationValidators} format={formatTokens} />
+      <MetricChart title="Inflation to Treasury" metric="inflationTreasury" eras={eras} stats={metrics.inflationTreasury} format={formatTokens} />
+      <MetricChart title="Election Submissions" metric="submissions" eras={eras} stats={metrics.submissions} format={formatCount} />
+
+      <div style={{ fontSize: '12px', color: '#888' }}>
+        Green lines are the rolling average. Orange bars are outliers, more than {statistics.outlierStdDevs} standard
+        deviations from the average. Bars are scaled between each series' minimum and maximum.
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,294 @@
+import { useEffect, useState } from 'react';
+import type { ElectionIncident, ElectionIncidentEventKind, ElectionIncidentStatus } from '@staking-cc/shared';
+import { fetchElectionIncident, useElectionIncidents } from '../hooks/useApi';
+
+const STATUS_COLORS: Record<ElectionIncidentStatus, string> = {
+  open: '#ef4444',
+  queued: '#f59e0b',
+  recovered: '#10b981',
+};
+
+const KIND_COLORS: Record<ElectionIncidentEventKind, string> = {
+  trigger: '#ef4444',
+  phase: '#667eea',
+  governance: '#a855f7',
+  verifier: '#06b6d4',
+  signed: '#888',
+  staking: '#f59e0b',
+};
+
+const STATUS_FILTERS: (ElectionIncidentStatus | null)[] = [null, 'open', 'queued', 'recovered'];
+
+const CAUSE_LABELS: Record<ElectionIncident['cause'], string> = {
+  election_failed: 'Election failed',
+  emergency: 'Emergency phase',
+};
+
+const formatTimestamp = (timestamp: number | null) => {
+  if (!timestamp) return '—';
+  return new Date(timestamp).toLocaleString();
+};
+
+const formatElapsed = (ms: number): string => {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+};
+
+// Recovered incidents show time to recovery; unrecovered ones how long they have been open
+const formatRecovery = (incident: ElectionIncident): string => {
+  if (incident.recoveryMs !== null) return formatElapsed(incident.recoveryMs);
+  return `${formatElapsed(Date.now() - incident.openedAt)} so far`;
+};
+
+export const IncidentsTab: React.FC = () => {
+  const [status, setStatus] = useState<ElectionIncidentStatus | null>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+  const { incidents, loading, error, refetch } = useElectionIncidents(status);
+
+  // An unrecovered incident is what gets us paged - refresh every 30 seconds
+  useEffect(() => {
+    const interval = setInterval(() => {
+      refetch();
+    }, 30000);
+
+    return () => clearInterval(interval);
+  }, [refetch]);
+
+  if (selected !== null) {
+    return <IncidentDetail id={selected} onBack={() => setSelected(null)} />;
+  }
+
+  if (loading) {
+    return (
+      <div className="loading">
+        <div className="loading-spinner" />
+        <div>Loading incidents...</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <div className="error">Failed to load incidents: {error}</div>;
+  }
+
+  const unrecovered = incidents.filter(incident => incident.status !== 'recovered').length;
+
+  return (
+    <div>
+      <div style={{ marginBottom: '20px', display: 'flex', justifyContent: 'space-between', alignItems: 'flex-end' }}>
+        <div style={{ fontSize: '0.9rem', color: '#666' }}>
+          {incidents.length} {status ?? 'tracked'} incidents
+          {unrecovered > 0 && (
+            <span style={{ color: '#ef4444', fontWeight: 600 }}> · {unrecovered} not yet recovered</span>
+          )}
+        </div>
+        <div style={{ display: 'flex', gap: '6px' }}>
+          {STATUS_FILTERS.map((filter) => (
+            <button
+              key={filter ?? 'all'}
+              onClick={() => setStatus(filter)}
+              style={{
+                padding: '6px 14px',
+                background: status === filter ? '#667eea' : 'transparent',
+                color: status === filter ? 'white' : '#aaa',
+                border: '1px solid #444',
+                borderRadius: '6px',
+                cursor: 'pointer',
+              }}
+            >
+              {filter ? filter.charAt(0).toUpperCase() + filter.slice(1) : 'All'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {incidents.length === 0 ? (
+        <div className="empty-state">
+          <div className="empty-state-icon">✅</div>
+          <div>No {status ?? ''} election incidents</div>
+          <div style={{ marginTop: '10px', fontSize: '0.9rem', color: '#666' }}>
+            Incidents are opened by staking.StakingElectionFailed or a transition to the Emergency phase
+          </div>
+        </div>
+      ) : (
+        <table className="table">
+          <thead>
+            <tr>
+              <th>Opened</th>
+              <th>Cause</th>
+              <th>Round</th>
+              <th>Era</th>
+              <th>Status</th>
+              <th>Solution Queued</th>
+              <th>Time to Recovery</th>
+              <th>Events</th>
+            </tr>
+          </thead>
+          <tbody>
+            {incidents.map((incident) => (
+              <tr key={incident.id} onClick={() => setSelected(incident.id)} style={{ cursor: 'pointer' }}>
+                <td>
+                  #{incident.openedBlock.toLocaleString()}
+                  <div style={{ fontSize: '12px', color: '#888' }}>{formatTimestamp(incident.openedAt)}</div>
+                </td>
+                <td>
+                  {CAUSE_LABELS[incident.cause]}
+                  <span style={{ color: '#888' }}> ({incident.chain === 'relayChain' ? 'RC' : 'AH'})</span>
+                </td>
+                <td>{incident.round ?? '—'}</td>
+                <td>{incident.eraId ?? '—'}</td>
+                <td style={{ color: STATUS_COLORS[incident.status], fontWeight: 600 }}>{incident.status}</td>
+                <td>{incident.queuedBlock !== null ? `#${incident.queuedBlock.toLocaleString()}` : '—'}</td>
+                <td style={{ color: incident.recoveryMs === null ? '#ef4444' : undefined }}>{formatRecovery(incident)}</td>
+                <td>{incident.eventCount}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+// A single incident: milestones and the timeline of every election event until recovery
+const IncidentDetail: React.FC<{ id: number; onBack: () => void }> = ({ id, onBack }) => {
+  const [incident, setIncident] = useState<ElectionIncident | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchElectionIncident(id)
+      .then((data) => {
+        setIncident(data);
+        setError(null);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Unknown error'))
+      .finally(() => setLoading(false));
+  }, [id]);
+
+  const backButton = (
+    <button
+      onClick={onBack}
+      style={{
+        padding: '6px 14px',
+        background: 'transparent',
+        color: '#aaa',
+        border: '1px solid #444',
+        borderRadius: '6px',
+        cursor: 'pointer',
+        margin: '15px 0',
+      }}
+    >
+      ← All incidents
+    </button>
+  );
+
+  if (loading) {
+    return (
+      <div>
+        {backButton}
+        <div className="loading">
+          <div className="loading-spinner" />
+          <div>Loading incident...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !incident) {
+    return (
+      <div>
+        {backButton}
+        <div className="error">Failed to load incident: {error ?? 'not found'}</div>
+      </div>
+    );
+  }
+
+  const events = incident.events ?? [];
+
+  return (
+    <div>
+      {backButton}
+      <h3 style={{ margin: 0 }}>
+        {CAUSE_LABELS[incident.cause]}
+        {incident.round !== null && ` in round #${incident.round}`}
+        <span style={{ marginLeft: '10px', color: STATUS_COLORS[incident.status], fontSize: '14px' }}>{incident.status}</span>
+      </h3>
+
+      <div className="info-cards" style={{ marginTop: '20px' }}>
+        <div className="info-card">
+          <div className="info-card-label">Opened</div>
+          <div className="info-card-value" style={{ fontSize: '18px' }}>#{incident.openedBlock.toLocaleString()}</div>
+          <div className="info-card-subvalue">{formatTimestamp(incident.openedAt)}</div>
+        </div>
+        <div className="info-card">
+          <div className="info-card-label">Solution Queued</div>
+          <div className="info-card-value" style={{ fontSize: '18px' }}>
+            {incident.queuedBlock !== null ? `#${incident.queuedBlock.toLocaleString()}` : '—'}
+          </div>
+          <div className="info-card-subvalue">
+            {incident.queuedAt !== null ? `${formatElapsed(incident.queuedAt - incident.openedAt)} after opening` : 'Waiting for a valid solution'}
+          </div>
+        </div>
+        <div className="info-card">
+          <div className="info-card-label">Recovered</div>
+          <div className="info-card-value" style={{ fontSize: '18px' }}>
+            {incident.recoveredBlock !== null ? `#${incident.recoveredBlock.toLocaleString()}` : '—'}
+          </div>
+          <div className="info-card-subvalue">
+            {incident.recoveredAt !== null ? formatTimestamp(incident.recoveredAt) : 'Solution not exported yet'}
+          </div>
+        </div>
+        <div className="info-card">
+          <div className="info-card-label">Time to Recovery</div>
+          <div className="info-card-value" style={{ fontSize: '18px', color: incident.recoveryMs === null ? '#ef4444' : '#10b981' }}>
+            {formatRecovery(incident)}
+          </div>
+          <div className="info-card-subvalue">
+            {incident.recoveredBlock !== null ? `${(incident.recoveredBlock - incident.openedBlock).toLocaleString()} blocks` : 'Ongoing'}
+          </div>
+        </div>
+      </div>
+
+      <div className="modal-section">
+        <div className="modal-section-title">Timeline</div>
+        <div style={{ borderLeft: '2px solid #333', marginLeft: '8px', paddingLeft: '20px' }}>
+          {events.map((event) => (
+            <div key={`${event.chain}-${event.eventId}`} style={{ position: 'relative', marginBottom: '14px' }}>
+              <div style={{
+                position: 'absolute',
+                left: '-27px',
+                top: '4px',
+                width: '12px',
+                height: '12px',
+                borderRadius: '50%',
+                background: KIND_COLORS[event.kind],
+              }} />
+              <div style={{ display: 'flex', gap: '12px', alignItems: 'baseline' }}>
+                <span style={{ fontSize: '12px', color: '#888', minWidth: '70px' }}>
+                  +{formatElapsed(event.timestamp - incident.openedAt)}
+                </span>
+                <span style={{ color: KIND_COLORS[event.kind], fontSize: '12px', fontWeight: 600, textTransform: 'uppercase', minWidth: '90px' }}>
+                  {event.kind}
+                </span>
+                <span style={{ fontFamily: 'monospace' }}>{event.eventType}</span>
+                <span style={{ fontSize: '12px', color: '#888' }}>#{event.blockNumber.toLocaleString()} · {event.eventId}</span>
+              </div>
+              {event.detail && (
+                <div style={{ marginLeft: '184px', fontSize: '12px', color: '#aaa', fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                  {event.detail}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,203 @@
+import { useEffect } from 'react';
+import type { StakingPopulationSample } from '@staking-cc/shared';
+import { useStakingPopulation, useStatus } from '../hooks/useApi';
+import { formatLargeNumber } from '../utils/eventFormatters';
+
+const getTokenName = (chain: string): string => {
+  switch (chain.toLowerCase()) {
+    case 'polkadot': return 'DOT';
+    case 'kusama': return 'KSM';
+    case 'westend': return 'WND';
+    default: return 'TOKENS';
+  }
+};
+
+interface SeriesPoint {
+  sessionId: number;
+  value: number;
+  label: string;
+  locked: boolean;
+}
+
+// Scale bars between the series' min and max so small changes on large counts stay visible
+const barHeight = (value: number, min: number, max: number): number => {
+  if (max === min) return 100;
+  return 10 + ((value - min) / (max - min)) * 90;
+};
+
+const formatChange = (first: number | null | undefined, last: number | null | undefined): string => {
+  if (first == null || last == null) return '—';
+  const change = last - first;
+  const percent = first === 0 ? 0 : (change / first) * 100;
+  return `${change >= 0 ? '+' : ''}${change.toLocaleString()} (${percent >= 0 ? '+' : ''}${percent.toFixed(1)}%)`;
+};
+
+const SeriesChart: React.FC<{ title: string; points: SeriesPoint[] }> = ({ title, points }) => {
+  const values = points.map(point => point.value);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+
+  return (
+    <div className="modal-section">
+      <div className="modal-section-title">{title}</div>
+      {points.length === 0 ? (
+        <div style={{ fontSize: '0.9rem', color: '#666' }}>Not available on this chain</div>
+      ) : (
+        <div style={{
+          display: 'flex',
+          alignItems: 'flex-end',
+          gap: '2px',
+          height: '120px',
+          padding: '10px',
+          background: '#252525',
+          borderRadius: '8px',
+          overflowX: 'auto',
+        }}>
+          {points.map((point) => (
+            <div
+              key={point.sessionId}
+              title={`Session ${point.sessionId}: ${point.label}${point.locked ? ' (bags list locked)' : ''}`}
+              style={{
+                flex: '1 0 4px',
+                maxWidth: '24px',
+                height: `${barHeight(point.value, min, max)}%`,
+                background: point.locked ? '#ef4444' : '#667eea',
+                borderRadius: '2px 2px 0 0',
+              }}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const PopulationTab: React.FC = () => {
+  const { samples, loading, error, refetch } = useStakingPopulation();
+  const { status: apiStatus } = useStatus();
+
+  // A new sample is taken once per session - refresh every minute
+  useEffect(() => {
+    const interval = setInterval(() => {
+      refetch();
+    }, 60000);
+
+    return () => clearInterval(interval);
+  }, [refetch]);
+
+  const chain = apiStatus?.chain || 'unknown';
+  const token = getTokenName(chain);
+  const decimals = chain === 'polkadot' ? 10 : 12;
+
+  if (loading) {
+    return (
+      <div className="loading">
+        <div className="loading-spinner" />
+        <div>Loading staking population...</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <div className="error">Failed to load staking population: {error}</div>;
+  }
+
+  if (samples.length === 0) {
+    return (
+      <div className="empty-state">
+        <div className="empty-state-icon">📈</div>
+        <div>No staking population samples yet</div>
+        <div style={{ marginTop: '10px', fontSize: '0.9rem', color: '#666' }}>
+          A sample is taken on Asset Hub at the end of every session
+        </div>
+      </div>
+    );
+  }
+
+  const first = samples[0];
+  const latest = samples[samples.length - 1];
+
+  // Consecutive locked samples ending at the latest one
+  let lockedStreak = 0;
+  for (let i = samples.length - 1; i >= 0 && samples[i].bagsListLocked === true; i--) {
+    lockedStreak++;
+  }
+
+  const countSeries = (field: 'nominatorCount' | 'validatorCount' | 'bagsListNodes'): SeriesPoint[] =>
+    samples
+      .filter(sample => sample[field] !== null)
+      .map(sample => ({
+        sessionId: sample.sessionId,
+        value: sample[field] as number,
+        label: (sample[field] as number).toLocaleString(),
+        locked: sample.bagsListLocked === true,
+      }));
+
+  const bondSeries = (field: 'minNominatorBond' | 'minActiveStake'): SeriesPoint[] =>
+    samples
+      .filter(sample => sample[field] !== null)
+      .map(sample => ({
+        sessionId: sample.sessionId,
+        value: Number(BigInt(sample[field] as string)) / Math.pow(10, decimals),
+        label: `${formatLargeNumber(sample[field] as string, decimals)} ${token}`,
+        locked: sample.bagsListLocked === true,
+      }));
+
+  const formatBond = (sample: StakingPopulationSample, field: 'minNominatorBond' | 'minActiveStake') => {
+    const value = sample[field];
+    return value !== null ? `${formatLargeNumber(value, decimals)} ${token}` : '—';
+  };
+
+  return (
+    <div>
+      <div style={{ marginBottom: '20px', fontSize: '0.9rem', color: '#666' }}>
+        {samples.length} sessions, {first.sessionId} – {latest.sessionId} · last sampled at block #{latest.blockNumber.toLocaleString()}
+        {' '}({new Date(latest.timestamp).toLocaleString()})
+      </div>
+
+      <div className="info-cards">
+        <div className="info-card">
+          <div className="info-card-label">Nominators</div>
+          <div className="info-card-value">{latest.nominatorCount?.toLocaleString() ?? '—'}</div>
+          <div className="info-card-subvalue">{formatChange(first.nominatorCount, latest.nominatorCount)}</div>
+        </div>
+        <div className="info-card">
+          <div className="info-card-label">Validators</div>
+          <div className="info-card-value">{latest.validatorCount?.toLocaleString() ?? '—'}</div>
+          <div className="info-card-subvalue">{formatChange(first.validatorCount, latest.validatorCount)}</div>
+        </div>
+        <div className="info-card">
+          <div className="info-card-label">Bags List</div>
+          <div className="info-card-value" style={{ color: latest.bagsListLocked ? '#ef4444' : undefined }}>
+            {latest.bagsListNodes?.toLocaleString() ?? '—'}
+          </div>
+          <div className="info-card-subvalue" style={{ color: latest.bagsListLocked ? '#ef4444' : undefined }}>
+            {latest.bagsListLocked === null
+              ? 'Lock state unknown'
+              : latest.bagsListLocked
+                ? `Locked for ${lockedStreak} session${lockedStreak === 1 ? '' : 's'}`
+                : 'Unlocked'}
+          </div>
+        </div>
+        <div className="info-card">
+          <div className="info-card-label">Min Nominator Bond</div>
+          <div className="info-card-value" style={{ fontSize: '18px' }}>{formatBond(latest, 'minNominatorBond')}</div>
+        </div>
+        <div className="info-card">
+          <div className="info-card-label">Min Active Stake</div>
+          <div className="info-card-value" style={{ fontSize: '18px' }}>{formatBond(latest, 'minActiveStake')}</div>
+        </div>
+      </div>
+
+      <SeriesChart title="Nominators" points={countSeries('nominatorCount')} />
+      <SeriesChart title="Validators" points={countSeries('validatorCount')} />
+      <SeriesChart title="Bags List Nodes" points={countSeries('bagsListNodes')} />
+      <SeriesChart title="Min Nominator Bond" points={bondSeries('minNominatorBond')} />
+      <SeriesChart title="Min Active Stake" points={bondSeries('minActiveStake')} />
+
+      <div style={{ fontSize: '12px', color: '#888' }}>
+        Red bars are sessions where the bags list was locked. Bars are scaled between each series' minimum and maximum.
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,210 @@
+import { Fragment, useEffect, useState } from 'react';
+import type { Slash, SlashStatus } from '@staking-cc/shared';
+import { fetchSlash, useSlashes, useStatus } from '../hooks/useApi';
+import { formatLargeNumber } from '../utils/eventFormatters';
+
+const getTokenName = (chain: string): string => {
+  switch (chain.toLowerCase()) {
+    case 'polkadot': return 'DOT';
+    case 'kusama': return 'KSM';
+    case 'westend': return 'WND';
+    default: return 'TOKENS';
+  }
+};
+
+const STATUS_COLORS: Record<SlashStatus, string> = {
+  reported: '#f59e0b',
+  deferred: '#667eea',
+  applied: '#ef4444',
+  cancelled: '#666',
+};
+
+const STATUS_FILTERS: (SlashStatus | null)[] = [null, 'reported', 'deferred', 'applied', 'cancelled'];
+
+const formatTimestamp = (timestamp: number | null) => {
+  if (!timestamp) return '—';
+  return new Date(timestamp).toLocaleString();
+};
+
+export const SlashesTab: React.FC = () => {
+  const [status, setStatus] = useState<SlashStatus | null>(null);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const { slashes, loading, error, refetch } = useSlashes(status);
+  const { status: apiStatus } = useStatus();
+
+  // Slashes move slowly (deferred slashes wait for eras) - refresh once a minute
+  useEffect(() => {
+    const interval = setInterval(() => {
+      refetch();
+    }, 60000);
+
+    return () => clearInterval(interval);
+  }, [refetch]);
+
+  const chain = apiStatus?.chain || 'unknown';
+  const token = getTokenName(chain);
+  const decimals = chain === 'polkadot' ? 10 : 12;
+
+  if (loading) {
+    return (
+      <div className="loading">
+        <div className="loading-spinner" />
+        <div>Loading slashes...</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <div className="error">Failed to load slashes: {error}</div>;
+  }
+
+  const overdue = slashes.filter(slash => slash.overdue).length;
+
+  return (
+    <div>
+      <div style={{ marginBottom: '20px', display: 'flex', justifyContent: 'space-between', alignItems: 'flex-end' }}>
+        <div style={{ fontSize: '0.9rem', color: '#666' }}>
+          {slashes.length} {status ?? 'tracked'} slashes
+          {overdue > 0 && (
+            <span style={{ color: '#ef4444', fontWeight: 600 }}> · {overdue} deferred past their slash era</span>
+          )}
+        </div>
+        <div style={{ display: 'flex', gap: '6px' }}>
+          {STATUS_FILTERS.map((filter) => (
+            <button
+              key={filter ?? 'all'}
+              onClick={() => setStatus(filter)}
+              style={{
+                padding: '6px 14px',
+                background: status === filter ? '#667eea' : 'transparent',
+                color: status === filter ? 'white' : '#aaa',
+                border: '1px solid #444',
+                borderRadius: '6px',
+                cursor: 'pointer',
+              }}
+            >
+              {filter ? filter.charAt(0).toUpperCase() + filter.slice(1) : 'All'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {slashes.length === 0 ? (
+        <div className="empty-state">
+          <div className="empty-state-icon">🛡️</div>
+          <div>No {status ?? ''} slashes</div>
+          <div style={{ marginTop: '10px', fontSize: '0.9rem', color: '#666' }}>
+            Offences are recorded from staking.OffenceReported / SlashReported and followed until staking.Slashed
+          </div>
+        </div>
+      ) : (
+        <table className="table">
+          <thead>
+            <tr>
+              <th>Offender</th>
+              <th>Chain</th>
+              <th>Offence Era</th>
+              <th>Slash Era</th>
+              <th>Fraction</th>
+              <th>Status</th>
+              <th>Slashed</th>
+            </tr>
+          </thead>
+          <tbody>
+            {slashes.map((slash) => {
+              const isExpanded = expanded === slash.id;
+
+              return (
+                <Fragment key={slash.id}>
+                  <tr onClick={() => setExpanded(isExpanded ? null : slash.id)} style={{ cursor: 'pointer' }}>
+                    <td style={{ fontFamily: 'monospace', fontSize: '12px' }}>
+                      {isExpanded ? '▼' : '▶'} {slash.offender}
+                    </td>
+                    <td>{slash.chain === 'relayChain' ? 'RC' : 'AH'}</td>
+                    <td>{slash.offenceEra ?? '—'}</td>
+                    <td>{slash.slashEra ?? '—'}</td>
+                    <td>{slash.fraction === null ? '—' : `${(slash.fraction * 100).toFixed(2)}%`}</td>
+                    <td>
+                      <span style={{ color: STATUS_COLORS[slash.status], fontWeight: 600 }}>
+                        {slash.status}
+                      </span>
+                      {slash.overdue && <span style={{ color: '#ef4444' }}> ⚠ overdue</span>}
+                    </td>
+                    <td>
+                      {slash.stakersSlashed > 0
+                        ? `${formatLargeNumber(slash.amount, decimals)} ${token} (${slash.stakersSlashed} stakers)`
+                        : '—'}
+                    </td>
+                  </tr>
+                  {isExpanded && (
+                    <tr>
+                      <td colSpan={7} style={{ background: '#252525' }}>
+                        <SlashDetail slash={slash} decimals={decimals} token={token} />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+const SlashDetail: React.FC<{ slash: Slash; decimals: number; token: string }> = ({ slash, decimals, token }) => {
+  const [detail, setDetail] = useState<Slash | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSlash(slash.id)
+      .then(setDetail)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Unknown error'));
+  }, [slash.id, slash.updatedBlock]);
+
+  return (
+    <div style={{ padding: '10px' }}>
+      <div style={{ display: 'flex', gap: '30px', fontSize: '0.9rem', color: '#aaa', marginBottom: '10px' }}>
+        <div>
+          <strong style={{ color: '#888' }}>Reported:</strong>{' '}
+          {slash.reportedBlock !== null ? `#${slash.reportedBlock} · ${formatTimestamp(slash.reportedAt)}` : '—'}
+        </div>
+        <div>
+          <strong style={{ color: '#888' }}>Applied:</strong>{' '}
+          {slash.appliedBlock !== null ? `#${slash.appliedBlock} · ${formatTimestamp(slash.appliedAt)}` : '—'}
+        </div>
+      </div>
+
+      {error && <div className="error">Failed to load slashed stakers: {error}</div>}
+
+      {detail?.stakers && detail.stakers.length > 0 && (
+        <table className="table">
+          <thead>
+            <tr>
+              <th>Staker</th>
+              <th>Amount</th>
+              <th>Block</th>
+            </tr>
+          </thead>
+          <tbody>
+            {detail.stakers.map((staker) => (
+              <tr key={staker.eventId}>
+                <td style={{ fontFamily: 'monospace', fontSize: '12px' }}>
+                  {staker.staker}
+                  {staker.staker === slash.offender && <span style={{ color: '#888' }}> (offender)</span>}
+                </td>
+                <td>{formatLargeNumber(staker.amount, decimals)} {token}</td>
+                <td>#{staker.blockNumber}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {detail && (!detail.stakers || detail.stakers.length === 0) && (
+        <div style={{ color: '#666', fontSize: '0.9rem' }}>Nothing slashed yet</div>
+      )}
+    </div>
+  );
+};
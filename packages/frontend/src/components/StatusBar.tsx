@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef } from 'react';
-import type { ApiStatus, SyncStatus } from '@staking-cc/shared';
+import type { ApiStatus, EraForecast, ForecastConfidence, ForecastRange, StakingClientStatus, SyncStatus } from '@staking-cc/shared';
 
 interface StatusBarProps {
   status: ApiStatus | null;
@@ -14,9 +14,100 @@ const getSyncStatusDisplay = (syncStatus: SyncStatus): { text: string; className
       return { text: 'In Sync', className: 'connected' };
     case 'out-of-sync':
       return { text: 'Out of Sync', className: 'disconnected' };
+    case 'stopped':
+      return { text: 'Era Range Synced', className: 'connected' };
   }
 };
 
+const MODE_COLORS: Record<string, string> = {
+  Active: '#10b981',
+  Buffered: '#f59e0b',
+  Passive: '#888',
+};
+
+// RC stakingAhClient mode and queued validator set, and the last session report AH received
+const ClientHealthCard: React.FC<{ client: StakingClientStatus }> = ({ client }) => {
+  const rc = client.relayChain;
+  const ah = client.assetHub;
+
+  return (
+    <div className="status-card">
+      <div className="label">Migration / Client Health</div>
+      <div className="value" style={{ color: rc?.mode ? MODE_COLORS[rc.mode] ?? undefined : undefined }}>
+        {rc?.mode ?? '—'}
+      </div>
+      <div className="subvalue">
+        {rc ? `Mode since session ${rc.modeSince}` : 'RC client not sampled yet'}
+      </div>
+      <div className="subvalue" style={{ fontSize: '0.75rem', marginTop: '2px', color: rc?.queuedValidatorSetId != null ? '#f59e0b' : undefined }}>
+        {rc?.queuedValidatorSetId != null
+          ? `Pending set #${rc.queuedValidatorSetId} (${rc.queuedValidatorsCount ?? '?'} validators) since session ${rc.queuedSince}`
+          : 'No pending validator set'}
+      </div>
+      <div className="subvalue" style={{ fontSize: '0.75rem', marginTop: '2px' }}>
+        {ah?.lastSessionReportEndIndex != null ? `Last reported session ${ah.lastSessionReportEndIndex}` : 'No session report on AH'}
+        {ah?.outgoingValidatorSetId != null && <span> • Sending set #{ah.outgoingValidatorSetId}</span>}
+      </div>
+    </div>
+  );
+};
+
+const CONFIDENCE_COLORS: Record<ForecastConfidence, string> = {
+  high: '#10b981',
+  medium: '#f59e0b',
+  low: '#ef4444',
+};
+
+const formatCountdown = (ms: number): string => {
+  if (ms <= 0) return 'any moment';
+
+  const totalMinutes = Math.floor(ms / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  if (hours === 0) return `${totalMinutes}m ${Math.floor(ms / 1000) % 60}s`;
+  if (hours < 24) return `${hours}h ${totalMinutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+};
+
+const formatClock = (timestamp: number): string =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const formatRange = (range: ForecastRange): string =>
+  range.latest === null
+    ? `after ${formatClock(range.earliest)}, no upper bound`
+    : `${formatClock(range.earliest)} – ${formatClock(range.latest)}`;
+
+// Countdown to the forecast era (or, without an era, session) boundary, ticking every second
+const ForecastCard: React.FC<{ forecast: EraForecast }> = ({ forecast }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const target = forecast.nextEra ?? forecast.nextSession;
+  const progress = forecast.eraProgress ?? forecast.sessionProgress;
+
+  return (
+    <div className="status-card" title={forecast.notes.join('\n') || undefined}>
+      <div className="label">{forecast.nextEra ? `Era ${forecast.currentEra} Ends In` : 'Session Ends In'}</div>
+      <div className="value">{formatCountdown(target.expected - now)}</div>
+      <div style={{ height: '4px', background: '#333', borderRadius: '2px', margin: '6px 0' }}>
+        <div style={{ width: `${progress * 100}%`, height: '100%', background: '#667eea', borderRadius: '2px' }} />
+      </div>
+      <div className="subvalue">
+        {forecast.sessionInEra !== null
+          ? `Session ${forecast.sessionInEra}/${forecast.sessionsPerEra} · next in ${formatCountdown(forecast.nextSession.expected - now)}`
+          : `Session ${forecast.currentSession}`}
+      </div>
+      <div className="subvalue" style={{ fontSize: '0.75rem', marginTop: '2px' }}>
+        {formatRange(target)}
+        <span style={{ color: CONFIDENCE_COLORS[forecast.confidence] }}> • {forecast.confidence} confidence</span>
+      </div>
+    </div>
+  );
+};
+
 const LiveTimer: React.FC<{ timestamp: number; blockNumber: number; prefix?: string }> = ({ timestamp, blockNumber, prefix = '' }) => {
   const [secondsAgo, setSecondsAgo] = useState(0);
   const [startTime, setStartTime] = useState(Date.now());
@@ -146,6 +237,10 @@ export const StatusBar: React.FC<StatusBarProps> = ({ status, isConnected }) =>
           <div className="value" style={{ marginTop: '8px' }}>{status.assetHub.currentHeight.toLocaleString()}</div>
           <div className="subvalue">AH</div>
         </div>
+
+        {status.forecast && <ForecastCard forecast={status.forecast} />}
+
+        {status.stakingClient && <ClientHealthCard client={status.stakingClient} />}
       </div>
     </>
   );
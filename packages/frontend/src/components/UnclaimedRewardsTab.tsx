@@ -0,0 +1,162 @@
+import { Fragment, useEffect, useState } from 'react';
+import type { UnclaimedEraRewards } from '@staking-cc/shared';
+import { useStatus, useUnclaimedRewards } from '../hooks/useApi';
+import { formatLargeNumber } from '../utils/eventFormatters';
+
+const getTokenName = (chain: string): string => {
+  switch (chain.toLowerCase()) {
+    case 'polkadot': return 'DOT';
+    case 'kusama': return 'KSM';
+    case 'westend': return 'WND';
+    default: return 'TOKENS';
+  }
+};
+
+// Color an era by how much of the history depth it has left
+const getExpiryColor = (era: UnclaimedEraRewards, historyDepth: number): string => {
+  if (era.erasRemaining < 0) return '#666';
+  const remaining = era.erasRemaining / historyDepth;
+  if (remaining <= 0.05) return '#ef4444';
+  if (remaining <= 0.2) return '#f59e0b';
+  return '#10b981';
+};
+
+export const UnclaimedRewardsTab: React.FC = () => {
+  const [includeExpired, setIncludeExpired] = useState(false);
+  const [expandedEra, setExpandedEra] = useState<number | null>(null);
+  const { report, loading, error, refetch } = useUnclaimedRewards(includeExpired);
+  const { status } = useStatus();
+
+  // Claims and era changes are slow - refresh once a minute
+  useEffect(() => {
+    const interval = setInterval(() => {
+      refetch();
+    }, 60000);
+
+    return () => clearInterval(interval);
+  }, [refetch]);
+
+  const chain = status?.chain || 'unknown';
+  const token = getTokenName(chain);
+  const decimals = chain === 'polkadot' ? 10 : 12;
+
+  if (loading) {
+    return (
+      <div className="loading">
+        <div className="loading-spinner" />
+        <div>Loading unclaimed rewards...</div>
+      </div>
+    );
+  }
+
+  if (error || !report) {
+    return <div className="error">Failed to load unclaimed rewards: {error}</div>;
+  }
+
+  const totalUnclaimed = report.eras
+    .filter(era => era.erasRemaining >= 0)
+    .reduce((sum, era) => sum + BigInt(era.unclaimedAmount), BigInt(0));
+
+  return (
+    <div>
+      <div style={{ marginBottom: '20px', display: 'flex', justifyContent: 'space-between', alignItems: 'flex-end' }}>
+        <div>
+          <h3 style={{ margin: 0 }}>Expiry Timeline</h3>
+          <div style={{ fontSize: '0.9rem', color: '#666', marginTop: '5px' }}>
+            Rewards can be claimed for {report.historyDepth} eras
+            {report.currentEra !== null && ` · current era ${report.currentEra}`}
+            {' · '}~{formatLargeNumber(totalUnclaimed.toString(), decimals)} {token} still claimable
+          </div>
+        </div>
+        <label style={{ fontSize: '0.9rem', color: '#aaa', cursor: 'pointer' }}>
+          <input
+            type="checkbox"
+            checked={includeExpired}
+            onChange={(e) => setIncludeExpired(e.target.checked)}
+            style={{ marginRight: '6px' }}
+          />
+          Show expired eras
+        </label>
+      </div>
+
+      {report.eras.length === 0 ? (
+        <div className="empty-state">
+          <div className="empty-state-icon">✅</div>
+          <div>No unclaimed rewards</div>
+          <div style={{ marginTop: '10px', fontSize: '0.9rem', color: '#666' }}>
+            Every snapshotted era has been fully paid out
+          </div>
+        </div>
+      ) : (
+        <table className="table">
+          <thead>
+            <tr>
+              <th>Era</th>
+              <th style={{ width: '40%' }}>Time Left</th>
+              <th>Last Claimable Era</th>
+              <th>Unpaid Validators</th>
+              <th>Unclaimed Pages</th>
+              <th>Unclaimed (est.)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.eras.map((era) => {
+              const color = getExpiryColor(era, report.historyDepth);
+              const remainingPercent = Math.max(0, Math.min(100, (era.erasRemaining / report.historyDepth) * 100));
+              const isExpanded = expandedEra === era.eraId;
+
+              return (
+                <Fragment key={era.eraId}>
+                  <tr
+                    onClick={() => setExpandedEra(isExpanded ? null : era.eraId)}
+                    style={{ cursor: 'pointer' }}
+                  >
+                    <td><strong>{isExpanded ? '▼' : '▶'} #{era.eraId}</strong></td>
+                    <td>
+                      <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+                        <div style={{ flex: 1, height: '8px', background: '#333', borderRadius: '4px', overflow: 'hidden' }}>
+                          <div style={{ width: `${remainingPercent}%`, height: '100%', background: color }} />
+                        </div>
+                        <span style={{ color, fontWeight: 600, minWidth: '80px' }}>
+                          {era.erasRemaining < 0 ? 'Expired' : `${era.erasRemaining} eras`}
+                        </span>
+                      </div>
+                    </td>
+                    <td>{era.lastClaimableEra}</td>
+                    <td>{era.validators.length}</td>
+                    <td>{era.unclaimedPages}</td>
+                    <td>~{formatLargeNumber(era.unclaimedAmount, decimals)} {token}</td>
+                  </tr>
+                  {isExpanded && (
+                    <tr>
+                      <td colSpan={6} style={{ background: '#252525' }}>
+                        <table className="table">
+                          <thead>
+                            <tr>
+                              <th>Validator</th>
+                              <th>Pages Claimed</th>
+                              <th>Unclaimed (est.)</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {era.validators.map((v) => (
+                              <tr key={v.validator}>
+                                <td style={{ fontFamily: 'monospace', fontSize: '12px' }}>{v.validator}</td>
+                                <td>{v.claimedPages} / {v.pageCount}</td>
+                                <td>~{formatLargeNumber(v.unclaimedAmount, decimals)} {token}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
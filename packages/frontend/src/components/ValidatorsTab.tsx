@@ -0,0 +1,281 @@
+import { useEffect, useState } from 'react';
+import type { ValidatorPerformance } from '@staking-cc/shared';
+import { fetchValidatorPerformance, useEraValidatorPoints } from '../hooks/useApi';
+
+const formatRatio = (ratio: number | null): string => (ratio === null ? '—' : `${(ratio * 100).toFixed(0)}%`);
+
+const shortAddress = (address: string): string => `${address.slice(0, 8)}…${address.slice(-8)}`;
+
+export const ValidatorsTab: React.FC = () => {
+  const { points, loading, error } = useEraValidatorPoints();
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<string | null>(null);
+
+  if (selected) {
+    return <ValidatorDetail address={selected} onBack={() => setSelected(null)} />;
+  }
+
+  if (loading) {
+    return (
+      <div className="loading">
+        <div className="loading-spinner" />
+        <div>Loading validator points...</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <div className="error">Failed to load validator points: {error}</div>;
+  }
+
+  if (!points) {
+    return (
+      <div className="empty-state">
+        <div className="empty-state-icon">🏅</div>
+        <div>No era points available yet</div>
+        <div style={{ marginTop: '10px', fontSize: '0.9rem', color: '#666' }}>
+          Points are snapshotted from staking.erasRewardPoints when an era ends (staking.EraPaid)
+        </div>
+      </div>
+    );
+  }
+
+  const query = search.trim();
+  const validators = query
+    ? points.validators.filter(v => v.validator.toLowerCase().includes(query.toLowerCase()))
+    : points.validators;
+  const underperforming = points.validators.filter(v => v.underperforming).length;
+
+  return (
+    <div>
+      <div style={{ marginBottom: '20px', display: 'flex', justifyContent: 'space-between', alignItems: 'flex-end', gap: '20px' }}>
+        <div>
+          <h3 style={{ margin: 0 }}>Era {points.eraId} Points</h3>
+          <div style={{ fontSize: '0.9rem', color: '#666', marginTop: '5px' }}>
+            {points.validatorCount} validators · median {Math.round(points.eraMedian).toLocaleString()} · average {Math.round(points.eraAverage).toLocaleString()}
+            {' · '}
+            <span style={{ color: underperforming > 0 ? '#ef4444' : '#10b981' }}>
+              {underperforming} below {formatRatio(points.underperformanceRatio)} of median
+            </span>
+          </div>
+        </div>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (query) setSelected(query);
+          }}
+        >
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Filter or enter a stash address"
+            style={{
+              padding: '8px 12px',
+              width: '360px',
+              background: '#252525',
+              color: '#eee',
+              border: '1px solid #444',
+              borderRadius: '6px',
+            }}
+          />
+        </form>
+      </div>
+
+      <table className="table">
+        <thead>
+          <tr>
+            <th>Validator</th>
+            <th>Points</th>
+            <th>vs Median</th>
+            <th>Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          {validators.map((v) => (
+            <tr key={v.validator} onClick={() => setSelected(v.validator)} style={{ cursor: 'pointer' }}>
+              <td style={{ fontFamily: 'monospace', fontSize: '12px' }}>{v.validator}</td>
+              <td>{v.points.toLocaleString()}</td>
+              <td>{formatRatio(v.ratioToMedian)}</td>
+              <td>
+                {v.underperforming
+                  ? <span style={{ color: '#ef4444', fontWeight: 600 }}>⚠ Underperforming</span>
+                  : <span style={{ color: '#10b981' }}>OK</span>}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+const ValidatorDetail: React.FC<{ address: string; onBack: () => void }> = ({ address, onBack }) => {
+  const [performance, setPerformance] = useState<ValidatorPerformance | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchValidatorPerformance(address)
+      .then((data) => {
+        setPerformance(data);
+        setError(null);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Unknown error'))
+      .finally(() => setLoading(false));
+  }, [address]);
+
+  const backButton = (
+    <button
+      onClick={onBack}
+      style={{
+        padding: '6px 14px',
+        background: 'transparent',
+        color: '#aaa',
+        border: '1px solid #444',
+        borderRadius: '6px',
+        cursor: 'pointer',
+        marginBottom: '15px',
+      }}
+    >
+      ← All validators
+    </button>
+  );
+
+  if (loading) {
+    return (
+      <div>
+        {backButton}
+        <div className="loading">
+          <div className="loading-spinner" />
+          <div>Loading validator...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !performance) {
+    return (
+      <div>
+        {backButton}
+        <div className="error">{error ? `Failed to load validator: ${error}` : `No era points found for ${address}`}</div>
+      </div>
+    );
+  }
+
+  // Oldest era on the left
+  const eras = [...performance.eras].reverse();
+  const maxPoints = Math.max(...eras.map(era => Math.max(era.points, era.eraAverage)), 1);
+
+  return (
+    <div>
+      {backButton}
+      <h3 style={{ margin: 0, fontFamily: 'monospace' }} title={address}>{shortAddress(address)}</h3>
+      <div style={{ fontSize: '0.8rem', color: '#666', marginTop: '5px', fontFamily: 'monospace' }}>{address}</div>
+
+      <div className="info-cards" style={{ marginTop: '20px' }}>
+        <div className="info-card">
+          <div className="info-card-label">Eras Active</div>
+          <div className="info-card-value" style={{ fontSize: '18px' }}>{performance.erasActive}</div>
+          <div className="info-card-subvalue">
+            Eras {eras[0].eraId}–{eras[eras.length - 1].eraId}
+          </div>
+        </div>
+
+        <div className="info-card">
+          <div className="info-card-label">Average Points</div>
+          <div className="info-card-value" style={{ fontSize: '18px' }}>
+            {Math.round(performance.averagePoints).toLocaleString()}
+          </div>
+          <div className="info-card-subvalue">{performance.totalPoints.toLocaleString()} total</div>
+        </div>
+
+        <div className="info-card">
+          <div className="info-card-label">vs Era Median</div>
+          <div className="info-card-value" style={{ fontSize: '18px', color: '#667eea' }}>
+            {formatRatio(performance.averageRatioToMedian)}
+          </div>
+          <div className="info-card-subvalue">Average over active eras</div>
+        </div>
+
+        <div className="info-card">
+          <div className="info-card-label">Underperforming</div>
+          <div className="info-card-value" style={{ fontSize: '18px', color: performance.underperformingEras > 0 ? '#ef4444' : '#10b981' }}>
+            {performance.underperformingEras} eras
+          </div>
+          <div className="info-card-subvalue">Below {formatRatio(performance.underperformanceRatio)} of median</div>
+        </div>
+      </div>
+
+      {/* Points per era, with the era average as a marker */}
+      <div className="modal-section">
+        <div className="modal-section-title">Points vs Era Average</div>
+        <div style={{
+          display: 'flex',
+          alignItems: 'flex-end',
+          gap: '2px',
+          height: '160px',
+          padding: '10px',
+          background: '#252525',
+          borderRadius: '8px',
+          overflowX: 'auto',
+        }}>
+          {eras.map((era) => (
+            <div
+              key={era.eraId}
+              title={`Era ${era.eraId}: ${era.points.toLocaleString()} points (average ${Math.round(era.eraAverage).toLocaleString()}, median ${Math.round(era.eraMedian).toLocaleString()})`}
+              style={{ flex: '1 0 6px', maxWidth: '24px', height: '100%', position: 'relative' }}
+            >
+              <div style={{
+                position: 'absolute',
+                bottom: 0,
+                width: '100%',
+                height: `${(era.points / maxPoints) * 100}%`,
+                background: era.underperforming ? '#ef4444' : '#667eea',
+                borderRadius: '2px 2px 0 0',
+              }} />
+              <div style={{
+                position: 'absolute',
+                bottom: `${(era.eraAverage / maxPoints) * 100}%`,
+                width: '100%',
+                borderTop: '2px solid #f59e0b',
+              }} />
+            </div>
+          ))}
+        </div>
+        <div style={{ fontSize: '0.8rem', color: '#666', marginTop: '6px' }}>
+          Bars: validator points (red = underperforming) · Line: era average
+        </div>
+      </div>
+
+      <div className="modal-section">
+        <div className="modal-section-title">Era History</div>
+        <table className="table">
+          <thead>
+            <tr>
+              <th>Era</th>
+              <th>Points</th>
+              <th>Era Average</th>
+              <th>Era Median</th>
+              <th>vs Median</th>
+            </tr>
+          </thead>
+          <tbody>
+            {performance.eras.map((era) => (
+              <tr key={era.eraId}>
+                <td><strong>#{era.eraId}</strong></td>
+                <td>{era.points.toLocaleString()}</td>
+                <td>{Math.round(era.eraAverage).toLocaleString()}</td>
+                <td>{Math.round(era.eraMedian).toLocaleString()}</td>
+                <td style={{ color: era.underperforming ? '#ef4444' : undefined, fontWeight: era.underperforming ? 600 : undefined }}>
+                  {era.underperforming && '⚠ '}{formatRatio(era.ratioToMedian)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -1,12 +1,32 @@
-import { useState, useEffect, useRef } from 'react';
-import type { Warning } from '@staking-cc/shared';
+import { Fragment, useState, useEffect, useRef } from 'react';
+import type { WarningSeverity, WarningStatus } from '@staking-cc/shared';
+import { useWarnings, acknowledgeWarning, resolveWarning } from '../hooks/useApi';
 
-interface WarningsPanelProps {
-  warnings: Warning[];
-  loading: boolean;
+type StatusFilter = 'active' | WarningStatus | 'all';
+
+const STATUS_FILTERS: Record<StatusFilter, WarningStatus[] | undefined> = {
+  active: ['open', 'acknowledged'],
+  open: ['open'],
+  acknowledged: ['acknowledged'],
+  resolved: ['resolved'],
+  all: undefined,
+};
+
+interface PendingAction {
+  warningId: number;
+  action: 'acknowledge' | 'resolve';
 }
 
-export const WarningsPanel: React.FC<WarningsPanelProps> = ({ warnings, loading }) => {
+export const WarningsPanel: React.FC = () => {
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('active');
+  const [severityFilter, setSeverityFilter] = useState<WarningSeverity | ''>('');
+  const { warnings, loading, error, refetch } = useWarnings(100, {
+    status: STATUS_FILTERS[statusFilter],
+    severity: severityFilter || undefined,
+  });
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [note, setNote] = useState('');
+  const [actionError, setActionError] = useState<string | null>(null);
   const [newWarningIds, setNewWarningIds] = useState<Set<number>>(new Set());
   const previousWarningsRef = useRef<Set<number>>(new Set());
 
@@ -29,6 +49,60 @@ export const WarningsPanel: React.FC<WarningsPanelProps> = ({ warnings, loading
 
     previousWarningsRef.current = currentWarningIds;
   }, [warnings]);
+  const startAction = (warningId: number, action: PendingAction['action']) => {
+    setPendingAction({ warningId, action });
+    setNote('');
+    setActionError(null);
+  };
+
+  const submitAction = async () => {
+    if (!pendingAction) return;
+
+    try {
+      if (pendingAction.action === 'acknowledge') {
+        await acknowledgeWarning(pendingAction.warningId, note);
+      } else {
+        await resolveWarning(pendingAction.warningId, note);
+      }
+      setPendingAction(null);
+      await refetch();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  const filters = (
+    <div style={{ display: 'flex', gap: '15px', marginBottom: '15px', flexWrap: 'wrap', alignItems: 'center' }}>
+      <label>
+        Status:{' '}
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+          style={{ padding: '5px', marginLeft: '5px' }}
+        >
+          <option value="active">Active (open + acknowledged)</option>
+          <option value="open">Open</option>
+          <option value="acknowledged">Acknowledged</option>
+          <option value="resolved">Resolved</option>
+          <option value="all">All</option>
+        </select>
+      </label>
+      <label>
+        Severity:{' '}
+        <select
+          value={severityFilter}
+          onChange={(e) => setSeverityFilter(e.target.value as WarningSeverity | '')}
+          style={{ padding: '5px', marginLeft: '5px' }}
+        >
+          <option value="">All</option>
+          <option value="error">Error</option>
+          <option value="warning">Warning</option>
+          <option value="info">Info</option>
+        </select>
+      </label>
+    </div>
+  );
+
   if (loading) {
     return (
       <div className="loading">
@@ -38,11 +112,22 @@ export const WarningsPanel: React.FC<WarningsPanelProps> = ({ warnings, loading
     );
   }
 
+  if (error) {
+    return (
+      <div className="error">
+        <strong>Error:</strong> {error}
+      </div>
+    );
+  }
+
   if (warnings.length === 0) {
     return (
-      <div className="empty-state">
-        <div className="empty-state-icon">✓</div>
-        <div>No warnings - everything looks good!</div>
+      <div>
+        {filters}
+        <div className="empty-state">
+          <div className="empty-state-icon">✓</div>
+          <div>{statusFilter === 'active' && !severityFilter ? 'No warnings - everything looks good!' : 'No warnings match the selected filters'}</div>
+        </div>
       </div>
     );
   }
@@ -75,43 +160,120 @@ export const WarningsPanel: React.FC<WarningsPanelProps> = ({ warnings, loading
     }
   };
 
+  const getStatusBadge = (status: WarningStatus | undefined) => {
+    switch (status) {
+      case 'resolved':
+        return 'badge-success';
+      case 'acknowledged':
+        return 'badge-info';
+      default:
+        return 'badge-secondary';
+    }
+  };
+
   return (
-    <table className="table">
-      <thead>
-        <tr>
-          <th>Type</th>
-          <th>Era</th>
-          <th>Session</th>
-          <th>Block</th>
-          <th>Message</th>
-          <th>Severity</th>
-          <th>Time</th>
-        </tr>
-      </thead>
-      <tbody>
-        {warnings.map((warning) => (
-          <tr
-            key={warning.id}
-            className={warning.id !== undefined && newWarningIds.has(warning.id) ? 'new-row' : ''}
-          >
-            <td>
-              <span title={warning.type}>
-                {getTypeIcon(warning.type)} {warning.type.replace('_', ' ')}
-              </span>
-            </td>
-            <td>{warning.eraId !== null ? `#${warning.eraId}` : '—'}</td>
-            <td>{warning.sessionId !== null ? warning.sessionId : '—'}</td>
-            <td>{warning.blockNumber.toLocaleString()}</td>
-            <td>{warning.message}</td>
-            <td>
-              <span className={`badge ${getSeverityBadge(warning.severity)}`}>
-                {warning.severity}
-              </span>
-            </td>
-            <td>{new Date(warning.timestamp).toLocaleString()}</td>
+    <div>
+      {filters}
+      {actionError && (
+        <div className="error">
+          <strong>Error:</strong> {actionError}
+        </div>
+      )}
+      <table className="table">
+        <thead>
+          <tr>
+            <th>Type</th>
+            <th>Era</th>
+            <th>Session</th>
+            <th>Block</th>
+            <th>Message</th>
+            <th>Severity</th>
+            <th>Status</th>
+            <th>Time</th>
+            <th>Actions</th>
           </tr>
-        ))}
-      </tbody>
-    </table>
+        </thead>
+        <tbody>
+          {warnings.map((warning) => (
+            <Fragment key={warning.id}>
+              <tr
+                className={warning.id !== undefined && newWarningIds.has(warning.id) ? 'new-row' : ''}
+              >
+                <td>
+                  <span title={warning.type}>
+                    {getTypeIcon(warning.type)} {warning.type.replace('_', ' ')}
+                  </span>
+                </td>
+                <td>{warning.eraId !== null ? `#${warning.eraId}` : '—'}</td>
+                <td>{warning.sessionId !== null ? warning.sessionId : '—'}</td>
+                <td>{warning.blockNumber.toLocaleString()}</td>
+                <td>
+                  {warning.message}
+                  {warning.note && (
+                    <div style={{ fontSize: '12px', color: '#888', marginTop: '4px' }}>
+                      Note: {warning.note}
+                    </div>
+                  )}
+                </td>
+                <td>
+                  <span className={`badge ${getSeverityBadge(warning.severity)}`}>
+                    {warning.severity}
+                  </span>
+                </td>
+                <td>
+                  <span
+                    className={`badge ${getStatusBadge(warning.status)}`}
+                    title={warning.resolvedAt ? `Resolved ${new Date(warning.resolvedAt).toLocaleString()}` : undefined}
+                  >
+                    {warning.status || 'open'}{warning.autoResolved ? ' (auto)' : ''}
+                  </span>
+                </td>
+                <td>{new Date(warning.timestamp).toLocaleString()}</td>
+                <td style={{ whiteSpace: 'nowrap' }}>
+                  {warning.id !== undefined && warning.status === 'open' && (
+                    <button className="btn btn-secondary" onClick={() => startAction(warning.id!, 'acknowledge')}>
+                      Acknowledge
+                    </button>
+                  )}
+                  {warning.id !== undefined && warning.status !== 'resolved' && (
+                    <button className="btn btn-secondary" style={{ marginLeft: '5px' }} onClick={() => startAction(warning.id!, 'resolve')}>
+                      Resolve
+                    </button>
+                  )}
+                </td>
+              </tr>
+              {pendingAction && pendingAction.warningId === warning.id && (
+                <tr>
+                  <td colSpan={9}>
+                    <div style={{ display: 'flex', gap: '10px', alignItems: 'center' }}>
+                      <input
+                        type="text"
+                        placeholder={`Note for ${pendingAction.action} (optional)`}
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && submitAction()}
+                        autoFocus
+                        style={{
+                          padding: '8px 12px',
+                          border: '1px solid #ddd',
+                          borderRadius: '4px',
+                          flex: 1,
+                        }}
+                      />
+                      <button className="btn btn-primary" onClick={submitAction}>
+                        {pendingAction.action === 'acknowledge' ? 'Acknowledge' : 'Resolve'}
+                      </button>
+                      <button className="btn btn-secondary" onClick={() => setPendingAction(null)}>
+                        Cancel
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              )}
+            </Fragment>
+          ))}
+        </tbody>
+      </table>
+    </div>
   );
 };
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { io, Socket } from 'socket.io-client';
-import type { ApiStatus, Era, Warning, Block, BlockchainEvent, Session } from '@staking-cc/shared';
+import type { ApiStatus, Era, Warning, WarningSeverity, WarningStatus, Block, BlockchainEvent, Session, UnclaimedRewardsReport, EraValidatorPoints, ValidatorPerformance, Slash, SlashStatus, ElectionRoundSummary, ElectionRoundDetails, SubmitterStats, SubmitterDetails, ElectionScore, ScoreSimulation, ElectionIncident, ElectionIncidentStatus, StakingPopulationSample, EraStatistics } from '@staking-cc/shared';
 
 // Use empty string to make relative URLs (leverages Vite proxy in dev mode)
 // In production, set VITE_API_URL environment variable to the full API URL
@@ -119,37 +119,51 @@ export function useEras(limit: number = 20) {
   return { eras, loading, error, refetch: fetchEras };
 }
 
-export function useWarnings(limit: number = 50) {
+export interface WarningFilters {
+  status?: WarningStatus[];
+  severity?: WarningSeverity;
+}
+
+export function useWarnings(limit: number = 50, filters: WarningFilters = {}) {
   const [warnings, setWarnings] = useState<Warning[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const { socket } = useWebSocket();
 
+  const statusParam = filters.status?.join(',') || '';
+  const severityParam = filters.severity || '';
+
   useEffect(() => {
     fetchWarnings();
-  }, [limit]);
+  }, [limit, statusParam, severityParam]);
 
   useEffect(() => {
     if (!socket) return;
 
     socket.emit('subscribe:warnings');
 
-    socket.on('warnings_update', (event: any) => {
-      setWarnings(event.data);
+    // The broadcast is unfiltered, so refetch with the current filters
+    socket.on('warnings_update', () => {
+      fetchWarnings();
     });
 
     return () => {
       socket.emit('unsubscribe:warnings');
       socket.off('warnings_update');
     };
-  }, [socket]);
+  }, [socket, limit, statusParam, severityParam]);
 
   const fetchWarnings = async () => {
     try {
-      const response = await fetch(`${API_BASE_URL}/api/warnings?limit=${limit}`);
+      const params = new URLSearchParams({ limit: String(limit) });
+      if (statusParam) params.set('status', statusParam);
+      if (severityParam) params.set('severity', severityParam);
+
+      const response = await fetch(`${API_BASE_URL}/api/warnings?${params.toString()}`);
       if (!response.ok) throw new Error('Failed to fetch warnings');
       const data = await response.json();
       setWarnings(data);
+      setError(null);
       setLoading(false);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Unknown error');
@@ -160,6 +174,61 @@ export function useWarnings(limit: number = 50) {
   return { warnings, loading, error, refetch: fetchWarnings };
 }
 
+export function useWarningCounts() {
+  const [counts, setCounts] = useState<Record<WarningStatus, number>>({ open: 0, acknowledged: 0, resolved: 0 });
+  const { socket } = useWebSocket();
+
+  useEffect(() => {
+    fetchCounts();
+  }, []);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    socket.emit('subscribe:warnings');
+
+    socket.on('warnings_update', () => {
+      fetchCounts();
+    });
+
+    return () => {
+      socket.emit('unsubscribe:warnings');
+      socket.off('warnings_update');
+    };
+  }, [socket]);
+
+  const fetchCounts = async () => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/warnings/counts`);
+      if (!response.ok) throw new Error('Failed to fetch warning counts');
+      setCounts(await response.json());
+    } catch (err) {
+      // Keep the last known counts; the badge is not critical
+    }
+  };
+
+  return { counts, refetch: fetchCounts };
+}
+
+async function updateWarningStatus(id: number, action: 'acknowledge' | 'resolve', note: string): Promise<Warning> {
+  const response = await fetch(`${API_BASE_URL}/api/warnings/${id}/${action}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ note }),
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.error || `Failed to ${action} warning`);
+  return data;
+}
+
+export async function acknowledgeWarning(id: number, note: string): Promise<Warning> {
+  return updateWarningStatus(id, 'acknowledge', note);
+}
+
+export async function resolveWarning(id: number, note: string): Promise<Warning> {
+  return updateWarningStatus(id, 'resolve', note);
+}
+
 export function useBlocks(chain: 'rc' | 'ah', limit: number = 100) {
   const [blocks, setBlocks] = useState<Block[]>([]);
   const [loading, setLoading] = useState(true);
@@ -251,6 +320,133 @@ export function useSessions(limit: number = 100) {
   return { sessions, loading, error, refetch: fetchSessions };
 }
 
+export function useUnclaimedRewards(includeExpired: boolean = false) {
+  const [report, setReport] = useState<UnclaimedRewardsReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchReport();
+  }, [includeExpired]);
+
+  const fetchReport = async () => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/rewards/unclaimed?includeExpired=${includeExpired}`);
+      if (!response.ok) throw new Error('Failed to fetch unclaimed rewards');
+      const data = await response.json();
+      setReport(data);
+      setLoading(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      setLoading(false);
+    }
+  };
+
+  return { report, loading, error, refetch: fetchReport };
+}
+
+export function useEraValidatorPoints(eraId: number | null = null) {
+  const [points, setPoints] = useState<EraValidatorPoints | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchPoints();
+  }, [eraId]);
+
+  const fetchPoints = async () => {
+    try {
+      const query = eraId !== null ? `?eraId=${eraId}` : '';
+      const response = await fetch(`${API_BASE_URL}/api/validators/points${query}`);
+      if (response.status === 404) {
+        setPoints(null);
+        setLoading(false);
+        return;
+      }
+      if (!response.ok) throw new Error('Failed to fetch validator points');
+      const data = await response.json();
+      setPoints(data);
+      setLoading(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      setLoading(false);
+    }
+  };
+
+  return { points, loading, error, refetch: fetchPoints };
+}
+
+export async function fetchValidatorPerformance(address: string): Promise<ValidatorPerformance | null> {
+  const response = await fetch(`${API_BASE_URL}/api/validators/${encodeURIComponent(address)}/points`);
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error('Failed to fetch validator performance');
+  return response.json();
+}
+
+export function useSlashes(status: SlashStatus | null = null) {
+  const [slashes, setSlashes] = useState<Slash[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSlashes();
+  }, [status]);
+
+  const fetchSlashes = async () => {
+    try {
+      const query = status ? `?status=${status}` : '';
+      const response = await fetch(`${API_BASE_URL}/api/slashes${query}`);
+      if (!response.ok) throw new Error('Failed to fetch slashes');
+      const data = await response.json();
+      setSlashes(data);
+      setLoading(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      setLoading(false);
+    }
+  };
+
+  return { slashes, loading, error, refetch: fetchSlashes };
+}
+
+export async function fetchSlash(id: number): Promise<Slash> {
+  const response = await fetch(`${API_BASE_URL}/api/slashes/${id}`);
+  if (!response.ok) throw new Error('Failed to fetch slash');
+  return response.json();
+}
+
+export function useElectionIncidents(status: ElectionIncidentStatus | null = null) {
+  const [incidents, setIncidents] = useState<ElectionIncident[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchIncidents();
+  }, [status]);
+
+  const fetchIncidents = async () => {
+    try {
+      const query = status ? `?status=${status}` : '';
+      const response = await fetch(`${API_BASE_URL}/api/elections/incidents${query}`);
+      if (!response.ok) throw new Error('Failed to fetch election incidents');
+      const data = await response.json();
+      setIncidents(data);
+      setLoading(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      setLoading(false);
+    }
+  };
+
+  return { incidents, loading, error, refetch: fetchIncidents };
+}
+
+export async function fetchElectionIncident(id: number): Promise<ElectionIncident> {
+  const response = await fetch(`${API_BASE_URL}/api/elections/incidents/${id}`);
+  if (!response.ok) throw new Error('Failed to fetch election incident');
+  return response.json();
+}
+
 export function useDatabaseTables() {
   const [tables, setTables] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
@@ -319,6 +515,81 @@ export function useElectionWinners(limit: number = 50) {
   return { winners, loading, error, refetch: fetchWinners };
 }
 
+export function useElectionRounds(limit: number = 50) {
+  const [rounds, setRounds] = useState<ElectionRoundSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchRounds();
+  }, [limit]);
+
+  const fetchRounds = async () => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/elections/rounds?limit=${limit}`);
+      if (!response.ok) throw new Error('Failed to fetch election rounds');
+      const data = await response.json();
+      setRounds(data);
+      setLoading(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      setLoading(false);
+    }
+  };
+
+  return { rounds, loading, error, refetch: fetchRounds };
+}
+
+export async function fetchElectionRound(round: number): Promise<ElectionRoundDetails | null> {
+  const response = await fetch(`${API_BASE_URL}/api/elections/rounds/${round}`);
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error('Failed to fetch election round');
+  return response.json();
+}
+
+export async function simulateElectionScore(round: number, score: ElectionScore, thresholdPerbill: number): Promise<ScoreSimulation> {
+  const response = await fetch(`${API_BASE_URL}/api/elections/rounds/${round}/simulate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...score, thresholdPerbill }),
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.error || 'Failed to simulate election score');
+  return data;
+}
+
+export function useElectionSubmitters(limit: number = 100) {
+  const [submitters, setSubmitters] = useState<SubmitterStats[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSubmitters();
+  }, [limit]);
+
+  const fetchSubmitters = async () => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/elections/submitters?limit=${limit}`);
+      if (!response.ok) throw new Error('Failed to fetch election submitters');
+      const data = await response.json();
+      setSubmitters(data);
+      setLoading(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      setLoading(false);
+    }
+  };
+
+  return { submitters, loading, error, refetch: fetchSubmitters };
+}
+
+export async function fetchElectionSubmitter(address: string): Promise<SubmitterDetails | null> {
+  const response = await fetch(`${API_BASE_URL}/api/elections/submitters/${encodeURIComponent(address)}`);
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error('Failed to fetch election submitter');
+  return response.json();
+}
+
 export async function fetchMinimumScore(): Promise<string | null> {
   // This will be queried live from the chain via polkadot.js
   // For now, return null - will be implemented when we have access to the API
@@ -330,3 +601,53 @@ export async function fetchElectionRoundStats(round: number): Promise<any> {
   if (!response.ok) throw new Error('Failed to fetch round stats');
   return response.json();
 }
+
+export function useEraStatistics(window: number = 7) {
+  const [statistics, setStatistics] = useState<EraStatistics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchStatistics();
+  }, [window]);
+
+  const fetchStatistics = async () => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/eras/stats?window=${window}`);
+      if (!response.ok) throw new Error('Failed to fetch era statistics');
+      const data = await response.json();
+      setStatistics(data);
+      setLoading(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      setLoading(false);
+    }
+  };
+
+  return { statistics, loading, error, refetch: fetchStatistics };
+}
+
+export function useStakingPopulation(limit: number = 168) {
+  const [samples, setSamples] = useState<StakingPopulationSample[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchPopulation();
+  }, [limit]);
+
+  const fetchPopulation = async () => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/population?limit=${limit}`);
+      if (!response.ok) throw new Error('Failed to fetch staking population');
+      const data = await response.json();
+      setSamples(data);
+      setLoading(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      setLoading(false);
+    }
+  };
+
+  return { samples, loading, error, refetch: fetchPopulation };
+}
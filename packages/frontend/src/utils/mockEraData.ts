@@ -1,4 +1,4 @@
-import type { Session, Warning, BlockchainEvent } from '@staking-cc/shared';
+import type { EraRewards, ElectionRoundTimeline, Session, SessionReportLatency, ValidatorSetDiff, Warning, BlockchainEvent } from '@staking-cc/shared';
 
 export interface ElectionPhase {
   started: boolean;
@@ -14,6 +14,10 @@ export interface EraDetails {
   endTime: number | null;
   sessions: Session[];
   prevSession?: Session | null; // Previous session (from previous era) for calculating first session's start block
+  reportLatency?: SessionReportLatency[]; // RC -> AH session report latency per session
+  rewards?: EraRewards | null; // Claimed vs unclaimed payouts (null if not tracked)
+  validatorDiff?: ValidatorSetDiff | null; // Set elected during this era vs the previous election (null if not stored)
+  electionTimelines?: ElectionRoundTimeline[]; // Actual vs expected phase durations of the era's election rounds
   warnings: Warning[];
   events: BlockchainEvent[];
   isActive: boolean;
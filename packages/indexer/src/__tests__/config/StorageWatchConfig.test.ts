@@ -0,0 +1,68 @@
+/**
+ * Storage Watch Config Tests
+ * Verifies config/storage-watch.json is validated at startup
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { validateStorageWatchConfig } from '../../utils/config';
+
+const CONFIG_PATH = path.join(__dirname, '../../../../../config/storage-watch.json');
+
+const loadShippedConfig = (): any => JSON.parse(fs.readFileSync(CONFIG_PATH, 'utf-8'));
+
+describe('Storage watch config validation', () => {
+  it('should accept the shipped config for all chains', () => {
+    const config = validateStorageWatchConfig(loadShippedConfig());
+
+    expect(config.polkadot.items.length).toBeGreaterThan(0);
+    expect(config.kusama.items.find(item => item.id === 'ah-era-start-session')).toMatchObject({
+      pallet: 'staking',
+      item: 'erasStartSessionIndex',
+      keys: ['$era'],
+      trigger: { type: 'era' },
+    });
+  });
+
+  it('should reject a missing chain section', () => {
+    const config = loadShippedConfig();
+    delete config.westend;
+
+    expect(() => validateStorageWatchConfig(config)).toThrow('westend.items: must be an array');
+  });
+
+  it('should reject duplicate ids and incomplete items', () => {
+    const config = loadShippedConfig();
+    config.polkadot.items.push({ ...config.polkadot.items[0] });
+    config.polkadot.items.push({ id: 'no-item', chain: 'parachain', pallet: 'staking', trigger: { type: 'session' } });
+
+    expect(() => validateStorageWatchConfig(config)).toThrow(/polkadot\.items\.ah-force-era: duplicate id/);
+    expect(() => validateStorageWatchConfig(config)).toThrow(/no-item\.chain: must be one of relayChain, assetHub/);
+    expect(() => validateStorageWatchConfig(config)).toThrow(/no-item\.item: must be a non-empty string/);
+  });
+
+  it('should reject invalid triggers', () => {
+    const config = loadShippedConfig();
+    config.kusama.items = [
+      { id: 'a', chain: 'assetHub', pallet: 'staking', item: 'forceEra', trigger: { type: 'hourly' } },
+      { id: 'b', chain: 'assetHub', pallet: 'staking', item: 'forceEra', trigger: { type: 'blocks', interval: 0 } },
+      { id: 'c', chain: 'assetHub', pallet: 'staking', item: 'forceEra', trigger: { type: 'event', event: 'ForceEra' } },
+      { id: 'd', chain: 'relayChain', pallet: 'session', item: 'currentIndex', trigger: { type: 'session' } },
+    ];
+
+    const validate = () => validateStorageWatchConfig(config);
+    expect(validate).toThrow(/kusama\.items\.a\.trigger\.type: must be one of session, era, blocks, event/);
+    expect(validate).toThrow(/kusama\.items\.b\.trigger\.interval: must be a positive integer/);
+    expect(validate).toThrow(/kusama\.items\.c\.trigger\.event: must look like "section\.Method"/);
+    expect(validate).toThrow(/kusama\.items\.d\.trigger\.type: session triggers are Asset Hub only/);
+  });
+
+  it('should reject key placeholders the trigger does not provide', () => {
+    const config = loadShippedConfig();
+    config.westend.items = [
+      { id: 'total-stake', chain: 'assetHub', pallet: 'staking', item: 'erasTotalStake', keys: ['$era'], trigger: { type: 'session' } },
+    ];
+
+    expect(() => validateStorageWatchConfig(config)).toThrow('westend.items.total-stake.keys: $era is only set by the era trigger');
+  });
+});
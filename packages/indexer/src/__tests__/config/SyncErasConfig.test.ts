@@ -0,0 +1,29 @@
+/**
+ * Era-Based Sync Config Tests
+ * Verifies SYNC_ERAS / SYNC_ERA_RANGE parsing
+ */
+
+import { parseSyncEras } from '../../utils/config';
+
+describe('Sync eras config', () => {
+  it('should default to block-count sync', () => {
+    expect(parseSyncEras(undefined, undefined, 100)).toBeUndefined();
+  });
+
+  it('should parse the last N eras', () => {
+    expect(parseSyncEras('7', undefined, 100)).toEqual({ lastEras: 7 });
+  });
+
+  it('should parse closed and open era ranges', () => {
+    expect(parseSyncEras(undefined, '1980-1985', 100)).toEqual({ fromEra: 1980, toEra: 1985 });
+    expect(parseSyncEras(undefined, '1980-', 100)).toEqual({ fromEra: 1980, toEra: null });
+  });
+
+  it('should reject invalid values', () => {
+    expect(() => parseSyncEras('7', '1980-1985', 100)).toThrow('not both');
+    expect(() => parseSyncEras('0', undefined, 100)).toThrow('SYNC_ERAS must be a positive integer');
+    expect(() => parseSyncEras('120', undefined, 100)).toThrow('exceeds MAX_ERAS');
+    expect(() => parseSyncEras(undefined, 'last-week', 100)).toThrow('SYNC_ERA_RANGE must look like');
+    expect(() => parseSyncEras(undefined, '1985-1980', 100)).toThrow('must not be before');
+  });
+});
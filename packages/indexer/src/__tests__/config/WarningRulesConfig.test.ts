@@ -0,0 +1,64 @@
+/**
+ * Warning Rules Config Tests
+ * Verifies config/warning-rules.json is validated at startup
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { validateWarningRulesConfig } from '../../utils/config';
+
+const CONFIG_PATH = path.join(__dirname, '../../../../../config/warning-rules.json');
+
+const loadShippedConfig = (): any => JSON.parse(fs.readFileSync(CONFIG_PATH, 'utf-8'));
+
+describe('Warning rules config validation', () => {
+  it('should accept the shipped config for all chains', () => {
+    const config = validateWarningRulesConfig(loadShippedConfig());
+
+    expect(config.polkadot.thresholds.expectedEraDurationMs).toBe(24 * 60 * 60 * 1000);
+    expect(config.kusama.thresholds.expectedEraDurationMs).toBe(6 * 60 * 60 * 1000);
+    expect(config.westend.rules['era-duration'].enabled).toBe(true);
+  });
+
+  it('should reject a missing chain section', () => {
+    const config = loadShippedConfig();
+    delete config.westend;
+
+    expect(() => validateWarningRulesConfig(config)).toThrow('westend: missing chain section');
+  });
+
+  it('should reject invalid thresholds', () => {
+    const config = loadShippedConfig();
+    config.kusama.thresholds.maxSyncLagMs = '60s';
+    config.kusama.thresholds.maxPhaseDurationBlocks.Export = -1;
+
+    expect(() => validateWarningRulesConfig(config)).toThrow(/kusama\.thresholds\.maxSyncLagMs[\s\S]*kusama\.thresholds\.maxPhaseDurationBlocks\.Export/);
+  });
+
+  it('should reject zero for thresholds used as divisors', () => {
+    const config = loadShippedConfig();
+    config.polkadot.thresholds.expectedEraDurationMs = 0;
+    config.polkadot.thresholds.expectedSessionsPerEra = 0;
+    config.kusama.thresholds.expectedSessionsPerEra = 5.5;
+
+    expect(() => validateWarningRulesConfig(config)).toThrow('polkadot.thresholds.expectedEraDurationMs: must be a positive number');
+    expect(() => validateWarningRulesConfig(config)).toThrow('polkadot.thresholds.expectedSessionsPerEra: must be a positive integer');
+    expect(() => validateWarningRulesConfig(config)).toThrow('kusama.thresholds.expectedSessionsPerEra: must be a positive integer');
+  });
+
+  it('should reject unknown rules and invalid severities', () => {
+    const config = loadShippedConfig();
+    config.polkadot.rules['no-such-rule'] = { enabled: true };
+    config.polkadot.rules['era-duration'] = { enabled: true, severity: 'critical' };
+
+    expect(() => validateWarningRulesConfig(config)).toThrow(/no-such-rule: unknown rule/);
+    expect(() => validateWarningRulesConfig(config)).toThrow(/era-duration\.severity: must be one of info, warning, error/);
+  });
+
+  it('should reject a rule without an enabled flag', () => {
+    const config = loadShippedConfig();
+    config.polkadot.rules['stuck-election-phase'] = { severity: 'error' };
+
+    expect(() => validateWarningRulesConfig(config)).toThrow('polkadot.rules.stuck-election-phase.enabled: must be a boolean');
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * Cross-Chain Consistency Checker Tests
+ * Verifies RC session/validator-set events are reconciled with AH session reports
+ */
+
+import { ConsistencyChecker } from '../../consistency';
+import { Indexer } from '../../indexer/Indexer';
+import { createTestDatabase } from '../utils/testDatabase';
+import type { StakingDatabase } from '../../database/Database';
+import type { WarningThresholds } from '@staking-cc/shared';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const T0 = 1700000000000;
+
+const THRESHOLDS: WarningThresholds = {
+  expectedEraDurationMs: 6 * HOUR,
+  eraDurationTolerance: 0.15,
+  expectedSessionsPerEra: 6,
+  maxSessionReportIntervalMs: 1.5 * HOUR,
+  maxSessionReportLatencyMs: 10 * MINUTE,
+  maxPhaseDurationBlocks: { Snapshot: 100, Done: 100, Export: 100 },
+  phaseOverrunGraceBlocks: 10,
+  maxSyncLagMs: 60000,
+  unclaimedRewardsWarningEras: 14,
+  unclaimedRewardsCriticalEras: 3,
+  maxValidatorSetChurnPercent: 15,
+  maxBagsListLockedSessions: 2,
+  maxPopulationDropPercent: 5,
+  maxQueuedValidatorSetSessions: 1,
+};
+
+describe('ConsistencyChecker', () => {
+  let db: StakingDatabase;
+  let checker: ConsistencyChecker;
+  let mockLogger: any;
+
+  // RC session N begins at block 1000 + N * 600, one hour apart
+  const startRcSession = (sessionId: number) => {
+    const blockNumber = 1000 + sessionId * 600;
+    const timestamp = T0 + sessionId * HOUR;
+    db.insertBlockRC({ blockNumber, timestamp });
+    db.upsertRcSession({ sessionId, blockNumber, timestamp, newSetQueued: false });
+  };
+
+  // AH receives the report for session N at block 5000 + N * 300
+  const reportSession = (endIndex: number, options: { blockNumber?: number; timestamp?: number; leftover?: boolean } = {}) => {
+    const blockNumber = options.blockNumber ?? 5000 + endIndex * 300;
+    const timestamp = options.timestamp ?? T0 + (endIndex + 1) * HOUR + MINUTE;
+    db.insertBlockAH({ blockNumber, timestamp });
+    db.insertEventAH({
+      blockNumber,
+      eventId: `${blockNumber}-2`,
+      eventType: 'stakingRcClient.SessionReportReceived',
+      data: JSON.stringify({
+        method: 'SessionReportReceived',
+        section: 'stakingRcClient',
+        data: { endIndex: endIndex.toLocaleString('en-US'), validatorPointsCounts: '600', activationTimestamp: null, leftover: options.leftover ?? false },
+      }),
+    });
+  };
+
+  const advanceAH = (timestamp: number) => {
+    db.insertBlockAH({ blockNumber: 900000, timestamp });
+  };
+
+  const openKeys = () => db.getOpenConsistencyIssues().map(issue => issue.key);
+
+  beforeEach(() => {
+    db = createTestDatabase();
+
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+      child: jest.fn(function(this: any) { return this; }),
+    };
+
+    checker = new ConsistencyChecker(db, mockLogger, THRESHOLDS);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('Session reports', () => {
+    it('should report nothing when every ended RC session was reported', () => {
+      for (let s = 10; s <= 13; s++) startRcSession(s);
+      for (let s = 10; s <= 12; s++) reportSession(s);
+
+      expect(checker.check(T0 + 20 * HOUR)).toEqual([]);
+    });
+
+    it('should flag an RC session whose report never reached AH', () => {
+      for (let s = 10; s <= 13; s++) startRcSession(s);
+      reportSession(10);
+      reportSession(12);
+
+      const issues = checker.check(T0 + 20 * HOUR);
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0].key).toBe('missing_report:11');
+      expect(issues[0].sessionId).toBe(11);
+    });
+
+    it('should not flag a report that is not overdue yet', () => {
+      for (let s = 10; s <= 11; s++) startRcSession(s);
+      reportSession(9);
+      // AH indexed up to 5 minutes after session 10 ended on RC
+      advanceAH(T0 + 11 * HOUR + 5 * MINUTE);
+
+      expect(checker.check(T0 + 11 * HOUR + 5 * MINUTE)).toEqual([]);
+
+      advanceAH(T0 + 11 * HOUR + 11 * MINUTE);
+      expect(openKeys()).toEqual([]);
+      expect(checker.check(T0 + 11 * HOUR + 11 * MINUTE).map(issue => issue.key)).toEqual(['missing_report:10']);
+    });
+
+    it('should not judge sessions before AH indexing started', () => {
+      for (let s = 5; s <= 13; s++) startRcSession(s);
+      for (let s = 10; s <= 12; s++) reportSession(s);
+
+      expect(checker.check(T0 + 20 * HOUR)).toEqual([]);
+    });
+
+    it('should flag duplicate final reports but ignore leftover pages', () => {
+      for (let s = 10; s <= 12; s++) startRcSession(s);
+      reportSession(10, { leftover: true });
+      reportSession(10, { blockNumber: 8001 });
+      reportSession(11);
+      reportSession(11, { blockNumber: 8500 });
+
+      expect(openKeys()).toEqual([]);
+      expect(checker.check(T0 + 20 * HOUR).map(issue => issue.key)).toEqual(['duplicate_report:11']);
+    });
+
+    it('should flag a report received after a newer session was reported', () => {
+      for (let s = 10; s <= 13; s++) startRcSession(s);
+      reportSession(10);
+      reportSession(12, { blockNumber: 8000 });
+      reportSession(11, { blockNumber: 8100 });
+
+      expect(checker.check(T0 + 20 * HOUR).map(issue => issue.key)).toEqual(['out_of_order_report:11']);
+    });
+
+    it('should resolve a missing report once it arrives', () => {
+      for (let s = 10; s <= 13; s++) startRcSession(s);
+      reportSession(10);
+      reportSession(12);
+      checker.check(T0 + 20 * HOUR);
+
+      reportSession(11, { blockNumber: 9000 });
+      const issues = checker.check(T0 + 21 * HOUR);
+
+      expect(issues.map(issue => issue.key)).toEqual(['out_of_order_report:11']);
+      expect(db.getConsistencyIssue('missing_report:11')!.resolvedAt).toBe(T0 + 21 * HOUR);
+    });
+  });
+
+  describe('Validator sets', () => {
+    const acknowledge = (id: number, blockNumber: number) => {
+      db.insertBlockRC({ blockNumber, timestamp: T0 + 5 * HOUR });
+      db.insertEventRC({
+        blockNumber,
+        eventId: `${blockNumber}-4`,
+        eventType: 'stakingAhClient.ValidatorSetReceived',
+        data: JSON.stringify({
+          method: 'ValidatorSetReceived',
+          section: 'stakingAhClient',
+          data: { id: id.toLocaleString('en-US'), newValidatorSetCount: '600', pruneUpTo: null, leftover: false },
+        }),
+      });
+    };
+
+    beforeEach(() => {
+      db.insertBlockRC({ blockNumber: 100, timestamp: T0 - HOUR });
+      db.insertBlockAH({ blockNumber: 100, timestamp: T0 - HOUR });
+      db.upsertEra({ eraId: 1999, sessionStart: 0, sessionEnd: 5, startTime: T0 });
+      db.updateEraValidatorCount(1999, 600);
+    });
+
+    it('should flag an exported set RC never acknowledged once the next era started', () => {
+      db.upsertEra({ eraId: 2000, sessionStart: 6, sessionEnd: null, startTime: T0 + 6 * HOUR });
+      db.insertBlockRC({ blockNumber: 200, timestamp: T0 + 7 * HOUR });
+
+      const issues = checker.check(T0 + 7 * HOUR);
+
+      expect(issues.map(issue => issue.key)).toEqual(['unacknowledged_validator_set:2000']);
+      expect(issues[0].eraId).toBe(1999);
+    });
+
+    it('should accept a set acknowledged with the planned era id', () => {
+      acknowledge(2000, 150);
+      db.upsertEra({ eraId: 2000, sessionStart: 6, sessionEnd: null, startTime: T0 + 6 * HOUR });
+      db.insertBlockRC({ blockNumber: 200, timestamp: T0 + 7 * HOUR });
+
+      expect(checker.check(T0 + 7 * HOUR)).toEqual([]);
+    });
+
+    it('should wait for the planned era to start', () => {
+      db.insertBlockRC({ blockNumber: 200, timestamp: T0 + 5 * HOUR });
+
+      expect(checker.check(T0 + 5 * HOUR)).toEqual([]);
+    });
+
+    it('should not judge eras that started before RC indexing', () => {
+      db.deleteBlockRC(100);
+      db.insertBlockRC({ blockNumber: 200, timestamp: T0 + 7 * HOUR });
+      db.upsertEra({ eraId: 2000, sessionStart: 6, sessionEnd: null, startTime: T0 + 6 * HOUR });
+
+      expect(checker.check(T0 + 7 * HOUR)).toEqual([]);
+    });
+  });
+
+  it('should record the checked session range', () => {
+    for (let s = 10; s <= 13; s++) startRcSession(s);
+    for (let s = 10; s <= 12; s++) reportSession(s);
+
+    checker.check(T0 + 20 * HOUR);
+
+    expect(db.getState('consistencyCheckedAt')).toBe(String(T0 + 20 * HOUR));
+    expect(db.getState('consistencyFromSession')).toBe('10');
+    expect(db.getState('consistencyToSession')).toBe('12');
+  });
+});
+
+describe('Indexer consistency checks', () => {
+  let db: StakingDatabase;
+
+  beforeEach(() => {
+    db = createTestDatabase();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should not check consistency until both chains finished backfilling', async () => {
+    const chain = (head: number) => ({
+      rpc: { chain: { getFinalizedHead: async () => head, getHeader: async () => ({ number: { toNumber: () => head } }) } },
+    });
+    const mockLogger: any = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+      child: jest.fn(function(this: any) { return this; }),
+    };
+    const checker = new ConsistencyChecker(db, mockLogger, THRESHOLDS);
+    const check = jest.spyOn(checker, 'check').mockReturnValue([]);
+    const indexer = new Indexer(chain(10000) as any, chain(5000) as any, db, mockLogger, 100, null, checker);
+
+    // Session events handled while backfilling trigger a check
+    const backfill = async () => { (indexer as any).runConsistencyCheck(); };
+    jest.spyOn(indexer as any, 'syncMissingBlocksRC').mockImplementation(backfill);
+    jest.spyOn(indexer as any, 'syncMissingBlocksAH').mockImplementation(backfill);
+    jest.spyOn(indexer as any, 'subscribeToNewBlocksRC').mockImplementation(() => {});
+    jest.spyOn(indexer as any, 'subscribeToNewBlocksAH').mockImplementation(() => {});
+
+    await indexer.start();
+
+    // One check once the backfill is done, then on every session event
+    expect(check).toHaveBeenCalledTimes(1);
+    (indexer as any).runConsistencyCheck();
+    expect(check).toHaveBeenCalledTimes(2);
+
+    await indexer.stop();
+  });
+});
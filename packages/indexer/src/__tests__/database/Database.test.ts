@@ -328,3 +328,80 @@ describe('Database - Edge Cases and Error Handling', () => {
     expect(eras.length).toBe(1); // Should not duplicate
   });
 });
+
+describe('Database - Pruning', () => {
+  let db: StakingDatabase;
+
+  beforeEach(() => {
+    // Keep the latest era and the two before it
+    db = createTestDatabase(2);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  const snapshot = (blockNumber: number, timestamp: number) => ({
+    watchId: 'staking.forceEra',
+    chain: 'assetHub' as const,
+    pallet: 'staking',
+    item: 'forceEra',
+    keys: [],
+    blockNumber,
+    timestamp,
+    triggeredBy: 'block',
+    value: 'NotForcing',
+  });
+
+  it('should prune per-session tables and storage snapshots with old eras', () => {
+    // Eras 1000-1003 with 6 sessions each, starting 1000ms apart
+    seedTestDatabase(db, {
+      eras: [1000, 1001, 1002, 1003].map((eraId, i) => ({
+        eraId,
+        sessionStart: 6000 + i * 6,
+        sessionEnd: null,
+        startTime: (i + 1) * 1000,
+      })),
+      sessions: [6005, 6006].map(sessionId => ({ sessionId, blockNumber: null, activeEraId: null, plannedEraId: null })),
+    });
+
+    for (const sessionId of [6005, 6006]) {
+      db.insertBlockRC({ blockNumber: sessionId, timestamp: 0 });
+      db.upsertRcSession({ sessionId, blockNumber: sessionId, timestamp: 0, newSetQueued: false });
+      db.upsertStakingPopulationSample({
+        sessionId, blockNumber: sessionId, timestamp: 0, eraId: null,
+        validatorCount: null, nominatorCount: null, bagsListNodes: null, bagsListLocked: null,
+        minNominatorBond: null, minValidatorBond: null, minActiveStake: null,
+      });
+      db.upsertStakingClientAh(sessionId, {
+        blockNumber: sessionId, timestamp: 0, lastSessionReportEndIndex: null, outgoingValidatorSetId: null,
+      });
+    }
+    db.insertStorageSnapshot(snapshot(10, 1999));
+    db.insertStorageSnapshot(snapshot(11, 2000));
+
+    expect(db.pruneOldEras()).toBe(1);
+
+    expect(db.getEra(1000)).toBeNull();
+    expect(db.getEra(1001)).not.toBeNull();
+
+    // Era 1001 starts at session 6006 and time 2000
+    expect(db.getSession(6005)).toBeNull();
+    expect(db.getSession(6006)).not.toBeNull();
+    expect(db.getRcSession(6005)).toBeNull();
+    expect(db.getRcSession(6006)).not.toBeNull();
+    expect(db.getStakingPopulationSamples().map(s => s.sessionId)).toEqual([6006]);
+    expect(db.getStakingClientSamples().map(s => s.sessionId)).toEqual([6006]);
+    expect(db.getStorageSnapshots('staking.forceEra').map(s => s.blockNumber)).toEqual([11]);
+  });
+
+  it('should keep everything while within the retention', () => {
+    seedTestDatabase(db, {
+      eras: [{ eraId: 1000, sessionStart: 6000, sessionEnd: null, startTime: 1000 }],
+    });
+    db.insertStorageSnapshot(snapshot(10, 0));
+
+    expect(db.pruneOldEras()).toBe(0);
+    expect(db.getStorageSnapshots('staking.forceEra')).toHaveLength(1);
+  });
+});
@@ -112,6 +112,191 @@ export function createMockPhaseTransitionedEvent(params: {
   };
 }
 
+/**
+ * Creates a mock polkadot-js event for staking.PayoutStarted (Asset Hub)
+ */
+export function createMockPayoutStartedEvent(params: { eraIndex: number; validatorStash: string; page: number }) {
+  return {
+    section: 'staking',
+    method: 'PayoutStarted',
+    data: {
+      eraIndex: createMockCodec(params.eraIndex),
+      validatorStash: createMockCodec(params.validatorStash),
+      page: createMockCodec(params.page),
+      next: createMockOption(null),
+    },
+    toHuman: () => ({
+      method: 'PayoutStarted',
+      section: 'staking',
+      index: '0x1901',
+      data: {
+        eraIndex: params.eraIndex.toLocaleString(),
+        validatorStash: params.validatorStash,
+        page: params.page.toString(),
+        next: null,
+      },
+    }),
+    toJSON: () => ({
+      eraIndex: params.eraIndex,
+      validatorStash: params.validatorStash,
+      page: params.page,
+      next: null,
+    }),
+  };
+}
+
+/**
+ * Creates a mock polkadot-js event for staking.Rewarded (Asset Hub)
+ */
+export function createMockRewardedEvent(params: { stash: string; amount: string }) {
+  return {
+    section: 'staking',
+    method: 'Rewarded',
+    data: {
+      stash: createMockCodec(params.stash),
+      dest: { toString: () => 'Staked' },
+      amount: createMockCodec(params.amount),
+    },
+    toHuman: () => ({
+      method: 'Rewarded',
+      section: 'staking',
+      index: '0x1902',
+      data: { stash: params.stash, dest: 'Staked', amount: params.amount },
+    }),
+    toJSON: () => ({ stash: params.stash, dest: 'Staked', amount: params.amount }),
+  };
+}
+
+/**
+ * Creates a mock polkadot-js event for staking.OffenceReported (Asset Hub)
+ * fraction is in Perbill parts (1_000_000_000 = 100%)
+ */
+export function createMockOffenceReportedEvent(params: { offenceEra: number; validator: string; fraction: number }) {
+  return {
+    section: 'staking',
+    method: 'OffenceReported',
+    data: {
+      offenceEra: createMockCodec(params.offenceEra),
+      validator: createMockCodec(params.validator),
+      fraction: createMockCodec(params.fraction),
+    },
+    toHuman: () => ({
+      method: 'OffenceReported',
+      section: 'staking',
+      index: '0x1910',
+      data: { offenceEra: params.offenceEra.toLocaleString(), validator: params.validator, fraction: `${params.fraction / 10_000_000}%` },
+    }),
+    toJSON: () => ({ offenceEra: params.offenceEra, validator: params.validator, fraction: params.fraction }),
+  };
+}
+
+/**
+ * Creates a mock polkadot-js event for staking.SlashComputed (Asset Hub)
+ */
+export function createMockSlashComputedEvent(params: { offenceEra: number; slashEra: number; offender: string; page?: number }) {
+  const page = params.page ?? 0;
+  return {
+    section: 'staking',
+    method: 'SlashComputed',
+    data: {
+      offenceEra: createMockCodec(params.offenceEra),
+      slashEra: createMockCodec(params.slashEra),
+      offender: createMockCodec(params.offender),
+      page: createMockCodec(page),
+    },
+    toHuman: () => ({
+      method: 'SlashComputed',
+      section: 'staking',
+      index: '0x1911',
+      data: {
+        offenceEra: params.offenceEra.toLocaleString(),
+        slashEra: params.slashEra.toLocaleString(),
+        offender: params.offender,
+        page: page.toString(),
+      },
+    }),
+    toJSON: () => ({ offenceEra: params.offenceEra, slashEra: params.slashEra, offender: params.offender, page }),
+  };
+}
+
+/**
+ * Creates a mock polkadot-js event for staking.SlashCancelled (Asset Hub)
+ */
+export function createMockSlashCancelledEvent(params: { slashEra: number; validator: string }) {
+  return {
+    section: 'staking',
+    method: 'SlashCancelled',
+    data: {
+      slashEra: createMockCodec(params.slashEra),
+      validator: createMockCodec(params.validator),
+    },
+    toHuman: () => ({
+      method: 'SlashCancelled',
+      section: 'staking',
+      index: '0x1912',
+      data: { slashEra: params.slashEra.toLocaleString(), validator: params.validator },
+    }),
+    toJSON: () => ({ slashEra: params.slashEra, validator: params.validator }),
+  };
+}
+
+/**
+ * Creates a mock polkadot-js event for staking.Slashed (Asset Hub or Relay Chain)
+ */
+export function createMockSlashedEvent(params: { staker: string; amount: string }) {
+  return {
+    section: 'staking',
+    method: 'Slashed',
+    data: {
+      staker: createMockCodec(params.staker),
+      amount: createMockCodec(params.amount),
+    },
+    toHuman: () => ({
+      method: 'Slashed',
+      section: 'staking',
+      index: '0x1903',
+      data: { staker: params.staker, amount: params.amount },
+    }),
+    toJSON: () => ({ staker: params.staker, amount: params.amount }),
+  };
+}
+
+/**
+ * Creates a mock polkadot-js event for staking.StakingElectionFailed (Asset Hub or Relay Chain)
+ */
+export function createMockStakingElectionFailedEvent() {
+  return {
+    section: 'staking',
+    method: 'StakingElectionFailed',
+    data: {},
+    toHuman: () => ({
+      method: 'StakingElectionFailed',
+      section: 'staking',
+      index: '0x1914',
+      data: null,
+    }),
+    toJSON: () => null,
+  };
+}
+
+/**
+ * Creates a mock polkadot-js event for multiBlockElectionVerifier.Queued(score, previousScore)
+ */
+export function createMockVerifierQueuedEvent(params: { minimalStake: string; sumStake: string; sumStakeSquared: string }) {
+  return {
+    section: 'multiBlockElectionVerifier',
+    method: 'Queued',
+    data: [params, null],
+    toHuman: () => ({
+      method: 'Queued',
+      section: 'multiBlockElectionVerifier',
+      index: '0x5502',
+      data: [params, null],
+    }),
+    toJSON: () => [params, null],
+  };
+}
+
 /**
  * Helper to create mock codec (number/string wrapper with conversion methods)
  */
@@ -285,6 +470,68 @@ export function createMockElectionScoreEvent(params: {
   };
 }
 
+/**
+ * Creates a mock polkadot-js event for session.NewSession (Relay Chain)
+ */
+export function createMockNewSessionEvent(params: { sessionIndex: number }) {
+  return {
+    section: 'session',
+    method: 'NewSession',
+    data: {
+      sessionIndex: createMockCodec(params.sessionIndex),
+    },
+    toHuman: () => ({
+      method: 'NewSession',
+      section: 'session',
+      index: '0x0900',
+      data: {
+        sessionIndex: params.sessionIndex.toLocaleString(),
+      },
+    }),
+    toJSON: () => ({
+      sessionIndex: params.sessionIndex,
+    }),
+  };
+}
+
+/**
+ * Creates a mock polkadot-js event for stakingAhClient.ValidatorSetReceived (Relay Chain)
+ */
+export function createMockValidatorSetReceivedEvent(params: {
+  id: number;
+  newValidatorSetCount: number;
+  pruneUpTo?: number | null;
+  leftover?: boolean;
+}) {
+  return {
+    section: 'stakingAhClient',
+    method: 'ValidatorSetReceived',
+    data: {
+      id: createMockCodec(params.id),
+      newValidatorSetCount: createMockCodec(params.newValidatorSetCount),
+      pruneUpTo: createMockOption(params.pruneUpTo != null ? createMockCodec(params.pruneUpTo) : null),
+      leftover: params.leftover ?? false,
+    },
+    toHuman: () => ({
+      method: 'ValidatorSetReceived',
+      section: 'stakingAhClient',
+      index: '0x2a00',
+      data: {
+        id: params.id.toLocaleString(),
+        newValidatorSetCount: params.newValidatorSetCount.toString(),
+        pruneUpTo: params.pruneUpTo != null ? params.pruneUpTo.toLocaleString() : null,
+        leftover: params.leftover ?? false,
+      },
+    }),
+    toJSON: () => ({
+      id: params.id,
+      newValidatorSetCount: params.newValidatorSetCount,
+      pruneUpTo: params.pruneUpTo ?? null,
+      leftover: params.leftover ?? false,
+    }),
+  };
+}
+
 /**
  * Creates a mock API instance at a specific block
  */
@@ -295,6 +542,16 @@ export function createMockApiAt(overrides: {
   counterForValidators?: number;
   counterForNominators?: number;
   electableStashes?: string[];
+  minNominatorBond?: string;
+  minValidatorBond?: string;
+  minimumActiveStake?: string;
+  bagsListNodes?: number;
+  bagsListLocked?: boolean; // Omitted: the runtime has no lock storage
+  stakingMode?: string; // Omitted: the runtime has no stakingAhClient pallet
+  queuedValidatorSet?: { id: number; validators: string[] };
+  validatorPoints?: Record<string, number>;
+  lastSessionReportEndIndex?: number; // Omitted: the runtime has no stakingRcClient pallet
+  outgoingValidatorSetId?: number;
 } = {}) {
   return {
     query: {
@@ -337,7 +594,53 @@ export function createMockApiAt(overrides: {
               }
             : null
         ),
+        minNominatorBond: jest.fn().mockResolvedValue(
+          overrides.minNominatorBond !== undefined ? createMockCodec(overrides.minNominatorBond) : null
+        ),
+        minValidatorBond: jest.fn().mockResolvedValue(
+          overrides.minValidatorBond !== undefined ? createMockCodec(overrides.minValidatorBond) : null
+        ),
+        minimumActiveStake: jest.fn().mockResolvedValue(
+          overrides.minimumActiveStake !== undefined ? createMockCodec(overrides.minimumActiveStake) : null
+        ),
+      },
+      voterList: {
+        counterForListNodes: jest.fn().mockResolvedValue(
+          overrides.bagsListNodes !== undefined ? createMockCodec(overrides.bagsListNodes) : null
+        ),
+        ...(overrides.bagsListLocked !== undefined
+          ? { lock: jest.fn().mockResolvedValue(createMockOption(overrides.bagsListLocked ? {} : null)) }
+          : {}),
       },
+      ...(overrides.stakingMode !== undefined
+        ? {
+            stakingAhClient: {
+              mode: jest.fn().mockResolvedValue(createMockCodec(overrides.stakingMode)),
+              validatorSet: jest.fn().mockResolvedValue({
+                toJSON: () => (overrides.queuedValidatorSet
+                  ? [overrides.queuedValidatorSet.id, overrides.queuedValidatorSet.validators]
+                  : null),
+              }),
+              validatorPoints: {
+                entries: jest.fn().mockResolvedValue(
+                  Object.entries(overrides.validatorPoints ?? {}).map(([validator, points]) => [validator, createMockCodec(points)])
+                ),
+              },
+            },
+          }
+        : {}),
+      ...(overrides.lastSessionReportEndIndex !== undefined
+        ? {
+            stakingRcClient: {
+              lastSessionReportEndingIndex: jest.fn().mockResolvedValue({ toJSON: () => overrides.lastSessionReportEndIndex }),
+              outgoingValidatorSet: jest.fn().mockResolvedValue({
+                toJSON: () => (overrides.outgoingValidatorSetId !== undefined
+                  ? [{ id: overrides.outgoingValidatorSetId, newValidatorSet: [], pruneUpTo: null, leftover: false }, 0]
+                  : null),
+              }),
+            },
+          }
+        : {}),
       multiBlockElection: {
         round: jest.fn().mockResolvedValue(createMockCodec(1)),
       },
@@ -0,0 +1,218 @@
+/**
+ * Parallel Backfill Tests
+ * Verifies blocks fetched in parallel are committed in order, in batches, and resumably
+ */
+
+import { runOrderedBackfill } from '../../indexer/backfill';
+import { Indexer } from '../../indexer/Indexer';
+import { createTestDatabase } from '../utils/testDatabase';
+import type { StakingDatabase } from '../../database/Database';
+import type { ApiPromise } from '@polkadot/api';
+
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+// A fetched block without events
+const fetchedBlock = (n: number) => ({ blockNumber: n, timestamp: 1700000000000 + n * 6000, events: [], reads: new Map(), snapshots: [] });
+
+// Deterministic pseudo-random delay so fetches complete out of order
+const delayFor = (blockNumber: number) => new Promise(resolve => setTimeout(resolve, (blockNumber * 7) % 5));
+
+describe('runOrderedBackfill', () => {
+  it('should commit blocks in order even when fetches complete out of order', async () => {
+    const committed: number[][] = [];
+
+    const result = await runOrderedBackfill({
+      blocks: range(1, 25),
+      concurrency: 4,
+      batchSize: 10,
+      maxAttempts: 1,
+      fetch: async (n) => { await delayFor(n); return n; },
+      commit: async (batch) => { committed.push(batch); },
+    });
+
+    expect(result).toEqual({ committed: 25, failed: [] });
+    expect(committed.map(batch => batch.length)).toEqual([10, 10, 5]);
+    expect(committed.flat()).toEqual(range(1, 25));
+  });
+
+  it('should never run more fetches than the concurrency limit', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    await runOrderedBackfill({
+      blocks: range(1, 40),
+      concurrency: 3,
+      batchSize: 5,
+      maxAttempts: 1,
+      fetch: async (n) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await delayFor(n);
+        inFlight--;
+        return n;
+      },
+      commit: async () => {},
+    });
+
+    expect(maxInFlight).toBe(3);
+  });
+
+  it('should retry failed fetches', async () => {
+    const attempts = new Map<number, number>();
+
+    const result = await runOrderedBackfill({
+      blocks: range(1, 5),
+      concurrency: 2,
+      batchSize: 10,
+      maxAttempts: 3,
+      retryDelayMs: 1,
+      fetch: async (n) => {
+        attempts.set(n, (attempts.get(n) ?? 0) + 1);
+        if (n === 3 && attempts.get(n)! < 3) throw new Error('RPC timeout');
+        return n;
+      },
+      commit: async () => {},
+    });
+
+    expect(result.committed).toBe(5);
+    expect(attempts.get(3)).toBe(3);
+  });
+
+  it('should report blocks that keep failing in order and commit the rest', async () => {
+    const events: string[] = [];
+
+    const result = await runOrderedBackfill({
+      blocks: range(1, 6),
+      concurrency: 3,
+      batchSize: 10,
+      maxAttempts: 2,
+      retryDelayMs: 1,
+      fetch: async (n) => {
+        if (n === 4) throw new Error('Block not found');
+        await delayFor(n);
+        return n;
+      },
+      commit: async (batch) => { events.push(`commit:${batch.join(',')}`); },
+      onFailed: (n) => { events.push(`failed:${n}`); },
+    });
+
+    expect(result.committed).toBe(5);
+    expect(result.failed).toEqual([{ blockNumber: 4, error: 'Block not found' }]);
+    expect(events).toEqual(['commit:1,2,3', 'failed:4', 'commit:5,6']);
+  });
+
+  it('should stop and reject when a commit fails', async () => {
+    const fetched: number[] = [];
+
+    await expect(runOrderedBackfill({
+      blocks: range(1, 100),
+      concurrency: 2,
+      batchSize: 5,
+      maxAttempts: 1,
+      fetch: async (n) => { fetched.push(n); return n; },
+      commit: async (batch) => { if (batch[0] === 6) throw new Error('disk full'); },
+    })).rejects.toThrow('disk full');
+
+    expect(fetched.length).toBeLessThan(100);
+  });
+});
+
+describe('Indexer backfill', () => {
+  let db: StakingDatabase;
+  let indexer: Indexer;
+  let fetchBlockRC: jest.SpyInstance;
+
+  beforeEach(() => {
+    db = createTestDatabase();
+
+    const mockLogger: any = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+      child: jest.fn(function(this: any) { return this; }),
+    };
+    const mockApi = { rpc: {}, at: jest.fn() };
+
+    indexer = new Indexer(mockApi as unknown as ApiPromise, mockApi as unknown as ApiPromise, db, mockLogger, 10, null, null, {
+      concurrency: 4,
+      batchSize: 3,
+    });
+
+    fetchBlockRC = jest.spyOn(indexer as any, 'fetchBlockRC').mockImplementation(async (n: any) => fetchedBlock(n));
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should store every missing block and advance the cursor', async () => {
+    db.insertBlockRC({ blockNumber: 5, timestamp: 1700000030000 });
+
+    await (indexer as any).syncMissingBlocksRC(1, 10);
+
+    for (const n of range(1, 10)) {
+      expect(db.blockExistsRC(n)).toBe(true);
+    }
+    expect(fetchBlockRC).toHaveBeenCalledTimes(9);
+    expect(db.getState('backfillCursorRC')).toBe('10');
+    expect(db.getState('syncedBlocksRC')).toBe('9');
+  });
+
+  it('should resume after the cursor without rescanning committed blocks', async () => {
+    db.setState('backfillCursorRC', '6');
+
+    await (indexer as any).syncMissingBlocksRC(1, 10);
+
+    expect(fetchBlockRC.mock.calls.map(call => call[0])).toEqual([7, 8, 9, 10]);
+  });
+
+  it('should keep the cursor before a block that failed to sync', async () => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate', 'nextTick', 'queueMicrotask'] });
+    fetchBlockRC.mockImplementation(async (n: any) => {
+      if (n === 5) throw new Error('RPC error');
+      return fetchedBlock(n);
+    });
+
+    const sync = (indexer as any).syncMissingBlocksRC(1, 10);
+    await jest.runAllTimersAsync();
+    await sync;
+    jest.useRealTimers();
+
+    expect(db.blockExistsRC(5)).toBe(false);
+    expect(db.blockExistsRC(10)).toBe(true);
+    expect(db.getState('backfillCursorRC')).toBe('4');
+  });
+
+  it('should roll back a batch whose commit fails', async () => {
+    jest.spyOn(indexer as any, 'commitBlockRC').mockImplementation((block: any) => {
+      db.insertBlockRC({ blockNumber: block.blockNumber, timestamp: block.timestamp });
+      if (block.blockNumber === 5) throw new Error('constraint failed');
+    });
+
+    await (indexer as any).syncMissingBlocksRC(1, 10);
+
+    // First batch (1-3) committed, second batch (4-6) rolled back, nothing after it
+    expect(range(1, 10).filter(n => db.blockExistsRC(n))).toEqual([1, 2, 3]);
+    expect(db.getState('backfillCursorRC')).toBe('3');
+  });
+
+  it('should commit each batch in one transaction', async () => {
+    const committed: { blockNumber: number; inTransaction: boolean; cursor: string | null }[] = [];
+    jest.spyOn(indexer as any, 'commitBlockRC').mockImplementation((block: any) => {
+      committed.push({ blockNumber: block.blockNumber, inTransaction: (db as any).db.inTransaction, cursor: db.getState('backfillCursorRC') });
+    });
+
+    await (indexer as any).syncMissingBlocksRC(1, 6);
+
+    // The cursor only moves once a whole batch is committed
+    expect(committed).toEqual([
+      { blockNumber: 1, inTransaction: true, cursor: null },
+      { blockNumber: 2, inTransaction: true, cursor: null },
+      { blockNumber: 3, inTransaction: true, cursor: null },
+      { blockNumber: 4, inTransaction: true, cursor: '3' },
+      { blockNumber: 5, inTransaction: true, cursor: '3' },
+      { blockNumber: 6, inTransaction: true, cursor: '3' },
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Block Hash Verification Tests
+ * Verifies block hashes are stored and blocks from non-canonical forks are queued for reimport
+ */
+
+import { Indexer } from '../../indexer/Indexer';
+import { createTestDatabase } from '../utils/testDatabase';
+import type { StakingDatabase } from '../../database/Database';
+import type { ApiPromise } from '@polkadot/api';
+
+const hash = (prefix: string, blockNumber: number) => `0x${prefix}${blockNumber.toString(16).padStart(4, '0')}`;
+
+describe('Block hash verification', () => {
+  let db: StakingDatabase;
+  let indexer: Indexer;
+  let canonicalHashes: Map<number, string>;
+
+  beforeEach(() => {
+    db = createTestDatabase();
+    canonicalHashes = new Map();
+
+    const mockLogger: any = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+      child: jest.fn(function(this: any) { return this; }),
+    };
+    const mockApi = {
+      rpc: {
+        chain: {
+          getBlockHash: jest.fn(async (n: number) => ({ toHex: () => canonicalHashes.get(n) ?? hash('aa', n) })),
+          getHeader: jest.fn(async (blockHash: any) => ({
+            parentHash: { toHex: () => hash('aa', parseInt(blockHash.toHex().slice(4), 16) - 1) },
+          })),
+        },
+      },
+      at: jest.fn(async () => ({
+        query: {
+          timestamp: { now: async () => ({ toNumber: () => 1700000000000 }) },
+          system: { events: async () => [] },
+        },
+      })),
+    };
+
+    indexer = new Indexer(mockApi as unknown as ApiPromise, mockApi as unknown as ApiPromise, db, mockLogger, 10);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should store block and parent hashes when processing a block', async () => {
+    await (indexer as any).processBlockByNumberAH(42);
+
+    expect(db.getBlockAH(42)).toEqual({
+      blockNumber: 42,
+      timestamp: 1700000000000,
+      blockHash: hash('aa', 42),
+      parentHash: hash('aa', 41),
+    });
+  });
+
+  it('should queue a reimport for blocks that are not on the finalized chain', async () => {
+    for (let n = 1; n <= 5; n++) {
+      db.insertBlockRC({ blockNumber: n, timestamp: 1700000000000 + n * 6000, blockHash: hash('aa', n), parentHash: hash('aa', n - 1) });
+    }
+    db.insertBlockRC({ blockNumber: 6, timestamp: 1700000036000 }); // Indexed before hashes were stored
+    canonicalHashes.set(3, hash('bb', 3));
+
+    await (indexer as any).verifyBlockHashes('RC');
+
+    const requests = db.getPendingReimportRequests(10);
+    expect(requests.map(r => [r.chain, r.block_number])).toEqual([['relay_chain', 3]]);
+    expect(db.getState('hashVerifyCursorRC')).toBe('6');
+
+    // A reimport already queued is not queued again
+    db.setState('hashVerifyCursorRC', '0');
+    await (indexer as any).verifyBlockHashes('RC');
+    expect(db.getPendingReimportRequests(10)).toHaveLength(1);
+  });
+
+  it('should start over once every stored block was verified', async () => {
+    db.insertBlockAH({ blockNumber: 1, timestamp: 1700000000000, blockHash: hash('aa', 1), parentHash: hash('aa', 0) });
+    db.setState('hashVerifyCursorAH', '1');
+
+    await (indexer as any).verifyBlockHashes('AH');
+
+    expect(db.getState('hashVerifyCursorAH')).toBe('0');
+  });
+});
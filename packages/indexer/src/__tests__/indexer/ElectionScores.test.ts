@@ -44,6 +44,12 @@ describe('Election Score Event Processing', () => {
     db.close();
   });
 
+  // Read chain state as fetching the block does, then store it as committing the block does
+  const processScoreEvent = async (event: any, eventType: string, blockNumber: number) => {
+    const eraId = await (indexer as any).readElectionScoreEra(blockNumber);
+    (indexer as any).handleElectionScoreEvent(event, eventType, blockNumber, eraId);
+  };
+
   describe('Registered Event Processing', () => {
     it('should create election score from Registered event with full score data', async () => {
       // Setup: Create era for foreign key constraint
@@ -70,7 +76,7 @@ describe('Election Score Event Processing', () => {
       });
 
       // Process event
-      await (indexer as any).handleElectionScoreEvent(event, 'MultiBlockElectionSigned.Registered', 10274762);
+      await processScoreEvent(event, 'MultiBlockElectionSigned.Registered', 10274762);
 
       // Assertions
       const scores = db.getElectionScoresByRound(3964);
@@ -111,7 +117,7 @@ describe('Election Score Event Processing', () => {
         useArrayFormat: true,
       });
 
-      await (indexer as any).handleElectionScoreEvent(event, 'MultiBlockElectionSigned.Registered', 10274762);
+      await processScoreEvent(event, 'MultiBlockElectionSigned.Registered', 10274762);
 
       const scores = db.getElectionScoresByRound(3964);
       expect(scores.length).toBe(1);
@@ -140,7 +146,7 @@ describe('Election Score Event Processing', () => {
         },
       });
 
-      await (indexer as any).handleElectionScoreEvent(event, 'MultiBlockElectionSigned.Registered', 11000000);
+      await processScoreEvent(event, 'MultiBlockElectionSigned.Registered', 11000000);
 
       const scores = db.getElectionScoresByRound(4000);
       expect(scores[0].minimalStake).toBe('999999999999999999999999');
@@ -179,7 +185,7 @@ describe('Election Score Event Processing', () => {
         submitter: '13UVJyLnbVp77Z2t6rE2m6rhp6XJPvh5aSpkdNPmWpX45Dnr',
       });
 
-      await (indexer as any).handleElectionScoreEvent(event, 'MultiBlockElectionSigned.Rewarded', 10274936);
+      await processScoreEvent(event, 'MultiBlockElectionSigned.Rewarded', 10274936);
 
       // Verify status changed to rewarded
       const winner = db.getElectionWinnerByRound(3964);
@@ -218,7 +224,7 @@ describe('Election Score Event Processing', () => {
         submitter: '13UVJyLnbVp77Z2t6rE2m6rhp6XJPvh5aSpkdNPmWpX45Dnr',
       });
 
-      await (indexer as any).handleElectionScoreEvent(event, 'MultiBlockElectionSigned.Rewarded', 10274936);
+      await processScoreEvent(event, 'MultiBlockElectionSigned.Rewarded', 10274936);
 
       // Verify scores are NOT overwritten by zeros
       const winner = db.getElectionWinnerByRound(3964);
@@ -257,7 +263,7 @@ describe('Election Score Event Processing', () => {
         submitter: '13UVJyLnbVp77Z2t6rE2m6rhp6XJPvh5aSpkdNPmWpX45Dnr',
       });
 
-      await (indexer as any).handleElectionScoreEvent(event, 'MultiBlockElectionSigned.Slashed', 11000100);
+      await processScoreEvent(event, 'MultiBlockElectionSigned.Slashed', 11000100);
 
       const scores = db.getElectionScoresByRound(4000);
       expect(scores[0].status).toBe('slashed');
@@ -291,7 +297,7 @@ describe('Election Score Event Processing', () => {
         submitter: '13UVJyLnbVp77Z2t6rE2m6rhp6XJPvh5aSpkdNPmWpX45Dnr',
       });
 
-      await (indexer as any).handleElectionScoreEvent(event, 'MultiBlockElectionSigned.Ejected', 11000100);
+      await processScoreEvent(event, 'MultiBlockElectionSigned.Ejected', 11000100);
 
       const scores = db.getElectionScoresByRound(4000);
       expect(scores[0].status).toBe('ejected');
@@ -324,7 +330,7 @@ describe('Election Score Event Processing', () => {
         submitter: '13UVJyLnbVp77Z2t6rE2m6rhp6XJPvh5aSpkdNPmWpX45Dnr',
       });
 
-      await (indexer as any).handleElectionScoreEvent(event, 'MultiBlockElectionSigned.Discarded', 11000100);
+      await processScoreEvent(event, 'MultiBlockElectionSigned.Discarded', 11000100);
 
       const scores = db.getElectionScoresByRound(4000);
       expect(scores[0].status).toBe('discarded');
@@ -357,7 +363,7 @@ describe('Election Score Event Processing', () => {
         submitter: '13UVJyLnbVp77Z2t6rE2m6rhp6XJPvh5aSpkdNPmWpX45Dnr',
       });
 
-      await (indexer as any).handleElectionScoreEvent(event, 'MultiBlockElectionSigned.Bailed', 11000100);
+      await processScoreEvent(event, 'MultiBlockElectionSigned.Bailed', 11000100);
 
       const scores = db.getElectionScoresByRound(4000);
       expect(scores[0].status).toBe('bailed');
@@ -394,7 +400,7 @@ describe('Election Score Event Processing', () => {
         submitter: '13UVJyLnbVp77Z2t6rE2m6rhp6XJPvh5aSpkdNPmWpX45Dnr',
       });
 
-      await (indexer as any).handleElectionScoreEvent(event, 'MultiBlockElectionSigned.Slashed', 10274937);
+      await processScoreEvent(event, 'MultiBlockElectionSigned.Slashed', 10274937);
 
       // Status should still be 'rewarded'
       const winner = db.getElectionWinnerByRound(3964);
@@ -429,7 +435,7 @@ describe('Election Score Event Processing', () => {
         submitter: '13UVJyLnbVp77Z2t6rE2m6rhp6XJPvh5aSpkdNPmWpX45Dnr',
       });
 
-      await (indexer as any).handleElectionScoreEvent(event, 'MultiBlockElectionSigned.Rewarded', 11000200);
+      await processScoreEvent(event, 'MultiBlockElectionSigned.Rewarded', 11000200);
 
       const scores = db.getElectionScoresByRound(4000);
       expect(scores[0].status).toBe('slashed');
@@ -463,7 +469,7 @@ describe('Election Score Event Processing', () => {
         submitter: '13UVJyLnbVp77Z2t6rE2m6rhp6XJPvh5aSpkdNPmWpX45Dnr',
       });
 
-      await (indexer as any).handleElectionScoreEvent(event, 'MultiBlockElectionSigned.Discarded', 11000100);
+      await processScoreEvent(event, 'MultiBlockElectionSigned.Discarded', 11000100);
 
       const scores = db.getElectionScoresByRound(4000);
       expect(scores[0].status).toBe('discarded');
@@ -485,7 +491,7 @@ describe('Election Score Event Processing', () => {
 
       // Should not throw
       await expect(
-        (indexer as any).handleElectionScoreEvent(event, 'MultiBlockElectionSigned.Registered', 10274762)
+        processScoreEvent(event, 'MultiBlockElectionSigned.Registered', 10274762)
       ).resolves.not.toThrow();
 
       // Should log warning about missing round
@@ -513,7 +519,7 @@ describe('Election Score Event Processing', () => {
       mockApiAH.at.mockResolvedValue(createMockApiAt({ activeEra: { index: 1982 } }));
 
       await expect(
-        (indexer as any).handleElectionScoreEvent(event, 'MultiBlockElectionSigned.Registered', 10274762)
+        processScoreEvent(event, 'MultiBlockElectionSigned.Registered', 10274762)
       ).resolves.not.toThrow();
 
       expect(mockLogger.warn).toHaveBeenCalled();
@@ -536,7 +542,7 @@ describe('Election Score Event Processing', () => {
 
       // Should not throw despite API error
       await expect(
-        (indexer as any).handleElectionScoreEvent(event, 'MultiBlockElectionSigned.Registered', 10274762)
+        processScoreEvent(event, 'MultiBlockElectionSigned.Registered', 10274762)
       ).resolves.not.toThrow();
 
       // Should log error
@@ -557,7 +563,7 @@ describe('Election Score Event Processing', () => {
 
       mockApiAH.at.mockResolvedValue(createMockApiAt({ activeEra: { index: 1982 } }));
 
-      await (indexer as any).handleElectionScoreEvent(event, 'MultiBlockElectionSigned.UnknownEvent', 10274762);
+      await processScoreEvent(event, 'MultiBlockElectionSigned.UnknownEvent', 10274762);
 
       // Should not create any scores
       const scores = db.getElectionScoresByRound(3964);
@@ -595,7 +601,7 @@ describe('Election Score Event Processing', () => {
           },
         });
 
-        await (indexer as any).handleElectionScoreEvent(event, 'MultiBlockElectionSigned.Registered', 10274762 + i);
+        await processScoreEvent(event, 'MultiBlockElectionSigned.Registered', 10274762 + i);
       }
 
       // Should have 3 distinct submissions
@@ -631,7 +637,7 @@ describe('Election Score Event Processing', () => {
         },
       });
 
-      await (indexer as any).handleElectionScoreEvent(event1, 'MultiBlockElectionSigned.Registered', 10274762);
+      await processScoreEvent(event1, 'MultiBlockElectionSigned.Registered', 10274762);
 
       // Second submission (better score)
       const event2 = createMockElectionScoreEvent({
@@ -645,7 +651,7 @@ describe('Election Score Event Processing', () => {
         },
       });
 
-      await (indexer as any).handleElectionScoreEvent(event2, 'MultiBlockElectionSigned.Registered', 10274763);
+      await processScoreEvent(event2, 'MultiBlockElectionSigned.Registered', 10274763);
 
       // Should only have 1 submission (overwritten)
       const scores = db.getElectionScoresByRound(3964);
@@ -679,7 +685,7 @@ describe('Election Score Event Processing', () => {
         },
       });
 
-      await (indexer as any).handleElectionScoreEvent(registerEvent, 'MultiBlockElectionSigned.Registered', 10274762);
+      await processScoreEvent(registerEvent, 'MultiBlockElectionSigned.Registered', 10274762);
 
       // Update to rewarded
       const rewardedEvent = createMockElectionScoreEvent({
@@ -688,7 +694,7 @@ describe('Election Score Event Processing', () => {
         submitter,
       });
 
-      await (indexer as any).handleElectionScoreEvent(rewardedEvent, 'MultiBlockElectionSigned.Rewarded', 10274936);
+      await processScoreEvent(rewardedEvent, 'MultiBlockElectionSigned.Rewarded', 10274936);
 
       // Verify all original data is preserved
       const winner = db.getElectionWinnerByRound(3964);
@@ -55,7 +55,7 @@ describe('EraPaid Event Processing', () => {
       });
 
       // Process event
-      await (indexer as any).handleEraPaid(event, 10279301);
+      (indexer as any).handleEraPaid(event, 10279301, null);
 
       // Assertions
       const era = db.getEra(1982);
@@ -86,7 +86,7 @@ describe('EraPaid Event Processing', () => {
         remainder: '111111111111111111111111',
       });
 
-      await (indexer as any).handleEraPaid(event, 11000000);
+      (indexer as any).handleEraPaid(event, 11000000, null);
 
       const era = db.getEra(2000);
       expect(era!.inflationValidators).toBe('999999999999999999999999');
@@ -110,7 +110,7 @@ describe('EraPaid Event Processing', () => {
         remainder: '0',
       });
 
-      await (indexer as any).handleEraPaid(event, 11000000);
+      (indexer as any).handleEraPaid(event, 11000000, null);
 
       const era = db.getEra(2000);
       expect(era!.inflationTotal).toBe('0');
@@ -132,7 +132,7 @@ describe('EraPaid Event Processing', () => {
         remainder: '400000000000',        // 40%
       });
 
-      await (indexer as any).handleEraPaid(event, 10279301);
+      (indexer as any).handleEraPaid(event, 10279301, null);
 
       const era = db.getEra(1982);
 
@@ -163,9 +163,7 @@ describe('EraPaid Event Processing', () => {
       };
 
       // Should not throw
-      await expect(
-        (indexer as any).handleEraPaid(event, 10000000)
-      ).resolves.not.toThrow();
+      expect(() => (indexer as any).handleEraPaid(event, 10000000, null)).not.toThrow();
 
       // Should log warning
       expect(mockLogger.warn).toHaveBeenCalled();
@@ -180,9 +178,7 @@ describe('EraPaid Event Processing', () => {
       });
 
       // Should not throw (updateEraInflation will be a no-op if era doesn't exist)
-      await expect(
-        (indexer as any).handleEraPaid(event, 10000000)
-      ).resolves.not.toThrow();
+      expect(() => (indexer as any).handleEraPaid(event, 10000000, null)).not.toThrow();
     });
 
     it('should handle malformed BigInt strings gracefully', async () => {
@@ -204,9 +200,7 @@ describe('EraPaid Event Processing', () => {
       };
 
       // Should catch error and log
-      await expect(
-        (indexer as any).handleEraPaid(event, 10000000)
-      ).resolves.not.toThrow();
+      expect(() => (indexer as any).handleEraPaid(event, 10000000, null)).not.toThrow();
 
       expect(mockLogger.error).toHaveBeenCalled();
     });
@@ -230,7 +224,7 @@ describe('EraPaid Event Processing', () => {
         remainder: '300000000000',
       });
 
-      await (indexer as any).handleEraPaid(event, 10279301);
+      (indexer as any).handleEraPaid(event, 10279301, null);
 
       // New values should overwrite old values
       const era = db.getEra(1982);
@@ -256,7 +250,7 @@ describe('EraPaid Event Processing', () => {
         remainder: '400000000000',
       });
 
-      await (indexer as any).handleEraPaid(event, 10279301);
+      (indexer as any).handleEraPaid(event, 10279301, null);
 
       // Validator count should be preserved
       const era = db.getEra(1982);
@@ -0,0 +1,209 @@
+/**
+ * Era Range Resolver Tests
+ * Verifies era ranges are translated into the RC and AH block ranges covering them
+ */
+
+import { EraRangeResolver, findFirstBlock } from '../../indexer/EraRangeResolver';
+import { Indexer } from '../../indexer/Indexer';
+import { createTestDatabase } from '../utils/testDatabase';
+import type { StakingDatabase } from '../../database/Database';
+import type { ApiPromise } from '@polkadot/api';
+
+// Simulated chains:
+// - AH: staking starts at block 100, era 1000 + k begins at block 100 + 150k
+// - RC: session s begins at block 50s, era 1000 + k begins in session 60 + 6k
+const HEAD_AH = 1000; // Active era 1006
+const HEAD_RC = 5000; // Session 100
+const eraAt = (n: number) => (n < 100 ? null : 1000 + Math.floor((n - 100) / 150));
+const eraStartSession = (eraId: number) => 60 + 6 * (eraId - 1000);
+
+const createMockApis = (options: { erasStartSessionIndex?: boolean } = {}) => {
+  const probes = { rc: 0, ah: 0 };
+
+  const apiAH = {
+    rpc: { chain: { getBlockHash: jest.fn(async (n: number) => n) } },
+    at: jest.fn(async (n: number) => {
+      probes.ah++;
+      const eraId = eraAt(n);
+      return {
+        query: {
+          staking: {
+            activeEra: async () => (eraId === null ? { isEmpty: true } : { isEmpty: false, toJSON: () => ({ index: eraId }) }),
+            erasStartSessionIndex: options.erasStartSessionIndex === false
+              ? undefined
+              : async (era: number) => ({ isEmpty: false, toJSON: () => eraStartSession(era) }),
+            bondedEras: async () => ({
+              toJSON: () => [1004, 1005, 1006].map(era => [era, eraStartSession(era)]),
+            }),
+          },
+        },
+      };
+    }),
+  };
+
+  const apiRC = {
+    rpc: { chain: { getBlockHash: jest.fn(async (n: number) => n) } },
+    at: jest.fn(async (n: number) => {
+      probes.rc++;
+      return {
+        query: {
+          session: { currentIndex: async () => ({ toNumber: () => Math.floor(n / 50) }) },
+        },
+      };
+    }),
+  };
+
+  return { apiRC: apiRC as unknown as ApiPromise, apiAH: apiAH as unknown as ApiPromise, probes };
+};
+
+describe('findFirstBlock', () => {
+  it('should find the first block matching a monotonic predicate', async () => {
+    expect(await findFirstBlock(1, 1000, async n => n >= 437)).toBe(437);
+    expect(await findFirstBlock(1, 1000, async () => true)).toBe(1);
+    expect(await findFirstBlock(1, 1000, async () => false)).toBeNull();
+  });
+});
+
+describe('EraRangeResolver', () => {
+  let db: StakingDatabase;
+  let mockLogger: any;
+
+  beforeEach(() => {
+    db = createTestDatabase();
+
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+      child: jest.fn(function(this: any) { return this; }),
+    };
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should resolve the last N eras up to the chain heads', async () => {
+    const { apiRC, apiAH, probes } = createMockApis();
+    const resolver = new EraRangeResolver(apiRC, apiAH, db, mockLogger);
+
+    const resolved = await resolver.resolve({ lastEras: 3 }, HEAD_RC, HEAD_AH);
+
+    expect(resolved).toEqual({
+      fromEra: 1004,
+      toEra: 1006,
+      ah: { from: 700, to: HEAD_AH },
+      rc: { from: 4200, to: HEAD_RC },
+      closed: false,
+    });
+
+    // Binary search, not a scan
+    expect(probes.ah).toBeLessThan(20);
+    expect(probes.rc).toBeLessThan(20);
+  });
+
+  it('should resolve an explicit historical era range', async () => {
+    const { apiRC, apiAH } = createMockApis();
+    const resolver = new EraRangeResolver(apiRC, apiAH, db, mockLogger);
+
+    const resolved = await resolver.resolve({ fromEra: 1001, toEra: 1002 }, HEAD_RC, HEAD_AH);
+
+    expect(resolved).toEqual({
+      fromEra: 1001,
+      toEra: 1002,
+      ah: { from: 250, to: 549 },
+      rc: { from: 3300, to: 3899 },
+      closed: true,
+    });
+  });
+
+  it('should prefer indexed era start sessions and fall back to bondedEras', async () => {
+    const { apiRC, apiAH } = createMockApis({ erasStartSessionIndex: false });
+    const resolver = new EraRangeResolver(apiRC, apiAH, db, mockLogger);
+
+    db.upsertEra({ eraId: 1003, sessionStart: eraStartSession(1003), sessionEnd: null, startTime: 1700000000000 });
+
+    const fromIndexed = await resolver.resolve({ fromEra: 1003, toEra: null }, HEAD_RC, HEAD_AH);
+    expect(fromIndexed.rc.from).toBe(eraStartSession(1003) * 50);
+
+    const fromBonded = await resolver.resolve({ fromEra: 1005, toEra: null }, HEAD_RC, HEAD_AH);
+    expect(fromBonded.rc.from).toBe(eraStartSession(1005) * 50);
+
+    await expect(resolver.resolve({ fromEra: 1001, toEra: null }, HEAD_RC, HEAD_AH))
+      .rejects.toThrow('Start session of era 1001 is not known');
+  });
+
+  it('should reject ranges beyond the active era', async () => {
+    const { apiRC, apiAH } = createMockApis();
+    const resolver = new EraRangeResolver(apiRC, apiAH, db, mockLogger);
+
+    await expect(resolver.resolve({ fromEra: 1005, toEra: 1010 }, HEAD_RC, HEAD_AH))
+      .rejects.toThrow('Invalid era range 1005-1010 (active era is 1006)');
+  });
+});
+
+describe('Indexer with an era range', () => {
+  let db: StakingDatabase;
+  let indexer: Indexer;
+  let syncRC: jest.SpyInstance;
+  let syncAH: jest.SpyInstance;
+  let subscribeRC: jest.SpyInstance;
+  let subscribeAH: jest.SpyInstance;
+
+  const createIndexer = (eras: { fromEra: number; toEra: number | null }) => {
+    const { apiRC, apiAH } = createMockApis();
+    const head = (n: number) => ({ getFinalizedHead: async () => n, getHeader: async () => ({ number: { toNumber: () => n } }) });
+    Object.assign((apiRC as any).rpc.chain, head(HEAD_RC));
+    Object.assign((apiAH as any).rpc.chain, head(HEAD_AH));
+
+    const mockLogger: any = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+      child: jest.fn(function(this: any) { return this; }),
+    };
+
+    indexer = new Indexer(apiRC, apiAH, db, mockLogger, 10, null, null, { concurrency: 4, batchSize: 100, eras });
+    syncRC = jest.spyOn(indexer as any, 'syncMissingBlocksRC').mockResolvedValue(undefined);
+    syncAH = jest.spyOn(indexer as any, 'syncMissingBlocksAH').mockResolvedValue(undefined);
+    subscribeRC = jest.spyOn(indexer as any, 'subscribeToNewBlocksRC').mockImplementation(() => {});
+    subscribeAH = jest.spyOn(indexer as any, 'subscribeToNewBlocksAH').mockImplementation(() => {});
+  };
+
+  beforeEach(() => {
+    db = createTestDatabase();
+  });
+
+  afterEach(async () => {
+    await indexer.stop();
+    db.close();
+  });
+
+  it('should sync a closed era range and stop at its end instead of following the chain head', async () => {
+    createIndexer({ fromEra: 1001, toEra: 1002 });
+
+    await indexer.start();
+
+    expect(syncRC).toHaveBeenCalledWith(3300, 3899);
+    expect(syncAH).toHaveBeenCalledWith(250, 549);
+    expect(subscribeRC).not.toHaveBeenCalled();
+    expect(subscribeAH).not.toHaveBeenCalled();
+    expect((indexer as any).gapFillerInterval).toBeNull();
+    expect(db.getState('syncStopBlockRC')).toBe('3899');
+    expect(db.getState('syncStopBlockAH')).toBe('549');
+  });
+
+  it('should keep following the chain head after an open era range', async () => {
+    db.setState('syncStopBlockRC', '3899');
+    createIndexer({ fromEra: 1005, toEra: null });
+
+    await indexer.start();
+
+    expect(syncAH).toHaveBeenCalledWith(850, HEAD_AH);
+    expect(subscribeRC).toHaveBeenCalled();
+    expect(subscribeAH).toHaveBeenCalled();
+    expect(db.getState('syncStopBlockRC')).toBeNull();
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Rewards & Payouts Tests
+ * Verifies era reward snapshots at EraPaid and payout tracking from PayoutStarted/Rewarded
+ */
+
+import { Indexer } from '../../indexer/Indexer';
+import { createTestDatabase } from '../utils/testDatabase';
+import { createMockEraPaidEvent, createMockPayoutStartedEvent, createMockRewardedEvent } from '../fixtures/events';
+import type { StakingDatabase } from '../../database/Database';
+import type { ApiPromise } from '@polkadot/api';
+
+const ALICE = '15oF4uVJwmo4TdGW7VfQxNLavjCXviqxT9S1MgbjMNHr6Sp5';
+const BOB = '14ShUZUYUR35RBZW6uVVt1zXDxmSQddkeDdXf1JkMA6P721N';
+const CHARLIE = '16SpacegeUTft9v3ts27CEC3tJaxgvE4uZeCctThFH3Vb24p';
+
+const storageKey = (eraId: number, validator: string) => ({ args: [{ toString: () => String(eraId) }, { toString: () => validator }] });
+
+// Staking storage on Asset Hub, keyed by era
+const createMockStaking = (claimedByEra: Record<number, Record<string, number[]>>, exposedWithoutPoints: string[]) => ({
+  erasValidatorReward: jest.fn(async () => ({ isEmpty: false, toString: () => '900000000000' })),
+  erasRewardPoints: jest.fn(async () => ({
+    toJSON: () => ({ total: 300, individual: { [ALICE]: 200, [BOB]: 100 } }),
+  })),
+  erasStakersOverview: {
+    entries: jest.fn(async (eraId: number) => [
+      [storageKey(eraId, ALICE), { isEmpty: false, toJSON: () => ({ total: 1, own: 1, nominatorCount: 700, pageCount: 2 }) }],
+      [storageKey(eraId, BOB), { isEmpty: false, toJSON: () => ({ total: 1, own: 1, nominatorCount: 10, pageCount: 1 }) }],
+      ...exposedWithoutPoints.map(validator =>
+        [storageKey(eraId, validator), { isEmpty: false, toJSON: () => ({ total: 1, own: 1, nominatorCount: 5, pageCount: 1 }) }]
+      ),
+    ]),
+  },
+  claimedRewards: {
+    entries: jest.fn(async (eraId: number) =>
+      Object.entries(claimedByEra[eraId] || {}).map(([validator, pages]) => [storageKey(eraId, validator), { toJSON: () => pages }])
+    ),
+  },
+});
+
+describe('Rewards & Payouts', () => {
+  let db: StakingDatabase;
+  let indexer: Indexer;
+  let claimedByEra: Record<number, Record<string, number[]>>;
+  let exposedWithoutPoints: string[];
+
+  beforeEach(() => {
+    db = createTestDatabase();
+    claimedByEra = {};
+    exposedWithoutPoints = [];
+
+    const mockLogger: any = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+      child: jest.fn(function(this: any) { return this; }),
+    };
+    const mockApiAH = {
+      rpc: { chain: { getBlockHash: jest.fn(async (n: number) => n) } },
+      at: jest.fn(async () => ({ query: { staking: createMockStaking(claimedByEra, exposedWithoutPoints) } })),
+      consts: { staking: { historyDepth: { toNumber: () => 84 } } },
+    };
+
+    indexer = new Indexer({} as ApiPromise, mockApiAH as unknown as ApiPromise, db, mockLogger, 10);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  // Read chain state as fetching the block does, then store it as committing the block does
+  const processEraPaid = async (event: any, blockNumber: number) => {
+    const rewards = await (indexer as any).readEraRewards(event, blockNumber);
+    (indexer as any).handleEraPaid(event, blockNumber, rewards);
+  };
+
+  it('should snapshot points and payout pages per validator at EraPaid', async () => {
+    const event = createMockEraPaidEvent({ eraIndex: 1982, validatorPayout: '900000000000', remainder: '100000000000' });
+
+    await processEraPaid(event, 10279301);
+
+    expect(db.getValidatorEraRewards(1982)).toEqual([
+      { validator: ALICE, points: 200, pageCount: 2, claimedPages: 0 },
+      { validator: BOB, points: 100, pageCount: 1, claimedPages: 0 },
+    ]);
+    expect(db.getErasWithUnclaimedPages(0)).toEqual([1982]);
+  });
+
+  it('should store exposed validators that earned no points with 0 points', async () => {
+    exposedWithoutPoints.push(CHARLIE);
+    const event = createMockEraPaidEvent({ eraIndex: 1982, validatorPayout: '900000000000', remainder: '100000000000' });
+
+    await processEraPaid(event, 10279301);
+
+    expect(db.getValidatorEraRewards(1982)).toContainEqual({ validator: CHARLIE, points: 0, pageCount: 1, claimedPages: 0 });
+  });
+
+  it('should sum Rewarded amounts into the payout started before them', async () => {
+    db.insertBlockAH({ blockNumber: 10280000, timestamp: 1700000000000 });
+    const payoutBlock = {
+      blockNumber: 10280000,
+      blockHash: '0x01',
+      parentHash: '0x00',
+      timestamp: 1700000000000,
+      events: [
+        { event: createMockPayoutStartedEvent({ eraIndex: 1982, validatorStash: ALICE, page: 0 }) },
+        { event: createMockRewardedEvent({ stash: ALICE, amount: '1000' }) },
+        { event: createMockRewardedEvent({ stash: 'nominator', amount: '2500' }) },
+        { event: createMockPayoutStartedEvent({ eraIndex: 1982, validatorStash: BOB, page: 0 }) },
+        { event: createMockRewardedEvent({ stash: BOB, amount: '700' }) },
+      ],
+      reads: new Map(),
+      snapshots: [],
+    };
+
+    (indexer as any).commitBlockAH(payoutBlock);
+    // Reimporting the block must not double count
+    (indexer as any).commitBlockAH(payoutBlock);
+
+    expect(db.getPayouts(1982).map(p => [p.validator, p.page, p.amount])).toEqual([
+      [ALICE, 0, '3500'],
+      [BOB, 0, '700'],
+    ]);
+
+    // Rewarded events are aggregated, not stored individually
+    expect(db.getEventsByBlockAH(10280000).map(e => e.eventType)).toEqual(['staking.PayoutStarted', 'staking.PayoutStarted']);
+  });
+
+  it('should refresh claimed pages of earlier eras from claimedRewards', async () => {
+    await processEraPaid(createMockEraPaidEvent({ eraIndex: 1981, validatorPayout: '1', remainder: '1' }), 10265000);
+
+    claimedByEra[1981] = { [ALICE]: [0, 1], [BOB]: [0] };
+    await processEraPaid(createMockEraPaidEvent({ eraIndex: 1982, validatorPayout: '1', remainder: '1' }), 10279301);
+
+    expect(db.getValidatorEraRewards(1981).map(v => v.claimedPages)).toEqual([2, 1]);
+    expect(db.getErasWithUnclaimedPages(0)).toEqual([1982]);
+    expect(db.getState('historyDepth')).toBe('84');
+  });
+});
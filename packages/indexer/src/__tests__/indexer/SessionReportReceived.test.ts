@@ -56,6 +56,12 @@ describe('SessionReportReceived Event Processing', () => {
     db.close();
   });
 
+  // Read chain state as fetching the block does, then store it as committing the block does
+  const processSessionReport = async (event: any, blockNumber: number, blockTimestamp: number) => {
+    const reads = await (indexer as any).readSessionReport(event, blockNumber, blockTimestamp);
+    (indexer as any).handleSessionReportReceived(event, blockNumber, blockTimestamp, reads);
+  };
+
   describe('Session End (No Era Start)', () => {
     it('should create/update ending session and create next session', async () => {
       // Setup: Era 1982 already exists
@@ -88,7 +94,7 @@ describe('SessionReportReceived Event Processing', () => {
       });
 
       // Process event
-      await (indexer as any).handleSessionReportReceived(event, 10279000, Date.now());
+      await processSessionReport(event, 10279000, Date.now());
 
       // Assertions
       const endingSession = db.getSession(11935);
@@ -104,6 +110,39 @@ describe('SessionReportReceived Event Processing', () => {
     });
   });
 
+  describe('Fetch and Commit', () => {
+    it('should read chain state when the block is fetched and commit it without chain queries', async () => {
+      const event = createMockSessionReportReceivedEvent({
+        endIndex: 11935,
+        validatorPointsCounts: 599,
+        activationTimestamp: null,
+      });
+      const { query } = createMockApiAt({ activeEra: { index: 1982 }, currentEra: 1982, counterForNominators: 38000 });
+
+      mockApiAH.rpc.chain.getBlockHash.mockImplementation(async (n: number) => ({ toHex: () => `0x${n.toString(16)}` }));
+      mockApiAH.rpc.chain.getHeader.mockResolvedValue({ parentHash: { toHex: () => '0x9cd757' } });
+      mockApiAH.at.mockResolvedValue({
+        query: {
+          ...query,
+          timestamp: { now: jest.fn().mockResolvedValue({ toNumber: () => 1762400172000 }) },
+          system: { events: jest.fn().mockResolvedValue([{ event }]) },
+        },
+      });
+
+      const block = await (indexer as any).fetchBlockAH(10279000);
+
+      mockApiAH.rpc.chain.getBlockHash.mockClear();
+      mockApiAH.at.mockClear();
+      db.transaction(() => (indexer as any).commitBlockAH(block));
+
+      expect(mockApiAH.rpc.chain.getBlockHash).not.toHaveBeenCalled();
+      expect(mockApiAH.at).not.toHaveBeenCalled();
+      expect(db.getSession(11935)).toMatchObject({ blockNumber: 10279000, activeEraId: 1982, plannedEraId: 1982, validatorPointsTotal: 599 });
+      expect(db.getSession(11936)).toMatchObject({ blockNumber: null, activeEraId: 1982 });
+      expect(db.getStakingPopulationSamples()).toMatchObject([{ sessionId: 11935, eraId: 1982, nominatorCount: 38000 }]);
+    });
+  });
+
   describe('Era Start (With Activation Timestamp)', () => {
     it('should create new era and update previous era end', async () => {
       // Setup: Era 1982 already exists
@@ -139,7 +178,7 @@ describe('SessionReportReceived Event Processing', () => {
       });
 
       // Process event
-      await (indexer as any).handleSessionReportReceived(event, 10279301, 1762400172000);
+      await processSessionReport(event, 10279301, 1762400172000);
 
       // Assertions: Previous era should be closed
       const era1982 = db.getEra(1982);
@@ -191,7 +230,7 @@ describe('SessionReportReceived Event Processing', () => {
       });
 
       // Process event
-      await (indexer as any).handleSessionReportReceived(event, 1000000, Date.now());
+      await processSessionReport(event, 1000000, Date.now());
 
       // Assertions: New era should be created
       const era2 = db.getEra(2);
@@ -199,6 +238,34 @@ describe('SessionReportReceived Event Processing', () => {
       expect(era2!.sessionStart).toBe(12);
       expect(era2!.sessionEnd).toBeNull();
     });
+
+    it('should prune eras beyond MAX_ERAS when a new era starts', async () => {
+      // Era 1 falls out of the 100 kept eras once era 102 starts
+      db.upsertEra({ eraId: 1, sessionStart: 6, sessionEnd: null, startTime: 1000 });
+      db.upsertSession({
+        sessionId: 6, blockNumber: null, activationTimestamp: null,
+        activeEraId: 1, plannedEraId: 1, validatorPointsTotal: 0,
+      });
+
+      mockApiAH.at
+        .mockResolvedValueOnce(createMockApiAt({ activeEra: { index: 1 }, currentEra: 102 }))
+        .mockResolvedValueOnce(createMockApiAt({ activeEra: { index: 102 }, currentEra: 102 }));
+
+      const event = createMockSessionReportReceivedEvent({
+        endIndex: 11,
+        validatorPointsCounts: 600,
+        activationTimestamp: {
+          timestamp: 2000,
+          eraId: 102,
+        },
+      });
+
+      await processSessionReport(event, 1000000, 2000);
+
+      expect(db.getEra(1)).toBeNull();
+      expect(db.getSession(6)).toBeNull();
+      expect(db.getEra(102)).not.toBeNull();
+    });
   });
 
   describe('Edge Cases and Error Handling', () => {
@@ -216,7 +283,7 @@ describe('SessionReportReceived Event Processing', () => {
 
       // Should not throw
       await expect(
-        (indexer as any).handleSessionReportReceived(event, 10000000, Date.now())
+        processSessionReport(event, 10000000, Date.now())
       ).resolves.not.toThrow();
 
       // Should log warning
@@ -242,7 +309,7 @@ describe('SessionReportReceived Event Processing', () => {
 
       // Should not throw
       await expect(
-        (indexer as any).handleSessionReportReceived(event, 10279301, Date.now())
+        processSessionReport(event, 10279301, Date.now())
       ).resolves.not.toThrow();
 
       // Should log error
@@ -282,7 +349,7 @@ describe('SessionReportReceived Event Processing', () => {
         },
       });
 
-      await (indexer as any).handleSessionReportReceived(event, 10279301, 1762400172000);
+      await processSessionReport(event, 10279301, 1762400172000);
 
       // Verify era 1983 has correct values
       const era1983 = db.getEra(1983);
@@ -0,0 +1,144 @@
+/**
+ * Slash Tracking Tests
+ * Verifies offence and slash events are followed from report through deferral to the applied slash
+ */
+
+import { Indexer } from '../../indexer/Indexer';
+import { createTestDatabase } from '../utils/testDatabase';
+import {
+  createMockOffenceReportedEvent,
+  createMockSlashComputedEvent,
+  createMockSlashCancelledEvent,
+  createMockSlashedEvent,
+} from '../fixtures/events';
+import type { StakingDatabase } from '../../database/Database';
+import type { ApiPromise } from '@polkadot/api';
+
+describe('Slash tracking', () => {
+  let db: StakingDatabase;
+  let indexer: Indexer;
+
+  const processAH = (event: any, blockNumber: number, eventIndex: number = 0) =>
+    (indexer as any).processSpecialEvent(event, `${event.section}.${event.method}`, blockNumber, 1700000000000 + blockNumber, `${blockNumber}-${eventIndex}`);
+
+  beforeEach(() => {
+    db = createTestDatabase();
+
+    const mockLogger: any = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+      child: jest.fn(function(this: any) { return this; }),
+    };
+
+    indexer = new Indexer({ rpc: {}, at: jest.fn() } as unknown as ApiPromise, { rpc: {}, at: jest.fn() } as unknown as ApiPromise, db, mockLogger, 10);
+    db.upsertEra({ eraId: 1982, sessionStart: 11931, sessionEnd: null, startTime: 1700000000000 });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should record a reported offence with its fraction', async () => {
+    await processAH(createMockOffenceReportedEvent({ offenceEra: 1981, validator: 'alice', fraction: 100_000_000 }), 1000);
+
+    const [slash] = db.getSlashes();
+    expect(slash).toMatchObject({
+      chain: 'assetHub',
+      offender: 'alice',
+      offenceEra: 1981,
+      slashEra: null,
+      fraction: 0.1,
+      status: 'reported',
+      amount: '0',
+      reportedBlock: 1000,
+    });
+  });
+
+  it('should keep a computed slash deferred until its slash era', async () => {
+    await processAH(createMockOffenceReportedEvent({ offenceEra: 1981, validator: 'alice', fraction: 100_000_000 }), 1000);
+    await processAH(createMockSlashComputedEvent({ offenceEra: 1981, slashEra: 2008, offender: 'alice', page: 0 }), 1001);
+    await processAH(createMockSlashComputedEvent({ offenceEra: 1981, slashEra: 2008, offender: 'alice', page: 1 }), 1001, 1);
+
+    const slashes = db.getSlashes('deferred');
+    expect(slashes).toHaveLength(1);
+    expect(slashes[0]).toMatchObject({ offender: 'alice', slashEra: 2008, status: 'deferred', overdue: false });
+  });
+
+  it('should flag a deferred slash as overdue once its slash era has passed', async () => {
+    await processAH(createMockSlashComputedEvent({ offenceEra: 1950, slashEra: 1977, offender: 'alice' }), 1000);
+
+    expect(db.getSlashes()[0].overdue).toBe(true);
+  });
+
+  it('should apply the slash and attribute nominator slashes in the same block', async () => {
+    await processAH(createMockOffenceReportedEvent({ offenceEra: 1981, validator: 'alice', fraction: 100_000_000 }), 1000);
+    await processAH(createMockSlashComputedEvent({ offenceEra: 1981, slashEra: 1982, offender: 'alice' }), 1001);
+
+    await processAH(createMockSlashedEvent({ staker: 'alice', amount: '1000' }), 2000, 0);
+    await processAH(createMockSlashedEvent({ staker: 'nominator1', amount: '250' }), 2000, 1);
+    await processAH(createMockSlashedEvent({ staker: 'nominator2', amount: '50' }), 2000, 2);
+
+    const [slash] = db.getSlashes();
+    expect(slash).toMatchObject({
+      offender: 'alice',
+      status: 'applied',
+      amount: '1300',
+      stakersSlashed: 3,
+      appliedBlock: 2000,
+    });
+    expect(db.getSlash(slash.id)?.stakers?.map(s => s.staker)).toEqual(['alice', 'nominator1', 'nominator2']);
+  });
+
+  it('should not double count a reprocessed block', async () => {
+    await processAH(createMockOffenceReportedEvent({ offenceEra: 1981, validator: 'alice', fraction: 100_000_000 }), 1000);
+
+    for (let pass = 0; pass < 2; pass++) {
+      await processAH(createMockOffenceReportedEvent({ offenceEra: 1981, validator: 'alice', fraction: 100_000_000 }), 1000);
+      await processAH(createMockSlashedEvent({ staker: 'alice', amount: '1000' }), 2000, 0);
+      await processAH(createMockSlashedEvent({ staker: 'nominator1', amount: '250' }), 2000, 1);
+    }
+
+    const slashes = db.getSlashes();
+    expect(slashes).toHaveLength(1);
+    expect(slashes[0]).toMatchObject({ status: 'applied', amount: '1250', stakersSlashed: 2 });
+  });
+
+  it('should cancel a pending slash', async () => {
+    await processAH(createMockSlashComputedEvent({ offenceEra: 1981, slashEra: 2008, offender: 'alice' }), 1001);
+    await processAH(createMockSlashCancelledEvent({ slashEra: 2008, validator: 'alice' }), 1500);
+
+    expect(db.getSlashes()[0].status).toBe('cancelled');
+    expect(db.getSlashes('deferred')).toEqual([]);
+  });
+
+  it('should record a slash without a prior report as applied in the active era', async () => {
+    await processAH(createMockSlashedEvent({ staker: 'bob', amount: '500' }), 2000);
+
+    expect(db.getSlashes()[0]).toMatchObject({ offender: 'bob', offenceEra: null, slashEra: 1982, status: 'applied', amount: '500' });
+  });
+
+  it('should track Relay Chain SlashReported and Slashed', () => {
+    const reported = {
+      section: 'staking',
+      method: 'SlashReported',
+      data: {
+        validator: { toString: () => 'alice' },
+        fraction: { toNumber: () => 500_000_000 },
+        slashEra: { toNumber: () => 1500 },
+      },
+    };
+    (indexer as any).processSpecialEventRC(reported, 'staking.SlashReported', 5000, 1700000000000, '5000-3');
+    (indexer as any).processSpecialEventRC(createMockSlashedEvent({ staker: 'alice', amount: '42' }), 'staking.Slashed', 6000, 1700000600000, '6000-1');
+
+    expect(db.getSlashes()[0]).toMatchObject({
+      chain: 'relayChain',
+      offender: 'alice',
+      offenceEra: 1500,
+      fraction: 0.5,
+      status: 'applied',
+      amount: '42',
+    });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Sparse Indexing Tests
+ * Verifies sparse mode stores only blocks with tracked events while scanned ranges keep gap detection working
+ */
+
+import { Indexer } from '../../indexer/Indexer';
+import { createTestDatabase } from '../utils/testDatabase';
+import { createMockNewSessionEvent } from '../fixtures/events';
+import type { StakingDatabase } from '../../database/Database';
+import type { ApiPromise } from '@polkadot/api';
+
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+const untrackedEvent = {
+  section: 'balances',
+  method: 'Transfer',
+  data: {},
+  toHuman: () => ({ method: 'Transfer', section: 'balances', data: {} }),
+};
+
+describe('Scanned ranges', () => {
+  let db: StakingDatabase;
+
+  beforeEach(() => {
+    db = createTestDatabase();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should merge adjacent blocks into one range', () => {
+    for (const n of [1, 2, 5, 4, 3]) {
+      db.markScannedRC({ blockNumber: n, timestamp: 1700000000000 + n * 6000 });
+    }
+    db.markScannedRC({ blockNumber: 3, timestamp: 1700000018000 }); // Already covered
+
+    expect(db.getScannedRangesRC()).toEqual([
+      { startBlock: 1, endBlock: 5, endTimestamp: 1700000030000 },
+    ]);
+    expect(db.getLatestScannedBlockRC()).toEqual({ blockNumber: 5, timestamp: 1700000030000 });
+  });
+
+  it('should split a range when a block is deleted for reimport', () => {
+    for (const n of range(1, 5)) {
+      db.insertBlockAH({ blockNumber: n, timestamp: 1700000000000 + n * 12000 });
+      db.markScannedAH({ blockNumber: n, timestamp: 1700000000000 + n * 12000 });
+    }
+
+    db.deleteBlockAH(3);
+
+    expect(db.blockScannedAH(3)).toBe(false);
+    expect(db.getScannedRangesAH().map(r => [r.startBlock, r.endBlock])).toEqual([[4, 5], [1, 2]]);
+  });
+
+  it('should treat blocks stored before ranges were tracked as scanned', () => {
+    db.insertBlockRC({ blockNumber: 42, timestamp: 1700000000000 });
+
+    expect(db.blockScannedRC(42)).toBe(true);
+    expect(db.blockScannedRC(43)).toBe(false);
+  });
+});
+
+describe('Indexer sparse mode', () => {
+  let db: StakingDatabase;
+  let indexer: Indexer;
+  let fetchBlockRC: jest.SpyInstance;
+
+  beforeEach(() => {
+    db = createTestDatabase();
+
+    const mockLogger: any = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+      child: jest.fn(function(this: any) { return this; }),
+    };
+    const mockApi = { rpc: {}, at: jest.fn() };
+
+    indexer = new Indexer(mockApi as unknown as ApiPromise, mockApi as unknown as ApiPromise, db, mockLogger, 10, null, null, {
+      concurrency: 2,
+      batchSize: 4,
+    }, {
+      mode: 'sparse',
+      checkpointInterval: 5,
+    });
+
+    fetchBlockRC = jest.spyOn(indexer as any, 'fetchBlockRC').mockImplementation(async (n: any) => ({
+      blockNumber: n,
+      timestamp: 1700000000000 + n * 6000,
+      events: n === 3 ? [{ event: untrackedEvent }, { event: createMockNewSessionEvent({ sessionIndex: 100 }) }] : [{ event: untrackedEvent }],
+      reads: new Map(),
+      snapshots: [],
+    }));
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should store only blocks with tracked events and checkpoints', async () => {
+    await (indexer as any).syncMissingBlocksRC(1, 12);
+
+    expect(range(1, 12).filter(n => db.blockExistsRC(n))).toEqual([3, 5, 10]);
+    expect(db.getEventsByBlockRC(3)).toHaveLength(1);
+    expect(db.getRcSession(100)?.blockNumber).toBe(3);
+    expect(db.getScannedRangesRC()).toEqual([
+      { startBlock: 1, endBlock: 12, endTimestamp: 1700000072000 },
+    ]);
+  });
+
+  it('should not treat skipped blocks as gaps', async () => {
+    await (indexer as any).syncMissingBlocksRC(1, 12);
+    fetchBlockRC.mockClear();
+
+    db.setState('backfillCursorRC', '0');
+    await (indexer as any).syncMissingBlocksRC(1, 14);
+
+    expect(fetchBlockRC.mock.calls.map(call => call[0])).toEqual([13, 14]);
+  });
+
+  it('should store every block in full mode', async () => {
+    (indexer as any).storageOptions = { mode: 'full', checkpointInterval: 5 };
+
+    await (indexer as any).syncMissingBlocksRC(1, 6);
+
+    expect(range(1, 6).every(n => db.blockExistsRC(n))).toBe(true);
+  });
+});
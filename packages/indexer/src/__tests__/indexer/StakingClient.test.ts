@@ -0,0 +1,111 @@
+/**
+ * Staking Client Sampler Tests
+ * Verifies the RC stakingAhClient and AH stakingRcClient state is sampled once per session
+ */
+
+import { Indexer } from '../../indexer/Indexer';
+import { createTestDatabase } from '../utils/testDatabase';
+import { createMockApiAt, createMockNewSessionEvent } from '../fixtures/events';
+import type { StakingDatabase } from '../../database/Database';
+import type { ApiPromise } from '@polkadot/api';
+
+describe('Staking client sampling', () => {
+  let db: StakingDatabase;
+  let indexer: Indexer;
+  let mockApiRC: any;
+  let mockApiAH: any;
+
+  beforeEach(() => {
+    db = createTestDatabase();
+
+    const mockLogger: any = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+      child: jest.fn(function(this: any) { return this; }),
+    };
+
+    mockApiRC = {
+      rpc: { chain: { getBlockHash: jest.fn().mockResolvedValue('0xrchash') } },
+      at: jest.fn(),
+    };
+    mockApiAH = {
+      rpc: { chain: { getBlockHash: jest.fn().mockResolvedValue('0xahhash') } },
+      at: jest.fn(),
+    };
+
+    indexer = new Indexer(mockApiRC as ApiPromise, mockApiAH as ApiPromise, db, mockLogger, 10);
+    db.insertBlockRC({ blockNumber: 5000, timestamp: 1700000000000 });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should sample the RC client when a session starts on the Relay Chain', async () => {
+    mockApiRC.at.mockResolvedValue(createMockApiAt({
+      stakingMode: 'Active',
+      queuedValidatorSet: { id: 7, validators: ['alice', 'bob', 'charlie'] },
+      validatorPoints: { alice: 120, bob: 80 },
+    }));
+
+    const event = createMockNewSessionEvent({ sessionIndex: 100 });
+    const reads = await (indexer as any).readEventRC(event, 'session.NewSession', 5000, 1700000000000);
+    (indexer as any).processSpecialEventRC(event, 'session.NewSession', 5000, 1700000000000, '5000-1', reads);
+
+    expect(mockApiRC.rpc.chain.getBlockHash).toHaveBeenCalledWith(5000);
+    expect(db.getStakingClientSamples()).toEqual([{
+      sessionId: 100,
+      relayChain: {
+        blockNumber: 5000,
+        timestamp: 1700000000000,
+        mode: 'Active',
+        queuedValidatorSetId: 7,
+        queuedValidatorsCount: 3,
+        validatorPointsCount: 2,
+        validatorPointsTotal: 200,
+      },
+      assetHub: null,
+    }]);
+  });
+
+  it('should add the AH client state to the same session without overwriting the RC side', async () => {
+    mockApiRC.at.mockResolvedValue(createMockApiAt({ stakingMode: 'Buffered' }));
+    mockApiAH.at.mockResolvedValue(createMockApiAt({ lastSessionReportEndIndex: 100, outgoingValidatorSetId: 8 }));
+
+    db.upsertStakingClientRc(100, await (indexer as any).readStakingClientRC(5000, 1700000000000));
+    db.upsertStakingClientAh(100, await (indexer as any).readStakingClientAH(100, 10279000, 1700003600000));
+
+    const [sample] = db.getStakingClientSamples();
+    expect(sample.relayChain).toMatchObject({ mode: 'Buffered', queuedValidatorSetId: null, validatorPointsCount: 0 });
+    expect(sample.assetHub).toEqual({
+      blockNumber: 10279000,
+      timestamp: 1700003600000,
+      lastSessionReportEndIndex: 100,
+      outgoingValidatorSetId: 8,
+    });
+  });
+
+  it('should store nulls when the client pallets are missing', async () => {
+    mockApiRC.at.mockResolvedValue(createMockApiAt());
+    mockApiAH.at.mockResolvedValue(createMockApiAt());
+
+    db.upsertStakingClientRc(100, await (indexer as any).readStakingClientRC(5000, 1700000000000));
+    db.upsertStakingClientAh(100, await (indexer as any).readStakingClientAH(100, 10279000, 1700003600000));
+
+    expect(db.getStakingClientSamples()[0]).toEqual({
+      sessionId: 100,
+      relayChain: {
+        blockNumber: 5000,
+        timestamp: 1700000000000,
+        mode: null,
+        queuedValidatorSetId: null,
+        queuedValidatorsCount: null,
+        validatorPointsCount: null,
+        validatorPointsTotal: null,
+      },
+      assetHub: { blockNumber: 10279000, timestamp: 1700003600000, lastSessionReportEndIndex: null, outgoingValidatorSetId: null },
+    });
+  });
+});
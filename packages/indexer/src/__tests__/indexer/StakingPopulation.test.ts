@@ -0,0 +1,79 @@
+/**
+ * Staking Population Sampler Tests
+ * Verifies counters, the bags list and minimum bonds are sampled once per session
+ */
+
+import { Indexer } from '../../indexer/Indexer';
+import { createTestDatabase } from '../utils/testDatabase';
+import { createMockApiAt } from '../fixtures/events';
+import type { StakingDatabase } from '../../database/Database';
+import type { ApiPromise } from '@polkadot/api';
+
+describe('Staking population sampling', () => {
+  let db: StakingDatabase;
+  let indexer: Indexer;
+  let mockApiAH: any;
+
+  beforeEach(() => {
+    db = createTestDatabase();
+
+    const mockLogger: any = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+      child: jest.fn(function(this: any) { return this; }),
+    };
+
+    mockApiAH = {
+      rpc: { chain: { getBlockHash: jest.fn().mockResolvedValue('0xmockhash') } },
+      at: jest.fn(),
+    };
+
+    indexer = new Indexer({ rpc: {}, at: jest.fn() } as unknown as ApiPromise, mockApiAH as ApiPromise, db, mockLogger, 10);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should record counters, the bags list lock and minimum bonds for the ended session', async () => {
+    mockApiAH.at.mockResolvedValue(createMockApiAt({
+      counterForValidators: 1200,
+      counterForNominators: 38000,
+      bagsListNodes: 39200,
+      bagsListLocked: true,
+      minNominatorBond: '2500000000000',
+      minValidatorBond: '0',
+      minimumActiveStake: '1000000000000',
+    }));
+
+    db.upsertStakingPopulationSample(await (indexer as any).readStakingPopulation(11935, 10279000, 1700000000000, 1982));
+
+    expect(db.getStakingPopulationSamples()).toEqual([{
+      sessionId: 11935,
+      blockNumber: 10279000,
+      timestamp: 1700000000000,
+      eraId: 1982,
+      validatorCount: 1200,
+      nominatorCount: 38000,
+      bagsListNodes: 39200,
+      bagsListLocked: true,
+      minNominatorBond: '2500000000000',
+      minValidatorBond: '0',
+      minActiveStake: '1000000000000',
+    }]);
+  });
+
+  it('should store missing storage items as null and replace a resampled session', async () => {
+    mockApiAH.at.mockResolvedValue(createMockApiAt({ counterForNominators: 100 }));
+    db.upsertStakingPopulationSample(await (indexer as any).readStakingPopulation(11935, 10279000, 1700000000000, null));
+
+    mockApiAH.at.mockResolvedValue(createMockApiAt({ counterForNominators: 101 }));
+    db.upsertStakingPopulationSample(await (indexer as any).readStakingPopulation(11935, 10279000, 1700000000000, null));
+
+    const samples = db.getStakingPopulationSamples();
+    expect(samples).toHaveLength(1);
+    expect(samples[0]).toMatchObject({ nominatorCount: 101, validatorCount: null, bagsListLocked: null, minActiveStake: null });
+  });
+});
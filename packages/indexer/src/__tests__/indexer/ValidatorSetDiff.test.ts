@@ -0,0 +1,68 @@
+/**
+ * Validator Set Diff Tests
+ * Verifies the elected stash list is stored at Export -> Off and diffed against the previous election
+ */
+
+import { Indexer } from '../../indexer/Indexer';
+import { createTestDatabase } from '../utils/testDatabase';
+import { createMockPhaseTransitionedEvent, createMockApiAt } from '../fixtures/events';
+import type { StakingDatabase } from '../../database/Database';
+import type { ApiPromise } from '@polkadot/api';
+
+describe('Validator set diff', () => {
+  let db: StakingDatabase;
+  let indexer: Indexer;
+  let mockApiAH: any;
+
+  beforeEach(() => {
+    db = createTestDatabase();
+
+    const mockLogger: any = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+      child: jest.fn(function(this: any) { return this; }),
+    };
+    mockApiAH = {
+      rpc: { chain: { getBlockHash: jest.fn().mockResolvedValue('0xabcd1234') } },
+      at: jest.fn(),
+    };
+
+    indexer = new Indexer({ rpc: {}, at: jest.fn() } as unknown as ApiPromise, mockApiAH as ApiPromise, db, mockLogger, 10);
+    db.upsertEra({ eraId: 1982, sessionStart: 11931, sessionEnd: null, startTime: 1700000000000 });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should store the elected stashes when the election exports', async () => {
+    mockApiAH.at.mockResolvedValue(createMockApiAt({ activeEra: { index: 1982 }, electableStashes: ['carol', 'alice', 'bob'] }));
+
+    const event = createMockPhaseTransitionedEvent({ from: 'Export', to: 'Off' });
+    const reads = await (indexer as any).readPhaseTransitioned(event, 10280000);
+    (indexer as any).handlePhaseTransitioned(event, 10280000, 1700000000000, '10280000-2', reads);
+
+    expect(db.getElectedValidators(1982)).toEqual(['alice', 'bob', 'carol']);
+    expect(db.getEra(1982)?.validatorsElected).toBe(3);
+  });
+
+  it('should diff against the closest earlier election', () => {
+    db.setElectedValidators(1980, ['alice', 'bob', 'carol', 'dave']);
+    db.setElectedValidators(1982, ['bob', 'carol', 'dave', 'erin']);
+
+    expect(db.getValidatorSetDiff(1982)).toEqual({
+      eraId: 1982,
+      previousEraId: 1980,
+      validatorCount: 4,
+      previousValidatorCount: 4,
+      added: ['erin'],
+      removed: ['alice'],
+      retained: ['bob', 'carol', 'dave'],
+      churnPercent: 25,
+    });
+    expect(db.getValidatorSetDiff(1980)?.churnPercent).toBeNull();
+    expect(db.getValidatorSetDiff(1981)).toBeNull();
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Unclaimed Rewards Tracker Tests
+ * Verifies unclaimed payout pages are grouped per era with their history-depth countdown
+ */
+
+import { UnclaimedRewardsTracker, DEFAULT_HISTORY_DEPTH } from '../../rewards';
+import { createTestDatabase } from '../utils/testDatabase';
+import type { StakingDatabase } from '../../database/Database';
+
+const ALICE = '15oF4uVJwmo4TdGW7VfQxNLavjCXviqxT9S1MgbjMNHr6Sp5';
+const BOB = '14ShUZUYUR35RBZW6uVVt1zXDxmSQddkeDdXf1JkMA6P721N';
+
+describe('UnclaimedRewardsTracker', () => {
+  let db: StakingDatabase;
+  let tracker: UnclaimedRewardsTracker;
+
+  beforeEach(() => {
+    db = createTestDatabase();
+    tracker = new UnclaimedRewardsTracker(db);
+
+    db.upsertEra({ eraId: 1990, sessionStart: 600, sessionEnd: null, startTime: 1700000000000 });
+    db.setState('historyDepth', '10');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should count down from the planned era once it is ahead of the active era', () => {
+    expect(tracker.getErasRemaining(1982)).toBe(2);
+
+    db.insertBlockAH({ blockNumber: 100, timestamp: 1700000000000 });
+    db.upsertSession({ sessionId: 605, blockNumber: 100, activationTimestamp: null, activeEraId: 1990, plannedEraId: 1991, validatorPointsTotal: 0 });
+
+    expect(tracker.getCurrentEra()).toBe(1991);
+    expect(tracker.getErasRemaining(1982)).toBe(1);
+  });
+
+  it('should fall back to the default history depth until the runtime value is stored', () => {
+    db.setState('historyDepth', '');
+
+    expect(tracker.getHistoryDepth()).toBe(DEFAULT_HISTORY_DEPTH);
+  });
+
+  it('should report eras with unclaimed pages and estimate the amount left', () => {
+    db.upsertEraRewards(1980, '900', 300, 100, [
+      { validator: ALICE, points: 200, pageCount: 2, claimedPages: 0 },
+      { validator: BOB, points: 100, pageCount: 1, claimedPages: 1 },
+    ]);
+    db.upsertEraRewards(1985, '900', 300, 200, [
+      { validator: ALICE, points: 200, pageCount: 2, claimedPages: 2 },
+      { validator: BOB, points: 100, pageCount: 1, claimedPages: 0 },
+    ]);
+    // An observed payout counts even before claimedRewards is re-read
+    db.recordPayoutStarted({ eraId: 1980, validator: ALICE, page: 0, blockNumber: 300, timestamp: 1700000000000 });
+
+    const report = tracker.getReport();
+
+    expect(report.currentEra).toBe(1990);
+    expect(report.historyDepth).toBe(10);
+    expect(report.eras).toEqual([
+      {
+        eraId: 1980,
+        lastClaimableEra: 1990,
+        erasRemaining: 0,
+        unclaimedPages: 1,
+        unclaimedAmount: '300',
+        validators: [{ validator: ALICE, pageCount: 2, claimedPages: 1, unclaimedAmount: '300' }],
+      },
+      {
+        eraId: 1985,
+        lastClaimableEra: 1995,
+        erasRemaining: 5,
+        unclaimedPages: 1,
+        unclaimedAmount: '300',
+        validators: [{ validator: BOB, pageCount: 1, claimedPages: 0, unclaimedAmount: '300' }],
+      },
+    ]);
+    expect(tracker.hasUnclaimedPages(1980)).toBe(true);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Storage Snapshotter Tests
+ * Verifies watch list items are sampled on their triggers and stored decoded
+ */
+
+import { StorageSnapshotter } from '../../snapshots';
+import { createTestDatabase } from '../utils/testDatabase';
+import type { StakingDatabase } from '../../database/Database';
+import type { StorageWatchItem } from '@staking-cc/shared';
+import type { ApiPromise } from '@polkadot/api';
+
+const codec = (primitive: unknown) => ({ toPrimitive: () => primitive });
+
+const ITEMS: StorageWatchItem[] = [
+  { id: 'force-era', chain: 'assetHub', pallet: 'staking', item: 'forceEra', trigger: { type: 'session' } },
+  { id: 'era-total-stake', chain: 'assetHub', pallet: 'staking', item: 'erasTotalStake', keys: ['$era'], trigger: { type: 'era' } },
+  { id: 'rc-session', chain: 'relayChain', pallet: 'session', item: 'currentIndex', trigger: { type: 'blocks', interval: 600 } },
+  { id: 'rc-mode', chain: 'relayChain', pallet: 'stakingAhClient', item: 'mode', trigger: { type: 'event', event: 'session.NewSession' } },
+  { id: 'missing', chain: 'assetHub', pallet: 'noSuchPallet', item: 'value', trigger: { type: 'session' } },
+];
+
+const createMockApi = (query: Record<string, Record<string, jest.Mock>>): any => ({
+  rpc: { chain: { getBlockHash: jest.fn().mockResolvedValue('0xmockhash') } },
+  at: jest.fn().mockResolvedValue({ query }),
+});
+
+describe('Storage snapshots', () => {
+  let db: StakingDatabase;
+  let mockLogger: any;
+  let apiRC: any;
+  let apiAH: any;
+  let snapshotter: StorageSnapshotter;
+
+  beforeEach(() => {
+    db = createTestDatabase();
+
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+      child: jest.fn(function(this: any) { return this; }),
+    };
+
+    apiRC = createMockApi({
+      session: { currentIndex: jest.fn().mockResolvedValue(codec(11936)) },
+      stakingAhClient: { mode: jest.fn().mockResolvedValue(codec('Active')) },
+    });
+    apiAH = createMockApi({
+      staking: {
+        forceEra: jest.fn().mockResolvedValue(codec('NotForcing')),
+        erasTotalStake: jest.fn().mockResolvedValue(codec('1234567890123456789012')),
+      },
+    });
+
+    snapshotter = new StorageSnapshotter(apiRC as ApiPromise, apiAH as ApiPromise, db, mockLogger, ITEMS);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should store session items and skip items missing on the runtime', async () => {
+    const stored = await snapshotter.snapshot({ kind: 'session', sessionId: 11935, blockNumber: 10279000, timestamp: 1700000000000 });
+
+    expect(stored).toBe(1);
+    expect(apiAH.rpc.chain.getBlockHash).toHaveBeenCalledWith(10279000);
+    expect(db.getStorageSnapshots('force-era')).toEqual([{
+      watchId: 'force-era',
+      chain: 'assetHub',
+      pallet: 'staking',
+      item: 'forceEra',
+      keys: [],
+      blockNumber: 10279000,
+      timestamp: 1700000000000,
+      triggeredBy: 'session 11935',
+      value: 'NotForcing',
+    }]);
+    expect(mockLogger.warn).toHaveBeenCalledWith(expect.objectContaining({ watchId: 'missing' }), 'Watched storage item not found on this runtime');
+  });
+
+  it('should resolve the $era key from an era trigger', async () => {
+    await snapshotter.snapshot({ kind: 'era', eraId: 1982, blockNumber: 10279000, timestamp: 1700000000000 });
+
+    expect(apiAH.at.mock.results.length).toBe(1);
+    const [snapshot] = db.getStorageSnapshots('era-total-stake');
+    expect(snapshot).toMatchObject({ keys: [1982], triggeredBy: 'era 1982', value: '1234567890123456789012' });
+  });
+
+  it('should sample block interval and event items on the item chain only', async () => {
+    expect(await snapshotter.snapshot({ kind: 'block', chain: 'relayChain', blockNumber: 1201, timestamp: 1 })).toBe(0);
+    expect(await snapshotter.snapshot({ kind: 'block', chain: 'assetHub', blockNumber: 1200, timestamp: 1 })).toBe(0);
+    expect(await snapshotter.snapshot({ kind: 'block', chain: 'relayChain', blockNumber: 1200, timestamp: 1 })).toBe(1);
+    expect(await snapshotter.snapshot({ kind: 'event', chain: 'relayChain', blockNumber: 1201, timestamp: 2, eventType: 'Session.NewSession' })).toBe(1);
+
+    expect(apiAH.at).not.toHaveBeenCalled();
+    expect(db.getStorageSnapshots('rc-session')).toMatchObject([{ blockNumber: 1200, value: 11936 }]);
+    expect(db.getStorageSnapshots('rc-mode')).toMatchObject([{ blockNumber: 1201, triggeredBy: 'Session.NewSession', value: 'Active' }]);
+  });
+
+  it('should read without storing until the snapshots are stored', async () => {
+    const snapshots = await snapshotter.read({ kind: 'session', sessionId: 11935, blockNumber: 10279000, timestamp: 1700000000000 });
+
+    expect(snapshots).toMatchObject([{ watchId: 'force-era', value: 'NotForcing' }]);
+    expect(db.getStorageSnapshots('force-era')).toEqual([]);
+
+    expect(snapshotter.store(snapshots)).toBe(1);
+    expect(db.getStorageSnapshots('force-era')).toEqual(snapshots);
+  });
+
+  it('should replace a resampled block and return history newest first', async () => {
+    await snapshotter.snapshot({ kind: 'session', sessionId: 1, blockNumber: 100, timestamp: 1 });
+    await snapshotter.snapshot({ kind: 'session', sessionId: 2, blockNumber: 200, timestamp: 2 });
+    apiAH.at.mockResolvedValue({ query: { staking: { forceEra: jest.fn().mockResolvedValue(codec('ForceNew')) } } });
+    await snapshotter.snapshot({ kind: 'session', sessionId: 2, blockNumber: 200, timestamp: 2 });
+
+    expect(db.getStorageSnapshots('force-era').map(s => [s.blockNumber, s.value])).toEqual([
+      [200, 'ForceNew'],
+      [100, 'NotForcing'],
+    ]);
+  });
+
+  it('should log and continue when a storage query fails', async () => {
+    apiAH.at.mockResolvedValue({ query: { staking: { forceEra: jest.fn().mockRejectedValue(new Error('decode failed')) } } });
+
+    expect(await snapshotter.snapshot({ kind: 'session', sessionId: 1, blockNumber: 100, timestamp: 1 })).toBe(0);
+    expect(mockLogger.error).toHaveBeenCalledWith(expect.objectContaining({ watchId: 'force-era' }), 'Error taking storage snapshot');
+  });
+});
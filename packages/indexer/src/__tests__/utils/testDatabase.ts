@@ -10,7 +10,7 @@ import type { Logger } from 'pino';
  * Create an in-memory test database
  * Each test gets a fresh isolated database
  */
-export function createTestDatabase(): StakingDatabase {
+export function createTestDatabase(maxEras: number = 100): StakingDatabase {
   // Create mock logger that doesn't output during tests
   const mockLogger: Logger = {
     info: jest.fn(),
@@ -25,7 +25,7 @@ export function createTestDatabase(): StakingDatabase {
   } as any;
 
   // Use :memory: path for in-memory database (not persisted to disk)
-  return new StakingDatabase(':memory:', mockLogger, 100);
+  return new StakingDatabase(':memory:', mockLogger, maxEras);
 }
 
 /**
@@ -0,0 +1,553 @@
+/**
+ * Warning Engine Tests
+ * Verifies rules detect anomalies and warnings are stored once
+ */
+
+import { WarningEngine } from '../../warnings';
+import { createTestDatabase } from '../utils/testDatabase';
+import type { StakingDatabase } from '../../database/Database';
+import type { ChainWarningRulesConfig } from '@staking-cc/shared';
+
+const HOUR = 60 * 60 * 1000;
+
+// Kusama-like: 6h eras, 6 sessions per era
+const TEST_CONFIG: ChainWarningRulesConfig = {
+  thresholds: {
+    expectedEraDurationMs: 6 * HOUR,
+    eraDurationTolerance: 0.15,
+    expectedSessionsPerEra: 6,
+    maxSessionReportIntervalMs: 1.5 * HOUR,
+    maxSessionReportLatencyMs: 10 * 60 * 1000,
+    maxPhaseDurationBlocks: { Snapshot: 100, Done: 100, Export: 100 },
+    phaseOverrunGraceBlocks: 10,
+    maxSyncLagMs: 60000,
+    unclaimedRewardsWarningEras: 14,
+    unclaimedRewardsCriticalEras: 3,
+    maxValidatorSetChurnPercent: 15,
+    maxBagsListLockedSessions: 2,
+    maxPopulationDropPercent: 5,
+    maxQueuedValidatorSetSessions: 1,
+  },
+  rules: {},
+};
+
+describe('WarningEngine', () => {
+  let db: StakingDatabase;
+  let engine: WarningEngine;
+  let mockLogger: any;
+
+  beforeEach(() => {
+    db = createTestDatabase();
+
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+      child: jest.fn(function(this: any) { return this; }),
+    };
+
+    engine = new WarningEngine(db, mockLogger, TEST_CONFIG);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('Era duration', () => {
+    it('should warn when an era lasted much longer than expected', () => {
+      const start = 1_700_000_000_000;
+      db.upsertEra({ eraId: 100, sessionStart: 600, sessionEnd: 605, startTime: start });
+      db.upsertEra({ eraId: 101, sessionStart: 606, sessionEnd: null, startTime: start + 9 * HOUR });
+
+      const warnings = engine.evaluate({ kind: 'era', eraId: 101, blockNumber: 1000, timestamp: start + 9 * HOUR });
+
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0].type).toBe('timing');
+      expect(warnings[0].eraId).toBe(100);
+      expect(db.getWarningsByEra(100)).toHaveLength(1);
+    });
+
+    it('should warn when an era had an unexpected number of sessions', () => {
+      const start = 1_700_000_000_000;
+      db.upsertEra({ eraId: 100, sessionStart: 600, sessionEnd: 602, startTime: start });
+      db.upsertEra({ eraId: 101, sessionStart: 603, sessionEnd: null, startTime: start + 6 * HOUR });
+
+      const warnings = engine.evaluate({ kind: 'era', eraId: 101, blockNumber: 1000, timestamp: start + 6 * HOUR });
+
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0].message).toContain('3 sessions');
+    });
+
+    it('should not warn for a normal era', () => {
+      const start = 1_700_000_000_000;
+      db.upsertEra({ eraId: 100, sessionStart: 600, sessionEnd: 605, startTime: start });
+      db.upsertEra({ eraId: 101, sessionStart: 606, sessionEnd: null, startTime: start + 6 * HOUR });
+
+      const warnings = engine.evaluate({ kind: 'era', eraId: 101, blockNumber: 1000, timestamp: start + 6 * HOUR });
+
+      expect(warnings).toHaveLength(0);
+    });
+  });
+
+  describe('Missing session reports', () => {
+    it('should warn when sessions were skipped', () => {
+      db.insertBlockAH({ blockNumber: 100, timestamp: 1000 });
+      db.insertBlockAH({ blockNumber: 300, timestamp: 3000 });
+      db.upsertSession({ sessionId: 10, blockNumber: 100, activationTimestamp: null, activeEraId: null, plannedEraId: null, validatorPointsTotal: 0 });
+      db.upsertSession({ sessionId: 13, blockNumber: 300, activationTimestamp: null, activeEraId: null, plannedEraId: null, validatorPointsTotal: 0 });
+
+      const warnings = engine.evaluate({ kind: 'session', sessionId: 13, blockNumber: 300, timestamp: 3000 });
+
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0].type).toBe('missing_event');
+      expect(warnings[0].message).toContain('11-12');
+    });
+
+    it('should warn once when no report arrives in time', () => {
+      const reportTime = 1_700_000_000_000;
+      db.insertBlockAH({ blockNumber: 100, timestamp: reportTime });
+      db.upsertSession({ sessionId: 10, blockNumber: 100, activationTimestamp: null, activeEraId: null, plannedEraId: null, validatorPointsTotal: 0 });
+
+      expect(engine.evaluate({ kind: 'block', chain: 'assetHub', blockNumber: 200, timestamp: reportTime + HOUR })).toHaveLength(0);
+      expect(engine.evaluate({ kind: 'block', chain: 'assetHub', blockNumber: 900, timestamp: reportTime + 2 * HOUR })).toHaveLength(1);
+      expect(engine.evaluate({ kind: 'block', chain: 'assetHub', blockNumber: 901, timestamp: reportTime + 2 * HOUR + 12000 })).toHaveLength(0);
+
+      expect(db.getRecentWarnings()).toHaveLength(1);
+    });
+
+    it('should auto-resolve an overdue report warning once a later session is reported', () => {
+      const reportTime = 1_700_000_000_000;
+      db.insertBlockAH({ blockNumber: 100, timestamp: reportTime });
+      db.upsertSession({ sessionId: 10, blockNumber: 100, activationTimestamp: null, activeEraId: null, plannedEraId: null, validatorPointsTotal: 0 });
+      engine.evaluate({ kind: 'block', chain: 'assetHub', blockNumber: 900, timestamp: reportTime + 2 * HOUR });
+
+      db.insertBlockAH({ blockNumber: 950, timestamp: reportTime + 2 * HOUR + 600000 });
+      db.upsertSession({ sessionId: 11, blockNumber: 950, activationTimestamp: null, activeEraId: null, plannedEraId: null, validatorPointsTotal: 0 });
+      engine.evaluate({ kind: 'session', sessionId: 11, blockNumber: 950, timestamp: reportTime + 2 * HOUR + 600000 });
+
+      const [warning] = db.getRecentWarnings();
+      expect(warning.status).toBe('resolved');
+      expect(warning.autoResolved).toBe(true);
+    });
+  });
+
+  describe('Election phases', () => {
+    beforeEach(() => {
+      db.upsertEra({ eraId: 100, sessionStart: 600, sessionEnd: null, startTime: 1000 });
+      db.insertBlockAH({ blockNumber: 1000, timestamp: 1000 });
+    });
+
+    it('should warn when a phase overruns its expected duration', () => {
+      db.insertElectionPhase({
+        eraId: 100, round: 5, phase: 'Signed', blockNumber: 1000, eventId: '1000-3',
+        timestamp: 1000, expectedDurationBlocks: 150, status: 'ongoing',
+      });
+
+      expect(engine.evaluate({ kind: 'block', chain: 'assetHub', blockNumber: 1150, timestamp: 2000 })).toHaveLength(0);
+
+      const warnings = engine.evaluate({ kind: 'block', chain: 'assetHub', blockNumber: 1200, timestamp: 3000 });
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0].type).toBe('election_issue');
+      expect(warnings[0].eraId).toBe(100);
+    });
+
+    it('should auto-resolve a stuck phase warning once the phase transitions', () => {
+      db.insertElectionPhase({
+        eraId: 100, round: 5, phase: 'Signed', blockNumber: 1000, eventId: '1000-3',
+        timestamp: 1000, expectedDurationBlocks: 150, status: 'ongoing',
+      });
+      engine.evaluate({ kind: 'block', chain: 'assetHub', blockNumber: 1200, timestamp: 3000 });
+      expect(db.getRecentWarnings()[0].status).toBe('open');
+
+      // Signed -> SignedValidation
+      db.insertBlockAH({ blockNumber: 1201, timestamp: 3012 });
+      db.markPreviousPhaseCompleted(100, 5, 'Signed', 1201, 3012);
+      db.insertElectionPhase({
+        eraId: 100, round: 5, phase: 'SignedValidation', blockNumber: 1201, eventId: '1201-3',
+        timestamp: 3012, expectedDurationBlocks: 64, status: 'ongoing',
+      });
+      // Only the transition event can end the phase
+      engine.evaluate({ kind: 'block', chain: 'assetHub', blockNumber: 1201, timestamp: 3012 });
+      expect(db.getRecentWarnings()[0].status).toBe('open');
+
+      engine.evaluate({
+        kind: 'event', chain: 'assetHub', blockNumber: 1201, timestamp: 3012,
+        eventId: '1201-3', eventType: 'multiBlockElection.PhaseTransitioned', data: '{}',
+      });
+
+      // The transition also records the overrun of the completed phase
+      const warning = db.getRecentWarnings().find(w => w.message.includes('has run for'))!;
+      expect(warning.status).toBe('resolved');
+      expect(warning.autoResolved).toBe(true);
+      expect(warning.resolvedAt).not.toBeNull();
+    });
+
+    describe('Phase overrun', () => {
+      const transition = (blockNumber: number) => engine.evaluate({
+        kind: 'event',
+        chain: 'assetHub',
+        blockNumber,
+        timestamp: 1000 + blockNumber * 6000,
+        eventId: `${blockNumber}-3`,
+        eventType: 'multiBlockElection.PhaseTransitioned',
+        data: JSON.stringify({ from: { Signed: '0' }, to: { SignedValidation: '64' } }),
+      });
+
+      beforeEach(() => {
+        db.insertElectionPhase({
+          eraId: 100, round: 5, phase: 'Signed', blockNumber: 1000, eventId: '1000-3',
+          timestamp: 1000, expectedDurationBlocks: 150, status: 'ongoing',
+        });
+      });
+
+      it('should record the actual end and overrun of a completed phase', () => {
+        db.markPreviousPhaseCompleted(100, 5, 'Signed', 1180, 181000);
+
+        const [phase] = db.getElectionPhaseTimeline(5);
+        expect(phase).toMatchObject({ status: 'completed', endBlock: 1180, endTime: 181000, actualDurationBlocks: 180, overrunBlocks: 30 });
+      });
+
+      it('should warn once a phase ends past its expected duration and grace', () => {
+        db.markPreviousPhaseCompleted(100, 5, 'Signed', 1180, 181000);
+
+        const warnings = transition(1180).filter(w => w.message.includes('ran for'));
+        expect(warnings).toHaveLength(1);
+        expect(warnings[0].message).toContain('ran for 180 blocks, expected 150 (+30)');
+        expect(warnings[0].eraId).toBe(100);
+      });
+
+      it('should not warn for a phase that ended within the grace period', () => {
+        db.markPreviousPhaseCompleted(100, 5, 'Signed', 1155, 156000);
+
+        expect(transition(1155)).toHaveLength(0);
+      });
+    });
+
+    it('should warn when an observed election did not export a validator set', () => {
+      db.insertElectionPhase({
+        eraId: 100, round: 5, phase: 'Snapshot', blockNumber: 1000, eventId: '1000-3',
+        timestamp: 1000, status: 'completed',
+      });
+      db.upsertEra({ eraId: 101, sessionStart: 606, sessionEnd: null, startTime: 1000 + 6 * HOUR });
+
+      const warnings = engine.evaluate({ kind: 'era', eraId: 101, blockNumber: 5000, timestamp: 1000 + 6 * HOUR });
+
+      expect(warnings.some(w => w.severity === 'error' && w.eraId === 100)).toBe(true);
+    });
+
+    it('should warn when the election enters the Emergency phase', () => {
+      const warnings = engine.evaluate({
+        kind: 'event',
+        chain: 'assetHub',
+        blockNumber: 1000,
+        timestamp: 1000,
+        eventId: '1000-2',
+        eventType: 'multiBlockElection.PhaseTransitioned',
+        data: JSON.stringify({ from: { Signed: '0' }, to: 'Emergency' }),
+      });
+
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0].severity).toBe('error');
+      // Defaults to the latest era
+      expect(warnings[0].eraId).toBe(100);
+    });
+  });
+
+  describe('Unexpected events', () => {
+    it('should warn on stakingAhClient.Unexpected on the relay chain', () => {
+      const trigger = {
+        kind: 'event' as const,
+        chain: 'relayChain' as const,
+        blockNumber: 500,
+        timestamp: 1000,
+        eventId: '500-1',
+        eventType: 'stakingAhClient.Unexpected',
+        data: '["SessionReportIntegrityFailed"]',
+      };
+
+      expect(engine.evaluate(trigger)).toHaveLength(1);
+      // Re-processing the same block (e.g. reimport) must not duplicate the warning
+      expect(engine.evaluate(trigger)).toHaveLength(0);
+      expect(db.getRecentWarnings()).toHaveLength(1);
+      // Unexpected events are facts - they stay open until an operator resolves them
+      expect(db.getRecentWarnings()[0].status).toBe('open');
+    });
+  });
+
+  describe('Cross-chain consistency', () => {
+    it('should raise open consistency issues and auto-resolve them once cleared', () => {
+      const now = 1_700_000_000_000;
+      db.upsertConsistencyIssue({
+        key: 'missing_report:11',
+        kind: 'missing_report',
+        sessionId: 11,
+        eraId: null,
+        message: 'Session 11 ended on RC at block #7600 but AH never received its report',
+      }, now);
+
+      // Issues only change when the checker runs, not on every block
+      expect(engine.evaluate({ kind: 'block', chain: 'assetHub', blockNumber: 1000, timestamp: now })).toHaveLength(0);
+
+      const warnings = engine.evaluate({ kind: 'consistency', blockNumber: 1000, timestamp: now });
+
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0].type).toBe('missing_event');
+      expect(warnings[0].severity).toBe('error');
+      expect(warnings[0].sessionId).toBe(11);
+
+      db.resolveConsistencyIssue('missing_report:11', now + 1000);
+      engine.evaluate({ kind: 'block', chain: 'assetHub', blockNumber: 1001, timestamp: now + 1000 });
+      expect(db.getRecentWarnings()[0].status).toBe('open');
+
+      engine.evaluate({ kind: 'consistency', blockNumber: 1001, timestamp: now + 1000 });
+      expect(db.getRecentWarnings()[0].status).toBe('resolved');
+    });
+  });
+
+  describe('Validator set churn', () => {
+    const validators = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => `validator-${from + i}`);
+
+    beforeEach(() => {
+      db.upsertEra({ eraId: 100, sessionStart: 600, sessionEnd: 605, startTime: 1000 });
+      db.upsertEra({ eraId: 101, sessionStart: 606, sessionEnd: 611, startTime: 1000 + 6 * HOUR });
+      db.upsertEra({ eraId: 102, sessionStart: 612, sessionEnd: null, startTime: 1000 + 12 * HOUR });
+      db.setElectedValidators(100, validators(1, 10));
+    });
+
+    it('should warn when the newly elected set changed more than expected', () => {
+      db.setElectedValidators(101, validators(4, 13)); // 3 of 10 replaced
+
+      const warnings = engine.evaluate({ kind: 'era', eraId: 102, blockNumber: 5000, timestamp: 1000 + 12 * HOUR });
+
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0].eraId).toBe(101);
+      expect(warnings[0].message).toContain('30.0% (3 added, 3 removed)');
+    });
+
+    it('should not warn for normal churn or non-consecutive elections', () => {
+      db.setElectedValidators(101, validators(2, 11)); // 1 of 10 replaced
+      expect(engine.evaluate({ kind: 'era', eraId: 102, blockNumber: 5000, timestamp: 1000 + 12 * HOUR })).toHaveLength(0);
+
+      db.setElectedValidators(102, validators(50, 59));
+      db.upsertEra({ eraId: 103, sessionStart: 618, sessionEnd: null, startTime: 1000 + 18 * HOUR });
+      db.setElectedValidators(101, []);
+      expect(engine.evaluate({ kind: 'era', eraId: 103, blockNumber: 6000, timestamp: 1000 + 18 * HOUR })).toHaveLength(0);
+    });
+  });
+
+  describe('Staking population', () => {
+    const sample = (sessionId: number, overrides: { nominatorCount?: number; validatorCount?: number; bagsListLocked?: boolean | null } = {}) =>
+      db.upsertStakingPopulationSample({
+        sessionId,
+        blockNumber: sessionId * 10,
+        timestamp: sessionId * HOUR,
+        eraId: null,
+        validatorCount: overrides.validatorCount ?? 1000,
+        nominatorCount: overrides.nominatorCount ?? 20000,
+        bagsListNodes: null,
+        bagsListLocked: overrides.bagsListLocked ?? false,
+        minNominatorBond: null,
+        minValidatorBond: null,
+        minActiveStake: null,
+      });
+
+    const evaluateSession = (sessionId: number) =>
+      engine.evaluate({ kind: 'session', sessionId, blockNumber: sessionId * 10, timestamp: sessionId * HOUR });
+
+    it('should warn once when the bags list stays locked past the limit and resolve when it unlocks', () => {
+      sample(600);
+      for (const sessionId of [601, 602]) {
+        sample(sessionId, { bagsListLocked: true });
+        expect(evaluateSession(sessionId)).toHaveLength(0);
+      }
+
+      sample(603, { bagsListLocked: true });
+      const warnings = evaluateSession(603);
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0].message).toContain('locked for 3 sessions since session 601');
+
+      sample(604, { bagsListLocked: true });
+      expect(evaluateSession(604)).toHaveLength(0);
+
+      sample(605, { bagsListLocked: false });
+      evaluateSession(605);
+      expect(db.getRecentWarnings()[0].status).toBe('resolved');
+    });
+
+    it('should warn when nominator or validator counts drop abruptly', () => {
+      sample(600);
+      sample(601, { nominatorCount: 18000, validatorCount: 990 }); // -10% nominators, -1% validators
+
+      const warnings = evaluateSession(601);
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0].message).toContain('Nominator count dropped 10.0% (20000 → 18000)');
+    });
+
+    it('should not warn for small drops or growth', () => {
+      sample(600);
+      sample(601, { nominatorCount: 19500, validatorCount: 1100 });
+
+      expect(evaluateSession(601)).toHaveLength(0);
+    });
+  });
+
+  describe('Staking client', () => {
+    const sampleRc = (sessionId: number, mode: string, queuedValidatorSetId: number | null = null) =>
+      db.upsertStakingClientRc(sessionId, {
+        blockNumber: sessionId * 10,
+        timestamp: sessionId * HOUR,
+        mode,
+        queuedValidatorSetId,
+        queuedValidatorsCount: queuedValidatorSetId === null ? null : 600,
+        validatorPointsCount: 600,
+        validatorPointsTotal: 12000,
+      });
+
+    const evaluateNewSession = (sessionId: number) =>
+      engine.evaluate({
+        kind: 'event',
+        chain: 'relayChain',
+        blockNumber: sessionId * 10,
+        timestamp: sessionId * HOUR,
+        eventId: `${sessionId * 10}-1`,
+        eventType: 'session.NewSession',
+        data: '{}',
+      });
+
+    it('should warn when the staking client mode changes', () => {
+      sampleRc(600, 'Buffered');
+      expect(evaluateNewSession(600)).toHaveLength(0);
+
+      sampleRc(601, 'Active');
+      const warnings = evaluateNewSession(601);
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0].message).toContain('from Buffered to Active when session 601 started');
+
+      sampleRc(602, 'Active');
+      expect(evaluateNewSession(602)).toHaveLength(0);
+    });
+
+    it('should warn once when a queued validator set lingers and resolve when it is taken', () => {
+      sampleRc(600, 'Active', 7);
+      expect(evaluateNewSession(600)).toHaveLength(0);
+
+      sampleRc(601, 'Active', 7);
+      const warnings = evaluateNewSession(601);
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0].message).toContain('Validator set 7 (600 validators) is still queued on the Relay Chain at 2 session starts');
+
+      sampleRc(602, 'Active', 7);
+      expect(evaluateNewSession(602)).toHaveLength(0);
+
+      sampleRc(603, 'Active', null);
+      evaluateNewSession(603);
+      expect(db.getRecentWarnings()[0].status).toBe('resolved');
+    });
+
+    it('should only evaluate at the block the Relay Chain sample was taken', () => {
+      sampleRc(600, 'Buffered');
+      sampleRc(601, 'Active');
+
+      expect(engine.evaluate({ kind: 'session', sessionId: 601, blockNumber: 6010, timestamp: 601 * HOUR })).toHaveLength(0);
+      expect(engine.evaluate({
+        kind: 'event', chain: 'relayChain', blockNumber: 6015, timestamp: 601 * HOUR, eventId: '6015-1', eventType: 'session.NewSession', data: '{}',
+      })).toHaveLength(0);
+    });
+  });
+
+  describe('Unclaimed rewards expiry', () => {
+    const VALIDATOR = '15oF4uVJwmo4TdGW7VfQxNLavjCXviqxT9S1MgbjMNHr6Sp5';
+    const unclaimed = (eraId: number) => db.upsertEraRewards(eraId, '900', 100, 1, [
+      { validator: VALIDATOR, points: 100, pageCount: 2, claimedPages: 0 },
+    ]);
+    const open = () => db.getRecentWarnings()
+      .filter(w => w.status === 'open')
+      .map(w => [w.severity, w.message.split(' rewards')[0]])
+      .sort();
+
+    beforeEach(() => {
+      db.setState('historyDepth', '10');
+      db.upsertEra({ eraId: 110, sessionStart: 660, sessionEnd: null, startTime: 1000 });
+      unclaimed(95); // Expired long ago
+      unclaimed(101);
+      unclaimed(105);
+    });
+
+    it('should escalate as eras approach the history depth cutoff', () => {
+      engine.evaluate({ kind: 'era', eraId: 110, blockNumber: 1000, timestamp: 1000 });
+      expect(open()).toEqual([['error', 'Era 101'], ['warning', 'Era 105']]);
+
+      db.upsertEra({ eraId: 112, sessionStart: 672, sessionEnd: null, startTime: 1000 + 12 * HOUR });
+      engine.evaluate({ kind: 'era', eraId: 112, blockNumber: 2000, timestamp: 1000 + 12 * HOUR });
+
+      expect(open()).toEqual([['error', 'Era 101'], ['error', 'Era 105']]);
+      expect(db.getRecentWarnings().find(w => w.status === 'open' && w.message.startsWith('Era 101'))?.message)
+        .toContain('expired with 2 unclaimed payout pages');
+    });
+
+    it('should auto-resolve once the pages are claimed', () => {
+      engine.evaluate({ kind: 'era', eraId: 110, blockNumber: 1000, timestamp: 1000 });
+
+      db.updateClaimedPages(105, [{ validator: VALIDATOR, claimedPages: 2 }]);
+      engine.evaluate({ kind: 'session', sessionId: 661, blockNumber: 1001, timestamp: 1012 });
+
+      expect(open()).toEqual([['error', 'Era 101']]);
+    });
+
+    it('should keep escalating severities when a severity is configured', () => {
+      const configured = new WarningEngine(db, mockLogger, {
+        ...TEST_CONFIG,
+        rules: { 'unclaimed-rewards-expiry': { enabled: true, severity: 'info' } },
+      });
+
+      configured.evaluate({ kind: 'era', eraId: 110, blockNumber: 1000, timestamp: 1000 });
+
+      expect(open()).toEqual([['error', 'Era 101'], ['warning', 'Era 105']]);
+      expect(mockLogger.warn).toHaveBeenCalledWith({ rule: 'unclaimed-rewards-expiry' }, expect.stringContaining('ignoring the configured severity'));
+    });
+  });
+
+  describe('Rule configuration', () => {
+    it('should skip disabled rules', () => {
+      const configured = new WarningEngine(db, mockLogger, {
+        ...TEST_CONFIG,
+        rules: { 'unexpected-event': { enabled: false } },
+      });
+
+      const warnings = configured.evaluate({
+        kind: 'event', chain: 'assetHub', blockNumber: 500, timestamp: 1000,
+        eventId: '500-1', eventType: 'staking.Unexpected', data: '[]',
+      });
+
+      expect(warnings).toHaveLength(0);
+    });
+
+    it('should apply the configured severity', () => {
+      const configured = new WarningEngine(db, mockLogger, {
+        ...TEST_CONFIG,
+        rules: { 'unexpected-event': { enabled: true, severity: 'error' } },
+      });
+
+      const warnings = configured.evaluate({
+        kind: 'event', chain: 'assetHub', blockNumber: 500, timestamp: 1000,
+        eventId: '500-1', eventType: 'staking.Unexpected', data: '[]',
+      });
+
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0].severity).toBe('error');
+    });
+  });
+
+  it('should keep evaluating other rules when one rule throws', () => {
+    const failingEngine = new WarningEngine(db, mockLogger, TEST_CONFIG, [
+      { id: 'broken', description: 'always throws', evaluate: () => { throw new Error('boom'); } },
+      { id: 'ok', description: 'always finds', evaluate: () => [{ key: 'x', type: 'timing', severity: 'info', message: 'ok' }] },
+    ]);
+
+    const warnings = failingEngine.evaluate({ kind: 'block', chain: 'relayChain', blockNumber: 1, timestamp: 1 });
+
+    expect(warnings).toHaveLength(1);
+    expect(mockLogger.error).toHaveBeenCalled();
+  });
+});
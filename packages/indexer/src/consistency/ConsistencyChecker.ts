@@ -0,0 +1,262 @@
+import type { Logger } from 'pino';
+import type { ConsistencyIssue, ConsistencyIssueKind, WarningThresholds } from '@staking-cc/shared';
+import type { StakingDatabase } from '../database';
+
+const SESSION_REPORT_EVENT = 'stakingRcClient.SessionReportReceived';
+const VALIDATOR_SET_RECEIVED_EVENT = 'stakingAhClient.ValidatorSetReceived';
+
+interface DetectedIssue {
+  key: string;
+  kind: ConsistencyIssueKind;
+  sessionId: number | null;
+  eraId: number | null;
+  message: string;
+}
+
+interface SessionReport {
+  endIndex: number;
+  blockNumber: number;
+  eventIndex: number;
+}
+
+/**
+ * Parse a number from stored event data (toHuman() formats numbers as "12,345")
+ */
+const parseHumanNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined) return null;
+  const parsed = parseInt(String(value).replace(/,/g, ''), 10);
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+/**
+ * Get the data fields of a stored event (JSON of event.toHuman()), or null if unparseable
+ */
+const parseEventFields = (data: string): Record<string, any> | null => {
+  try {
+    const parsed = JSON.parse(data);
+    return parsed?.data ?? null;
+  } catch (e) {
+    return null;
+  }
+};
+
+/**
+ * Reconciles what the Relay Chain emitted (session.NewSession, stakingAhClient.ValidatorSetReceived)
+ * against what Asset Hub received (stakingRcClient.SessionReportReceived, exported validator sets)
+ * and keeps the consistency_issues table up to date.
+ */
+export class ConsistencyChecker {
+  private db: StakingDatabase;
+  private logger: Logger;
+  private thresholds: WarningThresholds;
+  private windowSessions: number;
+
+  constructor(db: StakingDatabase, logger: Logger, thresholds: WarningThresholds, windowSessions: number = 200) {
+    this.db = db;
+    this.logger = logger.child({ component: 'ConsistencyChecker' });
+    this.thresholds = thresholds;
+    this.windowSessions = windowSessions;
+  }
+
+  /**
+   * Run all checks over the recent window, record new issues and resolve cleared ones
+   * Returns the issues that are open after the check
+   */
+  check(now: number = Date.now()): ConsistencyIssue[] {
+    // Scanned ranges run ahead of stored blocks in sparse mode
+    const latestRC = this.db.getLatestScannedBlockRC() ?? this.db.getLatestBlockRC();
+    const latestAH = this.db.getLatestScannedBlockAH() ?? this.db.getLatestBlockAH();
+    if (!latestRC || !latestAH) return this.db.getOpenConsistencyIssues();
+
+    const reports = this.getFinalSessionReports();
+    const detected: DetectedIssue[] = [];
+
+    // AH observation starts at the first report we indexed; earlier sessions cannot be judged
+    const fromSession = reports.length > 0 ? Math.min(...reports.map(r => r.endIndex)) : null;
+    const toSession = reports.length > 0 ? Math.max(...reports.map(r => r.endIndex)) : null;
+
+    if (fromSession !== null) {
+      detected.push(...this.findMissingReports(reports, fromSession, latestAH.timestamp));
+      detected.push(...this.findDuplicateReports(reports));
+      detected.push(...this.findOutOfOrderReports(reports));
+    }
+
+    const { issues: validatorSetIssues, fromEra } = this.findUnacknowledgedValidatorSets(latestRC.timestamp);
+    detected.push(...validatorSetIssues);
+
+    const detectedKeys = new Set(detected.map(issue => issue.key));
+    for (const issue of detected) {
+      const existing = this.db.getConsistencyIssue(issue.key);
+      if (!existing || existing.resolvedAt !== null) {
+        this.logger.warn({ key: issue.key, message: issue.message }, 'Consistency issue detected');
+      }
+      this.db.upsertConsistencyIssue(issue, now);
+    }
+
+    // Only resolve issues that fall inside what this check covered
+    for (const issue of this.db.getOpenConsistencyIssues()) {
+      if (detectedKeys.has(issue.key)) continue;
+
+      const inScope = issue.kind === 'unacknowledged_validator_set'
+        ? fromEra !== null && issue.eraId !== null && issue.eraId >= fromEra
+        : fromSession !== null && issue.sessionId !== null && issue.sessionId >= fromSession;
+
+      if (inScope) {
+        this.db.resolveConsistencyIssue(issue.key, now);
+        this.logger.info({ key: issue.key }, 'Consistency issue resolved');
+      }
+    }
+
+    this.db.setMultipleStates({
+      'consistencyCheckedAt': now.toString(),
+      'consistencyFromSession': fromSession !== null ? fromSession.toString() : '',
+      'consistencyToSession': toSession !== null ? toSession.toString() : '',
+    });
+
+    return this.db.getOpenConsistencyIssues();
+  }
+
+  /**
+   * Final (non-leftover) session reports received on AH, in the order AH received them
+   */
+  private getFinalSessionReports(): SessionReport[] {
+    const reports: SessionReport[] = [];
+
+    for (const event of this.db.getEventsByTypeAH(SESSION_REPORT_EVENT, this.windowSessions * 2)) {
+      const fields = parseEventFields(event.data);
+      const endIndex = parseHumanNumber(fields?.endIndex);
+      if (endIndex === null) continue;
+
+      // Reports split over several messages carry leftover = true on all but the last one
+      if (fields?.leftover === true || fields?.leftover === 'true') continue;
+
+      reports.push({
+        endIndex,
+        blockNumber: event.blockNumber,
+        eventIndex: parseInt(event.eventId.split('-')[1] || '0', 10),
+      });
+    }
+
+    return reports.sort((a, b) => a.blockNumber - b.blockNumber || a.eventIndex - b.eventIndex);
+  }
+
+  /**
+   * RC sessions that ended (the next session began) without AH receiving their report in time
+   */
+  private findMissingReports(reports: SessionReport[], fromSession: number, latestAHTimestamp: number): DetectedIssue[] {
+    const reported = new Set(reports.map(r => r.endIndex));
+    const rcSessions = this.db.getRcSessionsFrom(fromSession);
+    const startedAt = new Map(rcSessions.map(s => [s.sessionId, s]));
+    const issues: DetectedIssue[] = [];
+
+    for (const session of rcSessions) {
+      const next = startedAt.get(session.sessionId + 1);
+      if (!next || reported.has(session.sessionId)) continue;
+
+      // Not overdue yet, or AH indexing has not caught up to when the report was due
+      if (latestAHTimestamp < next.timestamp + this.thresholds.maxSessionReportLatencyMs) continue;
+
+      issues.push({
+        key: `missing_report:${session.sessionId}`,
+        kind: 'missing_report',
+        sessionId: session.sessionId,
+        eraId: null,
+        message: `Session ${session.sessionId} ended on RC at block #${next.blockNumber ?? '?'} but AH never received its report`,
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Sessions AH received more than one final report for
+   */
+  private findDuplicateReports(reports: SessionReport[]): DetectedIssue[] {
+    const byEndIndex = new Map<number, SessionReport[]>();
+    for (const report of reports) {
+      byEndIndex.set(report.endIndex, [...(byEndIndex.get(report.endIndex) ?? []), report]);
+    }
+
+    const issues: DetectedIssue[] = [];
+    for (const [endIndex, received] of byEndIndex) {
+      if (received.length < 2) continue;
+
+      issues.push({
+        key: `duplicate_report:${endIndex}`,
+        kind: 'duplicate_report',
+        sessionId: endIndex,
+        eraId: null,
+        message: `AH received ${received.length} reports for session ${endIndex} (blocks ${received.map(r => `#${r.blockNumber}`).join(', ')})`,
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Reports for an older session received after a report for a newer one
+   */
+  private findOutOfOrderReports(reports: SessionReport[]): DetectedIssue[] {
+    const issues: DetectedIssue[] = [];
+    let latest: SessionReport | null = null;
+
+    for (const report of reports) {
+      if (latest && report.endIndex < latest.endIndex) {
+        issues.push({
+          key: `out_of_order_report:${report.endIndex}`,
+          kind: 'out_of_order_report',
+          sessionId: report.endIndex,
+          eraId: null,
+          message: `AH received the report for session ${report.endIndex} at block #${report.blockNumber}, after session ${latest.endIndex} was already reported`,
+        });
+      }
+
+      if (!latest || report.endIndex > latest.endIndex) {
+        latest = report;
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Validator sets exported by AH that RC never acknowledged with ValidatorSetReceived.
+   * An election during era N exports the set for era N + 1, which RC reports back with id N + 1.
+   */
+  private findUnacknowledgedValidatorSets(latestRCTimestamp: number): { issues: DetectedIssue[]; fromEra: number | null } {
+    const earliestRC = this.db.getEarliestBlockRC();
+    if (!earliestRC) return { issues: [], fromEra: null };
+
+    const received = new Set<number>();
+    for (const event of this.db.getEventsByTypeRC(VALIDATOR_SET_RECEIVED_EVENT, this.windowSessions)) {
+      const id = parseHumanNumber(parseEventFields(event.data)?.id);
+      if (id !== null) received.add(id);
+    }
+
+    const issues: DetectedIssue[] = [];
+    let fromEra: number | null = null;
+
+    for (const era of this.db.getRecentEras(Math.ceil(this.windowSessions / this.thresholds.expectedSessionsPerEra))) {
+      // RC must have been indexed for the whole era (when the set was sent) and until the next era started
+      if (era.startTime < earliestRC.timestamp) continue;
+      fromEra = fromEra === null ? era.eraId : Math.min(fromEra, era.eraId);
+
+      if (era.validatorsElected === null || era.validatorsElected === undefined) continue;
+
+      const plannedEra = this.db.getEra(era.eraId + 1);
+      if (!plannedEra || latestRCTimestamp < plannedEra.startTime) continue;
+
+      if (!received.has(era.eraId + 1)) {
+        issues.push({
+          key: `unacknowledged_validator_set:${era.eraId + 1}`,
+          kind: 'unacknowledged_validator_set',
+          sessionId: null,
+          eraId: era.eraId,
+          message: `AH exported the validator set for era ${era.eraId + 1} (${era.validatorsElected} validators) but RC never emitted ValidatorSetReceived for it`,
+        });
+      }
+    }
+
+    return { issues, fromEra };
+  }
+}
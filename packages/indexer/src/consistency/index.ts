@@ -0,0 +1 @@
+export { ConsistencyChecker } from './ConsistencyChecker';
@@ -3,9 +3,30 @@ import type { Logger } from 'pino';
 import type {
   Era,
   Session,
+  RcSession,
   Block,
+  ScannedRange,
   BlockchainEvent,
   Warning,
+  ConsistencyIssue,
+  ConsistencyIssueKind,
+  ValidatorSetDiff,
+  ElectionPhase,
+  ElectionPhaseTiming,
+  ChainLayer,
+  Slash,
+  SlashStatus,
+  SlashedStaker,
+  ElectionIncident,
+  ElectionIncidentCause,
+  ElectionIncidentEvent,
+  ElectionIncidentEventKind,
+  ElectionIncidentStatus,
+  StakingClientAhSample,
+  StakingClientRcSample,
+  StakingClientSample,
+  StakingPopulationSample,
+  StorageSnapshot,
 } from '@staking-cc/shared';
 
 export class StakingDatabase {
@@ -52,6 +73,20 @@ export class StakingDatabase {
 
       CREATE INDEX IF NOT EXISTS idx_blocks_ah_timestamp ON blocks_ah(timestamp);
 
+      -- Scanned block ranges (merged, non-overlapping)
+      -- In sparse mode blocks without tracked events are scanned but not stored, so gap detection uses these
+      CREATE TABLE IF NOT EXISTS scanned_ranges_rc (
+        start_block INTEGER PRIMARY KEY,
+        end_block INTEGER NOT NULL,
+        end_timestamp INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS scanned_ranges_ah (
+        start_block INTEGER PRIMARY KEY,
+        end_block INTEGER NOT NULL,
+        end_timestamp INTEGER NOT NULL
+      );
+
       -- Events table for Relay Chain
       CREATE TABLE IF NOT EXISTS events_rc (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -97,6 +132,35 @@ export class StakingDatabase {
       CREATE INDEX IF NOT EXISTS idx_sessions_active_era ON sessions(active_era_id);
       CREATE INDEX IF NOT EXISTS idx_sessions_planned_era ON sessions(planned_era_id);
 
+      -- Relay Chain sessions table
+      -- Created from session.NewSession events; enriched by session.NewQueued and stakingAhClient.ValidatorSetReceived
+      CREATE TABLE IF NOT EXISTS sessions_rc (
+        session_id INTEGER PRIMARY KEY,
+        block_number INTEGER, -- RC block where the session began
+        timestamp INTEGER NOT NULL,
+        new_set_queued INTEGER NOT NULL DEFAULT 0,
+        validator_set_id INTEGER,
+        validator_set_count INTEGER,
+        validator_set_block_number INTEGER,
+        FOREIGN KEY (block_number) REFERENCES blocks_rc(block_number) ON DELETE SET NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_sessions_rc_block ON sessions_rc(block_number);
+
+      -- Cross-chain consistency issues (RC session/validator-set events vs AH session records)
+      CREATE TABLE IF NOT EXISTS consistency_issues (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        issue_key TEXT NOT NULL UNIQUE,
+        kind TEXT NOT NULL CHECK(kind IN ('missing_report', 'duplicate_report', 'out_of_order_report', 'unacknowledged_validator_set')),
+        session_id INTEGER,
+        era_id INTEGER,
+        message TEXT NOT NULL,
+        detected_at INTEGER NOT NULL,
+        resolved_at INTEGER
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_consistency_issues_resolved ON consistency_issues(resolved_at);
+
       -- Eras table
       -- Created from stakingRelaychainClient.SessionReportReceived events with activation_timestamp
       CREATE TABLE IF NOT EXISTS eras (
@@ -113,6 +177,167 @@ export class StakingDatabase {
       CREATE INDEX IF NOT EXISTS idx_eras_session_start ON eras(session_start);
       CREATE INDEX IF NOT EXISTS idx_eras_start_time ON eras(start_time);
 
+      -- Validators elected during an era (staking.electableStashes at Export -> Off), active from the next era
+      CREATE TABLE IF NOT EXISTS era_elected_validators (
+        era_id INTEGER NOT NULL,
+        validator TEXT NOT NULL,
+        PRIMARY KEY (era_id, validator)
+      );
+
+      -- Era reward totals, snapshotted from staking storage at staking.EraPaid (Asset Hub)
+      CREATE TABLE IF NOT EXISTS era_rewards (
+        era_id INTEGER PRIMARY KEY,
+        validator_payout TEXT, -- staking.erasValidatorReward
+        total_points INTEGER NOT NULL,
+        snapshot_block_number INTEGER,
+        updated_at INTEGER NOT NULL
+      );
+
+      -- Per-validator reward points and payout pages per era
+      -- claimed_pages comes from staking.claimedRewards; observed payouts may be ahead of it
+      CREATE TABLE IF NOT EXISTS era_validator_rewards (
+        era_id INTEGER NOT NULL,
+        validator TEXT NOT NULL,
+        points INTEGER NOT NULL DEFAULT 0,
+        page_count INTEGER,
+        claimed_pages INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (era_id, validator)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_era_validator_rewards_validator ON era_validator_rewards(validator, era_id);
+
+      -- Payouts: one row per staking.PayoutStarted, amount summed from the staking.Rewarded events that follow it
+      CREATE TABLE IF NOT EXISTS payouts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        era_id INTEGER NOT NULL,
+        validator TEXT NOT NULL,
+        page INTEGER,
+        block_number INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        amount TEXT NOT NULL DEFAULT '0',
+        UNIQUE(era_id, validator, page)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_payouts_era ON payouts(era_id, timestamp);
+
+      -- Offences and their slashes, from staking offence/slash events on either chain
+      -- status: reported -> deferred -> applied, or cancelled
+      CREATE TABLE IF NOT EXISTS slashes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        chain TEXT NOT NULL, -- 'relayChain' | 'assetHub'
+        offender TEXT NOT NULL,
+        offence_era INTEGER,
+        slash_era INTEGER,
+        fraction_perbill INTEGER,
+        status TEXT NOT NULL,
+        reported_block INTEGER,
+        reported_at INTEGER,
+        applied_block INTEGER,
+        applied_at INTEGER,
+        updated_block INTEGER NOT NULL,
+        UNIQUE(chain, offender, offence_era)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_slashes_status ON slashes(status, slash_era);
+
+      -- One row per staking.Slashed, attributed to the slash of the offender it belongs to
+      CREATE TABLE IF NOT EXISTS slashed_stakers (
+        chain TEXT NOT NULL,
+        event_id TEXT NOT NULL,
+        slash_id INTEGER NOT NULL,
+        staker TEXT NOT NULL,
+        amount TEXT NOT NULL,
+        block_number INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        PRIMARY KEY (chain, event_id),
+        FOREIGN KEY (slash_id) REFERENCES slashes(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_slashed_stakers_slash ON slashed_stakers(slash_id);
+
+      -- Election failures and Emergency fallbacks, followed until a solution is queued and exported
+      -- status: open -> queued -> recovered
+      CREATE TABLE IF NOT EXISTS election_incidents (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        chain TEXT NOT NULL, -- chain of the event that opened the incident
+        cause TEXT NOT NULL, -- 'election_failed' | 'emergency'
+        status TEXT NOT NULL,
+        round INTEGER,
+        era_id INTEGER,
+        opened_block INTEGER NOT NULL,
+        opened_at INTEGER NOT NULL,
+        opened_event_id TEXT NOT NULL,
+        queued_block INTEGER,
+        queued_at INTEGER,
+        recovered_block INTEGER,
+        recovered_at INTEGER,
+        UNIQUE(chain, opened_event_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_election_incidents_status ON election_incidents(status);
+
+      -- Every phase, verifier, governance and staking event seen while an incident was unrecovered
+      CREATE TABLE IF NOT EXISTS election_incident_events (
+        chain TEXT NOT NULL,
+        event_id TEXT NOT NULL,
+        incident_id INTEGER NOT NULL,
+        event_type TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        detail TEXT,
+        block_number INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        PRIMARY KEY (chain, event_id),
+        FOREIGN KEY (incident_id) REFERENCES election_incidents(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_election_incident_events_incident ON election_incident_events(incident_id);
+
+      -- Staking population counters and minimum bonds, sampled on Asset Hub once per session
+      CREATE TABLE IF NOT EXISTS staking_population (
+        session_id INTEGER PRIMARY KEY,
+        block_number INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        era_id INTEGER,
+        validator_count INTEGER,
+        nominator_count INTEGER,
+        bags_list_nodes INTEGER,
+        bags_list_locked INTEGER, -- 0/1, NULL when the chain has no lock storage
+        min_nominator_bond TEXT,
+        min_validator_bond TEXT,
+        min_active_stake TEXT
+      );
+
+      -- Staking client state per session: RC stakingAhClient at the session start, AH stakingRcClient at its report
+      CREATE TABLE IF NOT EXISTS staking_client (
+        session_id INTEGER PRIMARY KEY,
+        rc_block_number INTEGER,
+        rc_timestamp INTEGER,
+        mode TEXT,
+        queued_set_id INTEGER,
+        queued_validators INTEGER,
+        validator_points_count INTEGER,
+        validator_points_total INTEGER,
+        ah_block_number INTEGER,
+        ah_timestamp INTEGER,
+        last_report_end_index INTEGER,
+        outgoing_set_id INTEGER
+      );
+
+      -- Watched storage items (config/storage-watch.json), one row per item per sampled block
+      CREATE TABLE IF NOT EXISTS storage_snapshots (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        watch_id TEXT NOT NULL,
+        chain TEXT NOT NULL,
+        pallet TEXT NOT NULL,
+        item TEXT NOT NULL,
+        storage_keys TEXT NOT NULL, -- JSON array of the resolved map keys
+        block_number INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        triggered_by TEXT NOT NULL,
+        value TEXT, -- JSON of the decoded value
+        UNIQUE(watch_id, block_number)
+      );
+
       -- Warnings table (for future use)
       CREATE TABLE IF NOT EXISTS warnings (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -201,6 +426,21 @@ export class StakingDatabase {
       CREATE INDEX IF NOT EXISTS idx_reimport_status ON reimport_requests(status);
       CREATE INDEX IF NOT EXISTS idx_reimport_submitted ON reimport_requests(submitted_at);
 
+      -- Outbound notification queue (written and drained by the API's notification service)
+      CREATE TABLE IF NOT EXISTS notification_queue (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        target TEXT NOT NULL,
+        warnings TEXT NOT NULL,
+        status TEXT NOT NULL CHECK(status IN ('pending', 'sent', 'failed')),
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at INTEGER NOT NULL,
+        last_error TEXT,
+        created_at INTEGER NOT NULL,
+        sent_at INTEGER
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_notification_queue_status ON notification_queue(status, next_attempt_at);
+
       -- Migration tracking table
       CREATE TABLE IF NOT EXISTS schema_migrations (
         version INTEGER PRIMARY KEY,
@@ -319,25 +559,164 @@ export class StakingDatabase {
       }
     }
 
-    this.logger.info({ appliedMigrations: appliedVersions.size + (appliedVersions.has(1) ? 0 : 1) + (appliedVersions.has(2) ? 0 : 1) }, 'Migrations complete');
+    // Migration 3: Add dedup_key to warnings so rules can raise the same condition idempotently
+    if (!appliedVersions.has(3)) {
+      this.logger.info('Applying migration 3: Add dedup_key to warnings');
+
+      try {
+        this.db.exec(`
+          BEGIN TRANSACTION;
+
+          ALTER TABLE warnings ADD COLUMN dedup_key TEXT;
+
+          -- NULL keys are not considered equal, so legacy rows without a key are unaffected
+          CREATE UNIQUE INDEX IF NOT EXISTS idx_warnings_dedup_key ON warnings(dedup_key);
+
+          COMMIT;
+        `);
+
+        this.logger.info('Migration 3: Added dedup_key column successfully');
+
+        // Record migration
+        this.db.prepare('INSERT INTO schema_migrations (version, applied_at) VALUES (?, ?)')
+          .run(3, Date.now());
+
+      } catch (error) {
+        this.logger.error({ error }, 'Migration 3 failed');
+        throw error;
+      }
+    }
+
+    // Migration 4: Add lifecycle (open -> acknowledged -> resolved) to warnings
+    if (!appliedVersions.has(4)) {
+      this.logger.info('Applying migration 4: Add status, note and lifecycle timestamps to warnings');
+
+      try {
+        this.db.exec(`
+          BEGIN TRANSACTION;
+
+          ALTER TABLE warnings ADD COLUMN status TEXT NOT NULL DEFAULT 'open';
+          ALTER TABLE warnings ADD COLUMN note TEXT;
+          ALTER TABLE warnings ADD COLUMN acknowledged_at INTEGER;
+          ALTER TABLE warnings ADD COLUMN resolved_at INTEGER;
+          ALTER TABLE warnings ADD COLUMN auto_resolved INTEGER NOT NULL DEFAULT 0;
+
+          CREATE INDEX IF NOT EXISTS idx_warnings_status ON warnings(status);
+
+          COMMIT;
+        `);
+
+        this.logger.info('Migration 4: Added warning lifecycle columns successfully');
+
+        // Record migration
+        this.db.prepare('INSERT INTO schema_migrations (version, applied_at) VALUES (?, ?)')
+          .run(4, Date.now());
+
+      } catch (error) {
+        this.logger.error({ error }, 'Migration 4 failed');
+        throw error;
+      }
+    }
+
+    // Migration 5: Link AH sessions to the RC block where they began
+    if (!appliedVersions.has(5)) {
+      this.logger.info('Applying migration 5: Add rc_block_number to sessions');
+
+      try {
+        this.db.exec(`
+          BEGIN TRANSACTION;
+
+          ALTER TABLE sessions ADD COLUMN rc_block_number INTEGER;
+
+          COMMIT;
+        `);
+
+        this.logger.info('Migration 5: Added rc_block_number column successfully');
+
+        // Record migration
+        this.db.prepare('INSERT INTO schema_migrations (version, applied_at) VALUES (?, ?)')
+          .run(5, Date.now());
+
+      } catch (error) {
+        this.logger.error({ error }, 'Migration 5 failed');
+        throw error;
+      }
+    }
+
+    // Migration 6: Store block hashes so indexed blocks can be verified against the finalized chain
+    if (!appliedVersions.has(6)) {
+      this.logger.info('Applying migration 6: Add block_hash and parent_hash to blocks');
+
+      try {
+        this.db.exec(`
+          BEGIN TRANSACTION;
+
+          ALTER TABLE blocks_rc ADD COLUMN block_hash TEXT;
+          ALTER TABLE blocks_rc ADD COLUMN parent_hash TEXT;
+          ALTER TABLE blocks_ah ADD COLUMN block_hash TEXT;
+          ALTER TABLE blocks_ah ADD COLUMN parent_hash TEXT;
+
+          COMMIT;
+        `);
+
+        this.logger.info('Migration 6: Added block hash columns successfully');
+
+        // Record migration
+        this.db.prepare('INSERT INTO schema_migrations (version, applied_at) VALUES (?, ?)')
+          .run(6, Date.now());
+
+      } catch (error) {
+        this.logger.error({ error }, 'Migration 6 failed');
+        throw error;
+      }
+    }
+
+    // Migration 7: Record where each election phase actually ended, to compare with its expected duration
+    if (!appliedVersions.has(7)) {
+      this.logger.info('Applying migration 7: Add end_block_number and end_timestamp to election_phases');
+
+      try {
+        this.db.exec(`
+          BEGIN TRANSACTION;
+
+          ALTER TABLE election_phases ADD COLUMN end_block_number INTEGER;
+          ALTER TABLE election_phases ADD COLUMN end_timestamp INTEGER;
+
+          COMMIT;
+        `);
+
+        this.logger.info('Migration 7: Added election phase end columns successfully');
+
+        // Record migration
+        this.db.prepare('INSERT INTO schema_migrations (version, applied_at) VALUES (?, ?)')
+          .run(7, Date.now());
+
+      } catch (error) {
+        this.logger.error({ error }, 'Migration 7 failed');
+        throw error;
+      }
+    }
+
+    const migrationCount = this.db.prepare('SELECT COUNT(*) as count FROM schema_migrations').get() as { count: number };
+    this.logger.info({ appliedMigrations: migrationCount.count }, 'Migrations complete');
   }
 
   // ===== BLOCK METHODS =====
 
   insertBlockRC(block: Block): void {
     const stmt = this.db.prepare(`
-      INSERT OR REPLACE INTO blocks_rc (block_number, timestamp)
-      VALUES (?, ?)
+      INSERT OR REPLACE INTO blocks_rc (block_number, timestamp, block_hash, parent_hash)
+      VALUES (?, ?, ?, ?)
     `);
-    stmt.run(block.blockNumber, block.timestamp);
+    stmt.run(block.blockNumber, block.timestamp, block.blockHash ?? null, block.parentHash ?? null);
   }
 
   insertBlockAH(block: Block): void {
     const stmt = this.db.prepare(`
-      INSERT OR REPLACE INTO blocks_ah (block_number, timestamp)
-      VALUES (?, ?)
+      INSERT OR REPLACE INTO blocks_ah (block_number, timestamp, block_hash, parent_hash)
+      VALUES (?, ?, ?, ?)
     `);
-    stmt.run(block.blockNumber, block.timestamp);
+    stmt.run(block.blockNumber, block.timestamp, block.blockHash ?? null, block.parentHash ?? null);
   }
 
   blockExistsRC(blockNumber: number): boolean {
@@ -353,25 +732,37 @@ export class StakingDatabase {
   getBlockRC(blockNumber: number): Block | null {
     const stmt = this.db.prepare('SELECT * FROM blocks_rc WHERE block_number = ?');
     const row = stmt.get(blockNumber) as any;
-    return row ? { blockNumber: row.block_number, timestamp: row.timestamp } : null;
+    return row ? this.toBlock(row) : null;
   }
 
   getBlockAH(blockNumber: number): Block | null {
     const stmt = this.db.prepare('SELECT * FROM blocks_ah WHERE block_number = ?');
     const row = stmt.get(blockNumber) as any;
-    return row ? { blockNumber: row.block_number, timestamp: row.timestamp } : null;
+    return row ? this.toBlock(row) : null;
   }
 
   getLatestBlockRC(): Block | null {
     const stmt = this.db.prepare('SELECT * FROM blocks_rc ORDER BY block_number DESC LIMIT 1');
     const row = stmt.get() as any;
-    return row ? { blockNumber: row.block_number, timestamp: row.timestamp } : null;
+    return row ? this.toBlock(row) : null;
   }
 
   getLatestBlockAH(): Block | null {
     const stmt = this.db.prepare('SELECT * FROM blocks_ah ORDER BY block_number DESC LIMIT 1');
     const row = stmt.get() as any;
-    return row ? { blockNumber: row.block_number, timestamp: row.timestamp } : null;
+    return row ? this.toBlock(row) : null;
+  }
+
+  getEarliestBlockRC(): Block | null {
+    const stmt = this.db.prepare('SELECT * FROM blocks_rc ORDER BY block_number ASC LIMIT 1');
+    const row = stmt.get() as any;
+    return row ? this.toBlock(row) : null;
+  }
+
+  getEarliestBlockAH(): Block | null {
+    const stmt = this.db.prepare('SELECT * FROM blocks_ah ORDER BY block_number ASC LIMIT 1');
+    const row = stmt.get() as any;
+    return row ? this.toBlock(row) : null;
   }
 
   deleteBlockRC(blockNumber: number): void {
@@ -379,6 +770,8 @@ export class StakingDatabase {
     this.db.prepare('DELETE FROM events_rc WHERE block_number = ?').run(blockNumber);
     // Delete block
     this.db.prepare('DELETE FROM blocks_rc WHERE block_number = ?').run(blockNumber);
+    // The block has to be scanned again
+    this.unmarkScanned('scanned_ranges_rc', blockNumber);
     this.logger.debug({ blockNumber }, 'Deleted RC block and events');
   }
 
@@ -387,19 +780,160 @@ export class StakingDatabase {
     this.db.prepare('DELETE FROM events_ah WHERE block_number = ?').run(blockNumber);
     // Delete block
     this.db.prepare('DELETE FROM blocks_ah WHERE block_number = ?').run(blockNumber);
+    // The block has to be scanned again
+    this.unmarkScanned('scanned_ranges_ah', blockNumber);
     this.logger.debug({ blockNumber }, 'Deleted AH block and events');
   }
 
   getAllBlocksRC(limit: number = 100): Block[] {
     const stmt = this.db.prepare('SELECT * FROM blocks_rc ORDER BY block_number DESC LIMIT ?');
     const rows = stmt.all(limit) as any[];
-    return rows.map(row => ({ blockNumber: row.block_number, timestamp: row.timestamp }));
+    return rows.map(row => this.toBlock(row));
   }
 
   getAllBlocksAH(limit: number = 100): Block[] {
     const stmt = this.db.prepare('SELECT * FROM blocks_ah ORDER BY block_number DESC LIMIT ?');
     const rows = stmt.all(limit) as any[];
-    return rows.map(row => ({ blockNumber: row.block_number, timestamp: row.timestamp }));
+    return rows.map(row => this.toBlock(row));
+  }
+
+  /**
+   * Stored blocks after a block number, oldest first (for walking the table in chunks)
+   */
+  getBlocksAfterRC(blockNumber: number, limit: number = 100): Block[] {
+    const stmt = this.db.prepare('SELECT * FROM blocks_rc WHERE block_number > ? ORDER BY block_number ASC LIMIT ?');
+    const rows = stmt.all(blockNumber, limit) as any[];
+    return rows.map(row => this.toBlock(row));
+  }
+
+  getBlocksAfterAH(blockNumber: number, limit: number = 100): Block[] {
+    const stmt = this.db.prepare('SELECT * FROM blocks_ah WHERE block_number > ? ORDER BY block_number ASC LIMIT ?');
+    const rows = stmt.all(blockNumber, limit) as any[];
+    return rows.map(row => this.toBlock(row));
+  }
+
+  private toBlock(row: any): Block {
+    return {
+      blockNumber: row.block_number,
+      timestamp: row.timestamp,
+      blockHash: row.block_hash ?? null,
+      parentHash: row.parent_hash ?? null,
+    };
+  }
+
+  // ===== SCANNED RANGE METHODS =====
+
+  markScannedRC(block: Block): void {
+    this.markScanned('scanned_ranges_rc', block);
+  }
+
+  markScannedAH(block: Block): void {
+    this.markScanned('scanned_ranges_ah', block);
+  }
+
+  /**
+   * Whether a block was processed: covered by a scanned range, or stored before ranges were tracked
+   */
+  blockScannedRC(blockNumber: number): boolean {
+    return this.isScanned('scanned_ranges_rc', blockNumber) || this.blockExistsRC(blockNumber);
+  }
+
+  blockScannedAH(blockNumber: number): boolean {
+    return this.isScanned('scanned_ranges_ah', blockNumber) || this.blockExistsAH(blockNumber);
+  }
+
+  /**
+   * Highest scanned block, which may be newer than the latest stored block in sparse mode
+   */
+  getLatestScannedBlockRC(): Block | null {
+    return this.getLatestScanned('scanned_ranges_rc');
+  }
+
+  getLatestScannedBlockAH(): Block | null {
+    return this.getLatestScanned('scanned_ranges_ah');
+  }
+
+  getScannedRangesRC(limit: number = 100): ScannedRange[] {
+    return this.getScannedRanges('scanned_ranges_rc', limit);
+  }
+
+  getScannedRangesAH(limit: number = 100): ScannedRange[] {
+    return this.getScannedRanges('scanned_ranges_ah', limit);
+  }
+
+  /**
+   * Add a block to the scanned ranges, merging it with the ranges directly before and after it
+   */
+  private markScanned(table: string, block: Block): void {
+    const { blockNumber, timestamp } = block;
+
+    const merge = this.db.transaction(() => {
+      const prev = this.db.prepare(`SELECT * FROM ${table} WHERE start_block <= ? ORDER BY start_block DESC LIMIT 1`)
+        .get(blockNumber) as any;
+      if (prev && prev.end_block >= blockNumber) {
+        return; // Already covered
+      }
+
+      const next = this.db.prepare(`SELECT * FROM ${table} WHERE start_block = ?`).get(blockNumber + 1) as any;
+
+      let startBlock = blockNumber;
+      if (prev && prev.end_block === blockNumber - 1) {
+        startBlock = prev.start_block;
+        this.db.prepare(`DELETE FROM ${table} WHERE start_block = ?`).run(prev.start_block);
+      }
+
+      let endBlock = blockNumber;
+      let endTimestamp = timestamp;
+      if (next) {
+        endBlock = next.end_block;
+        endTimestamp = next.end_timestamp;
+        this.db.prepare(`DELETE FROM ${table} WHERE start_block = ?`).run(next.start_block);
+      }
+
+      this.db.prepare(`INSERT INTO ${table} (start_block, end_block, end_timestamp) VALUES (?, ?, ?)`)
+        .run(startBlock, endBlock, endTimestamp);
+    });
+
+    merge();
+  }
+
+  /**
+   * Remove a single block from the scanned ranges, splitting the range containing it
+   */
+  private unmarkScanned(table: string, blockNumber: number): void {
+    const range = this.db.prepare(`SELECT * FROM ${table} WHERE start_block <= ? ORDER BY start_block DESC LIMIT 1`)
+      .get(blockNumber) as any;
+    if (!range || range.end_block < blockNumber) {
+      return;
+    }
+
+    this.db.prepare(`DELETE FROM ${table} WHERE start_block = ?`).run(range.start_block);
+
+    // The timestamp of the block before is unknown, so the left part keeps the nearest known one
+    if (range.start_block < blockNumber) {
+      this.db.prepare(`INSERT INTO ${table} (start_block, end_block, end_timestamp) VALUES (?, ?, ?)`)
+        .run(range.start_block, blockNumber - 1, range.end_timestamp);
+    }
+    if (range.end_block > blockNumber) {
+      this.db.prepare(`INSERT INTO ${table} (start_block, end_block, end_timestamp) VALUES (?, ?, ?)`)
+        .run(blockNumber + 1, range.end_block, range.end_timestamp);
+    }
+  }
+
+  private isScanned(table: string, blockNumber: number): boolean {
+    const row = this.db.prepare(`SELECT end_block FROM ${table} WHERE start_block <= ? ORDER BY start_block DESC LIMIT 1`)
+      .get(blockNumber) as { end_block: number } | undefined;
+    return row !== undefined && row.end_block >= blockNumber;
+  }
+
+  private getLatestScanned(table: string): Block | null {
+    const row = this.db.prepare(`SELECT * FROM ${table} ORDER BY start_block DESC LIMIT 1`).get() as any;
+    return row ? { blockNumber: row.end_block, timestamp: row.end_timestamp } : null;
+  }
+
+  private getScannedRanges(table: string, limit: number): ScannedRange[] {
+    const rows = this.db.prepare(`SELECT * FROM ${table} ORDER BY start_block DESC LIMIT ?`).all(limit) as any[];
+    return rows.map(row => ({ startBlock: row.start_block, endBlock: row.end_block, endTimestamp: row.end_timestamp }));
   }
 
   // ===== EVENT METHODS =====
@@ -446,6 +980,23 @@ export class StakingDatabase {
     }));
   }
 
+  getEventsByTypeRC(eventType: string, limit: number = 100): BlockchainEvent[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM events_rc
+      WHERE event_type = ?
+      ORDER BY block_number DESC
+      LIMIT ?
+    `);
+    const rows = stmt.all(eventType, limit) as any[];
+    return rows.map(row => ({
+      id: row.id,
+      blockNumber: row.block_number,
+      eventId: row.event_id,
+      eventType: row.event_type,
+      data: row.data,
+    }));
+  }
+
   getEventsByTypeAH(eventType: string, limit: number = 100): BlockchainEvent[] {
     const stmt = this.db.prepare(`
       SELECT * FROM events_ah
@@ -487,183 +1038,1130 @@ export class StakingDatabase {
     }));
   }
 
-  // ===== SESSION METHODS =====
-
-  upsertSession(session: Session): void {
-    const stmt = this.db.prepare(`
-      INSERT INTO sessions (
-        session_id, block_number, activation_timestamp, active_era_id, planned_era_id, validator_points_total
-      ) VALUES (?, ?, ?, ?, ?, ?)
-      ON CONFLICT(session_id) DO UPDATE SET
-        block_number = COALESCE(excluded.block_number, block_number),
-        activation_timestamp = COALESCE(excluded.activation_timestamp, activation_timestamp),
-        active_era_id = COALESCE(excluded.active_era_id, active_era_id),
-        planned_era_id = COALESCE(excluded.planned_era_id, planned_era_id),
-        validator_points_total = CASE WHEN excluded.validator_points_total > 0 THEN excluded.validator_points_total ELSE validator_points_total END
-    `);
+  // ===== SESSION METHODS =====
+
+  upsertSession(session: Session): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO sessions (
+        session_id, block_number, activation_timestamp, active_era_id, planned_era_id, validator_points_total
+      ) VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(session_id) DO UPDATE SET
+        block_number = COALESCE(excluded.block_number, block_number),
+        activation_timestamp = COALESCE(excluded.activation_timestamp, activation_timestamp),
+        active_era_id = COALESCE(excluded.active_era_id, active_era_id),
+        planned_era_id = COALESCE(excluded.planned_era_id, planned_era_id),
+        validator_points_total = CASE WHEN excluded.validator_points_total > 0 THEN excluded.validator_points_total ELSE validator_points_total END
+    `);
+
+    stmt.run(
+      session.sessionId,
+      session.blockNumber,
+      session.activationTimestamp,
+      session.activeEraId,
+      session.plannedEraId,
+      session.validatorPointsTotal
+    );
+  }
+
+  getSession(sessionId: number): Session | null {
+    const stmt = this.db.prepare('SELECT * FROM sessions WHERE session_id = ?');
+    const row = stmt.get(sessionId) as any;
+    return row ? {
+      sessionId: row.session_id,
+      blockNumber: row.block_number,
+      activationTimestamp: row.activation_timestamp,
+      activeEraId: row.active_era_id,
+      plannedEraId: row.planned_era_id,
+      validatorPointsTotal: row.validator_points_total,
+      rcBlockNumber: row.rc_block_number,
+    } : null;
+  }
+
+  getLatestSession(): Session | null {
+    const stmt = this.db.prepare('SELECT * FROM sessions ORDER BY session_id DESC LIMIT 1');
+    const row = stmt.get() as any;
+    return row ? {
+      sessionId: row.session_id,
+      blockNumber: row.block_number,
+      activationTimestamp: row.activation_timestamp,
+      activeEraId: row.active_era_id,
+      plannedEraId: row.planned_era_id,
+      validatorPointsTotal: row.validator_points_total,
+      rcBlockNumber: row.rc_block_number,
+    } : null;
+  }
+
+  /**
+   * Get the most recent session whose report has been received (block_number set),
+   * optionally restricted to sessions before the given session id
+   */
+  getLatestReportedSession(beforeSessionId?: number): Session | null {
+    const stmt = this.db.prepare(`
+      SELECT * FROM sessions
+      WHERE block_number IS NOT NULL AND session_id < ?
+      ORDER BY session_id DESC
+      LIMIT 1
+    `);
+    const row = stmt.get(beforeSessionId ?? Number.MAX_SAFE_INTEGER) as any;
+    return row ? {
+      sessionId: row.session_id,
+      blockNumber: row.block_number,
+      activationTimestamp: row.activation_timestamp,
+      activeEraId: row.active_era_id,
+      plannedEraId: row.planned_era_id,
+      validatorPointsTotal: row.validator_points_total,
+      rcBlockNumber: row.rc_block_number,
+    } : null;
+  }
+
+  getSessionsByEra(eraId: number): Session[] {
+    const stmt = this.db.prepare('SELECT * FROM sessions WHERE active_era_id = ? ORDER BY session_id');
+    const rows = stmt.all(eraId) as any[];
+    return rows.map(row => ({
+      sessionId: row.session_id,
+      blockNumber: row.block_number,
+      activationTimestamp: row.activation_timestamp,
+      activeEraId: row.active_era_id,
+      plannedEraId: row.planned_era_id,
+      validatorPointsTotal: row.validator_points_total,
+      rcBlockNumber: row.rc_block_number,
+    }));
+  }
+
+  getAllSessions(limit: number = 100): Session[] {
+    const stmt = this.db.prepare('SELECT * FROM sessions ORDER BY session_id DESC LIMIT ?');
+    const rows = stmt.all(limit) as any[];
+    return rows.map(row => ({
+      sessionId: row.session_id,
+      blockNumber: row.block_number,
+      activationTimestamp: row.activation_timestamp,
+      activeEraId: row.active_era_id,
+      plannedEraId: row.planned_era_id,
+      validatorPointsTotal: row.validator_points_total,
+      rcBlockNumber: row.rc_block_number,
+    }));
+  }
+
+  /**
+   * Link an AH session to the RC block where it began, once both sides are indexed
+   */
+  linkSessionToRc(sessionId: number): void {
+    const stmt = this.db.prepare(`
+      UPDATE sessions
+      SET rc_block_number = (SELECT block_number FROM sessions_rc WHERE session_id = ?)
+      WHERE session_id = ?
+    `);
+    stmt.run(sessionId, sessionId);
+  }
+
+  // ===== RC SESSION METHODS =====
+
+  upsertRcSession(session: { sessionId: number; blockNumber: number; timestamp: number; newSetQueued: boolean }): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO sessions_rc (session_id, block_number, timestamp, new_set_queued)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(session_id) DO UPDATE SET
+        block_number = excluded.block_number,
+        timestamp = excluded.timestamp,
+        new_set_queued = MAX(new_set_queued, excluded.new_set_queued)
+    `);
+
+    stmt.run(session.sessionId, session.blockNumber, session.timestamp, session.newSetQueued ? 1 : 0);
+  }
+
+  /**
+   * Mark the RC session that began in this block as having a new validator set queued
+   */
+  markRcSessionQueued(blockNumber: number): void {
+    const stmt = this.db.prepare('UPDATE sessions_rc SET new_set_queued = 1 WHERE block_number = ?');
+    stmt.run(blockNumber);
+  }
+
+  /**
+   * Record a validator set received from AH against the RC session in progress at this block
+   */
+  setRcValidatorSetReceived(blockNumber: number, validatorSetId: number, validatorSetCount: number | null): number | null {
+    const row = this.db.prepare(`
+      SELECT session_id FROM sessions_rc
+      WHERE block_number <= ?
+      ORDER BY block_number DESC
+      LIMIT 1
+    `).get(blockNumber) as { session_id: number } | undefined;
+
+    if (!row) return null;
+
+    this.db.prepare(`
+      UPDATE sessions_rc
+      SET validator_set_id = ?, validator_set_count = ?, validator_set_block_number = ?
+      WHERE session_id = ?
+    `).run(validatorSetId, validatorSetCount, blockNumber, row.session_id);
+
+    return row.session_id;
+  }
+
+  /**
+   * Get RC sessions with session_id >= fromSessionId, oldest first
+   */
+  getRcSessionsFrom(fromSessionId: number): RcSession[] {
+    const stmt = this.db.prepare('SELECT * FROM sessions_rc WHERE session_id >= ? ORDER BY session_id');
+    const rows = stmt.all(fromSessionId) as any[];
+    return rows.map(row => this.toRcSession(row));
+  }
+
+  getRcSession(sessionId: number): RcSession | null {
+    const stmt = this.db.prepare('SELECT * FROM sessions_rc WHERE session_id = ?');
+    const row = stmt.get(sessionId) as any;
+    return row ? this.toRcSession(row) : null;
+  }
+
+  getAllRcSessions(limit: number = 100): RcSession[] {
+    const stmt = this.db.prepare('SELECT * FROM sessions_rc ORDER BY session_id DESC LIMIT ?');
+    const rows = stmt.all(limit) as any[];
+    return rows.map(row => this.toRcSession(row));
+  }
+
+  private toRcSession(row: any): RcSession {
+    return {
+      sessionId: row.session_id,
+      blockNumber: row.block_number,
+      timestamp: row.timestamp,
+      newSetQueued: row.new_set_queued === 1,
+      validatorSetId: row.validator_set_id,
+      validatorSetCount: row.validator_set_count,
+      validatorSetBlockNumber: row.validator_set_block_number,
+    };
+  }
+
+  // ===== CONSISTENCY METHODS =====
+
+  /**
+   * Record an issue found by the consistency checker; re-opens it if it was resolved
+   */
+  upsertConsistencyIssue(issue: { key: string; kind: ConsistencyIssueKind; sessionId: number | null; eraId: number | null; message: string }, detectedAt: number): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO consistency_issues (issue_key, kind, session_id, era_id, message, detected_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(issue_key) DO UPDATE SET
+        message = excluded.message,
+        resolved_at = NULL
+    `);
+
+    stmt.run(issue.key, issue.kind, issue.sessionId, issue.eraId, issue.message, detectedAt);
+  }
+
+  /**
+   * Resolve a consistency issue that is no longer detected
+   */
+  resolveConsistencyIssue(key: string, resolvedAt: number): void {
+    const stmt = this.db.prepare('UPDATE consistency_issues SET resolved_at = ? WHERE issue_key = ? AND resolved_at IS NULL');
+    stmt.run(resolvedAt, key);
+  }
+
+  getConsistencyIssue(key: string): ConsistencyIssue | null {
+    const stmt = this.db.prepare('SELECT * FROM consistency_issues WHERE issue_key = ?');
+    const row = stmt.get(key) as any;
+    return row ? this.toConsistencyIssue(row) : null;
+  }
+
+  getOpenConsistencyIssues(): ConsistencyIssue[] {
+    const stmt = this.db.prepare('SELECT * FROM consistency_issues WHERE resolved_at IS NULL ORDER BY id');
+    const rows = stmt.all() as any[];
+    return rows.map(row => this.toConsistencyIssue(row));
+  }
+
+  private toConsistencyIssue(row: any): ConsistencyIssue {
+    return {
+      id: row.id,
+      key: row.issue_key,
+      kind: row.kind,
+      sessionId: row.session_id,
+      eraId: row.era_id,
+      message: row.message,
+      detectedAt: row.detected_at,
+      resolvedAt: row.resolved_at,
+    };
+  }
+
+  // ===== ERA METHODS =====
+
+  upsertEra(era: Era): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO eras (era_id, session_start, session_end, start_time, inflation_total, inflation_validators, inflation_treasury, validators_elected)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(era_id) DO UPDATE SET
+        session_start = excluded.session_start,
+        session_end = excluded.session_end,
+        start_time = excluded.start_time,
+        inflation_total = COALESCE(excluded.inflation_total, inflation_total),
+        inflation_validators = COALESCE(excluded.inflation_validators, inflation_validators),
+        inflation_treasury = COALESCE(excluded.inflation_treasury, inflation_treasury),
+        validators_elected = COALESCE(excluded.validators_elected, validators_elected)
+    `);
+
+    stmt.run(
+      era.eraId,
+      era.sessionStart,
+      era.sessionEnd,
+      era.startTime,
+      (era as any).inflationTotal || null,
+      (era as any).inflationValidators || null,
+      (era as any).inflationTreasury || null,
+      (era as any).validatorsElected || null
+    );
+  }
+
+  updateEraInflation(eraId: number, inflationTotal: string, inflationValidators: string, inflationTreasury: string): void {
+    const stmt = this.db.prepare(`
+      UPDATE eras
+      SET inflation_total = ?, inflation_validators = ?, inflation_treasury = ?
+      WHERE era_id = ?
+    `);
+
+    stmt.run(inflationTotal, inflationValidators, inflationTreasury, eraId);
+  }
+
+  updateEraValidatorCount(eraId: number, validatorsElected: number): void {
+    const stmt = this.db.prepare(`
+      UPDATE eras
+      SET validators_elected = ?
+      WHERE era_id = ?
+    `);
+
+    stmt.run(validatorsElected, eraId);
+  }
+
+  /**
+   * Replace the validator set elected during an era
+   */
+  setElectedValidators(eraId: number, validators: string[]): void {
+    const insert = this.db.prepare('INSERT OR IGNORE INTO era_elected_validators (era_id, validator) VALUES (?, ?)');
+
+    const transaction = this.db.transaction(() => {
+      this.db.prepare('DELETE FROM era_elected_validators WHERE era_id = ?').run(eraId);
+      for (const validator of validators) {
+        insert.run(eraId, validator);
+      }
+    });
+    transaction();
+  }
+
+  getElectedValidators(eraId: number): string[] {
+    const rows = this.db.prepare('SELECT validator FROM era_elected_validators WHERE era_id = ? ORDER BY validator ASC')
+      .all(eraId) as { validator: string }[];
+    return rows.map(row => row.validator);
+  }
+
+  /**
+   * Compare the set elected during an era with the closest earlier era that has a stored set
+   */
+  getValidatorSetDiff(eraId: number): ValidatorSetDiff | null {
+    const current = this.getElectedValidators(eraId);
+    if (current.length === 0) return null;
+
+    const previousRow = this.db.prepare('SELECT MAX(era_id) AS era_id FROM era_elected_validators WHERE era_id < ?')
+      .get(eraId) as { era_id: number | null };
+    const previousEraId = previousRow.era_id;
+    const previous = previousEraId !== null ? this.getElectedValidators(previousEraId) : [];
+
+    const currentSet = new Set(current);
+    const previousSet = new Set(previous);
+    const added = current.filter(validator => !previousSet.has(validator));
+    const removed = previous.filter(validator => !currentSet.has(validator));
+
+    return {
+      eraId,
+      previousEraId,
+      validatorCount: current.length,
+      previousValidatorCount: previous.length,
+      added,
+      removed,
+      retained: current.filter(validator => previousSet.has(validator)),
+      churnPercent: previousEraId !== null
+        ? ((added.length + removed.length) / (current.length + previous.length)) * 100
+        : null,
+    };
+  }
+
+  getEra(eraId: number): Era | null {
+    const stmt = this.db.prepare('SELECT * FROM eras WHERE era_id = ?');
+    const row = stmt.get(eraId) as any;
+    return row ? {
+      eraId: row.era_id,
+      sessionStart: row.session_start,
+      sessionEnd: row.session_end,
+      startTime: row.start_time,
+      inflationTotal: row.inflation_total,
+      inflationValidators: row.inflation_validators,
+      inflationTreasury: row.inflation_treasury,
+      validatorsElected: row.validators_elected,
+    } : null;
+  }
+
+  getLatestEra(): Era | null {
+    const stmt = this.db.prepare('SELECT * FROM eras ORDER BY era_id DESC LIMIT 1');
+    const row = stmt.get() as any;
+    return row ? {
+      eraId: row.era_id,
+      sessionStart: row.session_start,
+      sessionEnd: row.session_end,
+      startTime: row.start_time,
+      inflationTotal: row.inflation_total,
+      inflationValidators: row.inflation_validators,
+      inflationTreasury: row.inflation_treasury,
+      validatorsElected: row.validators_elected,
+    } : null;
+  }
+
+  getRecentEras(limit: number = 100): Era[] {
+    const stmt = this.db.prepare('SELECT * FROM eras ORDER BY era_id DESC LIMIT ?');
+    const rows = stmt.all(limit) as any[];
+    return rows.map(row => ({
+      eraId: row.era_id,
+      sessionStart: row.session_start,
+      sessionEnd: row.session_end,
+      startTime: row.start_time,
+      inflationTotal: row.inflation_total,
+      inflationValidators: row.inflation_validators,
+      inflationTreasury: row.inflation_treasury,
+      validatorsElected: row.validators_elected,
+    }));
+  }
+
+  // ===== REWARD METHODS =====
+
+  /**
+   * Store an era's reward snapshot: totals plus points, exposure pages and claimed pages per validator
+   */
+  upsertEraRewards(
+    eraId: number,
+    validatorPayout: string | null,
+    totalPoints: number,
+    snapshotBlockNumber: number,
+    validators: { validator: string; points: number; pageCount: number | null; claimedPages: number }[]
+  ): void {
+    const upsertEra = this.db.prepare(`
+      INSERT INTO era_rewards (era_id, validator_payout, total_points, snapshot_block_number, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(era_id) DO UPDATE SET
+        validator_payout = excluded.validator_payout,
+        total_points = excluded.total_points,
+        snapshot_block_number = excluded.snapshot_block_number,
+        updated_at = excluded.updated_at
+    `);
+    const upsertValidator = this.db.prepare(`
+      INSERT INTO era_validator_rewards (era_id, validator, points, page_count, claimed_pages)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(era_id, validator) DO UPDATE SET
+        points = excluded.points,
+        page_count = excluded.page_count,
+        claimed_pages = MAX(claimed_pages, excluded.claimed_pages)
+    `);
+
+    const transaction = this.db.transaction(() => {
+      upsertEra.run(eraId, validatorPayout, totalPoints, snapshotBlockNumber, Date.now());
+      for (const v of validators) {
+        upsertValidator.run(eraId, v.validator, v.points, v.pageCount, v.claimedPages);
+      }
+    });
+    transaction();
+  }
+
+  /**
+   * Raise claimed page counts from a fresh read of staking.claimedRewards
+   */
+  updateClaimedPages(eraId: number, claimed: { validator: string; claimedPages: number }[]): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO era_validator_rewards (era_id, validator, claimed_pages)
+      VALUES (?, ?, ?)
+      ON CONFLICT(era_id, validator) DO UPDATE SET
+        claimed_pages = MAX(claimed_pages, excluded.claimed_pages)
+    `);
+
+    const transaction = this.db.transaction(() => {
+      for (const c of claimed) {
+        stmt.run(eraId, c.validator, c.claimedPages);
+      }
+    });
+    transaction();
+  }
+
+  /**
+   * Record a staking.PayoutStarted; reprocessing the same page resets its amount
+   * Returns the payout id that following staking.Rewarded amounts are added to
+   */
+  recordPayoutStarted(payout: { eraId: number; validator: string; page: number | null; blockNumber: number; timestamp: number }): number {
+    const row = this.db.prepare(`
+      INSERT INTO payouts (era_id, validator, page, block_number, timestamp, amount)
+      VALUES (?, ?, ?, ?, ?, '0')
+      ON CONFLICT(era_id, validator, page) DO UPDATE SET
+        block_number = excluded.block_number,
+        timestamp = excluded.timestamp,
+        amount = '0'
+      RETURNING id
+    `).get(payout.eraId, payout.validator, payout.page, payout.blockNumber, payout.timestamp) as { id: number };
+
+    // Payouts for eras we have not snapshotted still show up per validator
+    this.db.prepare('INSERT OR IGNORE INTO era_validator_rewards (era_id, validator) VALUES (?, ?)')
+      .run(payout.eraId, payout.validator);
+
+    return row.id;
+  }
+
+  addPayoutAmount(payoutId: number, amount: string): void {
+    const row = this.db.prepare('SELECT amount FROM payouts WHERE id = ?').get(payoutId) as { amount: string } | undefined;
+    if (!row) return;
+
+    const total = (BigInt(row.amount) + BigInt(amount)).toString();
+    this.db.prepare('UPDATE payouts SET amount = ? WHERE id = ?').run(total, payoutId);
+  }
+
+  /**
+   * Snapshotted eras from fromEra on that still have unclaimed pages
+   */
+  getErasWithUnclaimedPages(fromEra: number): number[] {
+    const rows = this.db.prepare(`
+      SELECT DISTINCT v.era_id FROM era_validator_rewards v
+      WHERE v.era_id >= ? AND v.page_count IS NOT NULL
+        AND MAX(v.claimed_pages, (SELECT COUNT(*) FROM payouts p WHERE p.era_id = v.era_id AND p.validator = v.validator)) < v.page_count
+      ORDER BY v.era_id ASC
+    `).all(fromEra) as { era_id: number }[];
+    return rows.map(row => row.era_id);
+  }
+
+  /**
+   * Validators with unclaimed payout pages in snapshotted eras, with their era's payout totals
+   */
+  getUnclaimedValidatorRewards(): {
+    eraId: number;
+    validator: string;
+    points: number;
+    pageCount: number;
+    claimedPages: number;
+    validatorPayout: string | null;
+    totalPoints: number;
+  }[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM (
+        SELECT v.era_id, v.validator, v.points, v.page_count,
+          MAX(v.claimed_pages, (SELECT COUNT(*) FROM payouts p WHERE p.era_id = v.era_id AND p.validator = v.validator)) AS claimed_pages,
+          r.validator_payout, r.total_points
+        FROM era_validator_rewards v
+        LEFT JOIN era_rewards r ON r.era_id = v.era_id
+        WHERE v.page_count IS NOT NULL
+      )
+      WHERE claimed_pages < page_count
+      ORDER BY era_id ASC, points DESC, validator ASC
+    `).all() as any[];
+    return rows.map(row => ({
+      eraId: row.era_id,
+      validator: row.validator,
+      points: row.points,
+      pageCount: row.page_count,
+      claimedPages: row.claimed_pages,
+      validatorPayout: row.validator_payout ?? null,
+      totalPoints: row.total_points ?? 0,
+    }));
+  }
+
+  getValidatorEraRewards(eraId: number): { validator: string; points: number; pageCount: number | null; claimedPages: number }[] {
+    const rows = this.db.prepare('SELECT * FROM era_validator_rewards WHERE era_id = ? ORDER BY points DESC, validator ASC')
+      .all(eraId) as any[];
+    return rows.map(row => ({
+      validator: row.validator,
+      points: row.points,
+      pageCount: row.page_count,
+      claimedPages: row.claimed_pages,
+    }));
+  }
+
+  getPayouts(eraId: number): { validator: string; page: number | null; blockNumber: number; timestamp: number; amount: string }[] {
+    const rows = this.db.prepare('SELECT * FROM payouts WHERE era_id = ? ORDER BY timestamp ASC, id ASC').all(eraId) as any[];
+    return rows.map(row => ({
+      validator: row.validator,
+      page: row.page,
+      blockNumber: row.block_number,
+      timestamp: row.timestamp,
+      amount: row.amount,
+    }));
+  }
+
+  // ===== SLASH METHODS =====
+
+  /**
+   * Record a reported offence (staking.OffenceReported / staking.SlashReported)
+   * A later report for the same offence era keeps the highest fraction and the status the slash has reached
+   */
+  recordOffenceReported(offence: { chain: ChainLayer; offender: string; offenceEra: number; fractionPerbill: number | null; blockNumber: number; timestamp: number }): number {
+    const row = this.db.prepare(`
+      INSERT INTO slashes (chain, offender, offence_era, fraction_perbill, status, reported_block, reported_at, updated_block)
+      VALUES (?, ?, ?, ?, 'reported', ?, ?, ?)
+      ON CONFLICT(chain, offender, offence_era) DO UPDATE SET
+        fraction_perbill = COALESCE(MAX(fraction_perbill, excluded.fraction_perbill), fraction_perbill, excluded.fraction_perbill),
+        reported_block = COALESCE(reported_block, excluded.reported_block),
+        reported_at = COALESCE(reported_at, excluded.reported_at),
+        updated_block = MAX(updated_block, excluded.updated_block)
+      RETURNING id
+    `).get(
+      offence.chain,
+      offence.offender,
+      offence.offenceEra,
+      offence.fractionPerbill,
+      offence.blockNumber,
+      offence.timestamp,
+      offence.blockNumber,
+    ) as { id: number };
+    return row.id;
+  }
+
+  /**
+   * Record a staking.SlashComputed: the slash is queued for its slash era until staking.Slashed applies it
+   */
+  recordSlashComputed(slash: { chain: ChainLayer; offender: string; offenceEra: number; slashEra: number; blockNumber: number }): number {
+    const row = this.db.prepare(`
+      INSERT INTO slashes (chain, offender, offence_era, slash_era, status, updated_block)
+      VALUES (?, ?, ?, ?, 'deferred', ?)
+      ON CONFLICT(chain, offender, offence_era) DO UPDATE SET
+        slash_era = excluded.slash_era,
+        status = CASE WHEN status IN ('applied', 'cancelled') THEN status ELSE 'deferred' END,
+        updated_block = MAX(updated_block, excluded.updated_block)
+      RETURNING id
+    `).get(slash.chain, slash.offender, slash.offenceEra, slash.slashEra, slash.blockNumber) as { id: number };
+    return row.id;
+  }
+
+  /**
+   * Record a staking.SlashCancelled for the offender's pending slash in slashEra
+   * Returns the number of slashes cancelled
+   */
+  cancelSlash(slash: { chain: ChainLayer; offender: string; slashEra: number; blockNumber: number }): number {
+    const result = this.db.prepare(`
+      UPDATE slashes SET status = 'cancelled', updated_block = ?
+      WHERE chain = ? AND offender = ? AND slash_era = ? AND status IN ('reported', 'deferred')
+    `).run(slash.blockNumber, slash.chain, slash.offender, slash.slashEra);
+    return result.changes;
+  }
+
+  /**
+   * Record a staking.Slashed and return the slash it belongs to
+   * The staker's own pending slash is marked applied; otherwise the staker is a nominator of the
+   * offender slashed earlier in the same block (currentSlashId). Slashes without either are recorded
+   * as applied with no offence era (the offence predates what we indexed).
+   */
+  recordSlashed(slashed: {
+    chain: ChainLayer;
+    eventId: string;
+    staker: string;
+    amount: string;
+    blockNumber: number;
+    timestamp: number;
+    slashEra: number | null;
+    currentSlashId: number | null;
+  }): number {
+    const transaction = this.db.transaction((): number => {
+      // Reprocessed event: keep the slash it was attributed to
+      const existing = this.db.prepare('SELECT slash_id FROM slashed_stakers WHERE chain = ? AND event_id = ?')
+        .get(slashed.chain, slashed.eventId) as { slash_id: number } | undefined;
+
+      let slashId = existing?.slash_id ?? null;
+
+      if (slashId === null) {
+        const pending = this.db.prepare(`
+          SELECT id FROM slashes
+          WHERE chain = ? AND offender = ? AND status IN ('reported', 'deferred')
+          ORDER BY slash_era IS NULL, slash_era ASC, id ASC
+          LIMIT 1
+        `).get(slashed.chain, slashed.staker) as { id: number } | undefined;
+
+        if (pending) {
+          slashId = pending.id;
+          this.db.prepare(`
+            UPDATE slashes SET status = 'applied', applied_block = ?, applied_at = ?,
+              slash_era = COALESCE(slash_era, ?), updated_block = MAX(updated_block, ?)
+            WHERE id = ?
+          `).run(slashed.blockNumber, slashed.timestamp, slashed.slashEra, slashed.blockNumber, slashId);
+        } else if (slashed.currentSlashId !== null) {
+          slashId = slashed.currentSlashId;
+        } else {
+          const row = this.db.prepare(`
+            INSERT INTO slashes (chain, offender, slash_era, status, applied_block, applied_at, updated_block)
+            VALUES (?, ?, ?, 'applied', ?, ?, ?)
+            RETURNING id
+          `).get(
+            slashed.chain,
+            slashed.staker,
+            slashed.slashEra,
+            slashed.blockNumber,
+            slashed.timestamp,
+            slashed.blockNumber,
+          ) as { id: number };
+          slashId = row.id;
+        }
+      }
+
+      this.db.prepare(`
+        INSERT OR REPLACE INTO slashed_stakers (chain, event_id, slash_id, staker, amount, block_number, timestamp)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(slashed.chain, slashed.eventId, slashId, slashed.staker, slashed.amount, slashed.blockNumber, slashed.timestamp);
+
+      return slashId;
+    });
+    return transaction();
+  }
+
+  /**
+   * Slashes, most recently updated first, optionally filtered by status
+   */
+  getSlashes(status: SlashStatus | null = null, limit: number = 100): Slash[] {
+    const rows = status
+      ? this.db.prepare('SELECT * FROM slashes WHERE status = ? ORDER BY updated_block DESC, id DESC LIMIT ?').all(status, limit)
+      : this.db.prepare('SELECT * FROM slashes ORDER BY updated_block DESC, id DESC LIMIT ?').all(limit);
+    const currentEra = this.getLatestEra()?.eraId ?? null;
+    return (rows as any[]).map(row => this.toSlash(row, currentEra));
+  }
+
+  getSlash(id: number): Slash | null {
+    const row = this.db.prepare('SELECT * FROM slashes WHERE id = ?').get(id) as any;
+    if (!row) return null;
+
+    const slash = this.toSlash(row, this.getLatestEra()?.eraId ?? null);
+    slash.stakers = this.getSlashedStakers(id);
+    return slash;
+  }
+
+  getSlashedStakers(slashId: number): SlashedStaker[] {
+    const rows = this.db.prepare('SELECT * FROM slashed_stakers WHERE slash_id = ? ORDER BY block_number ASC, event_id ASC')
+      .all(slashId) as any[];
+    return rows.map(row => ({
+      staker: row.staker,
+      amount: row.amount,
+      blockNumber: row.block_number,
+      timestamp: row.timestamp,
+      eventId: row.event_id,
+    }));
+  }
+
+  private toSlash(row: any, currentEra: number | null): Slash {
+    // Amounts are u128 strings, so they are summed here rather than in SQL
+    const amounts = this.db.prepare('SELECT amount FROM slashed_stakers WHERE slash_id = ?').all(row.id) as { amount: string }[];
+    const amount = amounts.reduce((sum, a) => sum + BigInt(a.amount), BigInt(0));
+
+    return {
+      id: row.id,
+      chain: row.chain,
+      offender: row.offender,
+      offenceEra: row.offence_era,
+      slashEra: row.slash_era,
+      fraction: row.fraction_perbill === null ? null : row.fraction_perbill / 1_000_000_000,
+      status: row.status,
+      overdue: row.status === 'deferred' && row.slash_era !== null && currentEra !== null && row.slash_era < currentEra,
+      amount: amount.toString(),
+      stakersSlashed: amounts.length,
+      reportedBlock: row.reported_block,
+      reportedAt: row.reported_at,
+      appliedBlock: row.applied_block,
+      appliedAt: row.applied_at,
+      updatedBlock: row.updated_block,
+    };
+  }
+
+  // ===== ELECTION INCIDENT METHODS =====
+
+  /**
+   * Open an incident for an election failure or Emergency phase and record its trigger event
+   * While an incident is unrecovered, further triggers are attached to it instead of opening another.
+   * Returns the incident the trigger belongs to.
+   */
+  openElectionIncident(incident: {
+    chain: ChainLayer;
+    cause: ElectionIncidentCause;
+    round: number | null;
+    eraId: number | null;
+    eventId: string;
+    eventType: string;
+    detail: string | null;
+    blockNumber: number;
+    timestamp: number;
+  }): number {
+    const transaction = this.db.transaction((): number => {
+      // Reprocessed trigger: keep the incident it was attributed to
+      const existing = this.db.prepare('SELECT incident_id FROM election_incident_events WHERE chain = ? AND event_id = ?')
+        .get(incident.chain, incident.eventId) as { incident_id: number } | undefined;
+      if (existing) return existing.incident_id;
+
+      const unrecovered = this.getUnrecoveredIncidentId();
+      const incidentId = unrecovered ?? (this.db.prepare(`
+        INSERT INTO election_incidents (chain, cause, status, round, era_id, opened_block, opened_at, opened_event_id)
+        VALUES (?, ?, 'open', ?, ?, ?, ?, ?)
+        RETURNING id
+      `).get(
+        incident.chain,
+        incident.cause,
+        incident.round,
+        incident.eraId,
+        incident.blockNumber,
+        incident.timestamp,
+        incident.eventId,
+      ) as { id: number }).id;
+
+      this.insertIncidentEvent(incidentId, { ...incident, kind: 'trigger' });
+      return incidentId;
+    });
+    return transaction();
+  }
+
+  /**
+   * Record an event against the unrecovered incident, if there is one
+   * Returns the incident id, or null when no incident is unrecovered
+   */
+  recordElectionIncidentEvent(event: {
+    chain: ChainLayer;
+    eventId: string;
+    eventType: string;
+    kind: ElectionIncidentEventKind;
+    detail: string | null;
+    blockNumber: number;
+    timestamp: number;
+  }): number | null {
+    const existing = this.db.prepare('SELECT incident_id FROM election_incident_events WHERE chain = ? AND event_id = ?')
+      .get(event.chain, event.eventId) as { incident_id: number } | undefined;
+    if (existing) return existing.incident_id;
+
+    const incidentId = this.getUnrecoveredIncidentId();
+    if (incidentId === null) return null;
+
+    this.insertIncidentEvent(incidentId, event);
+    return incidentId;
+  }
+
+  /**
+   * A valid solution was queued (multiBlockElectionVerifier.Queued) for the incident
+   */
+  markElectionIncidentQueued(incidentId: number, blockNumber: number, timestamp: number): void {
+    this.db.prepare(`
+      UPDATE election_incidents SET status = 'queued', queued_block = ?, queued_at = ?
+      WHERE id = ? AND status = 'open'
+    `).run(blockNumber, timestamp, incidentId);
+  }
+
+  /**
+   * The queued solution was exported (Export -> Off): the incident is recovered
+   * Returns false when the incident had no queued solution yet, so an export cannot end it
+   */
+  markElectionIncidentRecovered(incidentId: number, blockNumber: number, timestamp: number): boolean {
+    const result = this.db.prepare(`
+      UPDATE election_incidents SET status = 'recovered', recovered_block = ?, recovered_at = ?
+      WHERE id = ? AND status = 'queued'
+    `).run(blockNumber, timestamp, incidentId);
+    return result.changes > 0;
+  }
+
+  /**
+   * Incidents, most recently opened first, optionally filtered by status
+   */
+  getElectionIncidents(status: ElectionIncidentStatus | null = null, limit: number = 50): ElectionIncident[] {
+    const rows = status
+      ? this.db.prepare('SELECT * FROM election_incidents WHERE status = ? ORDER BY opened_block DESC, id DESC LIMIT ?').all(status, limit)
+      : this.db.prepare('SELECT * FROM election_incidents ORDER BY opened_block DESC, id DESC LIMIT ?').all(limit);
+    return (rows as any[]).map(row => this.toElectionIncident(row));
+  }
+
+  getElectionIncident(id: number): ElectionIncident | null {
+    const row = this.db.prepare('SELECT * FROM election_incidents WHERE id = ?').get(id) as any;
+    if (!row) return null;
+
+    const incident = this.toElectionIncident(row);
+    incident.events = this.getElectionIncidentEvents(id);
+    return incident;
+  }
+
+  getElectionIncidentEvents(incidentId: number): ElectionIncidentEvent[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM election_incident_events WHERE incident_id = ?
+      ORDER BY block_number ASC, CAST(SUBSTR(event_id, INSTR(event_id, '-') + 1) AS INTEGER) ASC
+    `).all(incidentId) as any[];
+    return rows.map(row => ({
+      chain: row.chain,
+      eventId: row.event_id,
+      eventType: row.event_type,
+      kind: row.kind,
+      detail: row.detail,
+      blockNumber: row.block_number,
+      timestamp: row.timestamp,
+    }));
+  }
+
+  private getUnrecoveredIncidentId(): number | null {
+    const row = this.db.prepare(`
+      SELECT id FROM election_incidents WHERE status != 'recovered' ORDER BY opened_block DESC, id DESC LIMIT 1
+    `).get() as { id: number } | undefined;
+    return row?.id ?? null;
+  }
+
+  private insertIncidentEvent(incidentId: number, event: {
+    chain: ChainLayer;
+    eventId: string;
+    eventType: string;
+    kind: ElectionIncidentEventKind;
+    detail: string | null;
+    blockNumber: number;
+    timestamp: number;
+  }): void {
+    this.db.prepare(`
+      INSERT OR IGNORE INTO election_incident_events (chain, event_id, incident_id, event_type, kind, detail, block_number, timestamp)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(event.chain, event.eventId, incidentId, event.eventType, event.kind, event.detail, event.blockNumber, event.timestamp);
+  }
+
+  private toElectionIncident(row: any): ElectionIncident {
+    const { count } = this.db.prepare('SELECT COUNT(*) as count FROM election_incident_events WHERE incident_id = ?')
+      .get(row.id) as { count: number };
+
+    return {
+      id: row.id,
+      chain: row.chain,
+      cause: row.cause,
+      status: row.status,
+      round: row.round,
+      eraId: row.era_id,
+      openedBlock: row.opened_block,
+      openedAt: row.opened_at,
+      openedEventId: row.opened_event_id,
+      queuedBlock: row.queued_block,
+      queuedAt: row.queued_at,
+      recoveredBlock: row.recovered_block,
+      recoveredAt: row.recovered_at,
+      recoveryMs: row.recovered_at !== null ? row.recovered_at - row.opened_at : null,
+      eventCount: count,
+    };
+  }
+
+  // ===== STAKING POPULATION METHODS =====
 
-    stmt.run(
-      session.sessionId,
-      session.blockNumber,
-      session.activationTimestamp,
-      session.activeEraId,
-      session.plannedEraId,
-      session.validatorPointsTotal
+  /**
+   * Store the population sample taken when a session ended; a reprocessed session replaces its sample
+   */
+  upsertStakingPopulationSample(sample: StakingPopulationSample): void {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO staking_population (
+        session_id, block_number, timestamp, era_id, validator_count, nominator_count,
+        bags_list_nodes, bags_list_locked, min_nominator_bond, min_validator_bond, min_active_stake
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      sample.sessionId,
+      sample.blockNumber,
+      sample.timestamp,
+      sample.eraId,
+      sample.validatorCount,
+      sample.nominatorCount,
+      sample.bagsListNodes,
+      sample.bagsListLocked === null ? null : sample.bagsListLocked ? 1 : 0,
+      sample.minNominatorBond,
+      sample.minValidatorBond,
+      sample.minActiveStake,
     );
   }
 
-  getSession(sessionId: number): Session | null {
-    const stmt = this.db.prepare('SELECT * FROM sessions WHERE session_id = ?');
-    const row = stmt.get(sessionId) as any;
-    return row ? {
-      sessionId: row.session_id,
-      blockNumber: row.block_number,
-      activationTimestamp: row.activation_timestamp,
-      activeEraId: row.active_era_id,
-      plannedEraId: row.planned_era_id,
-      validatorPointsTotal: row.validator_points_total,
-    } : null;
-  }
-
-  getLatestSession(): Session | null {
-    const stmt = this.db.prepare('SELECT * FROM sessions ORDER BY session_id DESC LIMIT 1');
-    const row = stmt.get() as any;
-    return row ? {
-      sessionId: row.session_id,
-      blockNumber: row.block_number,
-      activationTimestamp: row.activation_timestamp,
-      activeEraId: row.active_era_id,
-      plannedEraId: row.planned_era_id,
-      validatorPointsTotal: row.validator_points_total,
-    } : null;
+  /**
+   * The latest samples up to and including a session (all sessions when omitted), oldest first
+   */
+  getStakingPopulationSamples(limit: number = 100, toSession: number | null = null): StakingPopulationSample[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM (
+        SELECT * FROM staking_population WHERE ? IS NULL OR session_id <= ?
+        ORDER BY session_id DESC LIMIT ?
+      ) ORDER BY session_id ASC
+    `).all(toSession, toSession, limit) as any[];
+    return rows.map(row => this.toStakingPopulationSample(row));
   }
 
-  getSessionsByEra(eraId: number): Session[] {
-    const stmt = this.db.prepare('SELECT * FROM sessions WHERE active_era_id = ? ORDER BY session_id');
-    const rows = stmt.all(eraId) as any[];
-    return rows.map(row => ({
-      sessionId: row.session_id,
-      blockNumber: row.block_number,
-      activationTimestamp: row.activation_timestamp,
-      activeEraId: row.active_era_id,
-      plannedEraId: row.planned_era_id,
-      validatorPointsTotal: row.validator_points_total,
-    }));
+  /**
+   * The run of consecutive locked bags-list samples ending at a session: the session it started in and
+   * how many samples it spans. Null when the bags list was not locked in that session.
+   */
+  getBagsListLockedStreak(sessionId: number): { since: number; samples: number } | null {
+    const row = this.db.prepare(`
+      SELECT MIN(session_id) AS since, COUNT(*) AS samples FROM staking_population
+      WHERE session_id <= ? AND session_id > COALESCE((
+        SELECT MAX(session_id) FROM staking_population
+        WHERE session_id <= ? AND (bags_list_locked IS NULL OR bags_list_locked = 0)
+      ), -1)
+    `).get(sessionId, sessionId) as { since: number | null; samples: number };
+    return row.since === null ? null : { since: row.since, samples: row.samples };
   }
 
-  getAllSessions(limit: number = 100): Session[] {
-    const stmt = this.db.prepare('SELECT * FROM sessions ORDER BY session_id DESC LIMIT ?');
-    const rows = stmt.all(limit) as any[];
-    return rows.map(row => ({
+  private toStakingPopulationSample(row: any): StakingPopulationSample {
+    return {
       sessionId: row.session_id,
       blockNumber: row.block_number,
-      activationTimestamp: row.activation_timestamp,
-      activeEraId: row.active_era_id,
-      plannedEraId: row.planned_era_id,
-      validatorPointsTotal: row.validator_points_total,
-    }));
+      timestamp: row.timestamp,
+      eraId: row.era_id,
+      validatorCount: row.validator_count,
+      nominatorCount: row.nominator_count,
+      bagsListNodes: row.bags_list_nodes,
+      bagsListLocked: row.bags_list_locked === null ? null : row.bags_list_locked === 1,
+      minNominatorBond: row.min_nominator_bond,
+      minValidatorBond: row.min_validator_bond,
+      minActiveStake: row.min_active_stake,
+    };
   }
 
-  // ===== ERA METHODS =====
-
-  upsertEra(era: Era): void {
-    const stmt = this.db.prepare(`
-      INSERT INTO eras (era_id, session_start, session_end, start_time, inflation_total, inflation_validators, inflation_treasury, validators_elected)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-      ON CONFLICT(era_id) DO UPDATE SET
-        session_start = excluded.session_start,
-        session_end = excluded.session_end,
-        start_time = excluded.start_time,
-        inflation_total = COALESCE(excluded.inflation_total, inflation_total),
-        inflation_validators = COALESCE(excluded.inflation_validators, inflation_validators),
-        inflation_treasury = COALESCE(excluded.inflation_treasury, inflation_treasury),
-        validators_elected = COALESCE(excluded.validators_elected, validators_elected)
-    `);
+  // ===== STAKING CLIENT METHODS =====
 
-    stmt.run(
-      era.eraId,
-      era.sessionStart,
-      era.sessionEnd,
-      era.startTime,
-      (era as any).inflationTotal || null,
-      (era as any).inflationValidators || null,
-      (era as any).inflationTreasury || null,
-      (era as any).validatorsElected || null
+  /**
+   * Store the Relay Chain stakingAhClient state sampled when a session started, keeping its Asset Hub side
+   */
+  upsertStakingClientRc(sessionId: number, sample: StakingClientRcSample): void {
+    this.db.prepare(`
+      INSERT INTO staking_client (
+        session_id, rc_block_number, rc_timestamp, mode, queued_set_id, queued_validators,
+        validator_points_count, validator_points_total
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(session_id) DO UPDATE SET
+        rc_block_number = excluded.rc_block_number,
+        rc_timestamp = excluded.rc_timestamp,
+        mode = excluded.mode,
+        queued_set_id = excluded.queued_set_id,
+        queued_validators = excluded.queued_validators,
+        validator_points_count = excluded.validator_points_count,
+        validator_points_total = excluded.validator_points_total
+    `).run(
+      sessionId,
+      sample.blockNumber,
+      sample.timestamp,
+      sample.mode,
+      sample.queuedValidatorSetId,
+      sample.queuedValidatorsCount,
+      sample.validatorPointsCount,
+      sample.validatorPointsTotal,
     );
   }
 
-  updateEraInflation(eraId: number, inflationTotal: string, inflationValidators: string, inflationTreasury: string): void {
-    const stmt = this.db.prepare(`
-      UPDATE eras
-      SET inflation_total = ?, inflation_validators = ?, inflation_treasury = ?
-      WHERE era_id = ?
-    `);
+  /**
+   * Store the Asset Hub stakingRcClient state sampled when a session's report arrived, keeping its Relay Chain side
+   */
+  upsertStakingClientAh(sessionId: number, sample: StakingClientAhSample): void {
+    this.db.prepare(`
+      INSERT INTO staking_client (
+        session_id, ah_block_number, ah_timestamp, last_report_end_index, outgoing_set_id
+      ) VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(session_id) DO UPDATE SET
+        ah_block_number = excluded.ah_block_number,
+        ah_timestamp = excluded.ah_timestamp,
+        last_report_end_index = excluded.last_report_end_index,
+        outgoing_set_id = excluded.outgoing_set_id
+    `).run(
+      sessionId,
+      sample.blockNumber,
+      sample.timestamp,
+      sample.lastSessionReportEndIndex,
+      sample.outgoingValidatorSetId,
+    );
+  }
 
-    stmt.run(inflationTotal, inflationValidators, inflationTreasury, eraId);
+  /**
+   * The latest samples up to and including a session (all sessions when omitted), oldest first
+   */
+  getStakingClientSamples(limit: number = 100, toSession: number | null = null): StakingClientSample[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM (
+        SELECT * FROM staking_client WHERE ? IS NULL OR session_id <= ?
+        ORDER BY session_id DESC LIMIT ?
+      ) ORDER BY session_id ASC
+    `).all(toSession, toSession, limit) as any[];
+    return rows.map(row => this.toStakingClientSample(row));
   }
 
-  updateEraValidatorCount(eraId: number, validatorsElected: number): void {
-    const stmt = this.db.prepare(`
-      UPDATE eras
-      SET validators_elected = ?
-      WHERE era_id = ?
-    `);
+  /**
+   * The latest Relay Chain samples (sessions the RC side was sampled in), newest first
+   */
+  getRecentStakingClientRcSamples(limit: number): StakingClientSample[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM staking_client WHERE rc_block_number IS NOT NULL
+      ORDER BY session_id DESC LIMIT ?
+    `).all(limit) as any[];
+    return rows.map(row => this.toStakingClientSample(row));
+  }
 
-    stmt.run(validatorsElected, eraId);
+  private toStakingClientSample(row: any): StakingClientSample {
+    return {
+      sessionId: row.session_id,
+      relayChain: row.rc_block_number === null ? null : {
+        blockNumber: row.rc_block_number,
+        timestamp: row.rc_timestamp,
+        mode: row.mode,
+        queuedValidatorSetId: row.queued_set_id,
+        queuedValidatorsCount: row.queued_validators,
+        validatorPointsCount: row.validator_points_count,
+        validatorPointsTotal: row.validator_points_total,
+      },
+      assetHub: row.ah_block_number === null ? null : {
+        blockNumber: row.ah_block_number,
+        timestamp: row.ah_timestamp,
+        lastSessionReportEndIndex: row.last_report_end_index,
+        outgoingValidatorSetId: row.outgoing_set_id,
+      },
+    };
   }
 
-  getEra(eraId: number): Era | null {
-    const stmt = this.db.prepare('SELECT * FROM eras WHERE era_id = ?');
-    const row = stmt.get(eraId) as any;
-    return row ? {
-      eraId: row.era_id,
-      sessionStart: row.session_start,
-      sessionEnd: row.session_end,
-      startTime: row.start_time,
-      inflationTotal: row.inflation_total,
-      inflationValidators: row.inflation_validators,
-      inflationTreasury: row.inflation_treasury,
-      validatorsElected: row.validators_elected,
-    } : null;
+  // ===== STORAGE SNAPSHOT METHODS =====
+
+  /**
+   * Store a watched storage item's value; a resampled block replaces the previous value
+   */
+  insertStorageSnapshot(snapshot: StorageSnapshot): void {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO storage_snapshots (
+        watch_id, chain, pallet, item, storage_keys, block_number, timestamp, triggered_by, value
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      snapshot.watchId,
+      snapshot.chain,
+      snapshot.pallet,
+      snapshot.item,
+      JSON.stringify(snapshot.keys),
+      snapshot.blockNumber,
+      snapshot.timestamp,
+      snapshot.triggeredBy,
+      JSON.stringify(snapshot.value ?? null),
+    );
   }
 
-  getLatestEra(): Era | null {
-    const stmt = this.db.prepare('SELECT * FROM eras ORDER BY era_id DESC LIMIT 1');
-    const row = stmt.get() as any;
-    return row ? {
-      eraId: row.era_id,
-      sessionStart: row.session_start,
-      sessionEnd: row.session_end,
-      startTime: row.start_time,
-      inflationTotal: row.inflation_total,
-      inflationValidators: row.inflation_validators,
-      inflationTreasury: row.inflation_treasury,
-      validatorsElected: row.validators_elected,
-    } : null;
+  /**
+   * History of a watched item, newest first
+   */
+  getStorageSnapshots(watchId: string, limit: number = 100): StorageSnapshot[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM storage_snapshots WHERE watch_id = ?
+      ORDER BY block_number DESC LIMIT ?
+    `).all(watchId, limit) as any[];
+    return rows.map(row => this.toStorageSnapshot(row));
   }
 
-  getRecentEras(limit: number = 100): Era[] {
-    const stmt = this.db.prepare('SELECT * FROM eras ORDER BY era_id DESC LIMIT ?');
-    const rows = stmt.all(limit) as any[];
-    return rows.map(row => ({
-      eraId: row.era_id,
-      sessionStart: row.session_start,
-      sessionEnd: row.session_end,
-      startTime: row.start_time,
-      inflationTotal: row.inflation_total,
-      inflationValidators: row.inflation_validators,
-      inflationTreasury: row.inflation_treasury,
-      validatorsElected: row.validators_elected,
-    }));
+  private toStorageSnapshot(row: any): StorageSnapshot {
+    return {
+      watchId: row.watch_id,
+      chain: row.chain,
+      pallet: row.pallet,
+      item: row.item,
+      keys: JSON.parse(row.storage_keys),
+      blockNumber: row.block_number,
+      timestamp: row.timestamp,
+      triggeredBy: row.triggered_by,
+      value: row.value === null ? null : JSON.parse(row.value),
+    };
   }
 
   // ===== WARNING METHODS =====
 
-  insertWarning(warning: Warning): number {
+  /**
+   * Insert a warning. When a dedupKey is given and a warning with the same key
+   * already exists, nothing is inserted and null is returned.
+   */
+  insertWarning(warning: Warning, dedupKey: string | null = null): number | null {
     const stmt = this.db.prepare(`
-      INSERT INTO warnings (
-        era_id, session_id, block_number, type, message, severity, timestamp
-      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+      INSERT OR IGNORE INTO warnings (
+        era_id, session_id, block_number, type, message, severity, timestamp, dedup_key
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     const result = stmt.run(
@@ -673,10 +2171,11 @@ export class StakingDatabase {
       warning.type,
       warning.message,
       warning.severity,
-      warning.timestamp
+      warning.timestamp,
+      dedupKey
     );
 
-    return result.lastInsertRowid as number;
+    return result.changes > 0 ? result.lastInsertRowid as number : null;
   }
 
   getWarningsByEra(eraId: number): Warning[] {
@@ -696,6 +2195,11 @@ export class StakingDatabase {
       message: row.message,
       severity: row.severity,
       timestamp: row.timestamp,
+      status: row.status,
+      note: row.note,
+      acknowledgedAt: row.acknowledged_at,
+      resolvedAt: row.resolved_at,
+      autoResolved: row.auto_resolved === 1,
     }));
   }
 
@@ -716,9 +2220,41 @@ export class StakingDatabase {
       message: row.message,
       severity: row.severity,
       timestamp: row.timestamp,
+      status: row.status,
+      note: row.note,
+      acknowledgedAt: row.acknowledged_at,
+      resolvedAt: row.resolved_at,
+      autoResolved: row.auto_resolved === 1,
     }));
   }
 
+  /**
+   * Get warnings raised by a rule that have not been resolved yet
+   * Rule warnings are keyed "<ruleId>:<findingKey>"
+   */
+  getUnresolvedWarningsByRule(ruleId: string): Array<{ id: number; dedupKey: string }> {
+    const stmt = this.db.prepare(`
+      SELECT id, dedup_key FROM warnings
+      WHERE status != 'resolved' AND dedup_key LIKE ?
+    `);
+
+    const rows = stmt.all(`${ruleId}:%`) as any[];
+    return rows.map(row => ({ id: row.id, dedupKey: row.dedup_key }));
+  }
+
+  /**
+   * Mark a warning resolved because its triggering condition cleared
+   */
+  autoResolveWarning(id: number): void {
+    const stmt = this.db.prepare(`
+      UPDATE warnings
+      SET status = 'resolved', resolved_at = ?, auto_resolved = 1
+      WHERE id = ? AND status != 'resolved'
+    `);
+
+    stmt.run(Date.now(), id);
+  }
+
   // ===== INDEXER STATE METHODS =====
 
   setState(key: string, value: string): void {
@@ -814,17 +2350,85 @@ export class StakingDatabase {
     return result.lastInsertRowid as number;
   }
 
-  markPreviousPhaseCompleted(eraId: number, round: number, phase: string): void {
+  /**
+   * Complete a phase at the block where the next one started, recording its actual end
+   */
+  markPreviousPhaseCompleted(eraId: number, round: number, phase: string, endBlockNumber: number, endTimestamp: number): void {
     const stmt = this.db.prepare(`
       UPDATE election_phases
-      SET status = 'completed'
+      SET status = 'completed', end_block_number = ?, end_timestamp = ?
       WHERE era_id = ? AND round = ? AND phase = ? AND (status IS NULL OR status = 'ongoing')
     `);
 
-    stmt.run(eraId, round, phase);
+    stmt.run(endBlockNumber, endTimestamp, eraId, round, phase);
+  }
+
+  /**
+   * Phases completed at a block (by the transition in that block)
+   */
+  getElectionPhasesEndedAt(blockNumber: number): ElectionPhaseTiming[] {
+    const rows = this.db.prepare('SELECT * FROM election_phases WHERE end_block_number = ? ORDER BY id ASC')
+      .all(blockNumber) as any[];
+    return rows.map(row => this.toElectionPhaseTiming(row));
+  }
+
+  /**
+   * Start, end and expected duration of the phases of an election round, in order
+   */
+  getElectionPhaseTimeline(round: number): ElectionPhaseTiming[] {
+    const rows = this.db.prepare('SELECT * FROM election_phases WHERE round = ? ORDER BY block_number ASC, id ASC')
+      .all(round) as any[];
+    return rows.map(row => this.toElectionPhaseTiming(row));
+  }
+
+  private toElectionPhaseTiming(row: any): ElectionPhaseTiming {
+    const actualDurationBlocks = row.end_block_number !== null ? row.end_block_number - row.block_number : null;
+    return {
+      id: row.id,
+      eraId: row.era_id,
+      round: row.round,
+      phase: row.phase,
+      status: row.status,
+      startBlock: row.block_number,
+      startTime: row.timestamp,
+      endBlock: row.end_block_number,
+      endTime: row.end_timestamp,
+      expectedDurationBlocks: row.expected_duration_blocks,
+      actualDurationBlocks,
+      overrunBlocks: actualDurationBlocks !== null && row.expected_duration_blocks !== null
+        ? actualDurationBlocks - row.expected_duration_blocks
+        : null,
+    };
+  }
+
+  /**
+   * Get the most recently started election phase that has not been completed yet
+   */
+  getOngoingElectionPhase(): any | null {
+    const stmt = this.db.prepare(`
+      SELECT * FROM election_phases
+      WHERE status = 'ongoing'
+      ORDER BY block_number DESC, id DESC
+      LIMIT 1
+    `);
+
+    const row = stmt.get() as any;
+    if (!row) return null;
+
+    return {
+      id: row.id,
+      eraId: row.era_id,
+      round: row.round,
+      phase: row.phase,
+      blockNumber: row.block_number,
+      eventId: row.event_id,
+      timestamp: row.timestamp,
+      expectedDurationBlocks: row.expected_duration_blocks,
+      status: row.status,
+    };
   }
 
-  getElectionPhasesByEra(eraId: number): any[] {
+  getElectionPhasesByEra(eraId: number): ElectionPhase[] {
     const stmt = this.db.prepare(`
       SELECT * FROM election_phases
       WHERE era_id = ?
@@ -847,6 +2451,8 @@ export class StakingDatabase {
       sortedScores: row.sorted_scores,
       queuedSolutionScore: row.queued_solution_score,
       validatorsElected: row.validators_elected,
+      expectedDurationBlocks: row.expected_duration_blocks,
+      status: row.status,
     }));
   }
 
@@ -876,6 +2482,8 @@ export class StakingDatabase {
       sortedScores: row.sorted_scores,
       queuedSolutionScore: row.queued_solution_score,
       validatorsElected: row.validators_elected,
+      expectedDurationBlocks: row.expected_duration_blocks,
+      status: row.status,
     };
   }
 
@@ -1135,13 +2743,15 @@ export class StakingDatabase {
       sortedScores: row.sorted_scores,
       queuedSolutionScore: row.queued_solution_score,
       validatorsElected: row.validators_elected,
+      expectedDurationBlocks: row.expected_duration_blocks,
+      status: row.status,
     }));
   }
 
   // ===== MAINTENANCE METHODS =====
 
   /**
-   * Prune old eras beyond the configured maximum
+   * Prune old eras beyond the configured maximum, with the sessions and snapshots taken before the oldest kept era
    */
   pruneOldEras(): number {
     const latestEra = this.getLatestEra();
@@ -1154,8 +2764,25 @@ export class StakingDatabase {
     const stmt = this.db.prepare('DELETE FROM eras WHERE era_id < ?');
     const result = stmt.run(cutoffEra);
 
+    // Reward tables are not tied to eras by foreign keys (payouts can precede the era row)
+    this.db.prepare('DELETE FROM era_elected_validators WHERE era_id < ?').run(cutoffEra);
+    this.db.prepare('DELETE FROM era_rewards WHERE era_id < ?').run(cutoffEra);
+    this.db.prepare('DELETE FROM era_validator_rewards WHERE era_id < ?').run(cutoffEra);
+    this.db.prepare('DELETE FROM payouts WHERE era_id < ?').run(cutoffEra);
+
     if (result.changes > 0) {
-      this.logger.info({ cutoffEra, deleted: result.changes }, 'Pruned old eras');
+      // Per-session and per-block tables carry no era; they are cut where the oldest kept era starts
+      const oldestKept = this.db.prepare(`
+        SELECT session_start, start_time FROM eras ORDER BY era_id ASC LIMIT 1
+      `).get() as { session_start: number; start_time: number };
+      this.db.prepare('DELETE FROM sessions WHERE session_id < ?').run(oldestKept.session_start);
+      this.db.prepare('DELETE FROM sessions_rc WHERE session_id < ?').run(oldestKept.session_start);
+      this.db.prepare('DELETE FROM staking_population WHERE session_id < ?').run(oldestKept.session_start);
+      this.db.prepare('DELETE FROM staking_client WHERE session_id < ?').run(oldestKept.session_start);
+      // Snapshots come from both chains, so their block numbers are not comparable; cut by time
+      this.db.prepare('DELETE FROM storage_snapshots WHERE timestamp < ?').run(oldestKept.start_time);
+
+      this.logger.info({ cutoffEra, deleted: result.changes, sessionCutoff: oldestKept.session_start }, 'Pruned old eras');
     }
 
     return result.changes;
@@ -1171,16 +2798,22 @@ export class StakingDatabase {
     const eventsAHCount = this.db.prepare('SELECT COUNT(*) as count FROM events_ah').get() as { count: number };
     const eraCount = this.db.prepare('SELECT COUNT(*) as count FROM eras').get() as { count: number };
     const sessionCount = this.db.prepare('SELECT COUNT(*) as count FROM sessions').get() as { count: number };
+    const rcSessionCount = this.db.prepare('SELECT COUNT(*) as count FROM sessions_rc').get() as { count: number };
+    const scannedRC = this.db.prepare('SELECT COALESCE(SUM(end_block - start_block + 1), 0) as count FROM scanned_ranges_rc').get() as { count: number };
+    const scannedAH = this.db.prepare('SELECT COALESCE(SUM(end_block - start_block + 1), 0) as count FROM scanned_ranges_ah').get() as { count: number };
     const warningCount = this.db.prepare('SELECT COUNT(*) as count FROM warnings').get() as { count: number };
     const electionPhasesCount = this.db.prepare('SELECT COUNT(*) as count FROM election_phases').get() as { count: number };
 
     return {
       blocksRC: blocksRCCount.count,
       blocksAH: blocksAHCount.count,
+      scannedBlocksRC: scannedRC.count,
+      scannedBlocksAH: scannedAH.count,
       eventsRC: eventsRCCount.count,
       eventsAH: eventsAHCount.count,
       eras: eraCount.count,
       sessions: sessionCount.count,
+      sessionsRC: rcSessionCount.count,
       warnings: warningCount.count,
       electionPhases: electionPhasesCount.count,
     };
@@ -1197,6 +2830,17 @@ export class StakingDatabase {
     return result.lastInsertRowid as number;
   }
 
+  /**
+   * Whether a block already has a reimport queued or running
+   */
+  hasOpenReimportRequest(chain: string, blockNumber: number): boolean {
+    const stmt = this.db.prepare(`
+      SELECT 1 FROM reimport_requests
+      WHERE chain = ? AND block_number = ? AND status IN ('pending', 'processing')
+    `);
+    return stmt.get(chain, blockNumber) !== undefined;
+  }
+
   getPendingReimportRequests(limit: number = 5): any[] {
     const stmt = this.db.prepare(`
       SELECT * FROM reimport_requests
@@ -1225,6 +2869,14 @@ export class StakingDatabase {
     stmt.run(status, Date.now(), error || null, id);
   }
 
+  /**
+   * Run a synchronous unit of work (e.g. committing a batch of backfilled blocks) in one transaction.
+   * The work must not await: the write lock the API shares is held until it returns.
+   */
+  transaction<T>(work: () => T): T {
+    return this.db.transaction(work)();
+  }
+
   /**
    * Close database connection
    */
@@ -1,6 +1,9 @@
 import { RpcManager } from './rpc';
 import { StakingDatabase } from './database';
 import { Indexer } from './indexer/Indexer';
+import { WarningEngine } from './warnings';
+import { ConsistencyChecker } from './consistency';
+import { StorageSnapshotter } from './snapshots';
 import { loadConfig } from './utils/config';
 import logger from './utils/logger';
 import * as fs from 'fs';
@@ -12,7 +15,14 @@ async function main() {
 
     // Load configuration
     const config = loadConfig();
-    logger.info({ chain: config.chain, syncBlocks: config.syncBlocks }, 'Configuration loaded');
+    logger.info({
+      chain: config.chain,
+      syncBlocks: config.syncBlocks,
+      syncEras: config.syncEras,
+      backfillConcurrency: config.backfillConcurrency,
+      backfillBatchSize: config.backfillBatchSize,
+      indexMode: config.indexMode,
+    }, 'Configuration loaded');
 
     // Ensure data directory exists
     const dataDir = path.dirname(config.dbPath);
@@ -54,8 +64,24 @@ async function main() {
     const versionAH = await apiAH.rpc.system.version();
     logger.info({ chain: chainAH.toString(), version: versionAH.toString() }, 'Asset Hub info');
 
+    // Initialize warning rules for this chain
+    const warningEngine = new WarningEngine(db, logger, config.warningRules);
+
+    // Reconciles RC session/validator-set events with AH session records
+    const consistencyChecker = new ConsistencyChecker(db, logger, config.warningRules.thresholds);
+
+    // Storage items from config/storage-watch.json, sampled into storage_snapshots
+    const storageSnapshotter = new StorageSnapshotter(apiRC, apiAH, db, logger, config.storageWatch);
+
     // Initialize and start indexer for both chains
-    const indexer = new Indexer(apiRC, apiAH, db, logger, config.syncBlocks);
+    const indexer = new Indexer(apiRC, apiAH, db, logger, config.syncBlocks, warningEngine, consistencyChecker, {
+      concurrency: config.backfillConcurrency,
+      batchSize: config.backfillBatchSize,
+      eras: config.syncEras,
+    }, {
+      mode: config.indexMode,
+      checkpointInterval: config.sparseCheckpointInterval,
+    }, storageSnapshotter);
     await indexer.start();
 
     // Handle graceful shutdown
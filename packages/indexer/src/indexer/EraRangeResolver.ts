@@ -0,0 +1,164 @@
+import type { ApiPromise } from '@polkadot/api';
+import type { Logger } from 'pino';
+import type { EraSyncRange } from '@staking-cc/shared';
+import type { StakingDatabase } from '../database';
+
+export interface ResolvedEraRange {
+  fromEra: number;
+  toEra: number;
+  rc: { from: number; to: number };
+  ah: { from: number; to: number };
+  closed: boolean; // Ends before the active era: nothing after the range is synced
+}
+
+/**
+ * Find the first block in [lo, hi] for which a monotonic predicate holds, or null if none does
+ */
+export async function findFirstBlock(lo: number, hi: number, predicate: (blockNumber: number) => Promise<boolean>): Promise<number | null> {
+  let found: number | null = null;
+
+  while (lo <= hi) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (await predicate(mid)) {
+      found = mid;
+      hi = mid - 1;
+    } else {
+      lo = mid + 1;
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Translates an era range into the RC and AH block ranges that cover it.
+ * AH blocks are located by binary-searching staking.activeEra; RC blocks by binary-searching
+ * session.currentIndex for the session each era started in (staking lives on AH, sessions on RC).
+ */
+export class EraRangeResolver {
+  private apiRC: ApiPromise;
+  private apiAH: ApiPromise;
+  private db: StakingDatabase;
+  private logger: Logger;
+  private activeEraCache = new Map<number, number | null>();
+  private sessionIndexCache = new Map<number, number>();
+
+  constructor(apiRC: ApiPromise, apiAH: ApiPromise, db: StakingDatabase, logger: Logger) {
+    this.apiRC = apiRC;
+    this.apiAH = apiAH;
+    this.db = db;
+    this.logger = logger.child({ component: 'EraRangeResolver' });
+  }
+
+  async resolve(range: EraSyncRange, headRC: number, headAH: number): Promise<ResolvedEraRange> {
+    const activeEra = await this.activeEraAt(headAH);
+    if (activeEra === null) {
+      throw new Error('staking.activeEra is not available on Asset Hub');
+    }
+
+    const fromEra = 'lastEras' in range ? Math.max(0, activeEra - range.lastEras + 1) : range.fromEra;
+    const toEra = 'lastEras' in range ? activeEra : range.toEra ?? activeEra;
+
+    if (fromEra > toEra || toEra > activeEra) {
+      throw new Error(`Invalid era range ${fromEra}-${toEra} (active era is ${activeEra})`);
+    }
+
+    this.logger.info({ fromEra, toEra, activeEra }, 'Resolving block ranges for eras');
+
+    // Asset Hub: first block of fromEra up to the last block of toEra
+    const ahFrom = await findFirstBlock(1, headAH, async n => ((await this.activeEraAt(n)) ?? -1) >= fromEra);
+    if (ahFrom === null) {
+      throw new Error(`Could not find the start of era ${fromEra} on Asset Hub`);
+    }
+
+    let ahTo = headAH;
+    if (toEra < activeEra) {
+      const nextEraStart = await findFirstBlock(ahFrom, headAH, async n => ((await this.activeEraAt(n)) ?? -1) > toEra);
+      ahTo = nextEraStart !== null ? nextEraStart - 1 : headAH;
+    }
+
+    // Relay Chain: blocks of the sessions those eras span
+    const fromSession = await this.eraStartSession(fromEra, headAH);
+    const rcFrom = await findFirstBlock(1, headRC, async n => (await this.sessionIndexAt(n)) >= fromSession);
+    if (rcFrom === null) {
+      throw new Error(`Could not find session ${fromSession} (start of era ${fromEra}) on the Relay Chain`);
+    }
+
+    let rcTo = headRC;
+    if (toEra < activeEra) {
+      const endSession = await this.eraStartSession(toEra + 1, headAH);
+      const nextEraStart = await findFirstBlock(rcFrom, headRC, async n => (await this.sessionIndexAt(n)) >= endSession);
+      rcTo = nextEraStart !== null ? nextEraStart - 1 : headRC;
+    }
+
+    const resolved = { fromEra, toEra, rc: { from: rcFrom, to: rcTo }, ah: { from: ahFrom, to: ahTo }, closed: toEra < activeEra };
+    this.logger.info(resolved, 'Resolved era range to block ranges');
+    return resolved;
+  }
+
+  /**
+   * staking.activeEra on Asset Hub at a block (null before staking was on AH)
+   */
+  private async activeEraAt(blockNumber: number): Promise<number | null> {
+    if (this.activeEraCache.has(blockNumber)) {
+      return this.activeEraCache.get(blockNumber)!;
+    }
+
+    const blockHash = await this.apiAH.rpc.chain.getBlockHash(blockNumber);
+    const apiAt = await this.apiAH.at(blockHash);
+    const activeEraOption = await apiAt.query.staking?.activeEra?.();
+
+    let eraId: number | null = null;
+    if (activeEraOption && !activeEraOption.isEmpty) {
+      const activeEra = (activeEraOption as any).toJSON();
+      eraId = typeof activeEra?.index === 'number' ? activeEra.index : null;
+    }
+
+    this.activeEraCache.set(blockNumber, eraId);
+    return eraId;
+  }
+
+  /**
+   * session.currentIndex on the Relay Chain at a block
+   */
+  private async sessionIndexAt(blockNumber: number): Promise<number> {
+    if (this.sessionIndexCache.has(blockNumber)) {
+      return this.sessionIndexCache.get(blockNumber)!;
+    }
+
+    const blockHash = await this.apiRC.rpc.chain.getBlockHash(blockNumber);
+    const apiAt = await this.apiRC.at(blockHash);
+    const currentIndex = await apiAt.query.session.currentIndex();
+    const sessionIndex = (currentIndex as any).toNumber();
+
+    this.sessionIndexCache.set(blockNumber, sessionIndex);
+    return sessionIndex;
+  }
+
+  /**
+   * Session index an era started in: from the database if indexed, otherwise from AH storage
+   */
+  private async eraStartSession(eraId: number, headAH: number): Promise<number> {
+    const era = this.db.getEra(eraId);
+    if (era) {
+      return era.sessionStart;
+    }
+
+    const blockHash = await this.apiAH.rpc.chain.getBlockHash(headAH);
+    const apiAt = await this.apiAH.at(blockHash);
+
+    const startSessionOption = await apiAt.query.staking?.erasStartSessionIndex?.(eraId);
+    if (startSessionOption && !startSessionOption.isEmpty) {
+      return (startSessionOption as any).toJSON();
+    }
+
+    // staking.bondedEras: [(eraIndex, startSessionIndex)] for eras still in history
+    const bondedEras = await apiAt.query.staking?.bondedEras?.();
+    const entry = ((bondedEras as any)?.toJSON() as [number, number][] | undefined)?.find(([index]) => index === eraId);
+    if (entry) {
+      return entry[1];
+    }
+
+    throw new Error(`Start session of era ${eraId} is not known (not indexed and no longer in staking history)`);
+  }
+}
@@ -2,7 +2,104 @@ import type { ApiPromise } from '@polkadot/api';
 import type { Header, EventRecord } from '@polkadot/types/interfaces';
 import type { Logger } from 'pino';
 import type { StakingDatabase } from '../database';
-import { shouldTrackEventRC, shouldTrackEventAH } from '../utils/eventFilters';
+import { shouldTrackEventRC, shouldTrackEventAH, shouldAggregateEventAH } from '../utils/eventFilters';
+import type { WarningEngine } from '../warnings';
+import type { ConsistencyChecker } from '../consistency';
+import type { SnapshotTrigger, StorageSnapshotter } from '../snapshots';
+import type {
+  ChainLayer,
+  ElectionIncidentEventKind,
+  EraSyncRange,
+  IndexMode,
+  StakingClientAhSample,
+  StakingClientRcSample,
+  StakingPopulationSample,
+  StorageSnapshot,
+} from '@staking-cc/shared';
+import { runOrderedBackfill } from './backfill';
+import { EraRangeResolver } from './EraRangeResolver';
+import { UnclaimedRewardsTracker } from '../rewards';
+
+/**
+ * A block fetched from the chain, ready to be committed to the database
+ * Everything its handlers need from chain storage is read here, so committing makes no chain queries
+ */
+interface FetchedBlock {
+  blockNumber: number;
+  blockHash: string;
+  parentHash: string;
+  timestamp: number;
+  events: EventRecord[];
+  reads: Map<number, EventReads>; // By event index, for events whose handlers need chain state
+  snapshots: StorageSnapshot[]; // Watched storage sampled on this block and its events
+}
+
+/**
+ * Chain state read for one event while its block is fetched
+ */
+interface EventReads {
+  stakingClientRC?: StakingClientRcSample | null; // session.NewSession
+  sessionReport?: SessionReportReads | null; // stakingRcClient.SessionReportReceived
+  phase?: PhaseReads | null; // multiBlockElection.PhaseTransitioned
+  eraRewards?: EraRewardsReads | null; // staking.EraPaid
+  activeEraId?: number | null; // multiBlockElectionSigned score events
+}
+
+interface EraIds {
+  activeEraId: number | null;
+  plannedEraId: number | null;
+}
+
+interface SessionReportReads {
+  endingSession: EraIds; // At block n-1
+  startingSession: EraIds; // At block n
+  population: StakingPopulationSample | null;
+  stakingClient: StakingClientAhSample | null;
+  snapshots: StorageSnapshot[]; // Watched storage for the ended session and the era the report starts
+}
+
+interface PhaseReads {
+  round: number;
+  eraId: number | null; // Active era, not the era being elected for
+  phaseFields: Record<string, unknown>; // Phase-specific columns of the election phase row
+  electedStashes: string[] | null; // Export→Off only, at block n-1
+}
+
+interface EraRewardsReads {
+  validatorPayout: string | null;
+  totalPoints: number;
+  validators: { validator: string; points: number; pageCount: number | null; claimedPages: number }[];
+  historyDepth: number | null;
+  claimedPages: { eraId: number; claimed: { validator: string; claimedPages: number }[] }[]; // Earlier eras still claimable
+}
+
+// Stored blocks checked against the finalized chain per verification run
+const HASH_VERIFY_BATCH = 100;
+
+export interface BackfillSettings {
+  concurrency: number; // Blocks fetched in parallel
+  batchSize: number; // Blocks committed per transaction
+  eras?: EraSyncRange; // Sync the blocks covering these eras instead of the last syncBlocks blocks
+}
+
+const DEFAULT_BACKFILL_SETTINGS: BackfillSettings = { concurrency: 8, batchSize: 100 };
+
+export interface StorageSettings {
+  mode: IndexMode; // sparse: only store blocks with tracked events (every block is still scanned)
+  checkpointInterval: number; // sparse: also store every Nth block so block timestamps stay resolvable
+}
+
+const DEFAULT_STORAGE_SETTINGS: StorageSettings = { mode: 'full', checkpointInterval: 600 };
+
+// Event pallets (and single staking events) followed while an election incident is unrecovered
+const INCIDENT_EVENT_KINDS: Record<string, ElectionIncidentEventKind> = {
+  'multiblockelection': 'phase',
+  'multiblockelectionverifier': 'verifier',
+  'multiblockelectionsigned': 'signed',
+  'staking.forceera': 'governance',
+  'staking.pagedelectionproceeded': 'staking',
+  'staking.stakerselected': 'staking',
+};
 
 export class Indexer {
   private apiRC: ApiPromise;
@@ -15,13 +112,40 @@ export class Indexer {
   private unsubscribeAH: (() => void) | null = null;
   private gapFillerInterval: NodeJS.Timeout | null = null;
   private reimportCheckerInterval: NodeJS.Timeout | null = null;
-
-  constructor(apiRC: ApiPromise, apiAH: ApiPromise, db: StakingDatabase, logger: Logger, syncBlocks: number) {
+  private consistencyCheckerInterval: NodeJS.Timeout | null = null;
+  private hashVerifierInterval: NodeJS.Timeout | null = null;
+  private warningEngine: WarningEngine | null;
+  private consistencyChecker: ConsistencyChecker | null;
+  private backfillOptions: BackfillSettings;
+  private storageOptions: StorageSettings;
+  private storageSnapshotter: StorageSnapshotter | null;
+  // Last staking.PayoutStarted, which the staking.Rewarded events after it in the same block belong to
+  private currentPayout: { blockNumber: number; payoutId: number } | null = null;
+  // Last slash applied to an offender, which the nominator staking.Slashed events after it in the same block belong to
+  private currentSlash: { chain: ChainLayer; blockNumber: number; slashId: number } | null = null;
+
+  constructor(
+    apiRC: ApiPromise,
+    apiAH: ApiPromise,
+    db: StakingDatabase,
+    logger: Logger,
+    syncBlocks: number,
+    warningEngine: WarningEngine | null = null,
+    consistencyChecker: ConsistencyChecker | null = null,
+    backfillOptions: BackfillSettings = DEFAULT_BACKFILL_SETTINGS,
+    storageOptions: StorageSettings = DEFAULT_STORAGE_SETTINGS,
+    storageSnapshotter: StorageSnapshotter | null = null
+  ) {
     this.apiRC = apiRC;
     this.apiAH = apiAH;
     this.db = db;
     this.logger = logger.child({ component: 'Indexer' });
     this.backfillBlocks = syncBlocks;
+    this.warningEngine = warningEngine;
+    this.consistencyChecker = consistencyChecker;
+    this.backfillOptions = backfillOptions;
+    this.storageOptions = storageOptions;
+    this.storageSnapshotter = storageSnapshotter;
   }
 
   /**
@@ -48,24 +172,51 @@ export class Indexer {
       this.logger.info({ currentBlockRC, currentBlockAH }, 'Current finalized blocks');
 
       // Calculate target blocks: current height - syncBlocks (but not less than 1)
-      const targetBlockRC = Math.max(1, currentBlockRC - this.backfillBlocks);
-      const targetBlockAH = Math.max(1, currentBlockAH - this.backfillBlocks);
+      let targetBlockRC = Math.max(1, currentBlockRC - this.backfillBlocks);
+      let targetBlockAH = Math.max(1, currentBlockAH - this.backfillBlocks);
+      let lastBlockRC = currentBlockRC;
+      let lastBlockAH = currentBlockAH;
+      let stopAtRangeEnd = false;
+
+      // Era-based sync: cover exactly the requested eras on both chains
+      if (this.backfillOptions.eras) {
+        try {
+          const resolver = new EraRangeResolver(this.apiRC, this.apiAH, this.db, this.logger);
+          const resolved = await resolver.resolve(this.backfillOptions.eras, currentBlockRC, currentBlockAH);
+
+          targetBlockRC = resolved.rc.from;
+          lastBlockRC = resolved.rc.to;
+          targetBlockAH = resolved.ah.from;
+          lastBlockAH = resolved.ah.to;
+          stopAtRangeEnd = resolved.closed;
+
+          this.db.setMultipleStates({
+            'syncFromEra': resolved.fromEra.toString(),
+            'syncToEra': resolved.toEra.toString(),
+          });
+        } catch (error) {
+          this.logger.error({ error, eras: this.backfillOptions.eras }, 'Failed to resolve era range, falling back to SYNC_BLOCKS');
+        }
+      }
 
       this.logger.info({
         targetBlockRC,
         targetBlockAH,
-        syncBlocks: this.backfillBlocks
+        lastBlockRC,
+        lastBlockAH,
+        syncBlocks: this.backfillOptions.eras ? undefined : this.backfillBlocks,
+        syncEras: this.backfillOptions.eras,
       }, 'Target sync range calculated');
 
       // Count missing blocks before syncing
       let missingBlocksCountRC = 0;
-      for (let i = targetBlockRC; i <= currentBlockRC; i++) {
-        if (!this.db.blockExistsRC(i)) missingBlocksCountRC++;
+      for (let i = targetBlockRC; i <= lastBlockRC; i++) {
+        if (!this.db.blockScannedRC(i)) missingBlocksCountRC++;
       }
 
       let missingBlocksCountAH = 0;
-      for (let i = targetBlockAH; i <= currentBlockAH; i++) {
-        if (!this.db.blockExistsAH(i)) missingBlocksCountAH++;
+      for (let i = targetBlockAH; i <= lastBlockAH; i++) {
+        if (!this.db.blockScannedAH(i)) missingBlocksCountAH++;
       }
 
       // Store current heights, targets, and total missing blocks in state
@@ -80,12 +231,15 @@ export class Indexer {
         'syncedBlocksAH': '0',
         'isSyncingRC': 'true',
         'isSyncingAH': 'true',
+        // A closed era range is a historical snapshot: the indexer stops at its last blocks
+        'syncStopBlockRC': stopAtRangeEnd ? lastBlockRC.toString() : '',
+        'syncStopBlockAH': stopAtRangeEnd ? lastBlockAH.toString() : '',
       });
 
       // Sync missing blocks in range for both chains in parallel
       await Promise.all([
-        this.syncMissingBlocksRC(targetBlockRC, currentBlockRC),
-        this.syncMissingBlocksAH(targetBlockAH, currentBlockAH),
+        this.syncMissingBlocksRC(targetBlockRC, lastBlockRC),
+        this.syncMissingBlocksAH(targetBlockAH, lastBlockAH),
       ]);
 
       // Mark syncing as complete
@@ -94,8 +248,19 @@ export class Indexer {
         'isSyncingAH': 'false',
       });
 
-      // Subscribe to new finalized blocks for both chains
       this.isRunning = true;
+
+      // Blocks after a closed era range are never synced, so neither new blocks nor
+      // the gap filler and consistency checks that assume the indexer follows the chain head run
+      if (stopAtRangeEnd) {
+        this.startReimportChecker();
+        this.startHashVerifier();
+
+        this.logger.info({ stopBlockRC: lastBlockRC, stopBlockAH: lastBlockAH }, 'Era range synced, not following new blocks');
+        return;
+      }
+
+      // Subscribe to new finalized blocks for both chains
       this.subscribeToNewBlocksRC();
       this.subscribeToNewBlocksAH();
 
@@ -105,6 +270,12 @@ export class Indexer {
       // Start periodic reimport checker (every 10 seconds)
       this.startReimportChecker();
 
+      // Start periodic cross-chain consistency check (every 60 seconds)
+      this.startConsistencyChecker();
+
+      // Start periodic block hash verification (every 60 seconds)
+      this.startHashVerifier();
+
       this.logger.info('Indexer started successfully');
     } catch (error) {
       this.logger.error({ error }, 'Failed to start indexer');
@@ -142,6 +313,107 @@ export class Indexer {
     }, 10000); // Run every 10 seconds
   }
 
+  /**
+   * Start periodic RC/AH consistency checks (reports become overdue without any new event)
+   */
+  private startConsistencyChecker(): void {
+    if (!this.consistencyChecker) return;
+
+    this.logger.info('Starting periodic consistency checker (every 60 seconds)');
+
+    // Session events seen during the backfill were not checked
+    this.runConsistencyCheck();
+
+    this.consistencyCheckerInterval = setInterval(() => {
+      this.runConsistencyCheck();
+    }, 60000); // Run every 60 seconds
+  }
+
+  /**
+   * Reconcile RC and AH session/validator-set records, then raise warnings for the open issues
+   * Periodic checks are attributed to the latest Asset Hub block
+   */
+  private runConsistencyCheck(at?: { blockNumber: number; timestamp: number }): void {
+    if (!this.consistencyChecker) return;
+
+    // RC and AH backfill in parallel and AH lags behind: until both are caught up,
+    // sessions look unreported and validator sets unacknowledged
+    if (!this.isRunning) return;
+
+    try {
+      this.consistencyChecker.check();
+    } catch (error) {
+      this.logger.error({ error }, 'Error in consistency checker');
+      return;
+    }
+
+    const block = at ?? this.db.getLatestScannedBlockAH() ?? this.db.getLatestBlockAH();
+    if (block) {
+      this.warningEngine?.evaluate({ kind: 'consistency', blockNumber: block.blockNumber, timestamp: block.timestamp });
+    }
+  }
+
+  /**
+   * Start periodic verification of stored block hashes against the finalized chain
+   */
+  private startHashVerifier(): void {
+    this.logger.info('Starting block hash verifier (every 60 seconds)');
+
+    this.hashVerifierInterval = setInterval(async () => {
+      try {
+        await this.verifyBlockHashes('RC');
+        await this.verifyBlockHashes('AH');
+      } catch (error) {
+        this.logger.error({ error }, 'Error in block hash verifier');
+      }
+    }, 60000);
+  }
+
+  /**
+   * Compare the next chunk of stored blocks with the canonical (finalized) hashes and queue a
+   * reimport for every block that came from another fork. Walks the table from a cursor in
+   * indexer_state and starts over once it reaches the end.
+   */
+  private async verifyBlockHashes(chain: 'RC' | 'AH'): Promise<void> {
+    const api = chain === 'RC' ? this.apiRC : this.apiAH;
+    const reimportChain = chain === 'RC' ? 'relay_chain' : 'asset_hub';
+
+    const cursor = parseInt(this.db.getState(`hashVerifyCursor${chain}`) || '0', 10);
+    const blocks = chain === 'RC'
+      ? this.db.getBlocksAfterRC(cursor, HASH_VERIFY_BATCH)
+      : this.db.getBlocksAfterAH(cursor, HASH_VERIFY_BATCH);
+
+    if (blocks.length === 0) {
+      this.db.setState(`hashVerifyCursor${chain}`, '0');
+      return;
+    }
+
+    let mismatches = 0;
+    for (const block of blocks) {
+      // Blocks indexed before hashes were stored cannot be verified
+      if (!block.blockHash) continue;
+
+      const canonicalHash = (await api.rpc.chain.getBlockHash(block.blockNumber)).toHex();
+      if (canonicalHash === block.blockHash) continue;
+
+      mismatches++;
+      this.logger.warn({ chain, blockNumber: block.blockNumber, storedHash: block.blockHash, canonicalHash }, 'Stored block is not on the finalized chain');
+
+      if (!this.db.hasOpenReimportRequest(reimportChain, block.blockNumber)) {
+        this.db.submitReimportRequest(reimportChain, block.blockNumber);
+      }
+    }
+
+    this.db.setMultipleStates({
+      [`hashVerifyCursor${chain}`]: blocks[blocks.length - 1].blockNumber.toString(),
+      [`hashVerifiedAt${chain}`]: Date.now().toString(),
+    });
+
+    if (mismatches > 0) {
+      this.logger.warn({ chain, checked: blocks.length, mismatches }, 'Queued reimports for non-canonical blocks');
+    }
+  }
+
   /**
    * Process pending reimport requests
    */
@@ -216,7 +488,7 @@ export class Indexer {
     // Find gaps in RC
     const gapsRC: number[] = [];
     for (let i = startRC; i <= heightRC; i++) {
-      if (!this.db.blockExistsRC(i)) {
+      if (!this.db.blockScannedRC(i)) {
         gapsRC.push(i);
       }
     }
@@ -224,7 +496,7 @@ export class Indexer {
     // Find gaps in AH
     const gapsAH: number[] = [];
     for (let i = startAH; i <= heightAH; i++) {
-      if (!this.db.blockExistsAH(i)) {
+      if (!this.db.blockScannedAH(i)) {
         gapsAH.push(i);
       }
     }
@@ -273,175 +545,121 @@ export class Indexer {
    * Sync missing blocks on Relay Chain within the target range
    */
   private async syncMissingBlocksRC(fromBlock: number, toBlock: number): Promise<void> {
-    if (fromBlock > toBlock) {
-      this.logger.info('Relay Chain already synced');
-      return;
-    }
-
-    // Find missing blocks in range
-    const missingBlocks: number[] = [];
-    for (let i = fromBlock; i <= toBlock; i++) {
-      if (!this.db.blockExistsRC(i)) {
-        missingBlocks.push(i);
-      }
-    }
-
-    if (missingBlocks.length === 0) {
-      this.logger.info({ fromBlock, toBlock }, 'Relay Chain: all blocks already synced');
-      return;
-    }
-
-    const totalBlocks = missingBlocks.length;
-    this.logger.info({ fromBlock, toBlock, missingBlocks: totalBlocks, totalRange: toBlock - fromBlock + 1 }, 'Syncing missing blocks on Relay Chain');
-
-    let processedCount = 0;
-    const failedBlocks: { blockNumber: number; error: string }[] = [];
-
-    for (const blockNumber of missingBlocks) {
-      let success = false;
-      let lastError: any = null;
-
-      // Retry up to 3 times
-      for (let attempt = 1; attempt <= 3; attempt++) {
-        try {
-          await this.processBlockByNumberRC(blockNumber);
-          success = true;
-          break;
-        } catch (error) {
-          lastError = error;
-          this.logger.warn({ error, blockNumber, attempt }, `Error processing RC block (attempt ${attempt}/3)`);
-
-          // Wait before retry (exponential backoff: 1s, 2s, 4s)
-          if (attempt < 3) {
-            await new Promise(resolve => setTimeout(resolve, 1000 * Math.pow(2, attempt - 1)));
-          }
-        }
-      }
-
-      if (success) {
-        processedCount++;
-
-        // Update sync progress in state after each block
-        this.db.setMultipleStates({
-          'syncedBlocksRC': processedCount.toString(),
-          'lastProcessedBlockRC': blockNumber.toString(),
-        });
-
-        if (processedCount % 10 === 0 || processedCount === totalBlocks) {
-          const progress = ((processedCount / totalBlocks) * 100).toFixed(1);
-          this.logger.info({
-            processed: processedCount,
-            total: totalBlocks,
-            progress: `${progress}%`,
-            chain: 'RC'
-          }, 'Relay Chain sync progress');
-        }
-      } else {
-        failedBlocks.push({
-          blockNumber,
-          error: lastError instanceof Error ? lastError.message : String(lastError),
-        });
-        this.logger.error({ blockNumber, error: lastError }, 'Failed to process RC block after 3 attempts');
-      }
-    }
-
-    if (failedBlocks.length > 0) {
-      this.logger.error({
-        totalBlocks,
-        processedCount,
-        failedCount: failedBlocks.length,
-        failedBlocks: failedBlocks.slice(0, 10), // Show first 10
-      }, 'Relay Chain sync completed with errors');
-    } else {
-      this.logger.info({ totalBlocks, processedCount }, 'Relay Chain sync completed successfully');
-    }
+    await this.syncMissingBlocks('RC', fromBlock, toBlock);
   }
 
   /**
    * Sync missing blocks on Asset Hub within the target range
    */
   private async syncMissingBlocksAH(fromBlock: number, toBlock: number): Promise<void> {
+    await this.syncMissingBlocks('AH', fromBlock, toBlock);
+  }
+
+  /**
+   * Backfill missing blocks with a pool of parallel fetchers, committing in block order
+   * in batched transactions. Fetching reads all the chain state the handlers need, so a
+   * transaction never waits on the network while holding the write lock the API shares.
+   * Progress is kept in indexer_state so a restart resumes after the last committed batch.
+   */
+  private async syncMissingBlocks(chain: 'RC' | 'AH', fromBlock: number, toBlock: number): Promise<void> {
+    const chainName = chain === 'RC' ? 'Relay Chain' : 'Asset Hub';
+
     if (fromBlock > toBlock) {
-      this.logger.info('Asset Hub already synced');
+      this.logger.info(`${chainName} already synced`);
       return;
     }
 
+    // Everything up to the cursor was committed by a previous run
+    const cursor = parseInt(this.db.getState(`backfillCursor${chain}`) || '0', 10);
+    const scanFrom = cursor >= fromBlock && cursor <= toBlock ? cursor + 1 : fromBlock;
+    if (scanFrom > fromBlock) {
+      this.logger.info({ chain, cursor, fromBlock }, `${chainName}: resuming backfill after cursor`);
+    }
+
     // Find missing blocks in range
+    const blockScanned = chain === 'RC' ? (n: number) => this.db.blockScannedRC(n) : (n: number) => this.db.blockScannedAH(n);
     const missingBlocks: number[] = [];
-    for (let i = fromBlock; i <= toBlock; i++) {
-      if (!this.db.blockExistsAH(i)) {
+    for (let i = scanFrom; i <= toBlock; i++) {
+      if (!blockScanned(i)) {
         missingBlocks.push(i);
       }
     }
 
     if (missingBlocks.length === 0) {
-      this.logger.info({ fromBlock, toBlock }, 'Asset Hub: all blocks already synced');
+      this.logger.info({ fromBlock, toBlock }, `${chainName}: all blocks already synced`);
+      this.db.setState(`backfillCursor${chain}`, toBlock.toString());
       return;
     }
 
     const totalBlocks = missingBlocks.length;
-    this.logger.info({ fromBlock, toBlock, missingBlocks: totalBlocks, totalRange: toBlock - fromBlock + 1 }, 'Syncing missing blocks on Asset Hub');
+    const { concurrency, batchSize } = this.backfillOptions;
+    this.logger.info({ fromBlock, toBlock, missingBlocks: totalBlocks, totalRange: toBlock - fromBlock + 1, concurrency, batchSize }, `Syncing missing blocks on ${chainName}`);
 
+    const startTime = Date.now();
     let processedCount = 0;
-    const failedBlocks: { blockNumber: number; error: string }[] = [];
-
-    for (const blockNumber of missingBlocks) {
-      let success = false;
-      let lastError: any = null;
-
-      // Retry up to 3 times
-      for (let attempt = 1; attempt <= 3; attempt++) {
-        try {
-          await this.processBlockByNumberAH(blockNumber);
-          success = true;
-          break;
-        } catch (error) {
-          lastError = error;
-          this.logger.warn({ error, blockNumber, attempt }, `Error processing AH block (attempt ${attempt}/3)`);
+    let firstFailedBlock: number | null = null;
 
-          // Wait before retry (exponential backoff: 1s, 2s, 4s)
-          if (attempt < 3) {
-            await new Promise(resolve => setTimeout(resolve, 1000 * Math.pow(2, attempt - 1)));
-          }
-        }
-      }
+    const fetchBlock = chain === 'RC' ? (n: number) => this.fetchBlockRC(n) : (n: number) => this.fetchBlockAH(n);
+    const commitBlock = chain === 'RC' ? (b: FetchedBlock) => this.commitBlockRC(b) : (b: FetchedBlock) => this.commitBlockAH(b);
 
-      if (success) {
-        processedCount++;
+    try {
+      const result = await runOrderedBackfill<FetchedBlock>({
+        blocks: missingBlocks,
+        concurrency,
+        batchSize,
+        maxAttempts: 3,
+        fetch: fetchBlock,
+        commit: async (batch) => {
+          const lastBlock = batch[batch.length - 1].blockNumber;
+
+          this.db.transaction(() => {
+            for (const block of batch) {
+              commitBlock(block);
+            }
 
-        // Update sync progress in state after each block
-        this.db.setMultipleStates({
-          'syncedBlocksAH': processedCount.toString(),
-          'lastProcessedBlockAH': blockNumber.toString(),
-        });
+            this.db.setMultipleStates({
+              [`syncedBlocks${chain}`]: (processedCount + batch.length).toString(),
+              [`lastProcessedBlock${chain}`]: lastBlock.toString(),
+              // The cursor must not pass a block that failed to sync
+              ...(firstFailedBlock === null ? { [`backfillCursor${chain}`]: lastBlock.toString() } : {}),
+            });
+          });
+          processedCount += batch.length;
 
-        if (processedCount % 10 === 0 || processedCount === totalBlocks) {
-          const progress = ((processedCount / totalBlocks) * 100).toFixed(1);
+          const elapsedSeconds = (Date.now() - startTime) / 1000;
           this.logger.info({
             processed: processedCount,
             total: totalBlocks,
-            progress: `${progress}%`,
-            chain: 'AH'
-          }, 'Asset Hub sync progress');
-        }
-      } else {
-        failedBlocks.push({
-          blockNumber,
-          error: lastError instanceof Error ? lastError.message : String(lastError),
-        });
-        this.logger.error({ blockNumber, error: lastError }, 'Failed to process AH block after 3 attempts');
+            progress: `${((processedCount / totalBlocks) * 100).toFixed(1)}%`,
+            blocksPerSecond: (processedCount / Math.max(elapsedSeconds, 0.001)).toFixed(1),
+            chain,
+          }, `${chainName} sync progress`);
+        },
+        onFailed: (blockNumber, error) => {
+          if (firstFailedBlock === null) {
+            firstFailedBlock = blockNumber;
+            this.db.setState(`backfillCursor${chain}`, (blockNumber - 1).toString());
+          }
+          this.logger.error({ blockNumber, error }, `Failed to process ${chain} block after 3 attempts`);
+        },
+      });
+
+      if (firstFailedBlock === null) {
+        this.db.setState(`backfillCursor${chain}`, toBlock.toString());
       }
-    }
 
-    if (failedBlocks.length > 0) {
-      this.logger.error({
-        totalBlocks,
-        processedCount,
-        failedCount: failedBlocks.length,
-        failedBlocks: failedBlocks.slice(0, 10), // Show first 10
-      }, 'Asset Hub sync completed with errors');
-    } else {
-      this.logger.info({ totalBlocks, processedCount }, 'Asset Hub sync completed successfully');
+      if (result.failed.length > 0) {
+        this.logger.error({
+          totalBlocks,
+          processedCount: result.committed,
+          failedCount: result.failed.length,
+          failedBlocks: result.failed.slice(0, 10), // Show first 10
+        }, `${chainName} sync completed with errors`);
+      } else {
+        this.logger.info({ totalBlocks, processedCount: result.committed, seconds: ((Date.now() - startTime) / 1000).toFixed(1) }, `${chainName} sync completed successfully`);
+      }
+    } catch (error) {
+      this.logger.error({ error, chain, processedCount }, `${chainName} sync aborted: failed to commit batch`);
     }
   }
 
@@ -455,7 +673,7 @@ export class Indexer {
       const blockNumber = header.number.toNumber();
 
       // Skip if already exists
-      if (this.db.blockExistsRC(blockNumber)) {
+      if (this.db.blockScannedRC(blockNumber)) {
         this.logger.debug({ blockNumber, chain: 'RC' }, 'Block already exists, skipping');
         this.db.setState('currentHeightRC', blockNumber.toString());
         return;
@@ -511,7 +729,7 @@ export class Indexer {
       const blockNumber = header.number.toNumber();
 
       // Skip if already exists
-      if (this.db.blockExistsAH(blockNumber)) {
+      if (this.db.blockScannedAH(blockNumber)) {
         this.logger.debug({ blockNumber, chain: 'AH' }, 'Block already exists, skipping');
         this.db.setState('currentHeightAH', blockNumber.toString());
         return;
@@ -561,20 +779,161 @@ export class Indexer {
    * Process a Relay Chain block by its number
    */
   private async processBlockByNumberRC(blockNumber: number): Promise<void> {
+    const block = await this.fetchBlockRC(blockNumber);
+    this.db.transaction(() => this.commitBlockRC(block));
+  }
+
+  /**
+   * Process an Asset Hub block by its number
+   */
+  private async processBlockByNumberAH(blockNumber: number): Promise<void> {
+    const block = await this.fetchBlockAH(blockNumber);
+    this.db.transaction(() => this.commitBlockAH(block));
+  }
+
+  /**
+   * Fetch a Relay Chain block's hashes, timestamp, events and the chain state its
+   * handlers and watched storage items need (network only, no database writes)
+   */
+  private async fetchBlockRC(blockNumber: number): Promise<FetchedBlock> {
     const blockHash = await this.apiRC.rpc.chain.getBlockHash(blockNumber);
-    const header = await this.apiRC.rpc.chain.getHeader(blockHash);
     const apiAt = await this.apiRC.at(blockHash);
 
-    // Get block timestamp
-    const timestamp = await apiAt.query.timestamp.now();
+    const [header, timestamp, eventsCodec] = await Promise.all([
+      this.apiRC.rpc.chain.getHeader(blockHash),
+      apiAt.query.timestamp.now(),
+      apiAt.query.system.events(),
+    ]);
+
     const blockTimestamp = (timestamp as any).toNumber();
+    const events = eventsCodec as unknown as EventRecord[];
+    const reads = new Map<number, EventReads>();
+    const snapshots: StorageSnapshot[] = [];
+
+    for (let eventIndex = 0; eventIndex < events.length; eventIndex++) {
+      const { event } = events[eventIndex];
+      const eventType = `${event.section}.${event.method}`;
+
+      // Watch list items can be sampled on any event, tracked or not
+      snapshots.push(...await this.readSnapshots({ kind: 'event', chain: 'relayChain', blockNumber, timestamp: blockTimestamp, eventType }));
+
+      if (shouldTrackEventRC(eventType)) {
+        const eventReads = await this.readEventRC(event, eventType, blockNumber, blockTimestamp);
+        if (eventReads) {
+          reads.set(eventIndex, eventReads);
+        }
+      }
+    }
+
+    snapshots.push(...await this.readSnapshots({ kind: 'block', chain: 'relayChain', blockNumber, timestamp: blockTimestamp }));
+
+    return {
+      blockNumber,
+      blockHash: blockHash.toHex(),
+      parentHash: header.parentHash.toHex(),
+      timestamp: blockTimestamp,
+      events,
+      reads,
+      snapshots,
+    };
+  }
+
+  /**
+   * Fetch an Asset Hub block's hashes, timestamp, events and the chain state its
+   * handlers and watched storage items need (network only, no database writes)
+   */
+  private async fetchBlockAH(blockNumber: number): Promise<FetchedBlock> {
+    const blockHash = await this.apiAH.rpc.chain.getBlockHash(blockNumber);
+    const apiAt = await this.apiAH.at(blockHash);
 
-    // Store block
-    this.db.insertBlockRC({ blockNumber, timestamp: blockTimestamp });
+    const [header, timestamp, eventsCodec] = await Promise.all([
+      this.apiAH.rpc.chain.getHeader(blockHash),
+      apiAt.query.timestamp.now(),
+      apiAt.query.system.events(),
+    ]);
 
-    // Get and store events
-    const eventsCodec = await apiAt.query.system.events();
+    const blockTimestamp = (timestamp as any).toNumber();
     const events = eventsCodec as unknown as EventRecord[];
+    const reads = new Map<number, EventReads>();
+    const snapshots: StorageSnapshot[] = [];
+
+    for (let eventIndex = 0; eventIndex < events.length; eventIndex++) {
+      const { event } = events[eventIndex];
+      const eventType = `${event.section}.${event.method}`;
+
+      // Watch list items can be sampled on any event, tracked or not
+      snapshots.push(...await this.readSnapshots({ kind: 'event', chain: 'assetHub', blockNumber, timestamp: blockTimestamp, eventType }));
+
+      if (shouldTrackEventAH(eventType)) {
+        const eventReads = await this.readEventAH(event, eventType, blockNumber, blockTimestamp);
+        if (eventReads) {
+          reads.set(eventIndex, eventReads);
+        }
+      }
+    }
+
+    snapshots.push(...await this.readSnapshots({ kind: 'block', chain: 'assetHub', blockNumber, timestamp: blockTimestamp }));
+
+    return {
+      blockNumber,
+      blockHash: blockHash.toHex(),
+      parentHash: header.parentHash.toHex(),
+      timestamp: blockTimestamp,
+      events,
+      reads,
+      snapshots,
+    };
+  }
+
+  /**
+   * Read the chain state the handler of a tracked Relay Chain event needs
+   */
+  private async readEventRC(event: any, eventType: string, blockNumber: number, blockTimestamp: number): Promise<EventReads | null> {
+    if (eventType.toLowerCase() === 'session.newsession') {
+      return { stakingClientRC: await this.readStakingClientRC(blockNumber, blockTimestamp) };
+    }
+    return null;
+  }
+
+  /**
+   * Read the chain state the handler of a tracked Asset Hub event needs
+   */
+  private async readEventAH(event: any, eventType: string, blockNumber: number, blockTimestamp: number): Promise<EventReads | null> {
+    const lowerEventType = eventType.toLowerCase();
+
+    if (lowerEventType === 'stakingrcclient.sessionreportreceived') {
+      return { sessionReport: await this.readSessionReport(event, blockNumber, blockTimestamp) };
+    }
+    if (lowerEventType === 'multiblockelection.phasetransitioned') {
+      return { phase: await this.readPhaseTransitioned(event, blockNumber) };
+    }
+    if (lowerEventType === 'staking.erapaid') {
+      return { eraRewards: await this.readEraRewards(event, blockNumber) };
+    }
+    if (lowerEventType.startsWith('multiblockelectionsigned.')) {
+      return { activeEraId: await this.readElectionScoreEra(blockNumber) };
+    }
+    return null;
+  }
+
+  /**
+   * Read the watched storage items matching a trigger (none without a watch list)
+   */
+  private async readSnapshots(trigger: SnapshotTrigger): Promise<StorageSnapshot[]> {
+    return this.storageSnapshotter ? this.storageSnapshotter.read(trigger) : [];
+  }
+
+  /**
+   * Store a fetched Relay Chain block and its tracked events
+   */
+  private commitBlockRC(block: FetchedBlock): void {
+    const { blockNumber, timestamp: blockTimestamp, events } = block;
+    const hasTrackedEvents = events.some(({ event }) => shouldTrackEventRC(`${event.section}.${event.method}`));
+
+    // Store block (events reference it)
+    if (this.shouldStoreBlock(blockNumber, hasTrackedEvents)) {
+      this.db.insertBlockRC({ blockNumber, timestamp: blockTimestamp, blockHash: block.blockHash, parentHash: block.parentHash });
+    }
 
     for (let eventIndex = 0; eventIndex < events.length; eventIndex++) {
       const record = events[eventIndex];
@@ -590,35 +949,39 @@ export class Indexer {
       // Create event_id in format: blockNumber-eventIndex (for Subscan linking)
       const eventId = `${blockNumber}-${eventIndex}`;
 
+      const data = JSON.stringify(event.toHuman());
       this.db.insertEventRC({
         blockNumber,
         eventId,
         eventType,
-        data: JSON.stringify(event.toHuman()),
+        data,
       });
+
+      // Process special events
+      this.processSpecialEventRC(event, eventType, blockNumber, blockTimestamp, eventId, block.reads.get(eventIndex));
+
+      this.warningEngine?.evaluate({ kind: 'event', chain: 'relayChain', blockNumber, timestamp: blockTimestamp, eventId, eventType, data });
     }
 
+    this.warningEngine?.evaluate({ kind: 'block', chain: 'relayChain', blockNumber, timestamp: blockTimestamp });
+    this.storageSnapshotter?.store(block.snapshots);
+
+    this.db.markScannedRC({ blockNumber, timestamp: blockTimestamp });
+
     this.logger.debug({ blockNumber, events: events.length }, 'Processed RC block');
   }
 
   /**
-   * Process an Asset Hub block by its number
+   * Store a fetched Asset Hub block and its tracked events, processing special events in order
    */
-  private async processBlockByNumberAH(blockNumber: number): Promise<void> {
-    const blockHash = await this.apiAH.rpc.chain.getBlockHash(blockNumber);
-    const header = await this.apiAH.rpc.chain.getHeader(blockHash);
-    const apiAt = await this.apiAH.at(blockHash);
-
-    // Get block timestamp
-    const timestamp = await apiAt.query.timestamp.now();
-    const blockTimestamp = (timestamp as any).toNumber();
-
-    // Store block
-    this.db.insertBlockAH({ blockNumber, timestamp: blockTimestamp });
+  private commitBlockAH(block: FetchedBlock): void {
+    const { blockNumber, timestamp: blockTimestamp, events } = block;
+    const hasTrackedEvents = events.some(({ event }) => shouldTrackEventAH(`${event.section}.${event.method}`));
 
-    // Get and store events
-    const eventsCodec = await apiAt.query.system.events();
-    const events = eventsCodec as unknown as EventRecord[];
+    // Store block (events reference it)
+    if (this.shouldStoreBlock(blockNumber, hasTrackedEvents)) {
+      this.db.insertBlockAH({ blockNumber, timestamp: blockTimestamp, blockHash: block.blockHash, parentHash: block.parentHash });
+    }
 
     for (let eventIndex = 0; eventIndex < events.length; eventIndex++) {
       const record = events[eventIndex];
@@ -626,6 +989,11 @@ export class Indexer {
 
       const eventType = `${event.section}.${event.method}`;
 
+      if (shouldAggregateEventAH(eventType)) {
+        this.handleRewarded(event, blockNumber);
+        continue;
+      }
+
       // Only track events specified in CLAUDE.md Events Tracking section
       if (!shouldTrackEventAH(eventType)) {
         continue; // Skip this event
@@ -634,104 +1002,316 @@ export class Indexer {
       // Create event_id in format: blockNumber-eventIndex (for Subscan linking)
       const eventId = `${blockNumber}-${eventIndex}`;
 
+      const data = JSON.stringify(event.toHuman());
       this.db.insertEventAH({
         blockNumber,
         eventId,
         eventType,
-        data: JSON.stringify(event.toHuman()),
+        data,
       });
 
       // Process special events
-      await this.processSpecialEvent(event, eventType, blockNumber, blockTimestamp);
+      this.processSpecialEvent(event, eventType, blockNumber, blockTimestamp, eventId, block.reads.get(eventIndex));
+
+      this.warningEngine?.evaluate({ kind: 'event', chain: 'assetHub', blockNumber, timestamp: blockTimestamp, eventId, eventType, data });
     }
 
+    // Time-based rules (stuck phases, late session reports) run once per block
+    this.warningEngine?.evaluate({ kind: 'block', chain: 'assetHub', blockNumber, timestamp: blockTimestamp });
+    this.storageSnapshotter?.store(block.snapshots);
+
+    this.db.markScannedAH({ blockNumber, timestamp: blockTimestamp });
+
     this.logger.debug({ blockNumber, events: events.length }, 'Processed AH block');
   }
 
+  /**
+   * Whether a scanned block gets a row in blocks_rc/blocks_ah
+   * Sparse mode keeps only blocks with tracked events plus periodic checkpoints
+   */
+  private shouldStoreBlock(blockNumber: number, hasTrackedEvents: boolean): boolean {
+    if (this.storageOptions.mode === 'full' || hasTrackedEvents) {
+      return true;
+    }
+    return blockNumber % this.storageOptions.checkpointInterval === 0;
+  }
+
   /**
    * Process special events that create sessions and eras
    */
-  private async processSpecialEvent(event: any, eventType: string, blockNumber: number, blockTimestamp: number): Promise<void> {
+  private processSpecialEvent(event: any, eventType: string, blockNumber: number, blockTimestamp: number, eventId: string, reads: EventReads = {}): void {
     // Look for stakingRcClient.SessionReportReceived event
     if (eventType.toLowerCase() === 'stakingrcclient.sessionreportreceived') {
-      await this.handleSessionReportReceived(event, blockNumber, blockTimestamp);
+      this.handleSessionReportReceived(event, blockNumber, blockTimestamp, reads.sessionReport ?? null);
     }
 
     // Look for multiBlockElection.PhaseTransitioned event
     if (eventType.toLowerCase() === 'multiblockelection.phasetransitioned') {
-      await this.handlePhaseTransitioned(event, blockNumber, blockTimestamp);
+      this.handlePhaseTransitioned(event, blockNumber, blockTimestamp, eventId, reads.phase ?? null);
     }
 
     // Look for staking.EraPaid event (Asset Hub)
     if (eventType.toLowerCase() === 'staking.erapaid') {
-      await this.handleEraPaid(event, blockNumber);
+      this.handleEraPaid(event, blockNumber, reads.eraRewards ?? null);
+    }
+
+    // Look for staking.PayoutStarted event (Asset Hub)
+    if (eventType.toLowerCase() === 'staking.payoutstarted') {
+      this.handlePayoutStarted(event, blockNumber, blockTimestamp);
     }
 
     // Look for multiBlockElectionSigned events for election scores
     const lowerEventType = eventType.toLowerCase();
     if (lowerEventType.startsWith('multiblockelectionsigned.')) {
-      await this.handleElectionScoreEvent(event, eventType, blockNumber);
+      this.handleElectionScoreEvent(event, eventType, blockNumber, reads.activeEraId ?? null);
+    }
+
+    // Look for staking offence and slash events (OffenceReported, SlashComputed, SlashCancelled, Slashed)
+    if (lowerEventType.startsWith('staking.offence') || lowerEventType.startsWith('staking.slash')) {
+      this.handleSlashEvent(event, eventType, 'assetHub', eventId, blockNumber, blockTimestamp);
+    }
+
+    // Election failures, Emergency and everything that happens until the election recovers
+    if (lowerEventType === 'staking.stakingelectionfailed' || INCIDENT_EVENT_KINDS[lowerEventType] || INCIDENT_EVENT_KINDS[lowerEventType.split('.')[0]]) {
+      this.handleElectionIncidentEvent(event, eventType, 'assetHub', eventId, blockNumber, blockTimestamp);
     }
   }
 
   /**
-   * Handle SessionReportReceived event to create sessions and eras
+   * Process Relay Chain events that track the RC side of the session/era lifecycle
+   */
+  private processSpecialEventRC(event: any, eventType: string, blockNumber: number, blockTimestamp: number, eventId: string, reads: EventReads = {}): void {
+    const lowerEventType = eventType.toLowerCase();
+
+    if (lowerEventType === 'session.newsession') {
+      this.handleNewSessionRC(event, blockNumber, blockTimestamp, reads.stakingClientRC ?? null);
+    }
+
+    if (lowerEventType === 'session.newqueued') {
+      this.handleNewQueuedRC(blockNumber);
+    }
+
+    if (lowerEventType === 'stakingahclient.validatorsetreceived') {
+      this.handleValidatorSetReceivedRC(event, blockNumber);
+    }
+
+    // Legacy Relay Chain staking (before the migration to Asset Hub)
+    if (lowerEventType === 'staking.slashreported' || lowerEventType === 'staking.slashed') {
+      this.handleSlashEvent(event, eventType, 'relayChain', eventId, blockNumber, blockTimestamp);
+    }
+
+    if (lowerEventType === 'staking.stakingelectionfailed') {
+      this.handleElectionIncidentEvent(event, eventType, 'relayChain', eventId, blockNumber, blockTimestamp);
+    }
+  }
+
+  /**
+   * Handle session.NewSession on the Relay Chain: records where the session actually began
    */
-  private async handleSessionReportReceived(event: any, blockNumber: number, blockTimestamp: number): Promise<void> {
+  private handleNewSessionRC(event: any, blockNumber: number, blockTimestamp: number, stakingClient: StakingClientRcSample | null): void {
     try {
-      // Parse event data
-      const eventData = event.toJSON();
+      const sessionIndexField = event.data.sessionIndex ?? event.data[0];
+      const sessionId = sessionIndexField ? sessionIndexField.toNumber() : null;
 
-      // Extract fields from event
-      // Based on https://assethub-kusama.subscan.io/event/11499278-10
-      // Event structure: { endIndex, activationTimestamp, validatorPointsCounts, leftover }
-      const endIndex = event.data.endIndex ? event.data.endIndex.toNumber() : null;
-      const totalPoints = event.data.validatorPointsCounts ? event.data.validatorPointsCounts.toNumber() : 0;
+      if (sessionId === null) {
+        this.logger.warn({ blockNumber }, 'NewSession missing sessionIndex');
+        return;
+      }
+
+      // session.NewQueued is deposited before NewSession in the same block when a new validator set was queued
+      const newSetQueued = this.db.getEventsByBlockRC(blockNumber)
+        .some(e => e.eventType.toLowerCase() === 'session.newqueued');
+
+      this.db.upsertRcSession({ sessionId, blockNumber, timestamp: blockTimestamp, newSetQueued });
+      this.db.linkSessionToRc(sessionId);
+
+      this.logger.info({ sessionId, blockNumber, newSetQueued }, 'RC session started');
 
-      if (endIndex === null) {
-        this.logger.warn({ blockNumber, eventData }, 'SessionReportReceived missing endIndex');
+      // A new RC session ends the previous one, whose report AH should now receive
+      this.runConsistencyCheck({ blockNumber, timestamp: blockTimestamp });
+
+      if (stakingClient) {
+        this.db.upsertStakingClientRc(sessionId, stakingClient);
+        this.logger.debug({ sessionId, ...stakingClient }, 'Sampled RC staking client');
+      }
+    } catch (error) {
+      this.logger.error({ error, blockNumber, eventType: 'NewSession' }, 'Error handling NewSession');
+    }
+  }
+
+  /**
+   * Handle session.NewQueued on the Relay Chain: the validator set for the next session has changed
+   */
+  private handleNewQueuedRC(blockNumber: number): void {
+    try {
+      // No-op if NewSession has not been processed yet; it picks up the flag itself
+      this.db.markRcSessionQueued(blockNumber);
+    } catch (error) {
+      this.logger.error({ error, blockNumber, eventType: 'NewQueued' }, 'Error handling NewQueued');
+    }
+  }
+
+  /**
+   * Handle stakingAhClient.ValidatorSetReceived: the RC received a new validator set (planned era) from AH
+   */
+  private handleValidatorSetReceivedRC(event: any, blockNumber: number): void {
+    try {
+      // Event structure: { id, newValidatorSetCount, pruneUpTo, leftover }
+      const validatorSetId = event.data.id ? event.data.id.toNumber() : null;
+      const validatorSetCount = event.data.newValidatorSetCount ? event.data.newValidatorSetCount.toNumber() : null;
+
+      if (validatorSetId === null) {
+        this.logger.warn({ blockNumber }, 'ValidatorSetReceived missing id');
         return;
       }
 
-      const sessionId = endIndex;
+      const sessionId = this.db.setRcValidatorSetReceived(blockNumber, validatorSetId, validatorSetCount);
+
+      this.logger.info({ validatorSetId, validatorSetCount, sessionId, blockNumber }, 'RC received validator set from AH');
+    } catch (error) {
+      this.logger.error({ error, blockNumber, eventType: 'ValidatorSetReceived' }, 'Error handling ValidatorSetReceived');
+    }
+  }
 
-      // Check if event has activation_timestamp (marks new era)
-      // If activation_timestamp is present, this is an era boundary
-      // activationTimestamp is Option<(Moment, EraIndex)> - a tuple with timestamp and era_id
-      let activationTimestamp: number | null = null;
-      let eraIdFromTimestamp: number | null = null;
-      let isEraStart = false;
+  /**
+   * Parse a SessionReportReceived event
+   * Based on https://assethub-kusama.subscan.io/event/11499278-10
+   * Event structure: { endIndex, activationTimestamp, validatorPointsCounts, leftover }
+   */
+  private parseSessionReport(event: any): { sessionId: number | null; totalPoints: number; activationTimestamp: number | null; eraId: number | null } {
+    const endIndex = event.data.endIndex ? event.data.endIndex.toNumber() : null;
+    const totalPoints = event.data.validatorPointsCounts ? event.data.validatorPointsCounts.toNumber() : 0;
 
-      // Try to extract activation_timestamp from event data
-      try {
-        const tsField = event.data.activationTimestamp;
-        if (tsField) {
-          // Check if it's an Option type
-          if (typeof tsField.isSome !== 'undefined' && !tsField.isSome) {
-            // None
-            activationTimestamp = null;
-          } else if (typeof tsField.isEmpty !== 'undefined' && tsField.isEmpty) {
-            // Empty
-            activationTimestamp = null;
-          } else if (typeof tsField.unwrap === 'function') {
-            // It's an Option with Some value - unwrap it
-            const unwrapped = tsField.unwrap();
-            // unwrapped should be a tuple (Moment, EraIndex)
-            if (unwrapped && unwrapped.length >= 2) {
-              const timestamp = unwrapped[0];
-              const eraIdx = unwrapped[1];
-              activationTimestamp = timestamp && typeof timestamp.toNumber === 'function' ? timestamp.toNumber() : null;
-              eraIdFromTimestamp = eraIdx && typeof eraIdx.toNumber === 'function' ? eraIdx.toNumber() : null;
-              isEraStart = activationTimestamp !== null;
-              this.logger.info({ activationTimestamp, eraIdFromTimestamp }, 'Extracted from tuple');
-            }
+    // Check if event has activation_timestamp (marks new era)
+    // If activation_timestamp is present, this is an era boundary
+    // activationTimestamp is Option<(Moment, EraIndex)> - a tuple with timestamp and era_id
+    let activationTimestamp: number | null = null;
+    let eraIdFromTimestamp: number | null = null;
+
+    // Try to extract activation_timestamp from event data
+    try {
+      const tsField = event.data.activationTimestamp;
+      if (tsField) {
+        // Check if it's an Option type
+        if (typeof tsField.isSome !== 'undefined' && !tsField.isSome) {
+          // None
+          activationTimestamp = null;
+        } else if (typeof tsField.isEmpty !== 'undefined' && tsField.isEmpty) {
+          // Empty
+          activationTimestamp = null;
+        } else if (typeof tsField.unwrap === 'function') {
+          // It's an Option with Some value - unwrap it
+          const unwrapped = tsField.unwrap();
+          // unwrapped should be a tuple (Moment, EraIndex)
+          if (unwrapped && unwrapped.length >= 2) {
+            const timestamp = unwrapped[0];
+            const eraIdx = unwrapped[1];
+            activationTimestamp = timestamp && typeof timestamp.toNumber === 'function' ? timestamp.toNumber() : null;
+            eraIdFromTimestamp = eraIdx && typeof eraIdx.toNumber === 'function' ? eraIdx.toNumber() : null;
           }
         }
-      } catch (e) {
-        this.logger.debug({ error: e }, 'Error extracting activationTimestamp');
-        activationTimestamp = null;
+      }
+    } catch (e) {
+      this.logger.debug({ error: e }, 'Error extracting activationTimestamp');
+      activationTimestamp = null;
+    }
+
+    // The era_id from the activationTimestamp tuple, when this report starts a new era
+    const eraId = activationTimestamp !== null ? eraIdFromTimestamp : null;
+
+    return { sessionId: endIndex, totalPoints, activationTimestamp, eraId };
+  }
+
+  /**
+   * Read what a session report needs from Asset Hub: the active and planned era of the ending
+   * session (at block n-1, as the report is received at block n) and of the starting session
+   * (at block n), the staking population and client samples, and the watched session/era storage
+   */
+  private async readSessionReport(event: any, blockNumber: number, blockTimestamp: number): Promise<SessionReportReads | null> {
+    const { sessionId, eraId } = this.parseSessionReport(event);
+    if (sessionId === null) {
+      return null;
+    }
+
+    const endingSession = await this.readEraIds(sessionId, Math.max(1, blockNumber - 1), 'ending');
+    const startingSession = await this.readEraIds(sessionId + 1, blockNumber, 'starting');
+
+    const population = await this.readStakingPopulation(sessionId, blockNumber, blockTimestamp, endingSession.activeEraId);
+    const stakingClient = await this.readStakingClientAH(sessionId, blockNumber, blockTimestamp);
+
+    const snapshots = await this.readSnapshots({ kind: 'session', sessionId, blockNumber, timestamp: blockTimestamp });
+    if (eraId !== null) {
+      snapshots.push(...await this.readSnapshots({ kind: 'era', eraId, blockNumber, timestamp: blockTimestamp }));
+    }
+
+    return { endingSession, startingSession, population, stakingClient, snapshots };
+  }
+
+  /**
+   * Read the active era and planned era (currentEra) from Asset Hub at a block
+   */
+  private async readEraIds(sessionId: number, queryBlockNumber: number, session: 'ending' | 'starting'): Promise<EraIds> {
+    const eraIds: EraIds = { activeEraId: null, plannedEraId: null };
+
+    try {
+      const queryBlockHash = await this.apiAH.rpc.chain.getBlockHash(queryBlockNumber);
+      const apiAt = await this.apiAH.at(queryBlockHash);
+
+      // Get active era
+      const activeEraOption = await apiAt.query.staking?.activeEra?.();
+      this.logger.info({
+        sessionId,
+        queryBlockNumber,
+        hasActiveEra: !!activeEraOption,
+        isEmpty: activeEraOption?.isEmpty,
+        activeEraRaw: activeEraOption?.toString()
+      }, `Querying activeEra from Asset Hub for ${session} session`);
+
+      if (activeEraOption && !activeEraOption.isEmpty) {
+        const activeEra = (activeEraOption as any).toJSON();
+        eraIds.activeEraId = activeEra?.index || null;
+        this.logger.info({ activeEra, activeEraId: eraIds.activeEraId }, `Parsed activeEra for ${session} session`);
       }
 
+      // Get planned era (currentEra)
+      const currentEraOption = await apiAt.query.staking?.currentEra?.();
+      this.logger.info({
+        sessionId,
+        queryBlockNumber,
+        hasCurrentEra: !!currentEraOption,
+        isEmpty: currentEraOption?.isEmpty,
+        currentEraRaw: currentEraOption?.toString()
+      }, `Querying currentEra from Asset Hub for ${session} session`);
+
+      if (currentEraOption && !currentEraOption.isEmpty) {
+        // currentEra returns a plain number codec, not an object like activeEra
+        // Use toJSON() to get the numeric value
+        const asAny = currentEraOption as any;
+        eraIds.plannedEraId = typeof asAny.toJSON === 'function' ? asAny.toJSON() : null;
+        this.logger.info({ plannedEraId: eraIds.plannedEraId }, `Parsed currentEra for ${session} session`);
+      }
+    } catch (e) {
+      this.logger.error({ error: e, sessionId, queryBlockNumber }, `Error querying era info from Asset Hub for ${session} session`);
+    }
+
+    return eraIds;
+  }
+
+  /**
+   * Handle SessionReportReceived event to create sessions and eras
+   */
+  private handleSessionReportReceived(event: any, blockNumber: number, blockTimestamp: number, reads: SessionReportReads | null): void {
+    try {
+      const { sessionId, totalPoints, activationTimestamp, eraId } = this.parseSessionReport(event);
+
+      if (sessionId === null || !reads) {
+        // Without an endIndex there was nothing to read at fetch time either
+        this.logger.warn({ blockNumber, eventData: event.toJSON() }, 'SessionReportReceived missing endIndex');
+        return;
+      }
+
+      const isEraStart = eraId !== null;
+
       this.logger.info({
         sessionId,
         blockNumber,
@@ -741,159 +1321,87 @@ export class Indexer {
       }, 'SessionReportReceived event');
 
       // If this is an era start, create/update era
-      let eraId: number | null = null;
-      if (isEraStart && activationTimestamp !== null && eraIdFromTimestamp !== null) {
-        // Use the era_id from the activationTimestamp tuple
-        eraId = eraIdFromTimestamp;
-
-        if (eraId !== null) {
-
-          // Update previous era's end session
-          const previousEra = this.db.getLatestEra();
-          if (previousEra && previousEra.sessionEnd === null) {
-            this.db.upsertEra({
-              ...previousEra,
-              sessionEnd: sessionId, // Session that just ended when new era starts
-            });
-            this.logger.info({
-              previousEraId: previousEra.eraId,
-              sessionEnd: sessionId,
-              newEraId: eraId
-            }, 'Era transition: Updated previous era end session');
-          }
-
-          // Create new era (sessionId and eraId are guaranteed to be numbers here)
+      if (eraId !== null && activationTimestamp !== null) {
+        // Update previous era's end session
+        const previousEra = this.db.getLatestEra();
+        if (previousEra && previousEra.sessionEnd === null) {
           this.db.upsertEra({
-            eraId: eraId!,
-            sessionStart: (sessionId as number) + 1,
-            sessionEnd: null,
-            startTime: activationTimestamp,
+            ...previousEra,
+            sessionEnd: sessionId, // Session that just ended when new era starts
           });
-
           this.logger.info({
-            eraId,
-            sessionStart: sessionId + 1,
-            startTime: activationTimestamp,
-            previousEraEnded: previousEra ? sessionId : null
-          }, 'New era created');
+            previousEraId: previousEra.eraId,
+            sessionEnd: sessionId,
+            newEraId: eraId
+          }, 'Era transition: Updated previous era end session');
         }
-      }
 
-      // Query era information from Asset Hub at block n-1 for the ENDING session
-      // This is because the event is received at block n, but the era info should be queried from n-1
-      const queryBlockNumberForEndingSession = Math.max(1, blockNumber - 1);
-      let activeEraIdForEndingSession: number | null = null;
-      let plannedEraIdForEndingSession: number | null = null;
-
-      try {
-        const queryBlockHash = await this.apiAH.rpc.chain.getBlockHash(queryBlockNumberForEndingSession);
-        const apiAt = await this.apiAH.at(queryBlockHash);
+        this.db.upsertEra({
+          eraId,
+          sessionStart: sessionId + 1,
+          sessionEnd: null,
+          startTime: activationTimestamp,
+        });
 
-        // Get active era
-        const activeEraOption = await apiAt.query.staking?.activeEra?.();
         this.logger.info({
-          sessionId,
-          queryBlockNumber: queryBlockNumberForEndingSession,
-          hasActiveEra: !!activeEraOption,
-          isEmpty: activeEraOption?.isEmpty,
-          activeEraRaw: activeEraOption?.toString()
-        }, 'Querying activeEra from Asset Hub for ending session');
-
-        if (activeEraOption && !activeEraOption.isEmpty) {
-          const activeEra = (activeEraOption as any).toJSON();
-          activeEraIdForEndingSession = activeEra?.index || null;
-          this.logger.info({ activeEra, activeEraId: activeEraIdForEndingSession }, 'Parsed activeEra for ending session');
-        }
+          eraId,
+          sessionStart: sessionId + 1,
+          startTime: activationTimestamp,
+          previousEraEnded: previousEra ? sessionId : null
+        }, 'New era created');
 
-        // Get planned era (currentEra)
-        const currentEraOption = await apiAt.query.staking?.currentEra?.();
-        this.logger.info({
-          sessionId,
-          queryBlockNumber: queryBlockNumberForEndingSession,
-          hasCurrentEra: !!currentEraOption,
-          isEmpty: currentEraOption?.isEmpty,
-          currentEraRaw: currentEraOption?.toString()
-        }, 'Querying currentEra from Asset Hub for ending session');
-
-        if (currentEraOption && !currentEraOption.isEmpty) {
-          // currentEra returns a plain number codec, not an object like activeEra
-          // Use toJSON() to get the numeric value
-          const asAny = currentEraOption as any;
-          plannedEraIdForEndingSession = typeof asAny.toJSON === 'function' ? asAny.toJSON() : null;
-          this.logger.info({ plannedEraId: plannedEraIdForEndingSession }, 'Parsed currentEra for ending session');
-        }
-      } catch (e) {
-        this.logger.error({ error: e, sessionId, queryBlockNumber: queryBlockNumberForEndingSession }, 'Error querying era info from Asset Hub for ending session');
+        // Each new era moves the MAX_ERAS retention window forward
+        this.db.pruneOldEras();
       }
 
       // Create/update the ENDING session (sessionId = endIndex)
+      const { endingSession, startingSession } = reads;
       this.db.upsertSession({
         sessionId,
         blockNumber,
         activationTimestamp,
-        activeEraId: activeEraIdForEndingSession,
-        plannedEraId: plannedEraIdForEndingSession,
+        activeEraId: endingSession.activeEraId,
+        plannedEraId: endingSession.plannedEraId,
         validatorPointsTotal: totalPoints,
       });
 
-      this.logger.info({ sessionId, activeEraId: activeEraIdForEndingSession, plannedEraId: plannedEraIdForEndingSession, totalPoints }, 'Ending session created/updated');
+      this.logger.info({ sessionId, ...endingSession, totalPoints }, 'Ending session created/updated');
 
-      // Create the STARTING session (sessionId = endIndex + 1)
-      // Query era information at block n (current block) for the starting session
+      // Create the STARTING session (sessionId = endIndex + 1) with partial data (will be completed when this session ends)
       const nextSessionId = sessionId + 1;
-      let activeEraIdForStartingSession: number | null = null;
-      let plannedEraIdForStartingSession: number | null = null;
-
-      try {
-        const currentBlockHash = await this.apiAH.rpc.chain.getBlockHash(blockNumber);
-        const apiAtCurrent = await this.apiAH.at(currentBlockHash);
-
-        // Get active era for the starting session
-        const activeEraOptionCurrent = await apiAtCurrent.query.staking?.activeEra?.();
-        this.logger.info({
-          sessionId: nextSessionId,
-          queryBlockNumber: blockNumber,
-          hasActiveEra: !!activeEraOptionCurrent,
-          isEmpty: activeEraOptionCurrent?.isEmpty,
-          activeEraRaw: activeEraOptionCurrent?.toString()
-        }, 'Querying activeEra from Asset Hub for starting session');
-
-        if (activeEraOptionCurrent && !activeEraOptionCurrent.isEmpty) {
-          const activeEra = (activeEraOptionCurrent as any).toJSON();
-          activeEraIdForStartingSession = activeEra?.index || null;
-          this.logger.info({ activeEra, activeEraId: activeEraIdForStartingSession }, 'Parsed activeEra for starting session');
-        }
-
-        // Get planned era (currentEra) for the starting session
-        const currentEraOptionCurrent = await apiAtCurrent.query.staking?.currentEra?.();
-        this.logger.info({
-          sessionId: nextSessionId,
-          queryBlockNumber: blockNumber,
-          hasCurrentEra: !!currentEraOptionCurrent,
-          isEmpty: currentEraOptionCurrent?.isEmpty,
-          currentEraRaw: currentEraOptionCurrent?.toString()
-        }, 'Querying currentEra from Asset Hub for starting session');
-
-        if (currentEraOptionCurrent && !currentEraOptionCurrent.isEmpty) {
-          const asAny = currentEraOptionCurrent as any;
-          plannedEraIdForStartingSession = typeof asAny.toJSON === 'function' ? asAny.toJSON() : null;
-          this.logger.info({ plannedEraId: plannedEraIdForStartingSession }, 'Parsed currentEra for starting session');
-        }
-      } catch (e) {
-        this.logger.error({ error: e, sessionId: nextSessionId, queryBlockNumber: blockNumber }, 'Error querying era info from Asset Hub for starting session');
-      }
-
-      // Create the STARTING session with partial data (will be completed when this session ends)
       this.db.upsertSession({
         sessionId: nextSessionId,
         blockNumber: null, // Will be filled when this session ends
         activationTimestamp: null, // Will be filled if this session starts a new era
-        activeEraId: activeEraIdForStartingSession,
-        plannedEraId: plannedEraIdForStartingSession,
+        activeEraId: startingSession.activeEraId,
+        plannedEraId: startingSession.plannedEraId,
         validatorPointsTotal: 0, // Will be filled when this session ends
       });
 
-      this.logger.info({ sessionId: nextSessionId, activeEraId: activeEraIdForStartingSession, plannedEraId: plannedEraIdForStartingSession }, 'Starting session created');
+      this.logger.info({ sessionId: nextSessionId, ...startingSession }, 'Starting session created');
+
+      // Link both sessions to their RC start blocks (if the RC side is already indexed)
+      this.db.linkSessionToRc(sessionId);
+      this.db.linkSessionToRc(nextSessionId);
+
+      this.runConsistencyCheck({ blockNumber, timestamp: blockTimestamp });
+
+      if (reads.population) {
+        this.db.upsertStakingPopulationSample(reads.population);
+        this.logger.debug({ ...reads.population }, 'Sampled staking population');
+      }
+
+      if (reads.stakingClient) {
+        this.db.upsertStakingClientAh(sessionId, reads.stakingClient);
+        this.logger.debug({ sessionId, ...reads.stakingClient }, 'Sampled AH staking client');
+      }
+
+      this.storageSnapshotter?.store(reads.snapshots);
+
+      this.warningEngine?.evaluate({ kind: 'session', sessionId, blockNumber, timestamp: blockTimestamp });
+      if (eraId !== null) {
+        this.warningEngine?.evaluate({ kind: 'era', eraId, blockNumber, timestamp: blockTimestamp });
+      }
 
     } catch (error) {
       this.logger.error({ error, blockNumber, eventType: 'SessionReportReceived' }, 'Error handling SessionReportReceived');
@@ -901,71 +1409,158 @@ export class Indexer {
   }
 
   /**
-   * Handle PhaseTransitioned event to track election phases
+   * Read staking population counters, the bags list and minimum bonds at the end of a session
+   * Storage items missing on this runtime are read as null
    */
-  private async handlePhaseTransitioned(event: any, blockNumber: number, blockTimestamp: number): Promise<void> {
-    this.logger.info({ blockNumber }, 'Processing PhaseTransitioned event');
+  private async readStakingPopulation(sessionId: number, blockNumber: number, blockTimestamp: number, eraId: number | null): Promise<StakingPopulationSample | null> {
+    try {
+      const blockHash = await this.apiAH.rpc.chain.getBlockHash(blockNumber);
+      const apiAt = await this.apiAH.at(blockHash);
+
+      const toNumber = (codec: any): number | null => (codec && typeof codec.toNumber === 'function' ? codec.toNumber() : null);
+      const toBalance = (codec: any): string | null => (codec ? codec.toString() : null);
+
+      // The bags list is the voterList pallet on Asset Hub
+      const bagsList = apiAt.query.voterList ?? apiAt.query.bagsList;
+      const lock: any = await (bagsList?.locked ?? bagsList?.lock)?.();
+      // Either a bool or an Option<()> that is Some while locked
+      const bagsListLocked = lock === undefined ? null : typeof lock.isSome === 'boolean' ? lock.isSome : lock.toJSON() === true;
 
+      return {
+        sessionId,
+        blockNumber,
+        timestamp: blockTimestamp,
+        eraId,
+        validatorCount: toNumber(await apiAt.query.staking?.counterForValidators?.()),
+        nominatorCount: toNumber(await apiAt.query.staking?.counterForNominators?.()),
+        bagsListNodes: toNumber(await bagsList?.counterForListNodes?.()),
+        bagsListLocked,
+        minNominatorBond: toBalance(await apiAt.query.staking?.minNominatorBond?.()),
+        minValidatorBond: toBalance(await apiAt.query.staking?.minValidatorBond?.()),
+        minActiveStake: toBalance(await apiAt.query.staking?.minimumActiveStake?.()), // MinimumActiveStake
+      };
+    } catch (error) {
+      this.logger.error({ error, sessionId, blockNumber }, 'Error sampling staking population');
+      return null;
+    }
+  }
+
+  /**
+   * Read the Relay Chain stakingAhClient state when a session starts: operating mode, the validator set
+   * received from AH that the session pallet has not taken yet, and the points not yet reported to AH
+   */
+  private async readStakingClientRC(blockNumber: number, blockTimestamp: number): Promise<StakingClientRcSample | null> {
     try {
-      // Get phase transition info
-      // Extract phase names and duration from phase data
-      // Phase enum variants can be:
-      // - Off: no data
-      // - Snapshot(PageIndex): page index
-      // - Signed(BlockNumber): blocks remaining
-      // - SignedValidation(BlockNumber): blocks remaining
-      // - Unsigned(BlockNumber): blocks remaining
-      // - Done: no data
-      // - Export(PageIndex): page index
-      // - Emergency: no data
-      const extractPhaseInfo = (phaseData: any): { name: string; duration: number | null } => {
-        if (!phaseData) return { name: '', duration: null };
-
-        // If it's an enum type, check for .type property
-        if (phaseData.type) {
-          return { name: phaseData.type, duration: null };
-        }
+      const blockHash = await this.apiRC.rpc.chain.getBlockHash(blockNumber);
+      const apiAt = await this.apiRC.at(blockHash);
+      const client = apiAt.query.stakingAhClient;
 
-        // If it's already a string, use it
-        if (typeof phaseData === 'string') {
-          return { name: phaseData, duration: null };
-        }
+      // Option<(SetId, Vec<AccountId>)>
+      const queued: any = (await client?.validatorSet?.())?.toJSON() ?? null;
+      const points: any[] | null = client?.validatorPoints?.entries ? await client.validatorPoints.entries() : null;
+      const mode: any = await client?.mode?.();
 
-        // If toString gives us JSON like {"Signed":150} or {"Snapshot":32}, extract both key and value
-        const str = phaseData.toString();
-        if (str.startsWith('{')) {
-          try {
-            const parsed = JSON.parse(str);
-            const keys = Object.keys(parsed);
-            if (keys.length > 0) {
-              const key = keys[0];
-              const value = parsed[key];
-              // Capitalize first letter
-              const name = key.charAt(0).toUpperCase() + key.slice(1);
-              // Extract duration if it's a number (for Signed, SignedValidation, Unsigned phases)
-              // For Snapshot/Export, the value is a page index, not duration
-              const duration = (key.toLowerCase() === 'signed' ||
-                               key.toLowerCase() === 'signedvalidation' ||
-                               key.toLowerCase() === 'unsigned') &&
-                               typeof value === 'number' ? value : null;
-              return { name, duration };
-            }
-          } catch (e) {
-            // Fall through
-          }
-        }
+      return {
+        blockNumber,
+        timestamp: blockTimestamp,
+        mode: mode ? mode.toString() : null,
+        queuedValidatorSetId: Array.isArray(queued) ? queued[0] : null,
+        queuedValidatorsCount: Array.isArray(queued) ? queued[1].length : null,
+        validatorPointsCount: points ? points.length : null,
+        validatorPointsTotal: points ? points.reduce((sum, [, value]) => sum + value.toNumber(), 0) : null,
+      };
+    } catch (error) {
+      this.logger.error({ error, blockNumber }, 'Error sampling RC staking client');
+      return null;
+    }
+  }
 
-        return { name: str, duration: null };
+  /**
+   * Read the Asset Hub stakingRcClient state when a session's report arrives: the last session
+   * it has a report for and the validator set it is still sending to the Relay Chain
+   */
+  private async readStakingClientAH(sessionId: number, blockNumber: number, blockTimestamp: number): Promise<StakingClientAhSample | null> {
+    try {
+      const blockHash = await this.apiAH.rpc.chain.getBlockHash(blockNumber);
+      const apiAt = await this.apiAH.at(blockHash);
+      const client = apiAt.query.stakingRcClient;
+
+      const lastReportEndIndex: any = (await client?.lastSessionReportEndingIndex?.())?.toJSON() ?? null;
+      // Option<(ValidatorSetReport, retries)>
+      const outgoing: any = (await client?.outgoingValidatorSet?.())?.toJSON() ?? null;
+
+      return {
+        blockNumber,
+        timestamp: blockTimestamp,
+        lastSessionReportEndIndex: typeof lastReportEndIndex === 'number' ? lastReportEndIndex : null,
+        outgoingValidatorSetId: Array.isArray(outgoing) ? outgoing[0]?.id ?? null : null,
       };
+    } catch (error) {
+      this.logger.error({ error, sessionId, blockNumber }, 'Error sampling AH staking client');
+      return null;
+    }
+  }
 
-      const fromPhaseInfo = extractPhaseInfo(event.data.from);
-      const toPhaseInfo = extractPhaseInfo(event.data.to);
+  /**
+   * Extract the phase name and, for timed phases, its duration from PhaseTransitioned phase data
+   * Phase enum variants can be:
+   * - Off: no data
+   * - Snapshot(PageIndex): page index
+   * - Signed(BlockNumber): blocks remaining
+   * - SignedValidation(BlockNumber): blocks remaining
+   * - Unsigned(BlockNumber): blocks remaining
+   * - Done: no data
+   * - Export(PageIndex): page index
+   * - Emergency: no data
+   */
+  private extractPhaseInfo(phaseData: any): { name: string; duration: number | null } {
+    if (!phaseData) return { name: '', duration: null };
 
-      const fromPhase = fromPhaseInfo.name;
-      const toPhase = toPhaseInfo.name;
-      const expectedDurationBlocks = toPhaseInfo.duration;
+    // If it's an enum type, check for .type property
+    if (phaseData.type) {
+      return { name: phaseData.type, duration: null };
+    }
 
-      this.logger.info({ fromPhase, toPhase, blockNumber }, 'Phase transition detected');
+    // If it's already a string, use it
+    if (typeof phaseData === 'string') {
+      return { name: phaseData, duration: null };
+    }
+
+    // If toString gives us JSON like {"Signed":150} or {"Snapshot":32}, extract both key and value
+    const str = phaseData.toString();
+    if (str.startsWith('{')) {
+      try {
+        const parsed = JSON.parse(str);
+        const keys = Object.keys(parsed);
+        if (keys.length > 0) {
+          const key = keys[0];
+          const value = parsed[key];
+          // Capitalize first letter
+          const name = key.charAt(0).toUpperCase() + key.slice(1);
+          // Extract duration if it's a number (for Signed, SignedValidation, Unsigned phases)
+          // For Snapshot/Export, the value is a page index, not duration
+          const duration = (key.toLowerCase() === 'signed' ||
+                           key.toLowerCase() === 'signedvalidation' ||
+                           key.toLowerCase() === 'unsigned') &&
+                           typeof value === 'number' ? value : null;
+          return { name, duration };
+        }
+      } catch (e) {
+        // Fall through
+      }
+    }
+
+    return { name: str, duration: null };
+  }
+
+  /**
+   * Read what a PhaseTransitioned event needs from Asset Hub: the round, the active era and the data
+   * of the phase being entered (the elected validators at block n-1 for Export→Off)
+   */
+  private async readPhaseTransitioned(event: any, blockNumber: number): Promise<PhaseReads | null> {
+    try {
+      const fromPhase = this.extractPhaseInfo(event.data.from).name;
+      const toPhase = this.extractPhaseInfo(event.data.to).name;
 
       // Create API instance at this block
       const blockHash = await this.apiAH.rpc.chain.getBlockHash(blockNumber);
@@ -984,44 +1579,11 @@ export class Indexer {
         eraId = activeEra?.index || null;
       }
 
+      const reads: PhaseReads = { round: roundNumber, eraId, phaseFields: {}, electedStashes: null };
       if (!eraId) {
-        this.logger.warn({ blockNumber }, 'Could not get era_id for election phase');
-        return;
+        return reads;
       }
 
-      // Create event_id for Subscan linking
-      const eventsCodec = await apiAt.query.system.events();
-      const events = eventsCodec as unknown as EventRecord[];
-      let eventIndex = 0;
-      for (let i = 0; i < events.length; i++) {
-        const record = events[i];
-        const evt = record.event;
-        const evtType = `${evt.section}.${evt.method}`;
-        if (evtType.toLowerCase() === 'multiblockelection.phasetransitioned') {
-          eventIndex = i;
-          break;
-        }
-      }
-      const eventId = `${blockNumber}-${eventIndex}`;
-
-      let phaseData: any = {
-        eraId,
-        round: roundNumber,
-        phase: toPhase,
-        blockNumber,
-        eventId,
-        timestamp: blockTimestamp,
-        expectedDurationBlocks,
-        status: 'ongoing', // New phase starts as ongoing
-      };
-
-      this.logger.info({
-        phase: toPhase,
-        expectedDurationBlocks,
-        eraId,
-        round: roundNumber
-      }, 'New phase starting');
-
       // Query phase-specific data
       if (toPhase === 'Snapshot') {
         // Query validator and nominator counts
@@ -1029,15 +1591,9 @@ export class Indexer {
         const nominatorCount = await apiAt.query.staking?.counterForNominators?.();
         const targetValidatorCount = await apiAt.query.staking?.validatorCount?.();
 
-        phaseData.validatorCandidates = validatorCount && typeof (validatorCount as any).toNumber === 'function' ? (validatorCount as any).toNumber() : null;
-        phaseData.nominatorCandidates = nominatorCount && typeof (nominatorCount as any).toNumber === 'function' ? (nominatorCount as any).toNumber() : null;
-        phaseData.targetValidatorCount = targetValidatorCount && typeof (targetValidatorCount as any).toNumber === 'function' ? (targetValidatorCount as any).toNumber() : null;
-
-        this.logger.info({
-          validatorCandidates: phaseData.validatorCandidates,
-          nominatorCandidates: phaseData.nominatorCandidates,
-          targetValidatorCount: phaseData.targetValidatorCount
-        }, 'Snapshot phase data');
+        reads.phaseFields.validatorCandidates = validatorCount && typeof (validatorCount as any).toNumber === 'function' ? (validatorCount as any).toNumber() : null;
+        reads.phaseFields.nominatorCandidates = nominatorCount && typeof (nominatorCount as any).toNumber === 'function' ? (nominatorCount as any).toNumber() : null;
+        reads.phaseFields.targetValidatorCount = targetValidatorCount && typeof (targetValidatorCount as any).toNumber === 'function' ? (targetValidatorCount as any).toNumber() : null;
       }
 
       if (toPhase === 'Signed') {
@@ -1049,14 +1605,12 @@ export class Indexer {
           const sortedScores = sortedScoresCodec.toJSON();
           // Get top 5 scores
           const top5 = Array.isArray(sortedScores) ? sortedScores.slice(0, 5) : [];
-          phaseData.sortedScores = JSON.stringify(top5);
+          reads.phaseFields.sortedScores = JSON.stringify(top5);
         }
 
         if (minimumScoreCodec && !minimumScoreCodec.isEmpty) {
-          phaseData.minimumScore = minimumScoreCodec.toString();
+          reads.phaseFields.minimumScore = minimumScoreCodec.toString();
         }
-
-        this.logger.info({ sortedScores: phaseData.sortedScores, minimumScore: phaseData.minimumScore }, 'Signed phase data');
       }
 
       if (toPhase === 'SignedValidation') {
@@ -1064,10 +1618,8 @@ export class Indexer {
         const queuedScoreCodec = await apiAt.query.multiBlockElectionVerifier?.queuedSolutionScore?.(roundNumber);
 
         if (queuedScoreCodec && !queuedScoreCodec.isEmpty) {
-          phaseData.queuedSolutionScore = queuedScoreCodec.toString();
+          reads.phaseFields.queuedSolutionScore = queuedScoreCodec.toString();
         }
-
-        this.logger.info({ queuedSolutionScore: phaseData.queuedSolutionScore }, 'SignedValidation phase data');
       }
 
       if (toPhase === 'Off' && fromPhase === 'Export') {
@@ -1080,11 +1632,69 @@ export class Indexer {
 
         if (electableStashes) {
           const stashesList = electableStashes.toJSON();
-          phaseData.validatorsElected = Array.isArray(stashesList) ? stashesList.length : 0;
-
-          // Also update the era table
-          this.db.updateEraValidatorCount(eraId, phaseData.validatorsElected);
+          reads.electedStashes = Array.isArray(stashesList) ? stashesList.map(stash => String(stash)) : [];
         }
+      }
+
+      return reads;
+    } catch (error) {
+      this.logger.error({ error, blockNumber, eventType: 'PhaseTransitioned' }, 'Error reading PhaseTransitioned chain state');
+      return null;
+    }
+  }
+
+  /**
+   * Handle PhaseTransitioned event to track election phases
+   */
+  private handlePhaseTransitioned(event: any, blockNumber: number, blockTimestamp: number, eventId: string, reads: PhaseReads | null): void {
+    this.logger.info({ blockNumber }, 'Processing PhaseTransitioned event');
+
+    try {
+      const fromPhaseInfo = this.extractPhaseInfo(event.data.from);
+      const toPhaseInfo = this.extractPhaseInfo(event.data.to);
+
+      const fromPhase = fromPhaseInfo.name;
+      const toPhase = toPhaseInfo.name;
+      const expectedDurationBlocks = toPhaseInfo.duration;
+
+      this.logger.info({ fromPhase, toPhase, blockNumber }, 'Phase transition detected');
+
+      if (!reads) {
+        return;
+      }
+
+      const { round: roundNumber, eraId } = reads;
+      if (!eraId) {
+        this.logger.warn({ blockNumber }, 'Could not get era_id for election phase');
+        return;
+      }
+
+      const phaseData: any = {
+        eraId,
+        round: roundNumber,
+        phase: toPhase,
+        blockNumber,
+        eventId,
+        timestamp: blockTimestamp,
+        expectedDurationBlocks,
+        status: 'ongoing', // New phase starts as ongoing
+        ...reads.phaseFields,
+      };
+
+      this.logger.info({
+        phase: toPhase,
+        expectedDurationBlocks,
+        eraId,
+        round: roundNumber,
+        ...reads.phaseFields,
+      }, 'New phase starting');
+
+      if (reads.electedStashes) {
+        phaseData.validatorsElected = reads.electedStashes.length;
+
+        // Also update the era table and keep the full set for validator set diffs
+        this.db.updateEraValidatorCount(eraId, phaseData.validatorsElected);
+        this.db.setElectedValidators(eraId, reads.electedStashes);
 
         this.logger.info({ validatorsElected: phaseData.validatorsElected }, 'Export→Off transition data');
       }
@@ -1101,7 +1711,7 @@ export class Indexer {
       } else {
         // Mark previous phase as completed (if transitioning from a tracked phase)
         if (fromPhase && fromPhase !== 'Off') {
-          this.db.markPreviousPhaseCompleted(eraId, roundNumber, fromPhase);
+          this.db.markPreviousPhaseCompleted(eraId, roundNumber, fromPhase, blockNumber, blockTimestamp);
           this.logger.info({ phase: fromPhase, eraId, round: roundNumber }, 'Marked previous phase as completed');
         }
 
@@ -1118,7 +1728,7 @@ export class Indexer {
   /**
    * Handle EraPaid event to update era inflation data
    */
-  private async handleEraPaid(event: any, blockNumber: number): Promise<void> {
+  private handleEraPaid(event: any, blockNumber: number, rewards: EraRewardsReads | null): void {
     this.logger.info({ blockNumber }, 'Processing EraPaid event');
 
     try {
@@ -1148,16 +1758,347 @@ export class Indexer {
         treasury: remainder
       }, 'Updated era inflation from EraPaid event');
 
+      if (rewards) {
+        this.storeEraRewards(eraIndex, blockNumber, rewards);
+      }
+
     } catch (error) {
       this.logger.error({ error, blockNumber, eventType: 'EraPaid' }, 'Error handling EraPaid event');
     }
   }
 
+  /**
+   * Read an ended era's rewards from staking storage: validator payout, reward points and
+   * exposure pages per validator. Also re-reads claimed pages of eras that are still claimable,
+   * which covers payouts made while the indexer was not running.
+   */
+  private async readEraRewards(event: any, blockNumber: number): Promise<EraRewardsReads | null> {
+    const eraIndex = event.data.eraIndex ? event.data.eraIndex.toNumber() : null;
+    if (eraIndex === null) {
+      return null;
+    }
+
+    try {
+      const blockHash = await this.apiAH.rpc.chain.getBlockHash(blockNumber);
+      const apiAt = await this.apiAH.at(blockHash);
+      const staking = apiAt.query.staking as any;
+
+      if (!staking?.erasRewardPoints) {
+        this.logger.warn({ eraIndex, blockNumber }, 'staking.erasRewardPoints not available, skipping rewards snapshot');
+        return null;
+      }
+
+      const [rewardOption, rewardPoints, overviews, claimed] = await Promise.all([
+        staking.erasValidatorReward?.(eraIndex),
+        staking.erasRewardPoints(eraIndex),
+        staking.erasStakersOverview?.entries(eraIndex) ?? [],
+        staking.claimedRewards?.entries(eraIndex) ?? [],
+      ]);
+
+      const points = rewardPoints.toJSON() as { total: number; individual: Record<string, number> };
+
+      const pageCounts = new Map<string, number>();
+      for (const [key, overview] of overviews) {
+        if (!overview.isEmpty) {
+          pageCounts.set(key.args[1].toString(), (overview.toJSON() as any).pageCount);
+        }
+      }
+
+      const claimedPages = new Map<string, number>();
+      for (const [key, pages] of claimed) {
+        claimedPages.set(key.args[1].toString(), (pages.toJSON() as number[]).length);
+      }
+
+      // erasRewardPoints has no entry for an exposed validator that earned no points
+      const individual = points.individual || {};
+      const stashes = new Set([...Object.keys(individual), ...pageCounts.keys()]);
+      const validators = [...stashes].map(validator => ({
+        validator,
+        points: individual[validator] ?? 0,
+        pageCount: pageCounts.get(validator) ?? null,
+        claimedPages: claimedPages.get(validator) ?? 0,
+      }));
+
+      // Claimed pages can only change while an era is within staking.historyDepth
+      const historyDepth: number | null = (this.apiAH.consts?.staking as any)?.historyDepth?.toNumber() ?? null;
+      const claimableFrom = eraIndex - (historyDepth || new UnclaimedRewardsTracker(this.db).getHistoryDepth());
+
+      // Read from the database while fetching: earlier eras were paid a day or more before, so their
+      // snapshots are committed long before the backfill fetches this block ahead of the commits
+      const claimableEras: EraRewardsReads['claimedPages'] = [];
+      for (const eraId of this.db.getErasWithUnclaimedPages(claimableFrom)) {
+        if (eraId >= eraIndex) continue;
+
+        const entries = await staking.claimedRewards?.entries(eraId) ?? [];
+        claimableEras.push({
+          eraId,
+          claimed: entries.map(([key, pages]: [any, any]) => ({
+            validator: key.args[1].toString(),
+            claimedPages: (pages.toJSON() as number[]).length,
+          })),
+        });
+      }
+
+      return {
+        validatorPayout: rewardOption && !rewardOption.isEmpty ? rewardOption.toString() : null,
+        totalPoints: points.total || 0,
+        validators,
+        historyDepth,
+        claimedPages: claimableEras,
+      };
+    } catch (error) {
+      this.logger.error({ error, eraIndex, blockNumber }, 'Failed to snapshot era rewards');
+      return null;
+    }
+  }
+
+  /**
+   * Store an era rewards snapshot and the refreshed claimed pages of earlier eras
+   */
+  private storeEraRewards(eraIndex: number, blockNumber: number, rewards: EraRewardsReads): void {
+    const { validatorPayout, totalPoints, validators } = rewards;
+    this.db.upsertEraRewards(eraIndex, validatorPayout, totalPoints, blockNumber, validators);
+
+    this.logger.info({
+      eraIndex,
+      validatorPayout,
+      totalPoints,
+      validators: validators.length,
+      totalPages: validators.reduce((sum, v) => sum + (v.pageCount ?? 0), 0),
+    }, 'Stored era rewards snapshot');
+
+    if (rewards.historyDepth) {
+      this.db.setState('historyDepth', rewards.historyDepth.toString());
+    }
+
+    for (const { eraId, claimed } of rewards.claimedPages) {
+      this.db.updateClaimedPages(eraId, claimed);
+    }
+  }
+
+  /**
+   * Handle staking.PayoutStarted: one payout page of a validator for an era
+   */
+  private handlePayoutStarted(event: any, blockNumber: number, blockTimestamp: number): void {
+    try {
+      // Event structure: { eraIndex, validatorStash, page, next }
+      const eraIndex = (event.data.eraIndex ?? event.data[0])?.toNumber();
+      const validator = (event.data.validatorStash ?? event.data[1])?.toString();
+      const pageCodec = event.data.page ?? event.data[2];
+      const page = pageCodec !== undefined && pageCodec !== null ? pageCodec.toNumber() : null;
+
+      if (eraIndex === undefined || !validator) {
+        this.logger.warn({ blockNumber }, 'PayoutStarted missing eraIndex or validatorStash');
+        return;
+      }
+
+      const payoutId = this.db.recordPayoutStarted({ eraId: eraIndex, validator, page, blockNumber, timestamp: blockTimestamp });
+      this.currentPayout = { blockNumber, payoutId };
+
+      this.logger.debug({ eraIndex, validator, page, blockNumber }, 'Recorded payout');
+    } catch (error) {
+      this.logger.error({ error, blockNumber, eventType: 'PayoutStarted' }, 'Error handling PayoutStarted event');
+    }
+  }
+
+  /**
+   * Handle staking.Rewarded: add the amount to the payout started earlier in the same block
+   */
+  private handleRewarded(event: any, blockNumber: number): void {
+    try {
+      if (!this.currentPayout || this.currentPayout.blockNumber !== blockNumber) {
+        return; // Not part of a payout we track (e.g. reward outside PayoutStarted)
+      }
+
+      // Event structure: { stash, dest, amount }
+      const amount = (event.data.amount ?? event.data[2])?.toString();
+      if (amount) {
+        this.db.addPayoutAmount(this.currentPayout.payoutId, amount);
+      }
+    } catch (error) {
+      this.logger.error({ error, blockNumber, eventType: 'Rewarded' }, 'Error handling Rewarded event');
+    }
+  }
+
+  /**
+   * Handle staking offence and slash events, tracking each offence from report to applied slash
+   * Handles: OffenceReported, SlashReported, SlashComputed, SlashCancelled, Slashed
+   */
+  private handleSlashEvent(event: any, eventType: string, chain: ChainLayer, eventId: string, blockNumber: number, blockTimestamp: number): void {
+    const eventName = eventType.split('.').pop()!.toLowerCase();
+
+    try {
+      switch (eventName) {
+        case 'offencereported': {
+          // Event structure (AH): { offenceEra, validator, fraction }
+          const offenceEra = (event.data.offenceEra ?? event.data[0])?.toNumber();
+          const offender = (event.data.validator ?? event.data[1])?.toString();
+          const fraction = (event.data.fraction ?? event.data[2])?.toNumber() ?? null;
+          if (offenceEra === undefined || !offender) {
+            this.logger.warn({ blockNumber, chain }, 'OffenceReported missing offenceEra or validator');
+            return;
+          }
+          this.db.recordOffenceReported({ chain, offender, offenceEra, fractionPerbill: fraction, blockNumber, timestamp: blockTimestamp });
+          this.logger.info({ chain, offender, offenceEra, fraction, blockNumber }, 'Offence reported');
+          break;
+        }
+
+        case 'slashreported': {
+          // Event structure (RC): { validator, fraction, slashEra } - slashEra is the era of the offence
+          const offender = (event.data.validator ?? event.data[0])?.toString();
+          const fraction = (event.data.fraction ?? event.data[1])?.toNumber() ?? null;
+          const offenceEra = (event.data.slashEra ?? event.data[2])?.toNumber();
+          if (offenceEra === undefined || !offender) {
+            this.logger.warn({ blockNumber, chain }, 'SlashReported missing validator or slashEra');
+            return;
+          }
+          this.db.recordOffenceReported({ chain, offender, offenceEra, fractionPerbill: fraction, blockNumber, timestamp: blockTimestamp });
+          this.logger.info({ chain, offender, offenceEra, fraction, blockNumber }, 'Slash reported');
+          break;
+        }
+
+        case 'slashcomputed': {
+          // Event structure (AH): { offenceEra, slashEra, offender, page } - one event per exposure page
+          const offenceEra = (event.data.offenceEra ?? event.data[0])?.toNumber();
+          const slashEra = (event.data.slashEra ?? event.data[1])?.toNumber();
+          const offender = (event.data.offender ?? event.data[2])?.toString();
+          if (offenceEra === undefined || slashEra === undefined || !offender) {
+            this.logger.warn({ blockNumber, chain }, 'SlashComputed missing offenceEra, slashEra or offender');
+            return;
+          }
+          this.db.recordSlashComputed({ chain, offender, offenceEra, slashEra, blockNumber });
+          this.logger.info({ chain, offender, offenceEra, slashEra, blockNumber }, 'Slash computed');
+          break;
+        }
+
+        case 'slashcancelled': {
+          // Event structure (AH): { slashEra, validator }
+          const slashEra = (event.data.slashEra ?? event.data[0])?.toNumber();
+          const offender = (event.data.validator ?? event.data[1])?.toString();
+          if (slashEra === undefined || !offender) {
+            this.logger.warn({ blockNumber, chain }, 'SlashCancelled missing slashEra or validator');
+            return;
+          }
+          const cancelled = this.db.cancelSlash({ chain, offender, slashEra, blockNumber });
+          this.logger.info({ chain, offender, slashEra, cancelled, blockNumber }, 'Slash cancelled');
+          break;
+        }
+
+        case 'slashed': {
+          // Event structure: { staker, amount } - the offender first, then its nominators
+          const staker = (event.data.staker ?? event.data[0])?.toString();
+          const amount = (event.data.amount ?? event.data[1])?.toString();
+          if (!staker || !amount) {
+            this.logger.warn({ blockNumber, chain }, 'Slashed missing staker or amount');
+            return;
+          }
+
+          const current = this.currentSlash;
+          const slashId = this.db.recordSlashed({
+            chain,
+            eventId,
+            staker,
+            amount,
+            blockNumber,
+            timestamp: blockTimestamp,
+            slashEra: this.db.getLatestEra()?.eraId ?? null,
+            currentSlashId: current && current.chain === chain && current.blockNumber === blockNumber ? current.slashId : null,
+          });
+          this.currentSlash = { chain, blockNumber, slashId };
+          this.logger.debug({ chain, staker, amount, slashId, blockNumber }, 'Recorded slash');
+          break;
+        }
+      }
+    } catch (error) {
+      this.logger.error({ error, blockNumber, eventType }, `Error handling ${eventType} event`);
+    }
+  }
+
+  /**
+   * Follow election incidents: StakingElectionFailed or a transition to Emergency opens one, every
+   * election event while it is unrecovered is added to its timeline, multiBlockElectionVerifier.Queued
+   * marks a valid solution queued and the following Export -> Off transition recovers it
+   */
+  private handleElectionIncidentEvent(event: any, eventType: string, chain: ChainLayer, eventId: string, blockNumber: number, blockTimestamp: number): void {
+    const lowerEventType = eventType.toLowerCase();
+
+    try {
+      let from: string | null = null;
+      let to: string | null = null;
+      let detail: string | null;
+
+      if (lowerEventType === 'multiblockelection.phasetransitioned') {
+        from = this.extractPhaseInfo(event.data.from ?? event.data[0]).name;
+        to = this.extractPhaseInfo(event.data.to ?? event.data[1]).name;
+        detail = `${from} → ${to}`;
+      } else {
+        const human = typeof event.toHuman === 'function' ? event.toHuman() : null;
+        detail = human?.data !== undefined && human.data !== null ? JSON.stringify(human.data) : null;
+      }
+
+      if (lowerEventType === 'staking.stakingelectionfailed' || to === 'Emergency') {
+        // The phase handler has already recorded the Emergency phase, so the ongoing phase is the failed round
+        const ongoing = this.db.getOngoingElectionPhase();
+        const incidentId = this.db.openElectionIncident({
+          chain,
+          cause: to === 'Emergency' ? 'emergency' : 'election_failed',
+          round: ongoing?.round ?? null,
+          eraId: ongoing?.eraId ?? this.db.getLatestEra()?.eraId ?? null,
+          eventId,
+          eventType,
+          detail,
+          blockNumber,
+          timestamp: blockTimestamp,
+        });
+        this.logger.warn({ incidentId, chain, eventType, blockNumber }, 'Election incident opened');
+        return;
+      }
+
+      // An Emergency phase can only be left through the admin origin
+      const kind: ElectionIncidentEventKind = from === 'Emergency'
+        ? 'governance'
+        : INCIDENT_EVENT_KINDS[lowerEventType] ?? INCIDENT_EVENT_KINDS[lowerEventType.split('.')[0]];
+
+      const incidentId = this.db.recordElectionIncidentEvent({ chain, eventId, eventType, kind, detail, blockNumber, timestamp: blockTimestamp });
+      if (incidentId === null) return;
+
+      if (lowerEventType === 'multiblockelectionverifier.queued') {
+        this.db.markElectionIncidentQueued(incidentId, blockNumber, blockTimestamp);
+        this.logger.info({ incidentId, blockNumber }, 'Election incident: solution queued');
+      }
+
+      if (from === 'Export' && to === 'Off' && this.db.markElectionIncidentRecovered(incidentId, blockNumber, blockTimestamp)) {
+        this.logger.info({ incidentId, blockNumber }, 'Election incident recovered');
+      }
+    } catch (error) {
+      this.logger.error({ error, blockNumber, eventType }, `Error handling ${eventType} event`);
+    }
+  }
+
+  /**
+   * Read the active era an election score event belongs to
+   */
+  private async readElectionScoreEra(blockNumber: number): Promise<number | null> {
+    try {
+      const blockHash = await this.apiAH.rpc.chain.getBlockHash(blockNumber);
+      const apiAt = await this.apiAH.at(blockHash);
+      const activeEraOption = await apiAt.query.staking?.activeEra?.();
+
+      if (activeEraOption && !activeEraOption.isEmpty) {
+        const activeEra = (activeEraOption as any).toJSON();
+        return activeEra?.index || null;
+      }
+    } catch (error) {
+      this.logger.error({ error, blockNumber }, 'Error querying activeEra for election score');
+    }
+    return null;
+  }
+
   /**
    * Handle MultiBlockElectionSigned events for election scores
    * Handles: Registered, Rewarded, Slashed, Ejected, Discarded, Bailed
    */
-  private async handleElectionScoreEvent(event: any, eventType: string, blockNumber: number): Promise<void> {
+  private handleElectionScoreEvent(event: any, eventType: string, blockNumber: number, eraId: number | null): void {
     try {
       // Extract event name from eventType (e.g., "MultiBlockElectionSigned.Registered")
       const parts = eventType.split('.');
@@ -1258,22 +2199,6 @@ export class Indexer {
         return;
       }
 
-      // Query activeEra to tie this score to an era
-      let eraId: number | null = null;
-      try {
-        // Query at block n-1 to get the era at the time of the event
-        const blockHash = await this.apiAH.rpc.chain.getBlockHash(blockNumber);
-        const apiAt = await this.apiAH.at(blockHash);
-        const activeEraOption = await apiAt.query.staking?.activeEra?.();
-
-        if (activeEraOption && !activeEraOption.isEmpty) {
-          const activeEra = (activeEraOption as any).toJSON();
-          eraId = activeEra?.index || null;
-        }
-      } catch (error) {
-        this.logger.error({ error, blockNumber }, 'Error querying activeEra for election score');
-      }
-
       // Upsert election score
       this.db.upsertElectionScore({
         blockNumber,
@@ -1324,6 +2249,21 @@ export class Indexer {
       this.gapFillerInterval = null;
     }
 
+    if (this.reimportCheckerInterval) {
+      clearInterval(this.reimportCheckerInterval);
+      this.reimportCheckerInterval = null;
+    }
+
+    if (this.consistencyCheckerInterval) {
+      clearInterval(this.consistencyCheckerInterval);
+      this.consistencyCheckerInterval = null;
+    }
+
+    if (this.hashVerifierInterval) {
+      clearInterval(this.hashVerifierInterval);
+      this.hashVerifierInterval = null;
+    }
+
     this.isRunning = false;
     this.logger.info('Indexer stopped');
   }
@@ -0,0 +1,124 @@
+/**
+ * Ordered parallel backfill: blocks are fetched by a pool of workers, but committed strictly
+ * in block order and in batches, so event handlers that depend on earlier blocks see them first.
+ */
+
+export interface BackfillOptions<T> {
+  blocks: number[]; // Ascending block numbers to process
+  concurrency: number; // Parallel fetches
+  batchSize: number; // Blocks per commit
+  maxAttempts: number; // Fetch attempts per block before it is reported as failed
+  retryDelayMs?: number; // Backoff before the first retry, doubled per attempt
+  fetch: (blockNumber: number) => Promise<T>;
+  commit: (batch: T[]) => Promise<void>; // Called in block order, never concurrently
+  onFailed?: (blockNumber: number, error: unknown) => void; // Called in block order, before later commits
+}
+
+export interface BackfillResult {
+  committed: number;
+  failed: { blockNumber: number; error: string }[];
+}
+
+type FetchOutcome<T> = { ok: true; value: T } | { ok: false; error: unknown };
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export async function runOrderedBackfill<T>(options: BackfillOptions<T>): Promise<BackfillResult> {
+  const { blocks, concurrency, batchSize, maxAttempts, retryDelayMs = 1000, fetch, commit, onFailed } = options;
+
+  // Bound memory: workers may only run this far ahead of the commit cursor
+  const maxAhead = batchSize * 2 + concurrency;
+
+  const outcomes = new Map<number, FetchOutcome<T>>();
+  const result: BackfillResult = { committed: 0, failed: [] };
+  let nextIndex = 0;
+  let commitIndex = 0;
+  let pending: T[] = [];
+  let aborted: unknown = null;
+  let draining: Promise<void> = Promise.resolve();
+  let waiters: (() => void)[] = [];
+
+  const wakeWaiters = () => {
+    const current = waiters;
+    waiters = [];
+    current.forEach(resolve => resolve());
+  };
+
+  const flush = async () => {
+    const batch = pending;
+    pending = [];
+    await commit(batch);
+    result.committed += batch.length;
+  };
+
+  // Move contiguous fetched blocks into the pending batch, committing full batches
+  const drain = (final: boolean): Promise<void> => {
+    draining = draining.then(async () => {
+      if (aborted) return;
+
+      try {
+        while (outcomes.has(commitIndex)) {
+          const outcome = outcomes.get(commitIndex)!;
+          outcomes.delete(commitIndex);
+
+          if (outcome.ok) {
+            pending.push(outcome.value);
+          } else {
+            // Commit everything before the failed block first so callers can track a contiguous prefix
+            if (pending.length > 0) await flush();
+            const error = outcome.error instanceof Error ? outcome.error.message : String(outcome.error);
+            result.failed.push({ blockNumber: blocks[commitIndex], error });
+            onFailed?.(blocks[commitIndex], outcome.error);
+          }
+
+          commitIndex++;
+          if (pending.length >= batchSize) await flush();
+        }
+
+        if (final && pending.length > 0) await flush();
+      } catch (error) {
+        aborted = error;
+      } finally {
+        wakeWaiters();
+      }
+    });
+    return draining;
+  };
+
+  const fetchWithRetry = async (blockNumber: number): Promise<FetchOutcome<T>> => {
+    let lastError: unknown = null;
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+        return { ok: true, value: await fetch(blockNumber) };
+      } catch (error) {
+        lastError = error;
+        if (attempt < maxAttempts) {
+          await sleep(retryDelayMs * Math.pow(2, attempt - 1));
+        }
+      }
+    }
+    return { ok: false, error: lastError };
+  };
+
+  const worker = async () => {
+    while (!aborted && nextIndex < blocks.length) {
+      if (nextIndex - commitIndex >= maxAhead) {
+        await new Promise<void>(resolve => waiters.push(resolve));
+        continue;
+      }
+
+      const index = nextIndex++;
+      outcomes.set(index, await fetchWithRetry(blocks[index]));
+      await drain(false);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, blocks.length)) }, worker));
+  await drain(true);
+
+  if (aborted) {
+    throw aborted;
+  }
+
+  return result;
+}
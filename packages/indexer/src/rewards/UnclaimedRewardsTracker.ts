@@ -0,0 +1,92 @@
+import type { UnclaimedEraRewards, UnclaimedRewardsReport, UnclaimedValidatorRewards } from '@staking-cc/shared';
+import type { StakingDatabase } from '../database';
+
+// staking.historyDepth on Polkadot, Kusama and Westend; used until the indexer stored the runtime value
+export const DEFAULT_HISTORY_DEPTH = 84;
+
+/**
+ * Tracks which eras still have unclaimed payout pages and how long they stay claimable.
+ * Payouts for an era are rejected once the current era is more than historyDepth eras past it,
+ * after which the rewards are lost.
+ */
+export class UnclaimedRewardsTracker {
+  private db: StakingDatabase;
+
+  constructor(db: StakingDatabase) {
+    this.db = db;
+  }
+
+  /**
+   * staking.historyDepth as stored by the indexer at the last EraPaid
+   */
+  getHistoryDepth(): number {
+    const stored = parseInt(this.db.getState('historyDepth') ?? '', 10);
+    return Number.isNaN(stored) ? DEFAULT_HISTORY_DEPTH : stored;
+  }
+
+  /**
+   * The era payouts are checked against (staking.CurrentEra): the planned era once an
+   * election for it started, otherwise the active era
+   */
+  getCurrentEra(): number | null {
+    const activeEra = this.db.getLatestEra()?.eraId ?? null;
+    const plannedEra = this.db.getLatestSession()?.plannedEraId ?? null;
+    if (activeEra === null) return plannedEra;
+    return plannedEra !== null ? Math.max(activeEra, plannedEra) : activeEra;
+  }
+
+  /**
+   * Eras left after the current one before an era's rewards expire; negative once expired
+   */
+  getErasRemaining(eraId: number): number | null {
+    const currentEra = this.getCurrentEra();
+    return currentEra !== null ? eraId + this.getHistoryDepth() - currentEra : null;
+  }
+
+  hasUnclaimedPages(eraId: number): boolean {
+    return this.db.getErasWithUnclaimedPages(eraId)[0] === eraId;
+  }
+
+  /**
+   * All snapshotted eras with unclaimed pages, oldest first, including already expired ones
+   */
+  getReport(): UnclaimedRewardsReport {
+    const historyDepth = this.getHistoryDepth();
+    const currentEra = this.getCurrentEra();
+    const eras = new Map<number, UnclaimedEraRewards>();
+
+    for (const row of this.db.getUnclaimedValidatorRewards()) {
+      // Expected reward by points share; the unclaimed part is proportional to the pages left
+      const expectedReward = row.validatorPayout !== null && row.totalPoints > 0
+        ? (BigInt(row.validatorPayout) * BigInt(row.points)) / BigInt(row.totalPoints)
+        : BigInt(0);
+      const unclaimedPages = row.pageCount - row.claimedPages;
+      const validator: UnclaimedValidatorRewards = {
+        validator: row.validator,
+        pageCount: row.pageCount,
+        claimedPages: row.claimedPages,
+        unclaimedAmount: ((expectedReward * BigInt(unclaimedPages)) / BigInt(row.pageCount)).toString(),
+      };
+
+      let era = eras.get(row.eraId);
+      if (!era) {
+        const lastClaimableEra = row.eraId + historyDepth;
+        era = {
+          eraId: row.eraId,
+          lastClaimableEra,
+          erasRemaining: currentEra !== null ? lastClaimableEra - currentEra : historyDepth,
+          unclaimedPages: 0,
+          unclaimedAmount: '0',
+          validators: [],
+        };
+        eras.set(row.eraId, era);
+      }
+
+      era.unclaimedPages += unclaimedPages;
+      era.unclaimedAmount = (BigInt(era.unclaimedAmount) + BigInt(validator.unclaimedAmount)).toString();
+      era.validators.push(validator);
+    }
+
+    return { currentEra, historyDepth, eras: Array.from(eras.values()) };
+  }
+}
@@ -0,0 +1 @@
+export { UnclaimedRewardsTracker, DEFAULT_HISTORY_DEPTH } from './UnclaimedRewardsTracker';
@@ -0,0 +1,154 @@
+import type { ApiPromise } from '@polkadot/api';
+import type { Logger } from 'pino';
+import type { ChainLayer, StorageSnapshot, StorageWatchItem, StorageWatchKey } from '@staking-cc/shared';
+import type { StakingDatabase } from '../database';
+
+/**
+ * Something the indexer just processed that watched storage items can be sampled on
+ */
+export type SnapshotTrigger =
+  | { kind: 'block'; chain: ChainLayer; blockNumber: number; timestamp: number }
+  | { kind: 'event'; chain: ChainLayer; blockNumber: number; timestamp: number; eventType: string }
+  | { kind: 'session'; sessionId: number; blockNumber: number; timestamp: number }
+  | { kind: 'era'; eraId: number; blockNumber: number; timestamp: number };
+
+// Sessions and eras come from Asset Hub session reports
+const triggerChain = (trigger: SnapshotTrigger): ChainLayer =>
+  trigger.kind === 'block' || trigger.kind === 'event' ? trigger.chain : 'assetHub';
+
+const describeTrigger = (trigger: SnapshotTrigger): string => {
+  switch (trigger.kind) {
+    case 'block': return 'block';
+    case 'event': return trigger.eventType;
+    case 'session': return `session ${trigger.sessionId}`;
+    case 'era': return `era ${trigger.eraId}`;
+  }
+};
+
+/**
+ * Decode a storage value to plain JSON. Large integers (balances) become decimal strings.
+ */
+const decodeValue = (codec: any): unknown => {
+  if (codec === null || codec === undefined) return null;
+  if (typeof codec.toPrimitive === 'function') return codec.toPrimitive();
+  if (typeof codec.toJSON === 'function') return codec.toJSON();
+  return codec;
+};
+
+/**
+ * Samples the storage items of the watch list (config/storage-watch.json) into storage_snapshots.
+ * Adding a monitored item is a config change: each item names its pallet, storage item, map keys,
+ * chain and the trigger it is sampled on.
+ */
+export class StorageSnapshotter {
+  private apis: Record<ChainLayer, ApiPromise>;
+  private db: StakingDatabase;
+  private logger: Logger;
+  private items: StorageWatchItem[];
+  private missing = new Set<string>(); // Items not found on the runtime, logged once
+
+  constructor(apiRC: ApiPromise, apiAH: ApiPromise, db: StakingDatabase, logger: Logger, items: StorageWatchItem[]) {
+    this.apis = { relayChain: apiRC, assetHub: apiAH };
+    this.db = db;
+    this.logger = logger.child({ component: 'StorageSnapshotter' });
+    this.items = items;
+
+    this.logger.info({ items: items.map(item => item.id) }, 'Storage watch list loaded');
+  }
+
+  /**
+   * Sample every watched item matching the trigger at the trigger's block
+   * Returns the number of snapshots stored
+   */
+  async snapshot(trigger: SnapshotTrigger): Promise<number> {
+    return this.store(await this.read(trigger));
+  }
+
+  /**
+   * Read every watched item matching the trigger at the trigger's block, without storing anything
+   * (the indexer reads while fetching a block and stores when committing it)
+   */
+  async read(trigger: SnapshotTrigger): Promise<StorageSnapshot[]> {
+    const chain = triggerChain(trigger);
+    const items = this.items.filter(item => item.chain === chain && this.matches(item, trigger));
+    if (items.length === 0) return [];
+
+    let apiAt: any;
+    try {
+      const api = this.apis[chain];
+      const blockHash = await api.rpc.chain.getBlockHash(trigger.blockNumber);
+      apiAt = await api.at(blockHash);
+    } catch (error) {
+      this.logger.error({ error, chain, blockNumber: trigger.blockNumber }, 'Error getting storage at block for snapshots');
+      return [];
+    }
+
+    const snapshots: StorageSnapshot[] = [];
+    for (const item of items) {
+      try {
+        const query = apiAt.query[item.pallet]?.[item.item];
+        if (!query) {
+          if (!this.missing.has(item.id)) {
+            this.missing.add(item.id);
+            this.logger.warn({ watchId: item.id, pallet: item.pallet, item: item.item, chain }, 'Watched storage item not found on this runtime');
+          }
+          continue;
+        }
+
+        const keys = this.resolveKeys(item.keys ?? [], trigger);
+        const value = await query(...keys);
+
+        snapshots.push({
+          watchId: item.id,
+          chain,
+          pallet: item.pallet,
+          item: item.item,
+          keys,
+          blockNumber: trigger.blockNumber,
+          timestamp: trigger.timestamp,
+          triggeredBy: describeTrigger(trigger),
+          value: decodeValue(value),
+        });
+      } catch (error) {
+        this.logger.error({ error, watchId: item.id, blockNumber: trigger.blockNumber }, 'Error taking storage snapshot');
+      }
+    }
+
+    return snapshots;
+  }
+
+  /**
+   * Store snapshots taken by read()
+   * Returns the number of snapshots stored
+   */
+  store(snapshots: StorageSnapshot[]): number {
+    for (const snapshot of snapshots) {
+      this.db.insertStorageSnapshot(snapshot);
+    }
+    return snapshots.length;
+  }
+
+  private matches(item: StorageWatchItem, trigger: SnapshotTrigger): boolean {
+    switch (item.trigger.type) {
+      case 'session':
+        return trigger.kind === 'session';
+      case 'era':
+        return trigger.kind === 'era';
+      case 'blocks':
+        return trigger.kind === 'block' && trigger.blockNumber % item.trigger.interval === 0;
+      case 'event':
+        return trigger.kind === 'event' && trigger.eventType.toLowerCase() === item.trigger.event.toLowerCase();
+    }
+  }
+
+  /**
+   * Replace the $session / $era placeholders (the config only allows them with the matching trigger)
+   */
+  private resolveKeys(keys: StorageWatchKey[], trigger: SnapshotTrigger): StorageWatchKey[] {
+    return keys.map(key => {
+      if (key === '$session' && trigger.kind === 'session') return trigger.sessionId;
+      if (key === '$era' && trigger.kind === 'era') return trigger.eraId;
+      return key;
+    });
+  }
+}
@@ -0,0 +1,2 @@
+export { StorageSnapshotter } from './StorageSnapshotter';
+export type { SnapshotTrigger } from './StorageSnapshotter';
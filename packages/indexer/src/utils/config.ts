@@ -1,7 +1,8 @@
 import dotenv from 'dotenv';
-import type { ChainType } from '@staking-cc/shared';
+import type { ChainType, ChainWarningRulesConfig, EraSyncRange, IndexMode, StorageWatchConfig, StorageWatchItem, WarningRulesConfig } from '@staking-cc/shared';
 import * as path from 'path';
 import * as fs from 'fs';
+import { DEFAULT_RULES } from '../warnings/rules';
 
 // Find project root by looking for package.json with workspaces
 function findProjectRoot(): string {
@@ -27,9 +28,268 @@ dotenv.config({ path: path.join(projectRoot, '.env') });
 export interface Config {
   chain: ChainType;
   syncBlocks: number;
+  syncEras?: EraSyncRange;
+  backfillConcurrency: number;
+  backfillBatchSize: number;
+  indexMode: IndexMode;
+  sparseCheckpointInterval: number;
   dbPath: string;
   maxEras: number;
   customRpcEndpoint?: string;
+  warningRules: ChainWarningRulesConfig;
+  storageWatch: StorageWatchItem[];
+}
+
+const CHAINS: ChainType[] = ['polkadot', 'kusama', 'westend'];
+const SEVERITIES = ['info', 'warning', 'error'];
+const CHAIN_LAYERS = ['relayChain', 'assetHub'];
+const WATCH_TRIGGERS = ['session', 'era', 'blocks', 'event'];
+// Key placeholders and the trigger that provides their value
+const KEY_PLACEHOLDERS: Record<string, string> = { $session: 'session', $era: 'era' };
+const THRESHOLD_FIELDS = [
+  'expectedEraDurationMs',
+  'eraDurationTolerance',
+  'expectedSessionsPerEra',
+  'maxSessionReportIntervalMs',
+  'maxSessionReportLatencyMs',
+  'phaseOverrunGraceBlocks',
+  'maxSyncLagMs',
+  'unclaimedRewardsWarningEras',
+  'unclaimedRewardsCriticalEras',
+  'maxValidatorSetChurnPercent',
+  'maxBagsListLockedSessions',
+  'maxPopulationDropPercent',
+  'maxQueuedValidatorSetSessions',
+];
+
+// Thresholds used as divisors; zero would divide by zero or derive an unbounded query limit
+const POSITIVE_THRESHOLD_FIELDS = ['expectedEraDurationMs'];
+const POSITIVE_INTEGER_THRESHOLD_FIELDS = ['expectedSessionsPerEra'];
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonNegativeNumber = (value: unknown): boolean =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+/**
+ * Validate the contents of config/warning-rules.json
+ * Throws listing every problem found, so the file can be fixed in one go
+ */
+export function validateWarningRulesConfig(raw: unknown): WarningRulesConfig {
+  const errors: string[] = [];
+  const knownRuleIds = DEFAULT_RULES.map(rule => rule.id);
+
+  if (!isPlainObject(raw)) {
+    throw new Error('Invalid warning rules config: expected an object keyed by chain');
+  }
+
+  for (const chain of CHAINS) {
+    const chainConfig = raw[chain];
+    if (!isPlainObject(chainConfig)) {
+      errors.push(`${chain}: missing chain section`);
+      continue;
+    }
+
+    const thresholds = chainConfig.thresholds;
+    if (!isPlainObject(thresholds)) {
+      errors.push(`${chain}.thresholds: must be an object`);
+    } else {
+      for (const field of THRESHOLD_FIELDS) {
+        const value = thresholds[field];
+        if (POSITIVE_INTEGER_THRESHOLD_FIELDS.includes(field)) {
+          if (!Number.isInteger(value) || value <= 0) {
+            errors.push(`${chain}.thresholds.${field}: must be a positive integer`);
+          }
+        } else if (POSITIVE_THRESHOLD_FIELDS.includes(field)) {
+          if (!isNonNegativeNumber(value) || value === 0) {
+            errors.push(`${chain}.thresholds.${field}: must be a positive number`);
+          }
+        } else if (!isNonNegativeNumber(value)) {
+          errors.push(`${chain}.thresholds.${field}: must be a non-negative number`);
+        }
+      }
+
+      if (!isPlainObject(thresholds.maxPhaseDurationBlocks)) {
+        errors.push(`${chain}.thresholds.maxPhaseDurationBlocks: must be an object of phase -> blocks`);
+      } else {
+        for (const [phase, blocks] of Object.entries(thresholds.maxPhaseDurationBlocks)) {
+          if (!isNonNegativeNumber(blocks)) {
+            errors.push(`${chain}.thresholds.maxPhaseDurationBlocks.${phase}: must be a non-negative number`);
+          }
+        }
+      }
+    }
+
+    const rules = chainConfig.rules;
+    if (!isPlainObject(rules)) {
+      errors.push(`${chain}.rules: must be an object`);
+      continue;
+    }
+
+    for (const [ruleId, settings] of Object.entries(rules)) {
+      if (!knownRuleIds.includes(ruleId)) {
+        errors.push(`${chain}.rules.${ruleId}: unknown rule (known: ${knownRuleIds.join(', ')})`);
+        continue;
+      }
+      if (!isPlainObject(settings) || typeof settings.enabled !== 'boolean') {
+        errors.push(`${chain}.rules.${ruleId}.enabled: must be a boolean`);
+        continue;
+      }
+      if (settings.severity !== undefined && !SEVERITIES.includes(settings.severity)) {
+        errors.push(`${chain}.rules.${ruleId}.severity: must be one of ${SEVERITIES.join(', ')}`);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid warning rules config:\n  ${errors.join('\n  ')}`);
+  }
+
+  return raw as WarningRulesConfig;
+}
+
+function loadWarningRules(chain: ChainType): ChainWarningRulesConfig {
+  const configPath = path.join(projectRoot, 'config', 'warning-rules.json');
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read ${configPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return validateWarningRulesConfig(raw)[chain];
+}
+
+/**
+ * Validate the contents of config/storage-watch.json
+ * Throws listing every problem found, so the file can be fixed in one go
+ */
+export function validateStorageWatchConfig(raw: unknown): StorageWatchConfig {
+  const errors: string[] = [];
+
+  if (!isPlainObject(raw)) {
+    throw new Error('Invalid storage watch config: expected an object keyed by chain');
+  }
+
+  for (const chain of CHAINS) {
+    const chainConfig = raw[chain];
+    if (!isPlainObject(chainConfig) || !Array.isArray(chainConfig.items)) {
+      errors.push(`${chain}.items: must be an array`);
+      continue;
+    }
+
+    const seenIds = new Set<string>();
+    chainConfig.items.forEach((item: unknown, index: number) => {
+      if (!isPlainObject(item)) {
+        errors.push(`${chain}.items[${index}]: must be an object`);
+        return;
+      }
+
+      const label = typeof item.id === 'string' && item.id ? `${chain}.items.${item.id}` : `${chain}.items[${index}]`;
+      if (typeof item.id !== 'string' || !item.id) {
+        errors.push(`${label}.id: must be a non-empty string`);
+      } else if (seenIds.has(item.id)) {
+        errors.push(`${label}: duplicate id`);
+      } else {
+        seenIds.add(item.id);
+      }
+
+      if (!CHAIN_LAYERS.includes(item.chain)) {
+        errors.push(`${label}.chain: must be one of ${CHAIN_LAYERS.join(', ')}`);
+      }
+      for (const field of ['pallet', 'item']) {
+        if (typeof item[field] !== 'string' || !item[field]) {
+          errors.push(`${label}.${field}: must be a non-empty string`);
+        }
+      }
+
+      const trigger = item.trigger;
+      if (!isPlainObject(trigger) || !WATCH_TRIGGERS.includes(trigger.type)) {
+        errors.push(`${label}.trigger.type: must be one of ${WATCH_TRIGGERS.join(', ')}`);
+        return;
+      }
+      if (trigger.type === 'blocks' && !(Number.isInteger(trigger.interval) && trigger.interval >= 1)) {
+        errors.push(`${label}.trigger.interval: must be a positive integer`);
+      }
+      if (trigger.type === 'event' && !(typeof trigger.event === 'string' && /^\w+\.\w+$/.test(trigger.event))) {
+        errors.push(`${label}.trigger.event: must look like "section.Method"`);
+      }
+      // Sessions and eras come from Asset Hub session reports, so only Asset Hub blocks line up with them
+      if ((trigger.type === 'session' || trigger.type === 'era') && item.chain === 'relayChain') {
+        errors.push(`${label}.trigger.type: ${trigger.type} triggers are Asset Hub only; use an event trigger (e.g. session.NewSession) on the Relay Chain`);
+      }
+
+      if (item.keys !== undefined) {
+        if (!Array.isArray(item.keys) || item.keys.some((key: unknown) => typeof key !== 'string' && typeof key !== 'number')) {
+          errors.push(`${label}.keys: must be an array of strings and numbers`);
+        } else {
+          for (const key of item.keys) {
+            const needs = KEY_PLACEHOLDERS[key];
+            if (needs && trigger.type !== needs) {
+              errors.push(`${label}.keys: ${key} is only set by the ${needs} trigger`);
+            }
+          }
+        }
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid storage watch config:\n  ${errors.join('\n  ')}`);
+  }
+
+  return raw as StorageWatchConfig;
+}
+
+function loadStorageWatch(chain: ChainType): StorageWatchItem[] {
+  const configPath = path.join(projectRoot, 'config', 'storage-watch.json');
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read ${configPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return validateStorageWatchConfig(raw)[chain].items;
+}
+
+/**
+ * Parse SYNC_ERAS / SYNC_ERA_RANGE into an era range (undefined = sync by block count)
+ */
+export function parseSyncEras(syncEras: string | undefined, syncEraRange: string | undefined, maxEras: number): EraSyncRange | undefined {
+  if (syncEras && syncEraRange) {
+    throw new Error('Set either SYNC_ERAS or SYNC_ERA_RANGE, not both');
+  }
+
+  if (syncEras) {
+    const lastEras = parseInt(syncEras, 10);
+    if (!(lastEras >= 1)) {
+      throw new Error('SYNC_ERAS must be a positive integer');
+    }
+    if (lastEras > maxEras) {
+      throw new Error(`SYNC_ERAS (${lastEras}) exceeds MAX_ERAS (${maxEras}); older eras would be pruned right away`);
+    }
+    return { lastEras };
+  }
+
+  if (syncEraRange) {
+    const match = syncEraRange.trim().match(/^(\d+)-(\d*)$/);
+    if (!match) {
+      throw new Error('SYNC_ERA_RANGE must look like "1980-1985" or "1980-" (up to the active era)');
+    }
+
+    const fromEra = parseInt(match[1], 10);
+    const toEra = match[2] ? parseInt(match[2], 10) : null;
+    if (toEra !== null && toEra < fromEra) {
+      throw new Error('SYNC_ERA_RANGE end era must not be before the start era');
+    }
+    return { fromEra, toEra };
+  }
+
+  return undefined;
 }
 
 export function loadConfig(): Config {
@@ -42,6 +302,29 @@ export function loadConfig(): Config {
   // Sync blocks: how many blocks back from current height to sync (defaults to 10)
   const syncBlocks = parseInt(process.env.SYNC_BLOCKS || '10', 10);
 
+  // Era-based sync: SYNC_ERAS (last N eras) or SYNC_ERA_RANGE ("from-to" or "from-") replaces SYNC_BLOCKS
+  const maxEras = parseInt(process.env.MAX_ERAS || '100', 10);
+  const syncEras = parseSyncEras(process.env.SYNC_ERAS, process.env.SYNC_ERA_RANGE, maxEras);
+
+  // Backfill: blocks fetched in parallel and blocks committed per transaction
+  const backfillConcurrency = parseInt(process.env.BACKFILL_CONCURRENCY || '8', 10);
+  const backfillBatchSize = parseInt(process.env.BACKFILL_BATCH_SIZE || '100', 10);
+
+  if (!(backfillConcurrency >= 1) || !(backfillBatchSize >= 1)) {
+    throw new Error('BACKFILL_CONCURRENCY and BACKFILL_BATCH_SIZE must be positive integers');
+  }
+
+  // Storage: full stores every block, sparse only blocks with tracked events plus every Nth checkpoint
+  const indexMode = (process.env.INDEX_MODE || 'full') as IndexMode;
+  const sparseCheckpointInterval = parseInt(process.env.SPARSE_CHECKPOINT_INTERVAL || '600', 10);
+
+  if (indexMode !== 'full' && indexMode !== 'sparse') {
+    throw new Error('INDEX_MODE must be "full" or "sparse"');
+  }
+  if (!(sparseCheckpointInterval >= 1)) {
+    throw new Error('SPARSE_CHECKPOINT_INTERVAL must be a positive integer');
+  }
+
   // Resolve DB path relative to project root
   // Each chain gets its own database file
   const dbPathEnv = process.env.DB_PATH || `./data/staking-${chain}.db`;
@@ -49,14 +332,26 @@ export function loadConfig(): Config {
     ? dbPathEnv
     : path.join(projectRoot, dbPathEnv);
 
-  const maxEras = parseInt(process.env.MAX_ERAS || '100', 10);
   const customRpcEndpoint = process.env.CUSTOM_RPC_ENDPOINT;
 
+  // Warning rule thresholds and toggles for this chain
+  const warningRules = loadWarningRules(chain);
+
+  // Storage items snapshotted into storage_snapshots for this chain
+  const storageWatch = loadStorageWatch(chain);
+
   return {
     chain,
     syncBlocks,
+    syncEras,
+    backfillConcurrency,
+    backfillBatchSize,
+    indexMode,
+    sparseCheckpointInterval,
     dbPath,
     maxEras,
     customRpcEndpoint,
+    warningRules,
+    storageWatch,
   };
 }
@@ -12,13 +12,16 @@ const RC_TRACKED_EVENTS = [
 
 // AH (Asset Hub) tracked events
 const AH_TRACKED_EVENTS = [
-  { pallet: 'staking', events: ['EraPaid', 'EraPruned', 'ForceEra', 'PagedElectionProceeded', 'StakersElected', 'StakingElectionFailed', 'Unexpected'] },
+  { pallet: 'staking', events: ['EraPaid', 'EraPruned', 'ForceEra', 'PagedElectionProceeded', 'PayoutStarted', 'StakersElected', 'StakingElectionFailed', 'Unexpected'] },
   { pallet: 'stakingRcClient', events: '*' }, // All events from this pallet
   { pallet: 'multiBlockElection', events: '*' }, // All events from this pallet
   { pallet: 'multiBlockElectionSigned', events: '*' }, // All events from this pallet
   { pallet: 'multiBlockElectionVerifier', events: '*' }, // All events from this pallet
 ];
 
+// AH events processed into aggregates but not stored one row each (hundreds per payout page)
+const AH_AGGREGATED_EVENTS = ['staking.Rewarded'];
+
 // Wildcard patterns for staking::Offence* and staking::Slash*
 const AH_STAKING_WILDCARDS = ['Offence', 'Slash'];
 
@@ -83,6 +86,13 @@ export function shouldTrackEventAH(eventType: string): boolean {
   return false;
 }
 
+/**
+ * Check if an Asset Hub event should only be folded into aggregates (e.g. payout totals)
+ */
+export function shouldAggregateEventAH(eventType: string): boolean {
+  return AH_AGGREGATED_EVENTS.some(aggregated => aggregated.toLowerCase() === eventType.toLowerCase());
+}
+
 /**
  * Split event type string into pallet and event name
  * Example: "stakingRelaychainClient.SessionReportReceived" -> { pallet: "stakingRelaychainClient", eventName: "SessionReportReceived" }
@@ -0,0 +1,111 @@
+import type { Logger } from 'pino';
+import type { ChainWarningRulesConfig, Warning, WarningRuleSettings, WarningSeverity } from '@staking-cc/shared';
+import type { StakingDatabase } from '../database';
+import type { RuleContext, RuleFinding, RuleTrigger, WarningRule } from './types';
+import { DEFAULT_RULES } from './rules';
+
+/**
+ * Runs warning rules against indexer activity and stores what they find in the warnings table.
+ * Each finding is stored at most once (deduplicated by rule id + finding key).
+ */
+export class WarningEngine {
+  private db: StakingDatabase;
+  private logger: Logger;
+  private config: ChainWarningRulesConfig;
+  private rules: WarningRule[];
+
+  constructor(db: StakingDatabase, logger: Logger, config: ChainWarningRulesConfig, rules: WarningRule[] = DEFAULT_RULES) {
+    this.db = db;
+    this.logger = logger.child({ component: 'WarningEngine' });
+    this.config = config;
+    // Rules not listed in the config are enabled
+    this.rules = rules.filter(rule => this.getSettings(rule.id).enabled);
+
+    this.logger.info({
+      enabled: this.rules.map(rule => rule.id),
+      disabled: rules.filter(rule => !this.rules.includes(rule)).map(rule => rule.id),
+    }, 'Warning rules loaded');
+
+    for (const rule of this.rules) {
+      if (rule.gradedSeverity && this.getSettings(rule.id).severity) {
+        this.logger.warn({ rule: rule.id }, 'Rule picks the severity of each warning, ignoring the configured severity');
+      }
+    }
+  }
+
+  /**
+   * Evaluate all rules for a trigger, store new warnings and resolve cleared ones
+   * Returns the warnings that were newly inserted
+   */
+  evaluate(trigger: RuleTrigger): Warning[] {
+    const inserted: Warning[] = [];
+    const ctx = { db: this.db, thresholds: this.config.thresholds };
+
+    for (const rule of this.rules) {
+      let findings: RuleFinding[];
+      try {
+        findings = rule.evaluate(trigger, ctx);
+        this.resolveCleared(rule, trigger, ctx);
+      } catch (error) {
+        this.logger.error({ error, rule: rule.id, trigger: trigger.kind }, 'Error evaluating warning rule');
+        continue;
+      }
+
+      for (const finding of findings) {
+        const warning = this.toWarning(finding, trigger, rule.gradedSeverity ? undefined : this.getSettings(rule.id).severity);
+        const id = this.db.insertWarning(warning, `${rule.id}:${finding.key}`);
+
+        if (id !== null) {
+          inserted.push({ ...warning, id });
+          this.logger.warn({ rule: rule.id, eraId: warning.eraId, severity: warning.severity, message: warning.message }, 'Warning raised');
+        }
+      }
+    }
+
+    return inserted;
+  }
+
+  /**
+   * Auto-resolve open/acknowledged warnings of a rule whose condition has cleared
+   */
+  private resolveCleared(rule: WarningRule, trigger: RuleTrigger, ctx: RuleContext): void {
+    if (!rule.isResolved) return;
+    if (rule.canResolve && !rule.canResolve(trigger)) return;
+
+    for (const { id, dedupKey } of this.db.getUnresolvedWarningsByRule(rule.id)) {
+      const key = dedupKey.slice(rule.id.length + 1);
+      if (rule.isResolved(key, ctx)) {
+        this.db.autoResolveWarning(id);
+        this.logger.info({ rule: rule.id, warningId: id }, 'Warning auto-resolved');
+      }
+    }
+  }
+
+  private getSettings(ruleId: string): WarningRuleSettings {
+    return this.config.rules[ruleId] ?? { enabled: true };
+  }
+
+  private toWarning(finding: RuleFinding, trigger: RuleTrigger, severity: WarningSeverity | undefined): Warning {
+    let eraId = finding.eraId !== undefined ? finding.eraId : this.db.getLatestEra()?.eraId ?? null;
+
+    // warnings.era_id references eras - drop it if the era was never indexed
+    if (eraId !== null && !this.db.getEra(eraId)) {
+      eraId = null;
+    }
+
+    let sessionId = finding.sessionId;
+    if (sessionId === undefined) {
+      sessionId = trigger.kind === 'session' ? trigger.sessionId : this.db.getLatestSession()?.sessionId ?? null;
+    }
+
+    return {
+      eraId,
+      sessionId,
+      blockNumber: trigger.blockNumber,
+      type: finding.type,
+      message: finding.message,
+      severity: severity ?? finding.severity,
+      timestamp: trigger.timestamp,
+    };
+  }
+}
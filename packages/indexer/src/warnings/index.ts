@@ -0,0 +1,3 @@
+export { WarningEngine } from './WarningEngine';
+export { DEFAULT_RULES } from './rules';
+export type { RuleTrigger, RuleFinding, RuleContext, WarningRule } from './types';
@@ -0,0 +1,560 @@
+import type { StakingClientSample } from '@staking-cc/shared';
+import type { StakingDatabase } from '../database';
+import type { RuleFinding, RuleTrigger, WarningRule } from './types';
+import { UnclaimedRewardsTracker } from '../rewards';
+
+const formatHours = (ms: number): string => `${(ms / (60 * 60 * 1000)).toFixed(1)}h`;
+
+/**
+ * Parse stored event data (JSON of event.toHuman()), returning null if it is not valid JSON
+ */
+const parseEventData = (data: string): any => {
+  try {
+    return JSON.parse(data);
+  } catch (e) {
+    return null;
+  }
+};
+
+/**
+ * Era took too long / too short, or had an unexpected number of sessions.
+ * Evaluated when a new era starts, against the era that just ended.
+ */
+export const eraDurationRule: WarningRule = {
+  id: 'era-duration',
+  description: 'Era duration or session count deviates from the expected values',
+  evaluate(trigger, { db, thresholds }) {
+    if (trigger.kind !== 'era') return [];
+
+    const currentEra = db.getEra(trigger.eraId);
+    const previousEra = db.getEra(trigger.eraId - 1);
+    if (!currentEra || !previousEra) return [];
+
+    const findings: RuleFinding[] = [];
+    const duration = currentEra.startTime - previousEra.startTime;
+    const expected = thresholds.expectedEraDurationMs;
+    const deviation = Math.abs(duration - expected) / expected;
+
+    if (deviation > thresholds.eraDurationTolerance) {
+      findings.push({
+        key: `duration:${previousEra.eraId}`,
+        type: 'timing',
+        severity: 'warning',
+        eraId: previousEra.eraId,
+        message: `Era ${previousEra.eraId} lasted ${formatHours(duration)}, expected ${formatHours(expected)}`,
+      });
+    }
+
+    if (previousEra.sessionEnd !== null) {
+      const sessionCount = previousEra.sessionEnd - previousEra.sessionStart + 1;
+      if (sessionCount !== thresholds.expectedSessionsPerEra) {
+        findings.push({
+          key: `sessions:${previousEra.eraId}`,
+          type: 'timing',
+          severity: 'warning',
+          eraId: previousEra.eraId,
+          message: `Era ${previousEra.eraId} had ${sessionCount} sessions, expected ${thresholds.expectedSessionsPerEra}`,
+        });
+      }
+    }
+
+    return findings;
+  },
+};
+
+/**
+ * SessionReportReceived was skipped for one or more sessions, or has not arrived in time
+ */
+export const missingSessionReportRule: WarningRule = {
+  id: 'missing-session-report',
+  description: 'A session ended without a SessionReportReceived event on Asset Hub',
+  gradedSeverity: true,
+  evaluate(trigger, { db, thresholds }) {
+    if (trigger.kind === 'session') {
+      const previous = db.getLatestReportedSession(trigger.sessionId);
+      if (!previous || previous.sessionId === trigger.sessionId - 1) return [];
+
+      const firstMissing = previous.sessionId + 1;
+      const lastMissing = trigger.sessionId - 1;
+      const range = firstMissing === lastMissing ? `${firstMissing}` : `${firstMissing}-${lastMissing}`;
+
+      return [{
+        key: `gap:${firstMissing}-${lastMissing}`,
+        type: 'missing_event',
+        severity: 'error',
+        sessionId: trigger.sessionId,
+        message: `No SessionReportReceived for session(s) ${range} (last report: session ${previous.sessionId})`,
+      }];
+    }
+
+    if (trigger.kind === 'block' && trigger.chain === 'assetHub') {
+      const latest = db.getLatestReportedSession();
+      if (!latest || latest.blockNumber === null) return [];
+
+      const reportBlock = db.getBlockAH(latest.blockNumber);
+      if (!reportBlock || trigger.timestamp <= reportBlock.timestamp) return [];
+
+      const elapsed = trigger.timestamp - reportBlock.timestamp;
+      if (elapsed <= thresholds.maxSessionReportIntervalMs) return [];
+
+      return [{
+        key: `stale:${latest.sessionId}`,
+        type: 'missing_event',
+        severity: 'warning',
+        sessionId: latest.sessionId + 1,
+        message: `No SessionReportReceived for ${formatHours(elapsed)} since session ${latest.sessionId} ended (limit ${formatHours(thresholds.maxSessionReportIntervalMs)})`,
+      }];
+    }
+
+    return [];
+  },
+  isResolved(key, { db }) {
+    // Gaps are permanent; an overdue report clears once a later session is reported
+    if (!key.startsWith('stale:')) return false;
+
+    const sessionId = parseInt(key.slice('stale:'.length), 10);
+    const latest = db.getLatestReportedSession();
+    return latest !== null && latest.sessionId > sessionId;
+  },
+  canResolve(trigger) {
+    return trigger.kind === 'session';
+  },
+};
+
+/**
+ * An election phase has been running longer than it should
+ */
+export const stuckElectionPhaseRule: WarningRule = {
+  id: 'stuck-election-phase',
+  description: 'An election phase exceeded its expected duration',
+  evaluate(trigger, { db, thresholds }) {
+    if (trigger.kind !== 'block' || trigger.chain !== 'assetHub') return [];
+
+    const phase = db.getOngoingElectionPhase();
+    if (!phase || phase.phase === 'Off') return [];
+
+    const limit = phase.expectedDurationBlocks ?? thresholds.maxPhaseDurationBlocks[phase.phase];
+    if (limit === undefined || limit === null) return [];
+
+    const elapsed = trigger.blockNumber - phase.blockNumber;
+    if (elapsed <= limit + thresholds.phaseOverrunGraceBlocks) return [];
+
+    return [{
+      key: `stuck:${phase.id}`,
+      type: 'election_issue',
+      severity: 'warning',
+      eraId: phase.eraId,
+      message: `Election phase ${phase.phase} (round ${phase.round}) has run for ${elapsed} blocks, expected ${limit}`,
+    }];
+  },
+  isResolved(key, { db }) {
+    // The phase finally transitioned
+    const phaseId = parseInt(key.slice('stuck:'.length), 10);
+    const ongoing = db.getOngoingElectionPhase();
+    return !ongoing || ongoing.id !== phaseId;
+  },
+  canResolve(trigger) {
+    return trigger.kind === 'event' && trigger.chain === 'assetHub' && trigger.eventType.toLowerCase() === 'multiblockelection.phasetransitioned';
+  },
+};
+
+/**
+ * An election phase ended later than its expected duration
+ * Unlike stuck-election-phase (raised while the phase runs), this stays as a record of the overrun
+ */
+export const electionPhaseOverrunRule: WarningRule = {
+  id: 'election-phase-overrun',
+  description: 'A completed election phase ran longer than its expected duration',
+  evaluate(trigger, { db, thresholds }) {
+    if (trigger.kind !== 'event' || trigger.eventType.toLowerCase() !== 'multiblockelection.phasetransitioned') return [];
+
+    const findings: RuleFinding[] = [];
+    for (const phase of db.getElectionPhasesEndedAt(trigger.blockNumber)) {
+      const limit = phase.expectedDurationBlocks ?? thresholds.maxPhaseDurationBlocks[phase.phase];
+      if (limit === undefined || limit === null || phase.actualDurationBlocks === null) continue;
+      if (phase.actualDurationBlocks <= limit + thresholds.phaseOverrunGraceBlocks) continue;
+
+      findings.push({
+        key: `overrun:${phase.id}`,
+        type: 'election_issue',
+        severity: 'warning',
+        eraId: phase.eraId,
+        message: `Election phase ${phase.phase} (round ${phase.round}) ran for ${phase.actualDurationBlocks} blocks, expected ${limit} (+${phase.actualDurationBlocks - limit})`,
+      });
+    }
+    return findings;
+  },
+};
+
+/**
+ * An election ran during the previous era but no validator set was exported
+ */
+export const validatorSetNotExportedRule: WarningRule = {
+  id: 'validator-set-not-exported',
+  description: 'An era started without the previous election exporting a validator set',
+  evaluate(trigger, { db }) {
+    if (trigger.kind !== 'era') return [];
+
+    const previousEraId = trigger.eraId - 1;
+    const previousEra = db.getEra(previousEraId);
+    if (!previousEra || previousEra.validatorsElected != null) return [];
+
+    // Only judge elections we observed from the start
+    const phases = db.getElectionPhasesByEra(previousEraId);
+    if (!phases.some(phase => phase.phase === 'Snapshot')) return [];
+
+    return [{
+      key: `${previousEraId}`,
+      type: 'election_issue',
+      severity: 'error',
+      eraId: previousEraId,
+      message: `Election during era ${previousEraId} did not export a validator set before era ${trigger.eraId} started`,
+    }];
+  },
+};
+
+/**
+ * The validator set elected during the previous era differs from the one before it by more than expected.
+ * Evaluated when a new era starts, once the set elected for it is known.
+ */
+export const validatorSetChurnRule: WarningRule = {
+  id: 'validator-set-churn',
+  description: 'The elected validator set changed more than expected between elections',
+  evaluate(trigger, { db, thresholds }) {
+    if (trigger.kind !== 'era') return [];
+
+    const diff = db.getValidatorSetDiff(trigger.eraId - 1);
+    // Only compare consecutive elections
+    if (!diff || diff.previousEraId !== diff.eraId - 1 || diff.churnPercent === null) return [];
+    if (diff.churnPercent <= thresholds.maxValidatorSetChurnPercent) return [];
+
+    return [{
+      key: `churn:${diff.eraId}`,
+      type: 'election_issue',
+      severity: 'warning',
+      eraId: diff.eraId,
+      message: `Validator set elected in era ${diff.eraId} changed by ${diff.churnPercent.toFixed(1)}% ` +
+        `(${diff.added.length} added, ${diff.removed.length} removed), expected at most ${thresholds.maxValidatorSetChurnPercent}%`,
+    }];
+  },
+};
+
+/**
+ * The bags list has stayed locked across more session samples than expected.
+ * Evaluated when a session ends, after its staking population sample was taken.
+ */
+export const bagsListLockedRule: WarningRule = {
+  id: 'bags-list-locked',
+  description: 'The bags list stayed locked for too many sessions',
+  evaluate(trigger, { db, thresholds }) {
+    if (trigger.kind !== 'session') return [];
+
+    const streak = db.getBagsListLockedStreak(trigger.sessionId);
+    if (!streak || streak.samples <= thresholds.maxBagsListLockedSessions) return [];
+
+    return [{
+      key: `locked:${streak.since}`,
+      type: 'election_issue',
+      severity: 'warning',
+      sessionId: trigger.sessionId,
+      message: `Bags list has been locked for ${streak.samples} sessions since session ${streak.since}, expected at most ${thresholds.maxBagsListLockedSessions}`,
+    }];
+  },
+  isResolved(_key, { db }) {
+    // Any unlocked sample ends the streak
+    const [latest] = db.getStakingPopulationSamples(1);
+    return !latest || latest.bagsListLocked !== true;
+  },
+  canResolve(trigger) {
+    return trigger.kind === 'session';
+  },
+};
+
+const POPULATION_COUNTS = [
+  { field: 'nominatorCount', label: 'Nominator' },
+  { field: 'validatorCount', label: 'Validator' },
+  { field: 'bagsListNodes', label: 'Bags list node' },
+] as const;
+
+/**
+ * Nominator, validator or bags-list node counts fell by more than expected since the previous sample
+ */
+export const populationDropRule: WarningRule = {
+  id: 'population-drop',
+  description: 'Nominator or validator counts dropped abruptly between sessions',
+  evaluate(trigger, { db, thresholds }) {
+    if (trigger.kind !== 'session') return [];
+
+    const [previous, current] = db.getStakingPopulationSamples(2, trigger.sessionId);
+    if (!previous || !current || current.sessionId !== trigger.sessionId) return [];
+
+    const findings: RuleFinding[] = [];
+    for (const { field, label } of POPULATION_COUNTS) {
+      const before = previous[field];
+      const after = current[field];
+      if (before === null || after === null || before === 0) continue;
+
+      const dropPercent = ((before - after) / before) * 100;
+      if (dropPercent <= thresholds.maxPopulationDropPercent) continue;
+
+      findings.push({
+        key: `drop:${field}:${current.sessionId}`,
+        type: 'unexpected_event',
+        severity: 'warning',
+        sessionId: current.sessionId,
+        eraId: current.eraId,
+        message: `${label} count dropped ${dropPercent.toFixed(1)}% (${before} → ${after}) between sessions ${previous.sessionId} and ${current.sessionId}, ` +
+          `expected at most ${thresholds.maxPopulationDropPercent}%`,
+      });
+    }
+
+    return findings;
+  },
+};
+
+/**
+ * The Relay Chain staking client sample taken at a session.NewSession trigger, with the samples before it.
+ * Empty when the trigger is not a Relay Chain session start or its sample could not be taken.
+ */
+const stakingClientSamplesAt = (trigger: RuleTrigger, db: StakingDatabase, count: number): StakingClientSample[] => {
+  if (trigger.kind !== 'event' || trigger.chain !== 'relayChain' || trigger.eventType.toLowerCase() !== 'session.newsession') return [];
+
+  const samples = db.getRecentStakingClientRcSamples(count);
+  return samples[0]?.relayChain?.blockNumber === trigger.blockNumber ? samples : [];
+};
+
+/**
+ * The Relay Chain staking client switched operating mode (Passive → Buffered → Active during the migration)
+ */
+export const stakingClientModeChangeRule: WarningRule = {
+  id: 'staking-client-mode-change',
+  description: 'The Relay Chain staking client changed operating mode',
+  evaluate(trigger, { db }) {
+    const [current, previous] = stakingClientSamplesAt(trigger, db, 2);
+    const from = previous?.relayChain?.mode ?? null;
+    const to = current?.relayChain?.mode ?? null;
+    if (from === null || to === null || from === to) return [];
+
+    return [{
+      key: `mode:${current.sessionId}`,
+      type: 'unexpected_event',
+      severity: 'warning',
+      sessionId: current.sessionId,
+      message: `Staking client mode changed from ${from} to ${to} when session ${current.sessionId} started (RC block ${trigger.blockNumber})`,
+    }];
+  },
+};
+
+/**
+ * A validator set received from Asset Hub is still queued on the Relay Chain after more session starts
+ * than expected, i.e. the session pallet is not picking it up
+ */
+export const queuedValidatorSetStuckRule: WarningRule = {
+  id: 'queued-validator-set-stuck',
+  description: 'A validator set stayed queued on the Relay Chain across sessions',
+  evaluate(trigger, { db, thresholds }) {
+    const samples = stakingClientSamplesAt(trigger, db, thresholds.maxQueuedValidatorSetSessions + 1);
+    const setId = samples[0]?.relayChain?.queuedValidatorSetId ?? null;
+    if (setId === null) return [];
+
+    const streak = samples.findIndex(sample => sample.relayChain?.queuedValidatorSetId !== setId);
+    const sessions = streak === -1 ? samples.length : streak;
+    if (sessions <= thresholds.maxQueuedValidatorSetSessions) return [];
+
+    const current = samples[0];
+    return [{
+      key: `queued:${setId}`,
+      type: 'election_issue',
+      severity: 'warning',
+      sessionId: current.sessionId,
+      message: `Validator set ${setId} (${current.relayChain?.queuedValidatorsCount ?? '?'} validators) is still queued on the Relay Chain ` +
+        `at ${sessions} session starts (up to session ${current.sessionId}), expected at most ${thresholds.maxQueuedValidatorSetSessions}`,
+    }];
+  },
+  isResolved(key, { db }) {
+    const setId = Number(key.split(':')[1]);
+    const [latest] = db.getRecentStakingClientRcSamples(1);
+    return !latest || latest.relayChain?.queuedValidatorSetId !== setId;
+  },
+  canResolve(trigger) {
+    return trigger.kind === 'event' && trigger.chain === 'relayChain' && trigger.eventType.toLowerCase() === 'session.newsession';
+  },
+};
+
+/**
+ * The staking election failed or the election entered the Emergency phase
+ */
+export const electionFailureRule: WarningRule = {
+  id: 'election-failure',
+  description: 'Election failed or entered emergency mode',
+  evaluate(trigger) {
+    if (trigger.kind !== 'event') return [];
+
+    const eventType = trigger.eventType.toLowerCase();
+
+    if (eventType === 'staking.stakingelectionfailed') {
+      return [{
+        key: `${trigger.chain}:${trigger.eventId}`,
+        type: 'election_issue',
+        severity: 'error',
+        message: `Staking election failed (${trigger.chain} event ${trigger.eventId})`,
+      }];
+    }
+
+    if (eventType === 'multiblockelection.phasetransitioned') {
+      const data = parseEventData(trigger.data);
+      if (data?.to !== 'Emergency') return [];
+
+      return [{
+        key: `${trigger.chain}:${trigger.eventId}`,
+        type: 'election_issue',
+        severity: 'error',
+        message: `Election entered Emergency phase (event ${trigger.eventId})`,
+      }];
+    }
+
+    return [];
+  },
+};
+
+// Events that signal something went wrong in the staking pallets
+const UNEXPECTED_EVENTS: Record<string, string[]> = {
+  relayChain: [
+    'stakingahclient.unexpected',
+    'stakingahclient.settoosmallanddropped',
+    'stakingahclient.couldnotmergeanddropped',
+  ],
+  assetHub: [
+    'staking.unexpected',
+    'stakingrcclient.unexpected',
+  ],
+};
+
+/**
+ * A pallet emitted an event that should never occur in normal operation
+ */
+export const unexpectedEventRule: WarningRule = {
+  id: 'unexpected-event',
+  description: 'Staking pallets reported an unexpected condition',
+  evaluate(trigger) {
+    if (trigger.kind !== 'event') return [];
+    if (!UNEXPECTED_EVENTS[trigger.chain].includes(trigger.eventType.toLowerCase())) return [];
+
+    return [{
+      key: `${trigger.chain}:${trigger.eventId}`,
+      type: 'unexpected_event',
+      severity: 'warning',
+      message: `${trigger.eventType} emitted at block ${trigger.blockNumber}: ${trigger.data}`,
+    }];
+  },
+};
+
+/**
+ * The consistency checker found an open mismatch between RC session/validator-set events and AH records
+ */
+export const crossChainConsistencyRule: WarningRule = {
+  id: 'cross-chain-consistency',
+  description: 'RC and AH disagree about session reports or validator sets',
+  gradedSeverity: true,
+  evaluate(trigger, { db }) {
+    // Issues only change when the checker runs
+    if (trigger.kind !== 'consistency') return [];
+
+    return db.getOpenConsistencyIssues().map(issue => {
+      const isMissing = issue.kind === 'missing_report' || issue.kind === 'unacknowledged_validator_set';
+      return {
+        key: issue.key,
+        type: isMissing ? 'missing_event' : 'unexpected_event',
+        severity: isMissing ? 'error' : 'warning',
+        sessionId: issue.sessionId ?? undefined,
+        eraId: issue.eraId ?? undefined,
+        message: issue.message,
+      };
+    });
+  },
+  isResolved(key, { db }) {
+    const issue = db.getConsistencyIssue(key);
+    return !issue || issue.resolvedAt !== null;
+  },
+  canResolve(trigger) {
+    return trigger.kind === 'consistency';
+  },
+};
+
+/**
+ * Payout pages are still unclaimed for an era that is about to leave staking.historyDepth.
+ * Escalates from warning to error as the cutoff nears, and raises a final error once the
+ * rewards expired. Each level supersedes the previous one.
+ */
+export const unclaimedRewardsExpiryRule: WarningRule = {
+  id: 'unclaimed-rewards-expiry',
+  description: 'Era rewards are close to expiring unclaimed',
+  gradedSeverity: true,
+  evaluate(trigger, { db, thresholds }) {
+    if (trigger.kind !== 'era' && trigger.kind !== 'session') return [];
+
+    const findings: RuleFinding[] = [];
+    for (const era of new UnclaimedRewardsTracker(db).getReport().eras) {
+      // Eras that expired before the last era are old news
+      if (era.erasRemaining < -1 || era.erasRemaining > thresholds.unclaimedRewardsWarningEras) continue;
+
+      const pages = `${era.unclaimedPages} unclaimed payout pages across ${era.validators.length} validators`;
+
+      if (era.erasRemaining < 0) {
+        findings.push({
+          key: `expired:${era.eraId}`,
+          type: 'timing',
+          severity: 'error',
+          eraId: era.eraId,
+          message: `Era ${era.eraId} rewards expired with ${pages}`,
+        });
+      } else {
+        const critical = era.erasRemaining <= thresholds.unclaimedRewardsCriticalEras;
+        findings.push({
+          key: `${critical ? 'critical' : 'warning'}:${era.eraId}`,
+          type: 'timing',
+          severity: critical ? 'error' : 'warning',
+          eraId: era.eraId,
+          message: `Era ${era.eraId} rewards expire after era ${era.lastClaimableEra} (${era.erasRemaining} eras left) with ${pages}`,
+        });
+      }
+    }
+
+    return findings;
+  },
+  isResolved(key, { db, thresholds }) {
+    const [level, eraIdText] = key.split(':');
+    const eraId = parseInt(eraIdText, 10);
+    const tracker = new UnclaimedRewardsTracker(db);
+
+    // Everything got claimed, or a higher level replaced this warning
+    if (!tracker.hasUnclaimedPages(eraId)) return true;
+
+    const erasRemaining = tracker.getErasRemaining(eraId);
+    if (erasRemaining === null) return false;
+    if (level === 'warning') return erasRemaining <= thresholds.unclaimedRewardsCriticalEras;
+    if (level === 'critical') return erasRemaining < 0;
+    return false;
+  },
+  canResolve(trigger) {
+    // Claimed pages are refreshed with the era rewards snapshot
+    return trigger.kind === 'era' || trigger.kind === 'session';
+  },
+};
+
+export const DEFAULT_RULES: WarningRule[] = [
+  eraDurationRule,
+  missingSessionReportRule,
+  stuckElectionPhaseRule,
+  electionPhaseOverrunRule,
+  validatorSetNotExportedRule,
+  validatorSetChurnRule,
+  bagsListLockedRule,
+  populationDropRule,
+  stakingClientModeChangeRule,
+  queuedValidatorSetStuckRule,
+  electionFailureRule,
+  unexpectedEventRule,
+  crossChainConsistencyRule,
+  unclaimedRewardsExpiryRule,
+];
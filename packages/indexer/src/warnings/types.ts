@@ -0,0 +1,50 @@
+import type { ChainLayer, WarningSeverity, WarningThresholds, WarningType } from '@staking-cc/shared';
+import type { StakingDatabase } from '../database';
+
+/**
+ * Something the indexer just processed that rules can react to
+ */
+export type RuleTrigger =
+  | { kind: 'block'; chain: ChainLayer; blockNumber: number; timestamp: number }
+  | { kind: 'event'; chain: ChainLayer; blockNumber: number; timestamp: number; eventId: string; eventType: string; data: string }
+  | { kind: 'session'; sessionId: number; blockNumber: number; timestamp: number }
+  | { kind: 'era'; eraId: number; blockNumber: number; timestamp: number }
+  | { kind: 'consistency'; blockNumber: number; timestamp: number }; // The consistency checker updated consistency_issues
+
+export interface RuleContext {
+  db: StakingDatabase;
+  thresholds: WarningThresholds;
+}
+
+/**
+ * A condition detected by a rule. eraId/sessionId default to the current era/session when omitted.
+ */
+export interface RuleFinding {
+  key: string; // Unique per occurrence - the same key is never raised twice
+  type: WarningType;
+  severity: WarningSeverity; // Replaced by the configured severity unless the rule has gradedSeverity
+  message: string;
+  eraId?: number | null;
+  sessionId?: number | null;
+}
+
+export interface WarningRule {
+  id: string;
+  description: string;
+  /**
+   * Findings carry different severities (e.g. escalating as a deadline nears), so a configured
+   * severity would flatten them and is ignored
+   */
+  gradedSeverity?: boolean;
+  evaluate(trigger: RuleTrigger, ctx: RuleContext): RuleFinding[];
+  /**
+   * Whether the condition behind a previously raised finding has cleared.
+   * Rules without this never auto-resolve (e.g. a missed event stays missed).
+   */
+  isResolved?(key: string, ctx: RuleContext): boolean;
+  /**
+   * Whether a trigger can clear previously raised findings; isResolved is only checked after these.
+   * Rules without this check on every trigger.
+   */
+  canResolve?(trigger: RuleTrigger): boolean;
+}
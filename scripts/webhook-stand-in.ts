@@ -0,0 +1,49 @@
+#!/usr/bin/env tsx
+/**
+ * Local HTTP stand-in for notification targets (webhook, Slack, Matrix)
+ * Prints every request it receives; optionally fails the first N requests to exercise retries.
+ * Usage: tsx scripts/webhook-stand-in.ts [port] [failFirst]
+ * Example: tsx scripts/webhook-stand-in.ts 9999 2
+ *
+ * Then point the API at it, e.g.:
+ *   NOTIFY_WEBHOOK_URL=http://localhost:9999/webhook
+ *   NOTIFY_SLACK_WEBHOOK_URL=http://localhost:9999/slack
+ *   NOTIFY_MATRIX_HOMESERVER=http://localhost:9999 NOTIFY_MATRIX_ROOM_ID='!room:localhost' NOTIFY_MATRIX_ACCESS_TOKEN=test
+ */
+
+import { createServer } from 'http';
+
+const port = parseInt(process.argv[2] || '9999', 10);
+let remainingFailures = parseInt(process.argv[3] || '0', 10);
+
+const server = createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    console.log(`\n${new Date().toISOString()} ${req.method} ${req.url}`);
+    if (req.headers.authorization) {
+      console.log(`Authorization: ${req.headers.authorization}`);
+    }
+
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch (e) {
+      console.log(body);
+    }
+
+    if (remainingFailures > 0) {
+      remainingFailures--;
+      console.log(`-> 500 (${remainingFailures} failures left)`);
+      res.writeHead(500, { 'Content-Type': 'text/plain' });
+      res.end('Simulated failure');
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ ok: true }));
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Notification stand-in listening on http://localhost:${port}`);
+});
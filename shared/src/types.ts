@@ -6,6 +6,15 @@ export type ChainLayer = 'relayChain' | 'assetHub';
 export interface Block {
   blockNumber: number;
   timestamp: number;
+  blockHash?: string | null; // Null for blocks indexed before hashes were stored
+  parentHash?: string | null;
+}
+
+// Contiguous run of processed blocks (stored or skipped in sparse mode)
+export interface ScannedRange {
+  startBlock: number;
+  endBlock: number;
+  endTimestamp: number;
 }
 
 // Event types - now includes event_id for Subscan linking
@@ -25,6 +34,55 @@ export interface Session {
   activeEraId: number | null; // The era that is active during this session
   plannedEraId: number | null; // The era that is being planned during this session
   validatorPointsTotal: number;
+  rcBlockNumber?: number | null; // RC block where this session began (session.NewSession)
+}
+
+// Relay Chain session, from session.NewSession / session.NewQueued / stakingAhClient events
+export interface RcSession {
+  sessionId: number;
+  blockNumber: number | null; // FK to Blocks_RC (RC block where the session began)
+  timestamp: number;
+  newSetQueued: boolean; // session.NewQueued in the same block: a new validator set becomes active next session
+  validatorSetId: number | null; // stakingAhClient.ValidatorSetReceived id (era planned on AH) received during this session
+  validatorSetCount: number | null;
+  validatorSetBlockNumber: number | null;
+}
+
+// RC -> AH session report latency: time between the RC session ending and AH receiving its report
+export interface SessionReportLatency {
+  sessionId: number;
+  rcStartBlock: number | null;
+  rcEndBlock: number | null; // RC block where the next session began
+  rcEndTimestamp: number | null;
+  ahReportBlock: number | null; // AH block with stakingRcClient.SessionReportReceived
+  ahReportTimestamp: number | null;
+  latencyMs: number | null;
+}
+
+// Cross-chain consistency (RC session/validator-set events vs AH session records)
+export type ConsistencyIssueKind =
+  | 'missing_report' // RC session ended but AH never received its report
+  | 'duplicate_report' // AH received more than one final report for the same session
+  | 'out_of_order_report' // AH received a report for an older session after a newer one
+  | 'unacknowledged_validator_set'; // AH exported a validator set that RC never received
+
+export interface ConsistencyIssue {
+  id: number;
+  key: string;
+  kind: ConsistencyIssueKind;
+  sessionId: number | null;
+  eraId: number | null;
+  message: string;
+  detectedAt: number;
+  resolvedAt: number | null;
+}
+
+export interface ConsistencyReport {
+  checkedAt: number | null;
+  fromSession: number | null; // Session range covered by the last check
+  toSession: number | null;
+  openCounts: Record<ConsistencyIssueKind, number>;
+  issues: ConsistencyIssue[];
 }
 
 // Era types
@@ -40,9 +98,405 @@ export interface Era {
   validatorsElected?: number | null; // Number of validators elected for next era
 }
 
-// Warning types (for later)
+// Per-era values charted by the era statistics dashboard
+export type EraMetric =
+  | 'durationMs'
+  | 'sessions'
+  | 'validatorsElected'
+  | 'inflationTotal' // Planck, as a float
+  | 'inflationValidators'
+  | 'inflationTreasury'
+  | 'submissions'; // Election solutions submitted during the era
+
+export interface EraStatsRow {
+  eraId: number;
+  startTime: number;
+  values: Record<EraMetric, number | null>; // null while the era is active or when the data was not indexed
+}
+
+export interface EraMetricStats {
+  average: number | null;
+  stdDev: number | null;
+  min: number | null;
+  max: number | null;
+  rollingAverage: Array<number | null>; // Trailing average over `window` eras, aligned with EraStatistics.eras
+  outliers: number[]; // Era ids more than `outlierStdDevs` standard deviations from the average
+}
+
+export interface EraStatistics {
+  eras: EraStatsRow[]; // Oldest first
+  window: number;
+  outlierStdDevs: number;
+  metrics: Record<EraMetric, EraMetricStats>;
+}
+
+// Validator set changes between elections
+export interface ValidatorSetDiff {
+  eraId: number; // Era the election ran in; the set is active from the next era
+  previousEraId: number | null; // Closest earlier era with a stored set
+  validatorCount: number;
+  previousValidatorCount: number;
+  added: string[];
+  removed: string[];
+  retained: string[];
+  churnPercent: number | null; // Share of both sets that differs; null without a previous set
+}
+
+// Stored election phase transition (election_phases)
+export interface ElectionPhase {
+  id: number;
+  eraId: number;
+  round: number;
+  phase: string;
+  blockNumber: number;
+  eventId: string;
+  timestamp: number;
+  validatorCandidates: number | null;
+  nominatorCandidates: number | null;
+  targetValidatorCount: number | null;
+  minimumScore: string | null;
+  sortedScores: string | null;
+  queuedSolutionScore: string | null;
+  validatorsElected: number | null;
+  expectedDurationBlocks: number | null;
+  status: string | null; // ongoing | completed
+}
+
+// Election phase timing: when each phase actually ended vs its on-chain expected duration
+export interface ElectionPhaseTiming {
+  id: number;
+  eraId: number;
+  round: number;
+  phase: string;
+  status: string | null; // ongoing | completed
+  startBlock: number;
+  startTime: number;
+  endBlock: number | null; // Block of the transition out of this phase; null while ongoing
+  endTime: number | null;
+  expectedDurationBlocks: number | null; // Only Signed, SignedValidation and Unsigned have one
+  actualDurationBlocks: number | null;
+  overrunBlocks: number | null; // actual - expected; negative when the phase ended early
+}
+
+export interface ElectionRoundTimeline {
+  round: number;
+  eraId: number; // Era the round started in
+  startBlock: number;
+  endBlock: number | null;
+  phases: ElectionPhaseTiming[];
+}
+
+// Election round history (election_phases + election_scores per round)
+export type ElectionSubmissionStatus = 'registered' | 'rewarded' | 'slashed' | 'ejected' | 'discarded' | 'bailed';
+
+export interface ElectionScore {
+  minimalStake: string;
+  sumStake: string;
+  sumStakeSquared: string;
+}
+
+export interface ElectionSubmission extends ElectionScore {
+  submitter: string;
+  status: ElectionSubmissionStatus;
+  blockNumber: number; // Block of the latest status change
+}
+
+export interface ElectionRoundSummary {
+  round: number;
+  eraId: number | null; // Era the round started in
+  startBlock: number | null;
+  endBlock: number | null;
+  phases: string[]; // Phases observed, in order
+  submissionCount: number;
+  outcomes: Partial<Record<ElectionSubmissionStatus, number>>; // Submissions per final status
+  winner: (ElectionScore & { submitter: string }) | null; // Rewarded submission
+  minimumScore: string | null; // JSON of the verifier's minimum score when Signed started
+  emergency: boolean; // The round fell back to the Emergency phase
+}
+
+export interface ElectionRoundDetails extends ElectionRoundSummary {
+  timeline: ElectionPhaseTiming[];
+  submissions: ElectionSubmission[]; // Best score first
+}
+
+// Signed submitter analytics across rounds
+export interface SubmitterRound extends ElectionSubmission {
+  round: number;
+  eraId: number | null;
+  minimumMinimalStake: string | null; // Minimal stake of the round's minimum score, if recorded
+  marginPercent: number | null; // How far the submission's minimal stake was above the minimum score
+}
+
+export interface SubmitterStats {
+  submitter: string;
+  roundsParticipated: number;
+  wins: number; // Rewarded submissions
+  winRate: number; // wins / roundsParticipated
+  slashCount: number;
+  outcomes: Partial<Record<ElectionSubmissionStatus, number>>;
+  averageMarginPercent: number | null; // Over rounds with a recorded minimum score
+  firstRound: number;
+  lastRound: number;
+  lastActiveBlock: number;
+}
+
+export interface SubmitterDetails extends SubmitterStats {
+  rounds: SubmitterRound[]; // Newest first
+}
+
+// "Would this win?" for a candidate score against a recorded round
+export interface ScoreSimulation {
+  round: number;
+  score: ElectionScore;
+  thresholdPerbill: number; // Improvement threshold the candidate must beat the best submission by
+  rank: number; // 1-based position among the round's submissions (ties share the better rank)
+  submissionCount: number;
+  beats: number; // Submissions with a strictly worse score
+  best: (ElectionScore & { submitter: string }) | null; // Best submission that was not slashed or bailed
+  beatsBest: boolean;
+  minimumScore: ElectionScore | null;
+  minimumSource: 'round' | 'chain' | null; // Minimum recorded when Signed started, else the live on-chain one
+  clearsMinimum: boolean | null; // Null when no minimum score is known
+  wouldWin: boolean;
+}
+
+// Rewards & payouts (snapshot of staking storage at staking.EraPaid, plus observed payouts)
+export interface ValidatorEraReward {
+  validator: string;
+  points: number;
+  expectedReward: string; // Share of the era's validator payout by reward points (Planck units)
+  pageCount: number | null; // Exposure pages to pay out; null if the era was not snapshotted
+  claimedPages: number;
+  claimedAmount: string; // Sum of observed staking.Rewarded amounts (Planck units)
+}
+
+export interface RewardsClaimPoint {
+  timestamp: number; // End of the hour the payouts fall into
+  claimedPages: number; // Cumulative
+  percentClaimed: number;
+}
+
+export interface EraRewards {
+  eraId: number;
+  validatorPayout: string | null; // staking.erasValidatorReward
+  inflationValidators: string | null; // From EraPaid, to reconcile against
+  totalPoints: number;
+  validatorCount: number;
+  totalPages: number;
+  claimedPages: number;
+  percentClaimed: number;
+  claimedAmount: string; // Observed payouts (Planck units)
+  unclaimedAmount: string; // Estimated from the expected reward of unclaimed pages (Planck units)
+  snapshotBlockNumber: number | null;
+  claimHistory: RewardsClaimPoint[];
+  validators: ValidatorEraReward[];
+}
+
+// Validator performance (reward points per era from the staking.EraPaid snapshot)
+export interface ValidatorEraPoints {
+  eraId: number;
+  points: number;
+  eraAverage: number; // Average points of the era's validators
+  eraMedian: number;
+  ratioToMedian: number | null; // points / eraMedian; null if the median is 0
+  underperforming: boolean; // Earned less than underperformanceRatio of the era median
+}
+
+export interface ValidatorPerformance {
+  validator: string;
+  erasActive: number; // Snapshotted eras the validator was paid points for
+  totalPoints: number;
+  averagePoints: number;
+  averageRatioToMedian: number | null;
+  underperformingEras: number;
+  underperformanceRatio: number;
+  eras: ValidatorEraPoints[]; // Newest first
+}
+
+export interface EraValidatorPointsEntry {
+  validator: string;
+  points: number;
+  ratioToMedian: number | null;
+  underperforming: boolean;
+}
+
+export interface EraValidatorPoints {
+  eraId: number;
+  validatorCount: number;
+  eraAverage: number;
+  eraMedian: number;
+  underperformanceRatio: number;
+  validators: EraValidatorPointsEntry[]; // Lowest points first
+}
+
+// Unclaimed rewards expiry (payouts can only be claimed for the last HistoryDepth eras)
+export interface UnclaimedValidatorRewards {
+  validator: string;
+  pageCount: number;
+  claimedPages: number;
+  unclaimedAmount: string; // Estimated from the expected reward of unclaimed pages (Planck units)
+}
+
+export interface UnclaimedEraRewards {
+  eraId: number;
+  lastClaimableEra: number; // eraId + historyDepth; payouts fail once the current era is past this
+  erasRemaining: number; // Eras left after the current one; negative once the rewards expired
+  unclaimedPages: number;
+  unclaimedAmount: string; // Planck units
+  validators: UnclaimedValidatorRewards[];
+}
+
+export interface UnclaimedRewardsReport {
+  currentEra: number | null; // Latest planned or active era
+  historyDepth: number;
+  eras: UnclaimedEraRewards[]; // Oldest first
+}
+
+// Offences and slashes, parsed from staking offence/slash events on either chain
+// reported -> deferred (slash computed, waiting for its slash era) -> applied, or cancelled by governance
+export type SlashStatus = 'reported' | 'deferred' | 'applied' | 'cancelled';
+
+export interface SlashedStaker {
+  staker: string;
+  amount: string; // Planck units
+  blockNumber: number;
+  timestamp: number;
+  eventId: string;
+}
+
+export interface Slash {
+  id: number;
+  chain: ChainLayer;
+  offender: string;
+  offenceEra: number | null; // Era the offence happened in; null for slashes seen without a report
+  slashEra: number | null; // Era the slash applies in; null until computed
+  fraction: number | null; // Share of the exposure slashed (0-1)
+  status: SlashStatus;
+  overdue: boolean; // Still deferred although its slash era has started
+  amount: string; // Sum of the staking.Slashed amounts of the offender and its nominators (Planck units)
+  stakersSlashed: number;
+  reportedBlock: number | null;
+  reportedAt: number | null;
+  appliedBlock: number | null;
+  appliedAt: number | null;
+  updatedBlock: number;
+  stakers?: SlashedStaker[];
+}
+
+// Election incidents: opened by staking.StakingElectionFailed or the Emergency phase
+// open -> queued (a valid solution was queued) -> recovered (the solution was exported, Export -> Off)
+export type ElectionIncidentStatus = 'open' | 'queued' | 'recovered';
+export type ElectionIncidentCause = 'election_failed' | 'emergency';
+export type ElectionIncidentEventKind = 'trigger' | 'phase' | 'governance' | 'verifier' | 'signed' | 'staking';
+
+export interface ElectionIncidentEvent {
+  chain: ChainLayer;
+  eventId: string;
+  eventType: string;
+  kind: ElectionIncidentEventKind; // governance: ForceEra, or a phase change out of Emergency (only an admin can do that)
+  detail: string | null; // "from → to" for phase transitions, otherwise the event data
+  blockNumber: number;
+  timestamp: number;
+}
+
+export interface ElectionIncident {
+  id: number;
+  chain: ChainLayer; // Chain of the event that opened the incident
+  cause: ElectionIncidentCause;
+  status: ElectionIncidentStatus;
+  round: number | null;
+  eraId: number | null;
+  openedBlock: number;
+  openedAt: number;
+  openedEventId: string;
+  queuedBlock: number | null;
+  queuedAt: number | null;
+  recoveredBlock: number | null;
+  recoveredAt: number | null;
+  recoveryMs: number | null; // Time to recovery, from opening to the exported solution
+  eventCount: number;
+  events?: ElectionIncidentEvent[]; // Oldest first
+}
+
+// Staking population sampled from Asset Hub storage at every session boundary (SessionReportReceived)
+export interface StakingPopulationSample {
+  sessionId: number; // The session that just ended
+  blockNumber: number;
+  timestamp: number;
+  eraId: number | null; // Active era
+  validatorCount: number | null; // staking.counterForValidators
+  nominatorCount: number | null; // staking.counterForNominators
+  bagsListNodes: number | null; // voterList (bags list) counterForListNodes
+  bagsListLocked: boolean | null; // The bags list rejects rebags/moves, e.g. while an election snapshot is taken
+  minNominatorBond: string | null; // Planck units
+  minValidatorBond: string | null;
+  minActiveStake: string | null;
+}
+
+// Relay Chain stakingAhClient state, sampled when a session starts on the Relay Chain (session.NewSession)
+export interface StakingClientRcSample {
+  blockNumber: number;
+  timestamp: number;
+  mode: string | null; // Passive, Buffered or Active
+  queuedValidatorSetId: number | null; // Validator set received from AH that the session pallet has not taken yet
+  queuedValidatorsCount: number | null;
+  validatorPointsCount: number | null; // Validators with points not yet reported to AH
+  validatorPointsTotal: number | null;
+}
+
+// Asset Hub stakingRcClient state, sampled when the session's report is received (SessionReportReceived)
+export interface StakingClientAhSample {
+  blockNumber: number;
+  timestamp: number;
+  lastSessionReportEndIndex: number | null;
+  outgoingValidatorSetId: number | null; // Validator set AH is still sending to the Relay Chain
+}
+
+export interface StakingClientSample {
+  sessionId: number;
+  relayChain: StakingClientRcSample | null;
+  assetHub: StakingClientAhSample | null;
+}
+
+// Latest staking client state on both chains (Migration / Client Health)
+export interface StakingClientStatus {
+  relayChain: (StakingClientRcSample & {
+    sessionId: number;
+    modeSince: number; // First session of the current mode's run of samples
+    queuedSince: number | null; // First session the queued validator set was seen in
+  }) | null;
+  assetHub: (StakingClientAhSample & { sessionId: number }) | null;
+}
+
+// A stored value of a watched storage item (config/storage-watch.json)
+export interface StorageSnapshot {
+  watchId: string;
+  chain: ChainLayer;
+  pallet: string;
+  item: string;
+  keys: StorageWatchKey[]; // Resolved map keys
+  blockNumber: number;
+  timestamp: number;
+  triggeredBy: string; // e.g. "session 11935", "era 1982", "block", "staking.ForceEra"
+  value: unknown; // Decoded value; null for an empty Option
+}
+
+// A watched storage item with its latest snapshot
+export interface WatchedStorageItem {
+  watchId: string;
+  chain: ChainLayer;
+  pallet: string;
+  item: string;
+  snapshotCount: number;
+  lastBlockNumber: number;
+  lastTimestamp: number;
+  lastValue: unknown;
+}
+
+// Warning types
 export type WarningType = 'timing' | 'missing_event' | 'unexpected_event' | 'election_issue';
 export type WarningSeverity = 'info' | 'warning' | 'error';
+export type WarningStatus = 'open' | 'acknowledged' | 'resolved';
 
 export interface Warning {
   id?: number;
@@ -53,6 +507,26 @@ export interface Warning {
   message: string;
   severity: WarningSeverity;
   timestamp: number;
+  status?: WarningStatus; // Defaults to 'open' when inserted
+  note?: string | null; // Operator note from acknowledge/resolve
+  acknowledgedAt?: number | null;
+  resolvedAt?: number | null;
+  autoResolved?: boolean; // Resolved by the indexer because the condition cleared
+}
+
+// Outbound warning notifications (notification_queue)
+export type NotificationStatus = 'pending' | 'sent' | 'failed';
+
+export interface NotificationRecord {
+  id: number;
+  target: string; // Configured target name: webhook, slack or matrix
+  warningCount: number;
+  status: NotificationStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+  createdAt: number;
+  sentAt: number | null;
 }
 
 // RPC Configuration
@@ -66,8 +540,63 @@ export interface RpcConfig {
   kusama: RpcEndpointConfig;
 }
 
+// Warning rule configuration (config/warning-rules.json)
+export interface WarningThresholds {
+  expectedEraDurationMs: number;
+  eraDurationTolerance: number; // Allowed deviation as a fraction of the expected duration
+  expectedSessionsPerEra: number;
+  maxSessionReportIntervalMs: number; // Max time between two SessionReportReceived events
+  maxSessionReportLatencyMs: number; // Max time between a session ending on RC and its report arriving on AH
+  maxPhaseDurationBlocks: Record<string, number>; // For phases without an on-chain duration (Snapshot, Done, Export)
+  phaseOverrunGraceBlocks: number;
+  maxSyncLagMs: number; // Last indexed block older than this = out-of-sync
+  unclaimedRewardsWarningEras: number; // Warn when an era's unclaimed rewards expire within this many eras
+  unclaimedRewardsCriticalEras: number; // Escalate to an error within this many eras
+  maxValidatorSetChurnPercent: number; // Warn when an elected set differs more than this from the previous one
+  maxBagsListLockedSessions: number; // Warn when the bags list stays locked for more consecutive session samples than this
+  maxPopulationDropPercent: number; // Warn when nominator/validator counts drop more than this between two sessions
+  maxQueuedValidatorSetSessions: number; // Warn when the RC keeps the same queued validator set for more session starts than this
+}
+
+export interface WarningRuleSettings {
+  enabled: boolean;
+  severity?: WarningSeverity; // Overrides the rule's severity, unless it picks one per warning
+}
+
+export interface ChainWarningRulesConfig {
+  thresholds: WarningThresholds;
+  rules: Record<string, WarningRuleSettings>; // Keyed by rule id; rules not listed are enabled
+}
+
+export type WarningRulesConfig = Record<ChainType, ChainWarningRulesConfig>;
+
+// Storage snapshot watch list (config/storage-watch.json)
+export type StorageWatchTrigger =
+  | { type: 'session' } // Asset Hub session report
+  | { type: 'era' } // Asset Hub session report that starts an era
+  | { type: 'blocks'; interval: number } // Every block number divisible by interval
+  | { type: 'event'; event: string }; // section.Method, matched case-insensitively
+
+// "$session" / "$era" are replaced by the triggering session / era
+export type StorageWatchKey = string | number;
+
+export interface StorageWatchItem {
+  id: string; // Unique per chain; snapshots are stored under it
+  chain: ChainLayer;
+  pallet: string; // As exposed on api.query, e.g. staking
+  item: string; // e.g. forceEra
+  keys?: StorageWatchKey[]; // Map keys
+  trigger: StorageWatchTrigger;
+}
+
+export interface ChainStorageWatchConfig {
+  items: StorageWatchItem[];
+}
+
+export type StorageWatchConfig = Record<ChainType, ChainStorageWatchConfig>;
+
 // Sync status types
-export type SyncStatus = 'syncing' | 'in-sync' | 'out-of-sync';
+export type SyncStatus = 'syncing' | 'in-sync' | 'out-of-sync' | 'stopped'; // stopped: a closed era range (SYNC_ERA_RANGE) was synced
 
 export interface ChainSyncInfo {
   status: SyncStatus;
@@ -83,6 +612,33 @@ export interface ChainSyncInfo {
 }
 
 // API Response types
+// Era / session boundary forecast from observed session lengths
+export type ForecastConfidence = 'high' | 'medium' | 'low';
+
+export interface ForecastRange {
+  earliest: number; // Timestamps
+  expected: number;
+  latest: number | null; // Null when nothing bounds it (e.g. the election is in Emergency)
+}
+
+export interface EraForecast {
+  generatedAt: number;
+  sessionDurationMs: number; // Median of the observed session lengths (configured length when too few)
+  observedSessions: number; // Completed sessions the forecast is based on
+  currentSession: number;
+  sessionStartedAt: number; // When the previous session's report arrived on Asset Hub
+  sessionProgress: number; // 0-1, of the expected session length
+  nextSession: ForecastRange;
+  currentEra: number | null;
+  sessionInEra: number | null; // 1-based
+  sessionsPerEra: number;
+  eraProgress: number | null; // 0-1
+  nextEra: ForecastRange | null;
+  electionPhase: string | null; // Latest election phase, which can hold the era open
+  confidence: ForecastConfidence;
+  notes: string[]; // Why the confidence is reduced
+}
+
 export interface ApiStatus {
   chain: ChainType;
   currentEra: number | null;
@@ -92,6 +648,8 @@ export interface ApiStatus {
   rpcEndpointAH: string;
   relayChain: ChainSyncInfo;
   assetHub: ChainSyncInfo;
+  stakingClient: StakingClientStatus | null;
+  forecast: EraForecast | null;
 }
 
 export interface EraDetails extends Era {
@@ -121,8 +679,16 @@ export interface DatabaseConfig {
 }
 
 // Indexer configuration
+// Eras to backfill: the last N eras (including the active one) or an explicit range (toEra null = up to the active era)
+export type EraSyncRange = { lastEras: number } | { fromEra: number; toEra: number | null };
+
+// full: store every block; sparse: store only blocks with tracked events plus periodic checkpoints
+export type IndexMode = 'full' | 'sparse';
+
 export interface IndexerConfig {
   syncBlocks: number; // How many blocks back from current height to sync
+  syncEras?: EraSyncRange; // When set, sync the RC and AH blocks covering these eras instead of syncBlocks
+  indexMode?: IndexMode;
 }
 
 // Indexer state